@@ -0,0 +1,582 @@
+'use client'
+
+/**
+ * Scenario Comparison - A/B diff of two networks or two configs
+ *
+ * Runs the same funding through side A and side B and shows:
+ * - per-account balance deltas, with accounts that changed state highlighted
+ * - per-allocation flow deltas
+ * - distribution metrics for each side
+ */
+
+import { useState } from 'react'
+import { cloneAccounts, type SolverMode } from '@/lib/flow-funding/engine'
+import {
+  compareScenarios,
+  type ComparisonResult,
+} from '@/lib/flow-funding/compare'
+import {
+  ALL_SCENARIOS,
+  getScenario,
+  type Scenario,
+} from '@/lib/flow-funding/scenarios'
+import type { Account, AccountState } from '@/lib/flow-funding/types'
+import {
+  DEFAULT_STRATEGY,
+  STRATEGY_OPTIONS,
+  type StrategyId,
+} from '@/lib/core/strategies'
+import {
+  computeMetrics,
+  fromDistributionResult,
+  type DistributionMetrics,
+} from '@/lib/core/metrics'
+import {
+  deserializeScenario,
+  parseNetworkDocumentOf,
+  serializeScenario,
+} from '@/lib/network-io/serialization'
+import { NetworkFileButtons } from '@/components/network-file-buttons'
+import { MetricsPanel } from '@/components/metrics-panel'
+
+type CompareMode = 'networks' | 'configs'
+
+/** Side B network that starts as a copy of A and is edited in place */
+const VARIANT = 'variant'
+
+interface SideConfig {
+  solver: SolverMode
+  strategy: StrategyId
+}
+
+const STATE_LABELS: Record<AccountState, string> = {
+  'below-minimum': 'Below Min',
+  sustainable: 'Sustainable',
+  'at-maximum': 'At Max',
+  overflowing: 'Overflowing',
+}
+
+const STATE_COLORS: Record<AccountState, string> = {
+  'below-minimum': 'text-red-400',
+  sustainable: 'text-yellow-400',
+  'at-maximum': 'text-green-400',
+  overflowing: 'text-blue-400',
+}
+
+const INPUT_CLASS =
+  'w-full bg-slate-900 border border-slate-600 rounded-lg px-4 py-2 text-white focus:outline-none focus:ring-2 focus:ring-blue-500'
+
+const CARD_CLASS = 'bg-slate-800/50 backdrop-blur rounded-xl p-6 border border-slate-700'
+
+const signed = (value: number) => `${value >= 0 ? '+' : '-'}$${Math.abs(value).toFixed(2)}`
+
+const deltaColor = (value: number) =>
+  Math.abs(value) < 0.005 ? 'text-slate-500' : value > 0 ? 'text-green-400' : 'text-red-400'
+
+export default function ComparePage() {
+  const [mode, setMode] = useState<CompareMode>('networks')
+  const [funding, setFunding] = useState<number>(1500)
+  const [targetAccountId, setTargetAccountId] = useState<string>('')
+
+  const [scenarioA, setScenarioA] = useState<Scenario>(
+    () => getScenario('worker-coop') ?? ALL_SCENARIOS[0]
+  )
+  const [sourceB, setSourceB] = useState<string>(VARIANT)
+  const [accountsB, setAccountsB] = useState<Account[]>(() =>
+    cloneAccounts(scenarioA.accounts)
+  )
+  const [editedAccountId, setEditedAccountId] = useState<string>('')
+
+  const [configA, setConfigA] = useState<SideConfig>({
+    solver: 'iterative',
+    strategy: DEFAULT_STRATEGY,
+  })
+  const [configB, setConfigB] = useState<SideConfig>({
+    solver: 'iterative',
+    strategy: DEFAULT_STRATEGY,
+  })
+
+  const [comparison, setComparison] = useState<ComparisonResult | null>(null)
+  const [metrics, setMetrics] = useState<{
+    a: DistributionMetrics
+    b: DistributionMetrics
+  } | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  // Comparing configs runs A's network on both sides
+  const networkB = mode === 'configs' ? scenarioA.accounts : accountsB
+
+  const loadScenarioA = (scenario: Scenario) => {
+    setScenarioA(scenario)
+    if (sourceB === VARIANT) {
+      setAccountsB(cloneAccounts(scenario.accounts))
+      setEditedAccountId('')
+    }
+    setTargetAccountId('')
+    setComparison(null)
+  }
+
+  const handleSourceBChange = (value: string) => {
+    setSourceB(value)
+    const scenario = value === VARIANT ? scenarioA : getScenario(value)
+    if (scenario) {
+      setAccountsB(cloneAccounts(scenario.accounts))
+    }
+    setEditedAccountId('')
+    setComparison(null)
+  }
+
+  const handleImportB = (json: string) => {
+    const scenario = deserializeScenario(parseNetworkDocumentOf(json, 'flow-funding'))
+    setSourceB(VARIANT)
+    setAccountsB(scenario.accounts)
+    setEditedAccountId('')
+    setComparison(null)
+  }
+
+  const updateAllocation = (sourceId: string, targetId: string, percentage: number | null) => {
+    setAccountsB(accounts =>
+      accounts.map(account => {
+        if (account.id !== sourceId) return account
+        const allocations = new Map(account.allocations)
+        if (percentage === null) {
+          allocations.delete(targetId)
+        } else {
+          allocations.set(targetId, Math.max(0, Math.min(100, percentage)))
+        }
+        return { ...account, allocations }
+      })
+    )
+    setSourceB(VARIANT)
+    setComparison(null)
+  }
+
+  const handleCompare = () => {
+    try {
+      const result = compareScenarios(
+        {
+          accounts: scenarioA.accounts,
+          config: { maxIterations: 100, epsilon: 0.01, ...configA },
+        },
+        {
+          accounts: networkB,
+          config: {
+            maxIterations: 100,
+            epsilon: 0.01,
+            ...(mode === 'configs' ? configB : configA),
+          },
+        },
+        funding,
+        targetAccountId || undefined
+      )
+      const injected = targetAccountId ? funding : 0
+      setComparison(result)
+      setMetrics({
+        a: computeMetrics(fromDistributionResult(scenarioA.accounts, result.resultA, injected)),
+        b: computeMetrics(fromDistributionResult(networkB, result.resultB, injected)),
+      })
+      setError(null)
+    } catch (err) {
+      setComparison(null)
+      setError(err instanceof Error ? err.message : String(err))
+    }
+  }
+
+  const editedAccount = accountsB.find(a => a.id === editedAccountId)
+  const changedCount = comparison?.accounts.filter(d => d.stateChanged).length ?? 0
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-950 via-slate-900 to-slate-800 text-white">
+      <div className="container mx-auto px-6 py-12">
+        {/* Header */}
+        <div className="mb-8">
+          <h1 className="text-5xl font-bold mb-4 bg-gradient-to-r from-blue-400 to-purple-400 bg-clip-text text-transparent">
+            Compare Scenarios
+          </h1>
+          <p className="text-xl text-slate-300 max-w-3xl">
+            Run the same funding through two allocation setups and see what changes.
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+          {/* Left Panel: Setup */}
+          <div className="lg:col-span-1 space-y-6">
+            {/* Mode Selector */}
+            <div className={CARD_CLASS}>
+              <h2 className="text-xl font-semibold mb-4">Compare</h2>
+              <div className="flex gap-2">
+                {(['networks', 'configs'] as const).map(m => (
+                  <button
+                    key={m}
+                    onClick={() => {
+                      setMode(m)
+                      setComparison(null)
+                    }}
+                    className={`flex-1 py-3 px-4 rounded-lg font-semibold transition-all ${
+                      mode === m
+                        ? 'bg-gradient-to-r from-blue-500 to-purple-500 text-white'
+                        : 'bg-slate-700 text-slate-300 hover:bg-slate-600'
+                    }`}
+                  >
+                    {m === 'networks' ? '🕸️ Two Networks' : '⚙️ Two Configs'}
+                  </button>
+                ))}
+              </div>
+              <p className="mt-3 text-sm text-slate-400">
+                {mode === 'networks'
+                  ? 'Same config, different allocation setups'
+                  : 'Same network, different solver or strategy'}
+              </p>
+
+              <label className="block text-sm text-slate-400 mt-4 mb-2">
+                Funding Amount ($)
+              </label>
+              <input
+                type="number"
+                value={funding}
+                onChange={e => setFunding(Math.max(0, Number(e.target.value)))}
+                className={INPUT_CLASS}
+                min="0"
+                step="100"
+              />
+
+              <label className="block text-sm text-slate-400 mt-4 mb-2">
+                Funding goes to
+              </label>
+              <select
+                value={targetAccountId}
+                onChange={e => setTargetAccountId(e.target.value)}
+                className={INPUT_CLASS}
+              >
+                <option value="">All accounts (global)</option>
+                {scenarioA.accounts.map(a => (
+                  <option key={a.id} value={a.id}>
+                    {a.name}
+                  </option>
+                ))}
+              </select>
+
+              <button
+                onClick={handleCompare}
+                className="w-full mt-6 bg-gradient-to-r from-blue-500 to-purple-500 hover:from-blue-600 hover:to-purple-600 text-white font-semibold py-3 px-6 rounded-lg transition-all"
+              >
+                Run Comparison
+              </button>
+              {error && <p className="mt-3 text-sm text-red-400">{error}</p>}
+            </div>
+
+            {/* Side A */}
+            <div className={CARD_CLASS}>
+              <h2 className="text-xl font-semibold mb-4">
+                <span className="text-blue-400">A</span> · {mode === 'networks' ? 'Network' : 'Network & Config'}
+              </h2>
+              <select
+                value={ALL_SCENARIOS.some(s => s.id === scenarioA.id) ? scenarioA.id : 'imported'}
+                onChange={e => {
+                  const scenario = getScenario(e.target.value)
+                  if (scenario) loadScenarioA(scenario)
+                }}
+                className={INPUT_CLASS}
+              >
+                {ALL_SCENARIOS.map(s => (
+                  <option key={s.id} value={s.id}>
+                    {s.name}
+                  </option>
+                ))}
+                {!ALL_SCENARIOS.some(s => s.id === scenarioA.id) && (
+                  <option value="imported" disabled>
+                    {scenarioA.name} (imported)
+                  </option>
+                )}
+              </select>
+              <div className="mt-4">
+                <NetworkFileButtons
+                  fileName={scenarioA.id}
+                  onExport={() => serializeScenario(scenarioA)}
+                  onImport={json =>
+                    loadScenarioA(deserializeScenario(parseNetworkDocumentOf(json, 'flow-funding')))
+                  }
+                  buttonClassName="px-3 py-2 rounded-lg text-sm bg-slate-700 hover:bg-slate-600 transition-colors"
+                />
+              </div>
+              <ConfigFields config={configA} onChange={setConfigA} />
+            </div>
+
+            {/* Side B */}
+            <div className={CARD_CLASS}>
+              <h2 className="text-xl font-semibold mb-4">
+                <span className="text-purple-400">B</span> · {mode === 'networks' ? 'Network' : 'Config'}
+              </h2>
+
+              {mode === 'configs' ? (
+                <ConfigFields config={configB} onChange={setConfigB} />
+              ) : (
+                <div className="space-y-4">
+                  <select
+                    value={sourceB}
+                    onChange={e => handleSourceBChange(e.target.value)}
+                    className={INPUT_CLASS}
+                  >
+                    <option value={VARIANT}>Variant of A (editable)</option>
+                    {ALL_SCENARIOS.map(s => (
+                      <option key={s.id} value={s.id}>
+                        {s.name}
+                      </option>
+                    ))}
+                  </select>
+
+                  <NetworkFileButtons
+                    fileName={`${scenarioA.id}-variant`}
+                    onExport={() =>
+                      serializeScenario({
+                        ...scenarioA,
+                        id: `${scenarioA.id}-variant`,
+                        name: `${scenarioA.name} (variant)`,
+                        accounts: accountsB,
+                      })
+                    }
+                    onImport={handleImportB}
+                    buttonClassName="px-3 py-2 rounded-lg text-sm bg-slate-700 hover:bg-slate-600 transition-colors"
+                  />
+
+                  <div>
+                    <label className="block text-sm text-slate-400 mb-2">
+                      Edit allocations of
+                    </label>
+                    <select
+                      value={editedAccountId}
+                      onChange={e => setEditedAccountId(e.target.value)}
+                      className={INPUT_CLASS}
+                    >
+                      <option value="">Choose an account…</option>
+                      {accountsB.map(a => (
+                        <option key={a.id} value={a.id}>
+                          {a.name}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+
+                  {editedAccount && (
+                    <div className="space-y-2">
+                      {Array.from(editedAccount.allocations).map(([targetId, percentage]) => (
+                        <div key={targetId} className="flex items-center gap-2 text-sm">
+                          <span className="flex-1 text-slate-300">
+                            → {accountsB.find(a => a.id === targetId)?.name ?? targetId}
+                          </span>
+                          <input
+                            type="number"
+                            value={percentage}
+                            onChange={e =>
+                              updateAllocation(editedAccount.id, targetId, Number(e.target.value))
+                            }
+                            className="w-20 bg-slate-900 border border-slate-600 rounded-lg px-2 py-1 text-white text-right"
+                            min="0"
+                            max="100"
+                          />
+                          <span className="text-slate-500">%</span>
+                          <button
+                            onClick={() => updateAllocation(editedAccount.id, targetId, null)}
+                            className="text-slate-500 hover:text-red-400"
+                            title="Remove allocation"
+                          >
+                            ✕
+                          </button>
+                        </div>
+                      ))}
+                      <select
+                        value=""
+                        onChange={e => updateAllocation(editedAccount.id, e.target.value, 0)}
+                        className={INPUT_CLASS}
+                      >
+                        <option value="">+ Add allocation to…</option>
+                        {accountsB
+                          .filter(
+                            a => a.id !== editedAccount.id && !editedAccount.allocations.has(a.id)
+                          )
+                          .map(a => (
+                            <option key={a.id} value={a.id}>
+                              {a.name}
+                            </option>
+                          ))}
+                      </select>
+                      <p className="text-xs text-slate-500">
+                        Total:{' '}
+                        {Array.from(editedAccount.allocations.values())
+                          .reduce((sum, p) => sum + p, 0)
+                          .toFixed(0)}
+                        % (overflow is split in proportion)
+                      </p>
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          </div>
+
+          {/* Right Panel: Results */}
+          <div className="lg:col-span-2 space-y-8">
+            {!comparison ? (
+              <div className={`${CARD_CLASS} text-center text-slate-400`}>
+                Set up both sides and click <strong>Run Comparison</strong>.
+              </div>
+            ) : (
+              <>
+                {/* Metrics */}
+                {metrics && (
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                    <MetricsPanel
+                      metrics={metrics.a}
+                      className={`${CARD_CLASS} border-blue-500/40`}
+                    />
+                    <MetricsPanel
+                      metrics={metrics.b}
+                      className={`${CARD_CLASS} border-purple-500/40`}
+                    />
+                  </div>
+                )}
+
+                {/* Account deltas */}
+                <div className={CARD_CLASS}>
+                  <div className="flex items-center justify-between mb-4">
+                    <h2 className="text-2xl font-semibold">Accounts</h2>
+                    <span className="text-sm text-amber-400">
+                      {changedCount} changed state
+                    </span>
+                  </div>
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="border-b border-slate-700 text-slate-400">
+                          <th className="text-left py-3 px-4 font-semibold">Account</th>
+                          <th className="text-right py-3 px-4 font-semibold">A</th>
+                          <th className="text-right py-3 px-4 font-semibold">B</th>
+                          <th className="text-right py-3 px-4 font-semibold">Δ (B − A)</th>
+                          <th className="text-left py-3 px-4 font-semibold">State</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {comparison.accounts.map(d => (
+                          <tr
+                            key={d.accountId}
+                            className={`border-b border-slate-700/50 ${
+                              d.stateChanged ? 'bg-amber-500/10' : ''
+                            }`}
+                          >
+                            <td className="py-3 px-4 font-medium">
+                              {d.stateChanged && <span className="mr-2 text-amber-400">●</span>}
+                              {d.name}
+                            </td>
+                            <td className="py-3 px-4 text-right">
+                              {d.balanceA === null ? '—' : `$${d.balanceA.toFixed(2)}`}
+                            </td>
+                            <td className="py-3 px-4 text-right">
+                              {d.balanceB === null ? '—' : `$${d.balanceB.toFixed(2)}`}
+                            </td>
+                            <td className={`py-3 px-4 text-right font-semibold ${deltaColor(d.delta)}`}>
+                              {signed(d.delta)}
+                            </td>
+                            <td className="py-3 px-4">
+                              <StateLabel state={d.stateA} />
+                              {d.stateChanged && (
+                                <>
+                                  <span className="text-slate-500"> → </span>
+                                  <StateLabel state={d.stateB} />
+                                </>
+                              )}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+
+                {/* Flow deltas */}
+                <div className={CARD_CLASS}>
+                  <h2 className="text-2xl font-semibold mb-4">Flows</h2>
+                  {comparison.flows.length === 0 ? (
+                    <p className="text-sm text-slate-500">No funds moved along allocations on either side.</p>
+                  ) : (
+                    <div className="overflow-x-auto">
+                      <table className="w-full text-sm">
+                        <thead>
+                          <tr className="border-b border-slate-700 text-slate-400">
+                            <th className="text-left py-3 px-4 font-semibold">Allocation</th>
+                            <th className="text-right py-3 px-4 font-semibold">A</th>
+                            <th className="text-right py-3 px-4 font-semibold">B</th>
+                            <th className="text-right py-3 px-4 font-semibold">Δ (B − A)</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {comparison.flows.map(f => (
+                            <tr key={`${f.source}->${f.target}`} className="border-b border-slate-700/50">
+                              <td className="py-3 px-4">
+                                {f.source} → {f.target}
+                              </td>
+                              <td className="py-3 px-4 text-right">${f.amountA.toFixed(2)}</td>
+                              <td className="py-3 px-4 text-right">${f.amountB.toFixed(2)}</td>
+                              <td className={`py-3 px-4 text-right font-semibold ${deltaColor(f.delta)}`}>
+                                {signed(f.delta)}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Solver and strategy selects for one side
+ */
+function ConfigFields({
+  config,
+  onChange,
+}: {
+  config: SideConfig
+  onChange: (config: SideConfig) => void
+}) {
+  return (
+    <div className="space-y-4 mt-4">
+      <div>
+        <label className="block text-sm text-slate-400 mb-2">Solver</label>
+        <select
+          value={config.solver}
+          onChange={e => onChange({ ...config, solver: e.target.value as SolverMode })}
+          className={INPUT_CLASS}
+        >
+          <option value="iterative">Iterative (epsilon cutoff)</option>
+          <option value="exact">Exact (closed-form fixed point)</option>
+        </select>
+      </div>
+      <div>
+        <label className="block text-sm text-slate-400 mb-2">Distribution Strategy</label>
+        <select
+          value={config.strategy}
+          onChange={e => onChange({ ...config, strategy: e.target.value as StrategyId })}
+          className={INPUT_CLASS}
+        >
+          {STRATEGY_OPTIONS.map(option => (
+            <option key={option.id} value={option.id}>
+              {option.name}
+            </option>
+          ))}
+        </select>
+      </div>
+    </div>
+  )
+}
+
+function StateLabel({ state }: { state: AccountState | null }) {
+  if (!state) return <span className="text-slate-500">—</span>
+  return <span className={STATE_COLORS[state]}>{STATE_LABELS[state]}</span>
+}
@@ -1,6 +1,7 @@
 'use client'
 
 import { useState } from 'react'
+import Link from 'next/link'
 
 interface Demo {
   number: number
@@ -19,17 +20,18 @@ const demos: Record<string, Demo[]> = {
     {
       number: 1,
       title: 'Threshold-Based Flow Funding (Interactive)',
-      description: 'Complete interactive demo with Milestones 1-3: Static visualization, interactive allocations, and initial distribution algorithm. Create accounts, draw allocation arrows, add funding, and watch resources flow.',
+      description: 'Complete interactive demo with Milestones 1-4: Static visualization, interactive allocations, initial distribution and overflow redistribution. Create accounts, draw allocation arrows, add funding, and watch resources flow.',
       path: '/tbff',
       type: 'Interactive Simulation',
       status: 'complete',
-      milestone: 'Milestones 1-3 Complete',
+      milestone: 'Milestones 1-4 Complete',
       screenshot: '/screenshots/tbff.png',
       features: [
         'Visual threshold-based coloring',
         'Interactive allocation creation',
         'Automatic normalization',
         'Initial distribution algorithm',
+        'Overflow redistribution with replay',
         'Multiple sample networks',
         'Real-time balance updates'
       ]
@@ -102,6 +104,20 @@ const demos: Record<string, Demo[]> = {
         'Threshold visualization',
         'Network simulation'
       ]
+    },
+    {
+      number: 6,
+      title: 'Scenario Comparison',
+      description: 'Run the same funding through two flow funding networks, or one network under two solver/strategy configs, and diff the outcomes side by side.',
+      path: '/compare',
+      type: 'Analysis Tool',
+      status: 'beta',
+      features: [
+        'Editable variant networks',
+        'Per-account balance deltas',
+        'Flow-edge deltas',
+        'State change highlighting'
+      ]
     }
   ]
 }
@@ -346,9 +362,9 @@ export default function DemosPage() {
             Exploring threshold-based resource allocation and continuous flow dynamics
           </p>
           <div className="flex justify-center gap-6 text-sm">
-            <a href="/" className="text-purple-600 font-semibold hover:underline">
+            <Link href="/" className="text-purple-600 font-semibold hover:underline">
               📖 Project Home
-            </a>
+            </Link>
             <span className="text-gray-400">•</span>
             <a href="/italism" className="text-purple-600 font-semibold hover:underline">
               🎨 Interactive Canvas
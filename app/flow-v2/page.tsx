@@ -7,31 +7,67 @@
  * steady-state flow equilibrium
  */
 
-import { useState, useEffect, useCallback, useMemo } from 'react'
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react'
 import type { FlowNode, FlowNetwork, ScenarioV2 } from '../../lib/flow-v2/types'
+import type { Diagnostic } from '../../lib/core/types'
 import {
   calculateSteadyState,
   getFlowZone,
   cloneNodes,
   updateBalances,
   perSecondToPerMonth,
+  validateNetwork,
 } from '../../lib/flow-v2/engine-v2'
 import {
   ALL_SCENARIOS_V2,
   linearChainV2,
 } from '../../lib/flow-v2/scenarios-v2'
+import {
+  deserializeScenarioV2,
+  expectNetworkModel,
+  parseNetworkDocumentOf,
+  serializeScenarioV2,
+} from '../../lib/network-io/serialization'
+import type { SharedNetworkState } from '../../lib/network-io/share'
+import { NetworkFileButtons } from '../../components/network-file-buttons'
+import { ShareLinkButton } from '../../components/share-link-button'
+import { ProblemsPanel, diagnosticTarget } from '../../components/problems-panel'
+import { MetricsPanel } from '../../components/metrics-panel'
+import { computeMetrics, fromFlowNetworkV2 } from '../../lib/core/metrics'
+import { layoutOf, toFlowNodesV2 } from '../../lib/core/adapters'
+import {
+  generatedName,
+  generateGraph,
+  type GeneratorConfig,
+} from '../../lib/core/generators'
+import { GeneratePanel } from '../../components/generate-panel'
+import { detailForCount } from '../../lib/core/viewport'
 
 /**
  * Flow particle for animation
  */
 interface FlowParticle {
-  id: string
   sourceId: string
   targetId: string
   progress: number  // 0 to 1
-  startTime: number
 }
 
+/**
+ * Simulated seconds per real second (balances accumulate over simulated time)
+ */
+const TIME_SCALES = [
+  { label: 'Real time', value: 1 },
+  { label: '1 day / s', value: 24 * 60 * 60 },
+  { label: '1 week / s', value: 7 * 24 * 60 * 60 },
+  { label: '1 month / s', value: 30 * 24 * 60 * 60 },
+]
+
+/**
+ * How often the running simulation is copied into React state (ms) -
+ * re-rendering every frame doesn't scale to large networks
+ */
+const SNAPSHOT_INTERVAL_MS = 250
+
 /**
  * Main component
  */
@@ -44,31 +80,55 @@ export default function FlowFundingV2() {
     cloneNodes(currentScenario.nodes)
   )
 
-  // Network state (calculated)
-  const [network, setNetwork] = useState<FlowNetwork | null>(null)
+  /**
+   * Steady state of the current nodes (recalculated whenever they change)
+   */
+  const network = useMemo<FlowNetwork | null>(() => {
+    try {
+      return calculateSteadyState(cloneNodes(nodes), {
+        verbose: false,
+      })
+    } catch (error) {
+      console.error('Failed to calculate steady state:', error)
+      return null
+    }
+  }, [nodes])
 
-  // Animation state
-  const [particles, setParticles] = useState<FlowParticle[]>([])
+  // Animation state - the simulation runs in a ref, particles are drawn
+  // straight into one SVG path, and balances/time reach React as snapshots
+  const simulationRef = useRef({
+    balances: new Map<string, number>(),
+    particles: [] as FlowParticle[],
+    time: 0,
+  })
+  const particlesPathRef = useRef<SVGPathElement>(null)
+  const [balances, setBalances] = useState<Map<string, number>>(new Map())
   const [isPlaying, setIsPlaying] = useState(true)
   const [simulationTime, setSimulationTime] = useState(0)
+  const [timeScale, setTimeScale] = useState(TIME_SCALES[1].value)
 
   // UI state
   const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null)
   const [showMetrics, setShowMetrics] = useState(true)
+  const [highlightedIds, setHighlightedIds] = useState<string[] | null>(null)
 
   /**
-   * Recalculate network whenever nodes change
+   * Validation problems for the problems panel
    */
-  useEffect(() => {
-    try {
-      const result = calculateSteadyState(cloneNodes(nodes), {
-        verbose: false,
-      })
-      setNetwork(result)
-    } catch (error) {
-      console.error('Failed to calculate steady state:', error)
-    }
-  }, [nodes])
+  const diagnostics = useMemo(() => validateNetwork(nodes).diagnostics, [nodes])
+  const metrics = useMemo(
+    () => (network ? computeMetrics(fromFlowNetworkV2(network)) : null),
+    [network]
+  )
+
+  /**
+   * Select the node a problem is about (allocation problems select the source)
+   */
+  const handleSelectDiagnostic = useCallback((diagnostic: Diagnostic | null) => {
+    setHighlightedIds(diagnostic?.nodeIds ?? null)
+    const nodeId = diagnostic && diagnosticTarget(diagnostic).nodeId
+    if (nodeId) setSelectedNodeId(nodeId)
+  }, [])
 
   /**
    * Handle scenario change
@@ -77,9 +137,56 @@ export default function FlowFundingV2() {
     setCurrentScenario(scenario)
     setNodes(cloneNodes(scenario.nodes))
     setSelectedNodeId(null)
+    simulationRef.current = { balances: new Map(), particles: [], time: 0 }
+    particlesPathRef.current?.setAttribute('d', '')
+    setBalances(new Map())
     setSimulationTime(0)
+    setHighlightedIds(null)
   }, [])
 
+  /**
+   * Load a scenario from an exported JSON file
+   */
+  const handleImportScenario = useCallback(
+    (json: string) => {
+      handleScenarioChange(
+        deserializeScenarioV2(parseNetworkDocumentOf(json, 'flow-v2'))
+      )
+    },
+    [handleScenarioChange]
+  )
+
+  /**
+   * Load a randomly generated network
+   */
+  const handleGenerate = useCallback(
+    (config: GeneratorConfig) => {
+      const graph = generateGraph({ ...config, spacing: 130 })
+      const generated = toFlowNodesV2(graph)
+      handleScenarioChange({
+        id: `generated-${config.topology}-${config.seed}`,
+        name: generatedName(config),
+        description: 'Randomly generated network',
+        nodes: generated,
+        layout: layoutOf(graph),
+        suggestedTotalInflow: generated.reduce((sum, n) => sum + n.minThreshold, 0),
+      })
+    },
+    [handleScenarioChange]
+  )
+
+  /**
+   * Restore a scenario shared via URL fragment (inflows are part of the nodes)
+   */
+  const handleRestoreShared = useCallback(
+    ({ document }: SharedNetworkState) => {
+      handleScenarioChange(
+        deserializeScenarioV2(expectNetworkModel(document, 'flow-v2'))
+      )
+    },
+    [handleScenarioChange]
+  )
+
   /**
    * Handle external inflow adjustment
    */
@@ -94,13 +201,56 @@ export default function FlowFundingV2() {
     []
   )
 
+  /**
+   * Handle consumption (burn rate) adjustment
+   */
+  const handleConsumptionChange = useCallback(
+    (nodeId: string, newRate: number) => {
+      setNodes(prev =>
+        prev.map(n =>
+          n.id === nodeId ? { ...n, consumptionRate: newRate } : n
+        )
+      )
+    },
+    []
+  )
+
   /**
    * Animation loop - update balances and particles
    */
   useEffect(() => {
     if (!isPlaying || !network) return
 
+    const simulation = simulationRef.current
+
+    // Simulate on copies carrying the balances so far and the steady-state flows
+    const simulated = cloneNodes(nodes)
+    simulated.forEach(node => {
+      node.balance = simulation.balances.get(node.id) ?? node.balance
+      const networkNode = network.nodes.get(node.id)
+      if (networkNode) {
+        node.totalInflow = networkNode.totalInflow
+        node.totalOutflow = networkNode.totalOutflow
+      }
+    })
+
+    const drawParticles = (particles: FlowParticle[]) => {
+      const path = particlesPathRef.current
+      if (!path) return
+
+      const { layout } = currentScenario
+      const circles = particles.map(particle => {
+        const source = layout.get(particle.sourceId) || { x: 0, y: 0 }
+        const target = layout.get(particle.targetId) || { x: 0, y: 0 }
+        const x = source.x + (target.x - source.x) * particle.progress
+        const y = source.y + (target.y - source.y) * particle.progress
+        return `M${(x - 3).toFixed(1)} ${y.toFixed(1)}a3 3 0 1 0 6 0a3 3 0 1 0 -6 0`
+      })
+      path.setAttribute('d', circles.join(''))
+    }
+
     let lastTime = performance.now()
+    let lastSnapshot = lastTime
     let animationFrameId: number
 
     const animate = (currentTime: number) => {
@@ -108,59 +258,38 @@ export default function FlowFundingV2() {
       lastTime = currentTime
 
       const deltaSeconds = deltaMs / 1000
+      const simulatedSeconds = deltaSeconds * timeScale
 
-      // Update simulation time
-      setSimulationTime(prev => prev + deltaSeconds)
-
-      // Update node balances (for visualization)
-      const updatedNodes = cloneNodes(nodes)
-
-      // Set total inflows/outflows from network calculation
-      if (network?.nodes) {
-        updatedNodes.forEach(node => {
-          const networkNode = network.nodes.get(node.id)
-          if (networkNode) {
-            node.totalInflow = networkNode.totalInflow
-            node.totalOutflow = networkNode.totalOutflow
-          }
-        })
-      }
+      // Update simulation time and node balances
+      simulation.time += simulatedSeconds
+      updateBalances(simulated, simulatedSeconds)
+      simulated.forEach(node => simulation.balances.set(node.id, node.balance || 0))
 
-      updateBalances(updatedNodes, deltaSeconds)
-      setNodes(updatedNodes)
-
-      // Update particles
-      setParticles(prev => {
-        const updated = prev
-          .map(p => ({
-            ...p,
-            progress: p.progress + deltaSeconds / 2, // 2 second transit time
-          }))
-          .filter(p => p.progress < 1)
-
-        // Spawn new particles
-        const now = currentTime / 1000
-        if (network?.edges) {
-          network.edges.forEach(edge => {
-            // Spawn rate based on flow amount
-            const spawnRate = Math.min(2, Math.max(0.2, edge.flowRate / 500))
-            const shouldSpawn = Math.random() < spawnRate * deltaSeconds
-
-            if (shouldSpawn) {
-              updated.push({
-                id: `${edge.source}-${edge.target}-${now}-${Math.random()}`,
-                sourceId: edge.source,
-                targetId: edge.target,
-                progress: 0,
-                startTime: now,
-              })
-            }
-          })
+      // Update particles (2 second transit time)
+      simulation.particles.forEach(particle => {
+        particle.progress += deltaSeconds / 2
+      })
+      const particles = simulation.particles.filter(p => p.progress < 1)
+
+      // Spawn new particles
+      network.edges.forEach(edge => {
+        // Spawn rate based on flow amount
+        const spawnRate = Math.min(2, Math.max(0.2, edge.flowRate / 500))
+        if (Math.random() < spawnRate * deltaSeconds) {
+          particles.push({ sourceId: edge.source, targetId: edge.target, progress: 0 })
         }
-
-        return updated
       })
 
+      simulation.particles = particles
+      drawParticles(particles)
+
+      // Hand React a snapshot now and then
+      if (currentTime - lastSnapshot >= SNAPSHOT_INTERVAL_MS) {
+        lastSnapshot = currentTime
+        setSimulationTime(simulation.time)
+        setBalances(new Map(simulation.balances))
+      }
+
       animationFrameId = requestAnimationFrame(animate)
     }
 
@@ -169,7 +298,7 @@ export default function FlowFundingV2() {
     return () => {
       cancelAnimationFrame(animationFrameId)
     }
-  }, [isPlaying, network, nodes])
+  }, [isPlaying, network, nodes, timeScale, currentScenario])
 
   /**
    * Get node position
@@ -202,8 +331,12 @@ export default function FlowFundingV2() {
   const renderNetwork = useMemo(() => {
     if (!network) return null
 
-    const svgWidth = 800
-    const svgHeight = 650
+    // Grow past the default canvas for large (e.g. generated) layouts
+    const positions = Array.from(currentScenario.layout.values())
+    const svgWidth = Math.max(800, ...positions.map(p => p.x + 80))
+    const svgHeight = Math.max(650, ...positions.map(p => p.y + 80))
+    // Labels become clutter (and cost) on large networks
+    const detail = detailForCount(nodes.length)
 
     return (
       <svg
@@ -211,6 +344,30 @@ export default function FlowFundingV2() {
         height={svgHeight}
         className="border border-gray-700 rounded-lg bg-gray-900"
       >
+        {/* Highlighted allocations (all of them - network.edges only has flowing ones) */}
+        {highlightedIds &&
+          nodes.flatMap(node =>
+            Array.from(node.allocations.keys())
+              .filter(targetId => highlightedIds.includes(node.id) && highlightedIds.includes(targetId))
+              .map(targetId => {
+                const source = getNodePos(node.id)
+                const target = getNodePos(targetId)
+                return (
+                  <line
+                    key={`highlight-${node.id}-${targetId}`}
+                    x1={source.x}
+                    y1={source.y}
+                    x2={target.x}
+                    y2={target.y}
+                    stroke="#fb923c"
+                    strokeWidth={14}
+                    strokeOpacity={0.35}
+                    strokeLinecap="round"
+                  />
+                )
+              })
+          )}
+
         {/* Edges */}
         {network.edges.map(edge => {
           const source = getNodePos(edge.source)
@@ -239,39 +396,24 @@ export default function FlowFundingV2() {
               />
 
               {/* Flow label */}
-              <text
-                x={(source.x + target.x) / 2}
-                y={(source.y + target.y) / 2 - 5}
-                fill="#9ca3af"
-                fontSize="11"
-                textAnchor="middle"
-                className="pointer-events-none"
-              >
-                ${edge.flowRate.toFixed(0)}/mo
-              </text>
+              {detail === 'full' && (
+                <text
+                  x={(source.x + target.x) / 2}
+                  y={(source.y + target.y) / 2 - 5}
+                  fill="#9ca3af"
+                  fontSize="11"
+                  textAnchor="middle"
+                  className="pointer-events-none"
+                >
+                  ${edge.flowRate.toFixed(0)}/mo
+                </text>
+              )}
             </g>
           )
         })}
 
-        {/* Flow particles */}
-        {particles.map(particle => {
-          const source = getNodePos(particle.sourceId)
-          const target = getNodePos(particle.targetId)
-
-          const x = source.x + (target.x - source.x) * particle.progress
-          const y = source.y + (target.y - source.y) * particle.progress
-
-          return (
-            <circle
-              key={particle.id}
-              cx={x}
-              cy={y}
-              r={3}
-              fill="#3b82f6"
-              opacity={0.8}
-            />
-          )
-        })}
+        {/* Flow particles (one path, drawn by the animation loop) */}
+        <path ref={particlesPathRef} fill="#3b82f6" opacity={0.8} className="pointer-events-none" />
 
         {/* Nodes */}
         {Array.from(network.nodes.values()).map(node => {
@@ -303,6 +445,19 @@ export default function FlowFundingV2() {
                 />
               )}
 
+              {/* Analysis highlight */}
+              {highlightedIds?.includes(node.id) && (
+                <circle
+                  cx={pos.x}
+                  cy={pos.y}
+                  r={44}
+                  fill="none"
+                  stroke="#fb923c"
+                  strokeWidth={3}
+                  strokeDasharray="8 4"
+                />
+              )}
+
               {/* Node circle */}
               <circle
                 cx={pos.x}
@@ -315,41 +470,47 @@ export default function FlowFundingV2() {
               />
 
               {/* Node label */}
-              <text
-                x={pos.x}
-                y={pos.y - 5}
-                fill="white"
-                fontSize="13"
-                fontWeight="bold"
-                textAnchor="middle"
-                className="pointer-events-none"
-              >
-                {node.name}
-              </text>
-
-              {/* Zone indicator */}
-              <text
-                x={pos.x}
-                y={pos.y + 8}
-                fill={color}
-                fontSize="10"
-                textAnchor="middle"
-                className="pointer-events-none"
-              >
-                {zone}
-              </text>
-
-              {/* Retention rate */}
-              <text
-                x={pos.x}
-                y={pos.y + 20}
-                fill="#9ca3af"
-                fontSize="9"
-                textAnchor="middle"
-                className="pointer-events-none"
-              >
-                +${retention.toFixed(0)}/mo
-              </text>
+              {detail !== 'minimal' && (
+                <text
+                  x={pos.x}
+                  y={pos.y - 5}
+                  fill="white"
+                  fontSize="13"
+                  fontWeight="bold"
+                  textAnchor="middle"
+                  className="pointer-events-none"
+                >
+                  {node.name}
+                </text>
+              )}
+
+              {detail === 'full' && (
+                <>
+                  {/* Zone indicator */}
+                  <text
+                    x={pos.x}
+                    y={pos.y + 8}
+                    fill={color}
+                    fontSize="10"
+                    textAnchor="middle"
+                    className="pointer-events-none"
+                  >
+                    {zone}
+                  </text>
+
+                  {/* Retention rate */}
+                  <text
+                    x={pos.x}
+                    y={pos.y + 20}
+                    fill="#9ca3af"
+                    fontSize="9"
+                    textAnchor="middle"
+                    className="pointer-events-none"
+                  >
+                    +${retention.toFixed(0)}/mo
+                  </text>
+                </>
+              )}
             </g>
           )
         })}
@@ -403,7 +564,7 @@ export default function FlowFundingV2() {
         </defs>
       </svg>
     )
-  }, [network, particles, selectedNodeId, getNodePos, getZoneColor, currentScenario])
+  }, [network, nodes, selectedNodeId, highlightedIds, getNodePos, getZoneColor, currentScenario])
 
   return (
     <div className="min-h-screen bg-gray-950 text-white p-8">
@@ -440,9 +601,42 @@ export default function FlowFundingV2() {
                   {s.name}
                 </option>
               ))}
+              {!ALL_SCENARIOS_V2.includes(currentScenario) && (
+                <option value={currentScenario.id} disabled>
+                  {currentScenario.name} (imported)
+                </option>
+              )}
             </select>
           </div>
 
+          {/* Import/export (exports current inflows) */}
+          <div>
+            <label className="block text-sm text-gray-400 mb-1">
+              File
+            </label>
+            <NetworkFileButtons
+              fileName={currentScenario.id}
+              onExport={() => serializeScenarioV2({ ...currentScenario, nodes })}
+              onImport={handleImportScenario}
+              buttonClassName="bg-gray-800 hover:bg-gray-700 border border-gray-700 rounded px-4 py-2"
+            />
+          </div>
+
+          {/* Share link */}
+          <div>
+            <label className="block text-sm text-gray-400 mb-1">
+              Share
+            </label>
+            <ShareLinkButton
+              onShare={() => ({
+                document: serializeScenarioV2({ ...currentScenario, nodes }),
+                inputs: {},
+              })}
+              onRestore={handleRestoreShared}
+              buttonClassName="bg-gray-800 hover:bg-gray-700 border border-gray-700 rounded px-4 py-2"
+            />
+          </div>
+
           {/* Play/pause */}
           <div>
             <label className="block text-sm text-gray-400 mb-1">
@@ -456,6 +650,24 @@ export default function FlowFundingV2() {
             </button>
           </div>
 
+          {/* Time scale */}
+          <div>
+            <label className="block text-sm text-gray-400 mb-1">
+              Speed
+            </label>
+            <select
+              value={timeScale}
+              onChange={e => setTimeScale(Number(e.target.value))}
+              className="bg-gray-800 border border-gray-700 rounded px-4 py-2"
+            >
+              {TIME_SCALES.map(scale => (
+                <option key={scale.value} value={scale.value}>
+                  {scale.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
           {/* Metrics toggle */}
           <div>
             <label className="block text-sm text-gray-400 mb-1">
@@ -475,7 +687,9 @@ export default function FlowFundingV2() {
               Simulation Time
             </label>
             <div className="text-lg font-mono">
-              {simulationTime.toFixed(1)}s
+              {simulationTime < 24 * 60 * 60
+                ? `${simulationTime.toFixed(1)}s`
+                : `${(simulationTime / (24 * 60 * 60)).toFixed(1)} days`}
             </div>
           </div>
         </div>
@@ -488,7 +702,7 @@ export default function FlowFundingV2() {
         {/* Main layout */}
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
           {/* Network visualization */}
-          <div className="lg:col-span-2">
+          <div className="lg:col-span-2 overflow-auto">
             {renderNetwork}
           </div>
 
@@ -540,6 +754,27 @@ export default function FlowFundingV2() {
                     />
                   </div>
 
+                  {/* Consumption slider */}
+                  <div className="mb-2">
+                    <label className="text-xs text-gray-400 block mb-1">
+                      Consumption: ${(node.consumptionRate || 0).toFixed(0)}/mo
+                    </label>
+                    <input
+                      type="range"
+                      min={0}
+                      max={2000}
+                      step={50}
+                      value={node.consumptionRate || 0}
+                      onChange={e =>
+                        handleConsumptionChange(
+                          node.id,
+                          parseFloat(e.target.value)
+                        )
+                      }
+                      className="w-full"
+                    />
+                  </div>
+
                   {/* Thresholds */}
                   <div className="text-xs text-gray-500 space-y-1">
                     <div>Min: ${node.minThreshold}/mo</div>
@@ -575,7 +810,7 @@ export default function FlowFundingV2() {
                       <div className="flex justify-between">
                         <span className="text-gray-400">Balance:</span>
                         <span className="text-gray-300">
-                          ${(networkNode.balance || 0).toFixed(0)}
+                          ${(balances.get(node.id) ?? node.balance ?? 0).toFixed(0)}
                         </span>
                       </div>
                     </div>
@@ -633,6 +868,30 @@ export default function FlowFundingV2() {
                 </div>
               </div>
             )}
+
+            {/* Distribution metrics */}
+            {showMetrics && metrics && (
+              <MetricsPanel
+                metrics={metrics}
+                unit="/mo"
+                className="p-4 bg-gray-900 border-2 border-gray-800 rounded-lg"
+              />
+            )}
+
+            {/* Problems */}
+            <ProblemsPanel
+              diagnostics={diagnostics}
+              highlighted={highlightedIds}
+              onSelect={handleSelectDiagnostic}
+              className="p-4 bg-gray-900 border-2 border-gray-800 rounded-lg"
+            />
+
+            <GeneratePanel
+              onGenerate={handleGenerate}
+              amountLabel="Inflow ($/mo)"
+              amountMax={300}
+              className="p-4 bg-gray-900 border-2 border-gray-800 rounded-lg"
+            />
           </div>
         </div>
 
@@ -10,30 +10,91 @@
  * - INTERACTIVE: Click accounts to add targeted funding
  */
 
-import { useState, useEffect, useRef } from 'react'
+import { useState, useEffect, useMemo, useRef } from 'react'
 import {
   cloneAccounts,
   runDistribution,
+  validateNetwork,
+  type SolverMode,
 } from '@/lib/flow-funding/engine'
 import { runTargetedDistribution } from '@/lib/flow-funding/targeted'
+import {
+  DEFAULT_STRATEGY,
+  DISTRIBUTION_STRATEGIES,
+  STRATEGY_OPTIONS,
+  type StrategyId,
+} from '@/lib/core/strategies'
+import {
+  recurringSchedule,
+  runTimeline,
+  type TimelineResult,
+} from '@/lib/flow-funding/timeline'
+import {
+  runSensitivity,
+  type SensitivityResult,
+} from '@/lib/flow-funding/sensitivity'
+import {
+  solveRequiredFunding,
+  type InverseResult,
+} from '@/lib/flow-funding/inverse'
+import {
+  rankInjectionPoints,
+  type InjectionCandidate,
+} from '@/lib/flow-funding/recommend'
+import { computeMetrics, fromDistributionResult } from '@/lib/core/metrics'
+import { fromAccounts, layoutOf, toAccounts } from '@/lib/core/adapters'
+import {
+  generatedName,
+  generateGraph,
+  type GeneratorConfig,
+} from '@/lib/core/generators'
+import {
+  computeLayout,
+  type Layout,
+  type LayoutAlgorithm,
+} from '@/lib/core/layout'
 import type { Account, DistributionResult } from '@/lib/flow-funding/types'
-import { getAccountState } from '@/lib/flow-funding/types'
+import type { Diagnostic } from '@/lib/core/types'
+import { getAccountState, type AccountState } from '@/lib/flow-funding/types'
 import {
   ALL_SCENARIOS,
   getScenario,
   type Scenario,
 } from '@/lib/flow-funding/scenarios'
+import {
+  deserializeScenario,
+  expectNetworkModel,
+  parseNetworkDocumentOf,
+  serializeScenario,
+} from '@/lib/network-io/serialization'
+import type { SharedNetworkState } from '@/lib/network-io/share'
+import { NetworkFileButtons } from '@/components/network-file-buttons'
+import { ShareLinkButton } from '@/components/share-link-button'
+import { MetricsPanel } from '@/components/metrics-panel'
+import { ProblemsPanel, diagnosticTarget } from '@/components/problems-panel'
+import { GeneratePanel } from '@/components/generate-panel'
+import { AutoLayoutButton } from '@/components/auto-layout-button'
+import { detailForCount } from '@/lib/core/viewport'
+import {
+  CartesianGrid,
+  ComposedChart,
+  Line,
+  ReferenceArea,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts'
 
 // Flow particle for animation
 interface FlowParticle {
-  id: string
   fromX: number
   fromY: number
   toX: number
   toY: number
   progress: number // 0 to 1
   amount: number
-  color: string
 }
 
 type FundingMode = 'global' | 'interactive'
@@ -45,27 +106,64 @@ export default function FlowFundingPage() {
   const [funding, setFunding] = useState<number>(1500)
   const [targetedAmount, setTargetedAmount] = useState<number>(500)
   const [result, setResult] = useState<DistributionResult | null>(null)
+  // Amount injected by a targeted run (already part of its initial balances)
+  const [resultInjection, setResultInjection] = useState<number>(0)
   const [currentIteration, setCurrentIteration] = useState<number>(0)
   const [animationSpeed, setAnimationSpeed] = useState<number>(1)
-  const [particles, setParticles] = useState<FlowParticle[]>([])
+  // Particles are drawn straight into one SVG path, not kept in state
+  const particlesPathRef = useRef<SVGPathElement>(null)
   const [autoPlay, setAutoPlay] = useState(false)
   const [fundingMode, setFundingMode] = useState<FundingMode>('interactive')
+  const [solver, setSolver] = useState<SolverMode>('iterative')
+  const [strategy, setStrategy] = useState<StrategyId>(DEFAULT_STRATEGY)
 
   // Interactive mode state
   const [selectedAccountId, setSelectedAccountId] = useState<string | null>(null)
-  const [currentAccounts, setCurrentAccounts] = useState<Account[]>([])
+  const [currentAccounts, setCurrentAccounts] = useState<Account[]>(
+    () => cloneAccounts(getScenario(selectedScenarioId)?.accounts ?? [])
+  )
+  const [injectionRanking, setInjectionRanking] = useState<InjectionCandidate[] | null>(null)
+
+  // Multi-round timeline state
+  const [timelineRounds, setTimelineRounds] = useState<number>(6)
+  const [timelineAmount, setTimelineAmount] = useState<number>(500)
+  const [spendingRate, setSpendingRate] = useState<number>(0.25)
+  const [timelineTarget, setTimelineTarget] = useState<string>('')
+  const [timeline, setTimeline] = useState<TimelineResult | null>(null)
+
+  // Funding sensitivity sweep state
+  const [sweepMax, setSweepMax] = useState<number>(3000)
+  const [sweepSteps, setSweepSteps] = useState<number>(40)
+  const [sweepTarget, setSweepTarget] = useState<string>('')
+  const [sensitivity, setSensitivity] = useState<SensitivityResult | null>(null)
+  const [requiredFunding, setRequiredFunding] = useState<{
+    min: InverseResult | null
+    max: InverseResult | null
+  } | null>(null)
+
+  // Scenario loaded from a JSON file (takes precedence over the presets)
+  const [customScenario, setCustomScenario] = useState<Scenario | null>(null)
+
+  const baseScenario = customScenario ?? getScenario(selectedScenarioId)
+
+  // Positions from the auto-layout button (cleared when another scenario loads)
+  const [autoLayout, setAutoLayout] = useState<Layout | null>(null)
+  const scenario = useMemo(
+    () =>
+      baseScenario && autoLayout
+        ? { ...baseScenario, layout: autoLayout }
+        : baseScenario,
+    [baseScenario, autoLayout]
+  )
 
-  const scenario = getScenario(selectedScenarioId)
+  // Validation problems of the scenario; the picked one is outlined in the visualization
+  const [highlightedIds, setHighlightedIds] = useState<string[] | null>(null)
+  const diagnostics = useMemo(
+    () => (scenario ? validateNetwork(scenario.accounts).diagnostics : []),
+    [scenario]
+  )
   const animationFrameRef = useRef<number>()
 
-  // Initialize current accounts when scenario changes
-  useEffect(() => {
-    if (scenario) {
-      setCurrentAccounts(cloneAccounts(scenario.accounts))
-      setSelectedAccountId(null)
-    }
-  }, [selectedScenarioId])
-
   // Auto-play through iterations
   useEffect(() => {
     if (!autoPlay || !result) return
@@ -85,17 +183,16 @@ export default function FlowFundingPage() {
 
   // Animate particles when iteration changes
   useEffect(() => {
+    const draw = (particles: FlowParticle[]) =>
+      particlesPathRef.current?.setAttribute('d', particlePath(particles))
+    draw([])
     if (!result || !scenario) return
 
     const iteration = result.iterations[currentIteration]
-    if (!iteration || iteration.flows.size === 0) {
-      setParticles([])
-      return
-    }
+    if (!iteration || iteration.flows.size === 0) return
 
     // Create particles for each flow
-    const newParticles: FlowParticle[] = []
-    let particleId = 0
+    const particles: FlowParticle[] = []
 
     iteration.flows.forEach((amount, flowKey) => {
       const [sourceId, targetId] = flowKey.split('->')
@@ -107,22 +204,18 @@ export default function FlowFundingPage() {
       const numParticles = Math.min(3, Math.max(1, Math.floor(amount / 100)))
 
       for (let i = 0; i < numParticles; i++) {
-        newParticles.push({
-          id: `${flowKey}-${particleId++}`,
+        particles.push({
           fromX: sourcePos.x,
           fromY: sourcePos.y,
           toX: targetPos.x,
           toY: targetPos.y,
           progress: i * (1 / numParticles),
           amount: amount / numParticles,
-          color: '#60a5fa',
         })
       }
     })
 
-    setParticles(newParticles)
-
-    // Animate particles
+    // Animate particles (without re-rendering the page every frame)
     let startTime: number | null = null
     const duration = 1500 / animationSpeed
 
@@ -131,8 +224,8 @@ export default function FlowFundingPage() {
       const elapsed = timestamp - startTime
       const progress = Math.min(elapsed / duration, 1)
 
-      setParticles(prev =>
-        prev.map(p => ({
+      draw(
+        particles.map(p => ({
           ...p,
           progress: Math.min(p.progress + progress, 1),
         }))
@@ -141,7 +234,7 @@ export default function FlowFundingPage() {
       if (progress < 1) {
         animationFrameRef.current = requestAnimationFrame(animate)
       } else {
-        setParticles([])
+        draw([])
       }
     }
 
@@ -154,7 +247,15 @@ export default function FlowFundingPage() {
     }
   }, [currentIteration, result, scenario, animationSpeed])
 
+  // Select the account a problem is about (allocation problems select the source)
+  const handleSelectDiagnostic = (diagnostic: Diagnostic | null) => {
+    setHighlightedIds(diagnostic?.nodeIds ?? null)
+    const nodeId = diagnostic && diagnosticTarget(diagnostic).nodeId
+    if (nodeId) setSelectedAccountId(nodeId)
+  }
+
   const handleScenarioChange = (scenarioId: string) => {
+    setCustomScenario(null)
     setSelectedScenarioId(scenarioId)
     const newScenario = getScenario(scenarioId)
     if (newScenario) {
@@ -164,8 +265,91 @@ export default function FlowFundingPage() {
     setResult(null)
     setCurrentIteration(0)
     setAutoPlay(false)
-    setParticles([])
     setSelectedAccountId(null)
+    setTimeline(null)
+    setTimelineTarget('')
+    setSensitivity(null)
+    setRequiredFunding(null)
+    setInjectionRanking(null)
+    setSweepTarget('')
+    setHighlightedIds(null)
+    setAutoLayout(null)
+  }
+
+  const loadCustomScenario = (imported: Scenario) => {
+    setCustomScenario(imported)
+    setFunding(imported.suggestedFunding)
+    setCurrentAccounts(cloneAccounts(imported.accounts))
+    setResult(null)
+    setCurrentIteration(0)
+    setAutoPlay(false)
+    setSelectedAccountId(null)
+    setTimeline(null)
+    setTimelineTarget('')
+    setSensitivity(null)
+    setRequiredFunding(null)
+    setInjectionRanking(null)
+    setSweepTarget('')
+    setHighlightedIds(null)
+    setAutoLayout(null)
+  }
+
+  const handleGenerate = (config: GeneratorConfig) => {
+    const graph = generateGraph({ ...config, spacing: 110 })
+    const accounts = toAccounts(graph)
+    loadCustomScenario({
+      id: `generated-${config.topology}-${config.seed}`,
+      name: generatedName(config),
+      description: 'Randomly generated network',
+      accounts,
+      layout: layoutOf(graph),
+      suggestedFunding: accounts.reduce((sum, a) => sum + a.minThreshold, 0),
+    })
+  }
+
+  const getAutoLayouts = (algorithm: LayoutAlgorithm) => {
+    if (!scenario) throw new Error('No scenario selected')
+    const graph = fromAccounts(scenario.accounts, scenario.layout)
+    return {
+      from: scenario.layout,
+      to: computeLayout(graph, algorithm, { spacing: 110 }),
+    }
+  }
+
+  const handleImportScenario = (json: string) => {
+    loadCustomScenario(
+      deserializeScenario(parseNetworkDocumentOf(json, 'flow-funding'))
+    )
+  }
+
+  // Exports the current balances so interactive funding can be resumed later
+  const handleExportScenario = () => {
+    if (!scenario) throw new Error('No scenario selected')
+    return serializeScenario({ ...scenario, accounts: currentAccounts })
+  }
+
+  const handleShareScenario = (): SharedNetworkState => ({
+    document: handleExportScenario(),
+    inputs: { funding, targetedAmount, fundingMode, solver, strategy },
+  })
+
+  const handleRestoreShared = ({ document, inputs }: SharedNetworkState) => {
+    loadCustomScenario(
+      deserializeScenario(expectNetworkModel(document, 'flow-funding'))
+    )
+    if (typeof inputs.funding === 'number') setFunding(inputs.funding)
+    if (typeof inputs.targetedAmount === 'number') {
+      setTargetedAmount(inputs.targetedAmount)
+    }
+    if (inputs.fundingMode === 'global' || inputs.fundingMode === 'interactive') {
+      setFundingMode(inputs.fundingMode)
+    }
+    if (inputs.solver === 'iterative' || inputs.solver === 'exact') {
+      setSolver(inputs.solver)
+    }
+    if (typeof inputs.strategy === 'string' && inputs.strategy in DISTRIBUTION_STRATEGIES) {
+      setStrategy(inputs.strategy as StrategyId)
+    }
   }
 
   const handleDistribute = () => {
@@ -176,16 +360,59 @@ export default function FlowFundingPage() {
       verbose: true,
       maxIterations: 100,
       epsilon: 0.01,
+      solver,
+      strategy,
     })
 
     setCurrentAccounts(accounts)
     setResult(distributionResult)
+    setResultInjection(0)
     setCurrentIteration(0)
     setAutoPlay(true)
 
     console.log('Distribution complete:', distributionResult)
   }
 
+  const handleRunTimeline = () => {
+    const schedule = recurringSchedule(
+      currentAccounts,
+      timelineRounds,
+      timelineAmount,
+      spendingRate,
+      timelineTarget || undefined
+    )
+    setTimeline(
+      runTimeline(currentAccounts, schedule, {
+        maxIterations: 100,
+        epsilon: 0.01,
+        solver,
+        strategy,
+      })
+    )
+  }
+
+  const handleRunSensitivity = () => {
+    setSensitivity(
+      runSensitivity(currentAccounts, {
+        maxFunding: sweepMax,
+        steps: sweepSteps,
+        targetAccountId: sweepTarget || undefined,
+        distribution: { maxIterations: 100, epsilon: 0.01, solver, strategy },
+      })
+    )
+  }
+
+  const handleSolveRequiredFunding = () => {
+    const config = {
+      targetAccountId: sweepTarget || undefined,
+      distribution: { maxIterations: 100, epsilon: 0.01, solver, strategy },
+    }
+    setRequiredFunding({
+      min: solveRequiredFunding(currentAccounts, { ...config, goal: 'min' }),
+      max: solveRequiredFunding(currentAccounts, { ...config, goal: 'max' }),
+    })
+  }
+
   const handleAddTargetedFunding = () => {
     if (!selectedAccountId) return
 
@@ -205,14 +432,46 @@ export default function FlowFundingPage() {
       verbose: true,
       maxIterations: 100,
       epsilon: 0.01,
+      solver,
     })
 
     setCurrentAccounts(accounts)
     setResult(distributionResult)
+    setResultInjection(targetedAmount)
     setCurrentIteration(0)
     setAutoPlay(true)
+    setInjectionRanking(null)
   }
 
+  const handleRecommendInjection = () => {
+    setInjectionRanking(
+      rankInjectionPoints(currentAccounts, targetedAmount, {
+        maxIterations: 100,
+        epsilon: 0.01,
+        solver,
+      })
+    )
+  }
+
+  const metrics = useMemo(
+    () =>
+      result && scenario
+        ? computeMetrics(fromDistributionResult(scenario.accounts, result, resultInjection))
+        : null,
+    [result, resultInjection, scenario]
+  )
+
+  // Shortfall closed per account relative to the best injection point (0-1)
+  const injectionHeatmap = useMemo(() => {
+    const best = injectionRanking?.[0]?.shortfallClosed ?? 0
+    return new Map(
+      (injectionRanking ?? []).map(c => [
+        c.accountId,
+        best > 0 ? c.shortfallClosed / best : 0,
+      ])
+    )
+  }, [injectionRanking])
+
   const handleAccountClick = (accountId: string) => {
     if (fundingMode === 'interactive') {
       setSelectedAccountId(accountId)
@@ -226,8 +485,11 @@ export default function FlowFundingPage() {
     setResult(null)
     setCurrentIteration(0)
     setAutoPlay(false)
-    setParticles([])
     setSelectedAccountId(null)
+    setTimeline(null)
+    setSensitivity(null)
+    setRequiredFunding(null)
+    setInjectionRanking(null)
   }
 
   const handleTimelineClick = (iteration: number) => {
@@ -307,16 +569,46 @@ export default function FlowFundingPage() {
               <p className="mt-3 text-sm text-slate-400">
                 {fundingMode === 'interactive'
                   ? 'Click accounts to add funding directly'
-                  : 'Distribute funding equally to all accounts'
+                  : 'Distribute funding across all accounts by strategy'
                 }
               </p>
+
+              <label className="block text-sm text-slate-400 mt-4 mb-2">
+                Solver
+              </label>
+              <select
+                value={solver}
+                onChange={e => setSolver(e.target.value as SolverMode)}
+                className="w-full bg-slate-900 border border-slate-600 rounded-lg px-4 py-2 text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="iterative">Iterative (epsilon cutoff)</option>
+                <option value="exact">Exact (closed-form fixed point)</option>
+              </select>
+
+              <label className="block text-sm text-slate-400 mt-4 mb-2">
+                Distribution Strategy
+              </label>
+              <select
+                value={strategy}
+                onChange={e => setStrategy(e.target.value as StrategyId)}
+                className="w-full bg-slate-900 border border-slate-600 rounded-lg px-4 py-2 text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {STRATEGY_OPTIONS.map(option => (
+                  <option key={option.id} value={option.id}>
+                    {option.name}
+                  </option>
+                ))}
+              </select>
+              <p className="mt-2 text-xs text-slate-500">
+                {DISTRIBUTION_STRATEGIES[strategy].description}
+              </p>
             </div>
 
             {/* Scenario Selector */}
             <div className="bg-slate-800/50 backdrop-blur rounded-xl p-6 border border-slate-700">
               <h2 className="text-xl font-semibold mb-4">Select Scenario</h2>
               <select
-                value={selectedScenarioId}
+                value={customScenario ? 'imported' : selectedScenarioId}
                 onChange={e => handleScenarioChange(e.target.value)}
                 className="w-full bg-slate-900 border border-slate-600 rounded-lg px-4 py-3 text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
               >
@@ -325,6 +617,11 @@ export default function FlowFundingPage() {
                     {s.name}
                   </option>
                 ))}
+                {customScenario && (
+                  <option value="imported" disabled>
+                    {customScenario.name} (imported)
+                  </option>
+                )}
               </select>
 
               {scenario && (
@@ -332,8 +629,45 @@ export default function FlowFundingPage() {
                   {scenario.description}
                 </p>
               )}
+
+              <div className="mt-4">
+                <NetworkFileButtons
+                  fileName={scenario?.id ?? 'scenario'}
+                  onExport={handleExportScenario}
+                  onImport={handleImportScenario}
+                  buttonClassName="px-3 py-2 rounded-lg text-sm bg-slate-700 hover:bg-slate-600 transition-colors"
+                />
+              </div>
+              <div className="mt-2">
+                <AutoLayoutButton
+                  getLayouts={getAutoLayouts}
+                  onFrame={setAutoLayout}
+                  buttonClassName="flex-1 px-3 py-2 rounded-lg text-sm bg-slate-700 hover:bg-slate-600 transition-colors"
+                  selectClassName="bg-slate-900 border border-slate-600 rounded-lg px-2 py-2 text-sm text-white"
+                />
+              </div>
+              <div className="mt-2">
+                <ShareLinkButton
+                  onShare={handleShareScenario}
+                  onRestore={handleRestoreShared}
+                  buttonClassName="w-full px-3 py-2 rounded-lg text-sm bg-slate-700 hover:bg-slate-600 transition-colors"
+                />
+              </div>
             </div>
 
+            <GeneratePanel
+              onGenerate={handleGenerate}
+              className="bg-slate-800/50 backdrop-blur rounded-xl p-6 border border-slate-700"
+            />
+
+            {/* Problems */}
+            <ProblemsPanel
+              diagnostics={diagnostics}
+              highlighted={highlightedIds}
+              onSelect={handleSelectDiagnostic}
+              className="bg-slate-800/50 backdrop-blur rounded-xl p-6 border border-slate-700"
+            />
+
             {/* Funding Controls */}
             {fundingMode === 'global' ? (
               <div className="bg-slate-800/50 backdrop-blur rounded-xl p-6 border border-slate-700">
@@ -426,6 +760,48 @@ export default function FlowFundingPage() {
                     </div>
                   )}
 
+                  <button
+                    onClick={
+                      injectionRanking
+                        ? () => setInjectionRanking(null)
+                        : handleRecommendInjection
+                    }
+                    className="w-full bg-slate-700 hover:bg-slate-600 text-white font-semibold py-2 px-4 rounded-lg transition-all"
+                  >
+                    {injectionRanking
+                      ? 'Hide Injection Heatmap'
+                      : `🔥 Where Should $${targetedAmount} Go?`}
+                  </button>
+
+                  {injectionRanking && (
+                    <div className="bg-slate-900/50 rounded-lg p-3 text-sm">
+                      <div className="text-slate-400 mb-2">
+                        Shortfall closed by injecting ${targetedAmount}
+                      </div>
+                      <ol className="space-y-1">
+                        {injectionRanking.map((c, i) => (
+                          <li key={c.accountId}>
+                            <button
+                              onClick={() => setSelectedAccountId(c.accountId)}
+                              className="w-full flex justify-between hover:text-white text-slate-300"
+                            >
+                              <span>
+                                {i + 1}.{' '}
+                                {currentAccounts.find(a => a.id === c.accountId)?.name}
+                              </span>
+                              <span
+                                className="font-mono"
+                                style={{ color: heatColor(injectionHeatmap.get(c.accountId) ?? 0) }}
+                              >
+                                ${c.shortfallClosed.toFixed(0)}
+                              </span>
+                            </button>
+                          </li>
+                        ))}
+                      </ol>
+                    </div>
+                  )}
+
                   <button
                     onClick={handleReset}
                     className="w-full bg-slate-600 hover:bg-slate-500 text-white font-semibold py-3 px-6 rounded-lg transition-all"
@@ -436,6 +812,181 @@ export default function FlowFundingPage() {
               </div>
             )}
 
+            {/* Funding Timeline Controls */}
+            <div className="bg-slate-800/50 backdrop-blur rounded-xl p-6 border border-slate-700">
+              <h2 className="text-xl font-semibold mb-4">Funding Timeline</h2>
+              <div className="space-y-4">
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label className="block text-sm text-slate-400 mb-2">
+                      Rounds
+                    </label>
+                    <input
+                      type="number"
+                      value={timelineRounds}
+                      onChange={e =>
+                        setTimelineRounds(
+                          Math.max(1, Math.min(52, Number(e.target.value)))
+                        )
+                      }
+                      className="w-full bg-slate-900 border border-slate-600 rounded-lg px-4 py-2 text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      min="1"
+                      max="52"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm text-slate-400 mb-2">
+                      $ per round
+                    </label>
+                    <input
+                      type="number"
+                      value={timelineAmount}
+                      onChange={e => setTimelineAmount(Number(e.target.value))}
+                      className="w-full bg-slate-900 border border-slate-600 rounded-lg px-4 py-2 text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      min="0"
+                      step="100"
+                    />
+                  </div>
+                </div>
+
+                <div>
+                  <label className="block text-sm text-slate-400 mb-2">
+                    Spending per round: {(spendingRate * 100).toFixed(0)}% of
+                    each minimum
+                  </label>
+                  <input
+                    type="range"
+                    min="0"
+                    max="1"
+                    step="0.05"
+                    value={spendingRate}
+                    onChange={e => setSpendingRate(Number(e.target.value))}
+                    className="w-full"
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm text-slate-400 mb-2">
+                    Funding goes to
+                  </label>
+                  <select
+                    value={timelineTarget}
+                    onChange={e => setTimelineTarget(e.target.value)}
+                    className="w-full bg-slate-900 border border-slate-600 rounded-lg px-4 py-2 text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="">All accounts (global)</option>
+                    {scenario?.accounts.map(a => (
+                      <option key={a.id} value={a.id}>
+                        {a.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                <button
+                  onClick={handleRunTimeline}
+                  className="w-full bg-gradient-to-r from-blue-500 to-purple-500 hover:from-blue-600 hover:to-purple-600 text-white font-semibold py-3 px-6 rounded-lg transition-all"
+                >
+                  Run Timeline
+                </button>
+              </div>
+            </div>
+
+            {/* Sensitivity Analysis Controls */}
+            <div className="bg-slate-800/50 backdrop-blur rounded-xl p-6 border border-slate-700">
+              <h2 className="text-xl font-semibold mb-4">Sensitivity Analysis</h2>
+              <div className="space-y-4">
+                <p className="text-sm text-slate-400">
+                  Sweep funding from $0 and find where accounts change state.
+                </p>
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label className="block text-sm text-slate-400 mb-2">
+                      Up to ($)
+                    </label>
+                    <input
+                      type="number"
+                      value={sweepMax}
+                      onChange={e => setSweepMax(Math.max(1, Number(e.target.value)))}
+                      className="w-full bg-slate-900 border border-slate-600 rounded-lg px-4 py-2 text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      min="1"
+                      step="500"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm text-slate-400 mb-2">
+                      Samples
+                    </label>
+                    <input
+                      type="number"
+                      value={sweepSteps}
+                      onChange={e =>
+                        setSweepSteps(
+                          Math.max(2, Math.min(200, Number(e.target.value)))
+                        )
+                      }
+                      className="w-full bg-slate-900 border border-slate-600 rounded-lg px-4 py-2 text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      min="2"
+                      max="200"
+                    />
+                  </div>
+                </div>
+
+                <div>
+                  <label className="block text-sm text-slate-400 mb-2">
+                    Funding goes to
+                  </label>
+                  <select
+                    value={sweepTarget}
+                    onChange={e => setSweepTarget(e.target.value)}
+                    className="w-full bg-slate-900 border border-slate-600 rounded-lg px-4 py-2 text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="">All accounts (global)</option>
+                    {scenario?.accounts.map(a => (
+                      <option key={a.id} value={a.id}>
+                        {a.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                <button
+                  onClick={handleRunSensitivity}
+                  className="w-full bg-gradient-to-r from-blue-500 to-purple-500 hover:from-blue-600 hover:to-purple-600 text-white font-semibold py-3 px-6 rounded-lg transition-all"
+                >
+                  Run Sweep
+                </button>
+
+                <button
+                  onClick={handleSolveRequiredFunding}
+                  className="w-full bg-slate-700 hover:bg-slate-600 text-white font-semibold py-2 px-6 rounded-lg transition-all"
+                >
+                  Solve Required Funding
+                </button>
+
+                {requiredFunding && (
+                  <div className="bg-slate-900/50 rounded-lg p-3 space-y-1 text-sm">
+                    <div className="flex justify-between">
+                      <span className="text-slate-400">All reach minimum</span>
+                      <span className="font-mono text-yellow-400">
+                        {requiredFunding.min
+                          ? `$${requiredFunding.min.funding.toFixed(2)}`
+                          : 'unreachable'}
+                      </span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-slate-400">All reach maximum</span>
+                      <span className="font-mono text-green-400">
+                        {requiredFunding.max
+                          ? `$${requiredFunding.max.funding.toFixed(2)}`
+                          : 'unreachable'}
+                      </span>
+                    </div>
+                  </div>
+                )}
+              </div>
+            </div>
+
             {/* Playback Controls */}
             {result && (
               <div className="bg-slate-800/50 backdrop-blur rounded-xl p-6 border border-slate-700">
@@ -507,6 +1058,16 @@ export default function FlowFundingPage() {
                       ⚠ Did not converge
                     </div>
                   )}
+                  {result.overflowCirculating > 0.01 && (
+                    <div className="text-xs text-yellow-400 text-center">
+                      ${result.overflowCirculating.toFixed(2)} circulating in closed loops
+                    </div>
+                  )}
+                  {result.overflowLost > 0.01 && (
+                    <div className="text-xs text-slate-400 text-center">
+                      ${result.overflowLost.toFixed(2)} overflow left the network
+                    </div>
+                  )}
                 </div>
               </div>
             )}
@@ -562,8 +1123,10 @@ export default function FlowFundingPage() {
                   flows={
                     result?.iterations[currentIteration]?.flows || new Map()
                   }
-                  particles={particles}
+                  particlesPathRef={particlesPathRef}
                   selectedAccountId={selectedAccountId}
+                  highlightedIds={new Set(highlightedIds ?? [])}
+                  heatmap={injectionHeatmap}
                   onAccountClick={handleAccountClick}
                   interactiveMode={fundingMode === 'interactive'}
                 />
@@ -582,17 +1145,53 @@ export default function FlowFundingPage() {
               </div>
             )}
 
+            {/* Round-by-round balances */}
+            {timeline && scenario && (
+              <div className="mt-8 bg-slate-800/50 backdrop-blur rounded-xl p-6 border border-slate-700">
+                <h2 className="text-xl font-semibold mb-4">
+                  Balances Across {timeline.rounds.length} Rounds
+                </h2>
+                <RoundTimelineChart
+                  accounts={scenario.accounts}
+                  timeline={timeline}
+                />
+              </div>
+            )}
+
+            {/* Funding sensitivity */}
+            {sensitivity && scenario && (
+              <div className="mt-8 bg-slate-800/50 backdrop-blur rounded-xl p-6 border border-slate-700">
+                <h2 className="text-xl font-semibold mb-4">
+                  Final Balance vs Funding
+                </h2>
+                <SensitivityChart
+                  accounts={scenario.accounts}
+                  sensitivity={sensitivity}
+                />
+              </div>
+            )}
+
             {/* Results Table */}
             {result && (
               <div className="mt-8 bg-slate-800/50 backdrop-blur rounded-xl p-8 border border-slate-700">
                 <h2 className="text-2xl font-semibold mb-6">
                   Distribution Results
                 </h2>
-                <ResultsTable
-                  scenario={scenario!}
-                  result={result}
-                  currentIteration={currentIteration}
-                />
+                <div className="grid grid-cols-1 xl:grid-cols-3 gap-6">
+                  <div className="xl:col-span-2">
+                    <ResultsTable
+                      scenario={scenario!}
+                      result={result}
+                      currentIteration={currentIteration}
+                    />
+                  </div>
+                  {metrics && (
+                    <MetricsPanel
+                      metrics={metrics}
+                      className="bg-slate-900/50 rounded-lg p-4 self-start"
+                    />
+                  )}
+                </div>
               </div>
             )}
           </div>
@@ -610,8 +1209,10 @@ function NetworkVisualization({
   balances,
   overflows,
   flows,
-  particles,
+  particlesPathRef,
   selectedAccountId,
+  highlightedIds,
+  heatmap,
   onAccountClick,
   interactiveMode,
 }: {
@@ -619,8 +1220,13 @@ function NetworkVisualization({
   balances: Map<string, number>
   overflows: Map<string, number>
   flows: Map<string, number>
-  particles: FlowParticle[]
+  /** Path the page's animation loop draws particles into */
+  particlesPathRef: React.RefObject<SVGPathElement | null>
   selectedAccountId: string | null
+  /** Accounts outlined by the analysis panel (e.g. a closed loop) */
+  highlightedIds: ReadonlySet<string>
+  /** Injection point scores (0-1) drawn as a heat halo behind accounts */
+  heatmap: ReadonlyMap<string, number>
   onAccountClick: (accountId: string) => void
   interactiveMode: boolean
 }) {
@@ -629,6 +1235,8 @@ function NetworkVisualization({
   const padding = 80
   const maxX = Math.max(...Array.from(layout.values()).map(p => p.x)) + padding
   const maxY = Math.max(...Array.from(layout.values()).map(p => p.y)) + padding
+  // Labels and glow become clutter (and cost) on large networks
+  const detail = detailForCount(accounts.length)
 
   return (
     <svg
@@ -684,6 +1292,18 @@ function NetworkVisualization({
 
             return (
               <g key={flowKey}>
+                {highlightedIds.has(account.id) && highlightedIds.has(targetId) && (
+                  <line
+                    x1={sourcePos.x}
+                    y1={sourcePos.y}
+                    x2={targetPos.x}
+                    y2={targetPos.y}
+                    stroke="#fb923c"
+                    strokeWidth={14}
+                    strokeOpacity={0.35}
+                    strokeLinecap="round"
+                  />
+                )}
                 <line
                   x1={sourcePos.x}
                   y1={sourcePos.y}
@@ -693,18 +1313,20 @@ function NetworkVisualization({
                   strokeWidth={isActive ? 3 : 1.5}
                   strokeOpacity={isActive ? 1 : 0.4}
                   markerEnd={`url(#${isActive ? 'arrowhead-active' : 'arrowhead'})`}
-                  filter={isActive ? 'url(#glow)' : undefined}
+                  filter={isActive && detail === 'full' ? 'url(#glow)' : undefined}
                 />
-                <text
-                  x={(sourcePos.x + targetPos.x) / 2}
-                  y={(sourcePos.y + targetPos.y) / 2 - 5}
-                  fill="#94a3b8"
-                  fontSize="12"
-                  textAnchor="middle"
-                >
-                  {percentage}%
-                </text>
-                {isActive && (
+                {detail === 'full' && (
+                  <text
+                    x={(sourcePos.x + targetPos.x) / 2}
+                    y={(sourcePos.y + targetPos.y) / 2 - 5}
+                    fill="#94a3b8"
+                    fontSize="12"
+                    textAnchor="middle"
+                  >
+                    {percentage}%
+                  </text>
+                )}
+                {isActive && detail === 'full' && (
                   <text
                     x={(sourcePos.x + targetPos.x) / 2}
                     y={(sourcePos.y + targetPos.y) / 2 + 15}
@@ -722,24 +1344,14 @@ function NetworkVisualization({
         )
       })}
 
-      {/* Draw animated particles */}
-      {particles.map(particle => {
-        const x = particle.fromX + (particle.toX - particle.fromX) * particle.progress
-        const y = particle.fromY + (particle.toY - particle.fromY) * particle.progress
-        const size = Math.max(4, Math.min(8, particle.amount / 50))
-
-        return (
-          <circle
-            key={particle.id}
-            cx={x}
-            cy={y}
-            r={size}
-            fill={particle.color}
-            opacity={0.8}
-            filter="url(#glow)"
-          />
-        )
-      })}
+      {/* Draw animated particles (one path for all of them) */}
+      <path
+        ref={particlesPathRef}
+        fill="#60a5fa"
+        opacity={0.8}
+        filter={detail === 'full' ? 'url(#glow)' : undefined}
+        className="pointer-events-none"
+      />
 
       {/* Draw accounts */}
       {accounts.map(account => {
@@ -772,6 +1384,17 @@ function NetworkVisualization({
             onClick={() => onAccountClick(account.id)}
             style={{ cursor: interactiveMode ? 'pointer' : 'default' }}
           >
+            {/* Injection heatmap */}
+            {heatmap.has(account.id) && (
+              <circle
+                cx={pos.x}
+                cy={pos.y}
+                r={44 + 16 * heatmap.get(account.id)!}
+                fill={heatColor(heatmap.get(account.id)!)}
+                fillOpacity={0.35}
+              />
+            )}
+
             {/* Selection ring */}
             {isSelected && (
               <circle
@@ -792,6 +1415,19 @@ function NetworkVisualization({
               </circle>
             )}
 
+            {/* Analysis highlight */}
+            {highlightedIds.has(account.id) && (
+              <circle
+                cx={pos.x}
+                cy={pos.y}
+                r={50}
+                fill="none"
+                stroke="#fb923c"
+                strokeWidth={3}
+                strokeDasharray="8 4"
+              />
+            )}
+
             {/* Account circle */}
             <circle
               cx={pos.x}
@@ -804,38 +1440,44 @@ function NetworkVisualization({
             />
 
             {/* Account name */}
-            <text
-              x={pos.x}
-              y={pos.y - 5}
-              fill="white"
-              fontSize="14"
-              fontWeight="bold"
-              textAnchor="middle"
-            >
-              {account.name}
-            </text>
-
-            {/* Balance */}
-            <text
-              x={pos.x}
-              y={pos.y + 10}
-              fill="white"
-              fontSize="12"
-              textAnchor="middle"
-            >
-              ${balance.toFixed(0)}
-            </text>
-
-            {/* Thresholds */}
-            <text
-              x={pos.x}
-              y={pos.y + 25}
-              fill="#94a3b8"
-              fontSize="10"
-              textAnchor="middle"
-            >
-              ({account.minThreshold}–{account.maxThreshold})
-            </text>
+            {detail !== 'minimal' && (
+              <text
+                x={pos.x}
+                y={pos.y - 5}
+                fill="white"
+                fontSize="14"
+                fontWeight="bold"
+                textAnchor="middle"
+              >
+                {account.name}
+              </text>
+            )}
+
+            {detail === 'full' && (
+              <>
+                {/* Balance */}
+                <text
+                  x={pos.x}
+                  y={pos.y + 10}
+                  fill="white"
+                  fontSize="12"
+                  textAnchor="middle"
+                >
+                  ${balance.toFixed(0)}
+                </text>
+
+                {/* Thresholds */}
+                <text
+                  x={pos.x}
+                  y={pos.y + 25}
+                  fill="#94a3b8"
+                  fontSize="10"
+                  textAnchor="middle"
+                >
+                  ({account.minThreshold}–{account.maxThreshold})
+                </text>
+              </>
+            )}
           </g>
         )
       })}
@@ -843,6 +1485,27 @@ function NetworkVisualization({
   )
 }
 
+/**
+ * SVG path drawing every particle as a circle - one element however many there are
+ */
+function particlePath(particles: FlowParticle[]): string {
+  return particles
+    .map(particle => {
+      const x = particle.fromX + (particle.toX - particle.fromX) * particle.progress
+      const y = particle.fromY + (particle.toY - particle.fromY) * particle.progress
+      const r = Math.max(4, Math.min(8, particle.amount / 50))
+      return `M${(x - r).toFixed(1)} ${y.toFixed(1)}a${r} ${r} 0 1 0 ${2 * r} 0a${r} ${r} 0 1 0 ${-2 * r} 0`
+    })
+    .join('')
+}
+
+/**
+ * Heatmap color from cold (blue, 0) to hot (red, 1)
+ */
+function heatColor(score: number): string {
+  return `hsl(${Math.round((1 - score) * 220)}, 90%, 55%)`
+}
+
 /**
  * Distribution Timeline Component
  */
@@ -927,6 +1590,219 @@ function DistributionTimeline({
   )
 }
 
+/**
+ * Round Timeline Chart - one small chart per account, balance against its
+ * min/max band after each round
+ */
+function RoundTimelineChart({
+  accounts,
+  timeline,
+}: {
+  accounts: Account[]
+  timeline: TimelineResult
+}) {
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+      {accounts.map(account => {
+        const data = [
+          {
+            round: 0,
+            balance: timeline.initialBalances.get(account.id) || 0,
+          },
+          ...timeline.rounds.map(r => ({
+            round: r.round + 1,
+            balance: r.result.finalBalances.get(account.id) || 0,
+          })),
+        ]
+        const peak = Math.max(
+          account.maxThreshold,
+          ...data.map(d => d.balance)
+        )
+
+        return (
+          <div key={account.id}>
+            <div className="flex items-center justify-between text-sm mb-2">
+              <span className="font-semibold">{account.name}</span>
+              <span className="text-slate-400 text-xs">
+                ${account.minThreshold} – ${account.maxThreshold}
+              </span>
+            </div>
+            <ResponsiveContainer width="100%" height={160}>
+              <ComposedChart data={data}>
+                <CartesianGrid stroke="#334155" strokeDasharray="3 3" />
+                <XAxis dataKey="round" stroke="#94a3b8" fontSize={11} />
+                <YAxis
+                  stroke="#94a3b8"
+                  fontSize={11}
+                  width={48}
+                  domain={[0, Math.ceil(peak * 1.1)]}
+                />
+                <Tooltip
+                  contentStyle={{
+                    backgroundColor: '#0f172a',
+                    border: '1px solid #334155',
+                  }}
+                  labelFormatter={round => `Round ${round}`}
+                  formatter={(value: number) => [`$${value.toFixed(2)}`, 'Balance']}
+                />
+                <ReferenceArea
+                  y1={account.minThreshold}
+                  y2={account.maxThreshold}
+                  fill="#eab308"
+                  fillOpacity={0.1}
+                />
+                <ReferenceLine
+                  y={account.minThreshold}
+                  stroke="#ef4444"
+                  strokeDasharray="4 4"
+                />
+                <ReferenceLine
+                  y={account.maxThreshold}
+                  stroke="#22c55e"
+                  strokeDasharray="4 4"
+                />
+                <Line
+                  type="monotone"
+                  dataKey="balance"
+                  stroke="#60a5fa"
+                  strokeWidth={2}
+                  dot={{ r: 2 }}
+                  isAnimationActive={false}
+                />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
+
+const STATE_LABELS: Record<AccountState, string> = {
+  'below-minimum': 'below minimum',
+  sustainable: 'sustainable',
+  'at-maximum': 'at maximum',
+  overflowing: 'overflowing',
+}
+
+/**
+ * Final balance per account across a funding sweep, with state breakpoints
+ */
+function SensitivityChart({
+  accounts,
+  sensitivity,
+}: {
+  accounts: Account[]
+  sensitivity: SensitivityResult
+}) {
+  const names = new Map(accounts.map(a => [a.id, a.name]))
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        {accounts.map(account => {
+          const data = sensitivity.points.map(p => ({
+            funding: p.funding,
+            balance: p.balances.get(account.id) || 0,
+          }))
+          const peak = Math.max(account.maxThreshold, ...data.map(d => d.balance))
+          const breakpoints = sensitivity.breakpoints.filter(
+            b => b.accountId === account.id
+          )
+
+          return (
+            <div key={account.id}>
+              <div className="flex items-center justify-between text-sm mb-2">
+                <span className="font-semibold">{account.name}</span>
+                <span className="text-slate-400 text-xs">
+                  ${account.minThreshold} – ${account.maxThreshold}
+                </span>
+              </div>
+              <ResponsiveContainer width="100%" height={160}>
+                <ComposedChart data={data}>
+                  <CartesianGrid stroke="#334155" strokeDasharray="3 3" />
+                  <XAxis
+                    dataKey="funding"
+                    type="number"
+                    domain={[0, 'dataMax']}
+                    stroke="#94a3b8"
+                    fontSize={11}
+                    tickFormatter={value => `$${value}`}
+                  />
+                  <YAxis
+                    stroke="#94a3b8"
+                    fontSize={11}
+                    width={48}
+                    domain={[0, Math.ceil(peak * 1.1)]}
+                  />
+                  <Tooltip
+                    contentStyle={{
+                      backgroundColor: '#0f172a',
+                      border: '1px solid #334155',
+                    }}
+                    labelFormatter={funding => `Funding $${Number(funding).toFixed(0)}`}
+                    formatter={(value: number) => [`$${value.toFixed(2)}`, 'Final balance']}
+                  />
+                  <ReferenceArea
+                    y1={account.minThreshold}
+                    y2={account.maxThreshold}
+                    fill="#eab308"
+                    fillOpacity={0.1}
+                  />
+                  {breakpoints.map(b => (
+                    <ReferenceLine
+                      key={`${b.to}-${b.funding}`}
+                      x={b.funding}
+                      stroke="#a855f7"
+                      strokeDasharray="4 4"
+                    />
+                  ))}
+                  <Line
+                    type="linear"
+                    dataKey="balance"
+                    stroke="#60a5fa"
+                    strokeWidth={2}
+                    dot={false}
+                    isAnimationActive={false}
+                  />
+                </ComposedChart>
+              </ResponsiveContainer>
+            </div>
+          )
+        })}
+      </div>
+
+      <div>
+        <h3 className="text-sm font-semibold text-slate-300 mb-2">Breakpoints</h3>
+        {sensitivity.breakpoints.length === 0 ? (
+          <p className="text-sm text-slate-500">No account changes state in this range.</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-slate-400 border-b border-slate-700">
+                <th className="text-left py-2">Funding</th>
+                <th className="text-left py-2">Account</th>
+                <th className="text-left py-2">Change</th>
+              </tr>
+            </thead>
+            <tbody>
+              {sensitivity.breakpoints.map(b => (
+                <tr key={`${b.accountId}-${b.to}-${b.funding}`} className="border-b border-slate-800">
+                  <td className="py-2 font-mono">${b.funding.toFixed(2)}</td>
+                  <td className="py-2">{names.get(b.accountId) ?? b.accountId}</td>
+                  <td className="py-2 text-slate-300">
+                    {STATE_LABELS[b.from]} → {STATE_LABELS[b.to]}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  )
+}
+
 /**
  * Results Table Component
  */
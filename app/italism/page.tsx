@@ -6,7 +6,7 @@ import { useEffect, useRef, useState } from "react"
 import Link from "next/link"
 
 // Inline Propagator class (simplified from @folkjs/propagators)
-type PropagatorFunction = (source: EventTarget, target: EventTarget, event: Event) => any
+type PropagatorFunction = (source: EventTarget, target: EventTarget, event: Event) => unknown
 
 interface PropagatorOptions {
   source?: EventTarget | null
@@ -63,6 +63,9 @@ class Propagator {
   }
 }
 
+// EventTarget tagged with the id of the shape it stands for
+type ShapeTarget = EventTarget & { _shapeId?: string }
+
 type Tool = "select" | "draw" | "erase" | "rectangle" | "text" | "arrow"
 
 // Helper function to calculate distance from point to line segment
@@ -166,7 +169,8 @@ export default function ItalismPage() {
   // Undo/Redo state - using useRef to avoid stale closure issues
   const historyRef = useRef<Shape[][]>([])
   const historyIndexRef = useRef(-1)
-  const [, forceUpdate] = useState({})
+  const [canUndo, setCanUndo] = useState(false)
+  const [canRedo, setCanRedo] = useState(false)
   const isInitialized = useRef(false)
 
   // Initialize history with current shapes on mount
@@ -178,6 +182,12 @@ export default function ItalismPage() {
     }
   }, [])
 
+  // Update the undo/redo button states from the history refs
+  const syncHistoryButtons = () => {
+    setCanUndo(historyIndexRef.current > 0)
+    setCanRedo(historyIndexRef.current < historyRef.current.length - 1)
+  }
+
   // Save state to history (called after any shape modification)
   const saveToHistory = (newShapes: Shape[]) => {
     if (!isInitialized.current) return
@@ -196,6 +206,7 @@ export default function ItalismPage() {
     }
 
     setShapes(newShapes)
+    syncHistoryButtons()
   }
 
   // Undo function - go back one state
@@ -204,7 +215,7 @@ export default function ItalismPage() {
       historyIndexRef.current--
       const previousState = historyRef.current[historyIndexRef.current]
       setShapes(previousState)
-      forceUpdate({}) // Force re-render to update button states
+      syncHistoryButtons()
     }
   }
 
@@ -214,7 +225,7 @@ export default function ItalismPage() {
       historyIndexRef.current++
       const nextState = historyRef.current[historyIndexRef.current]
       setShapes(nextState)
-      forceUpdate({}) // Force re-render to update button states
+      syncHistoryButtons()
     }
   }
 
@@ -326,8 +337,8 @@ export default function ItalismPage() {
     const mockTarget = new EventTarget()
 
     // Store shape IDs on EventTargets so handler can reference them
-    ;(mockSource as any)._shapeId = arrow.sourceShapeId
-    ;(mockTarget as any)._shapeId = arrow.targetShapeId
+    ;(mockSource as ShapeTarget)._shapeId = arrow.sourceShapeId
+    ;(mockTarget as ShapeTarget)._shapeId = arrow.targetShapeId
 
     const expression = arrow.expression || "value: from.value"
 
@@ -336,19 +347,19 @@ export default function ItalismPage() {
         source: mockSource,
         target: mockTarget,
         event: "update",
-        handler: (from: any, to: any) => {
+        handler: (from: ShapeTarget, to: ShapeTarget) => {
           // Use setShapes with function to get CURRENT state (avoid stale closure)
           setShapes((currentShapes) => {
-            const currentSourceShape = currentShapes.find((s) => s.id === (from as any)._shapeId)
+            const currentSourceShape = currentShapes.find((s) => s.id === from._shapeId)
             if (!currentSourceShape || currentSourceShape.value === undefined) {
               console.log("⚠️ No source value to propagate")
               return currentShapes // return unchanged
             }
 
             const sourceValue = currentSourceShape.value
-            const targetId = (to as any)._shapeId
+            const targetId = to._shapeId
 
-            console.log(`✅ Propagating from ${(from as any)._shapeId} to ${targetId}: ${sourceValue}`)
+            console.log(`✅ Propagating from ${from._shapeId} to ${targetId}: ${sourceValue}`)
 
             // Update target shape with value
             return currentShapes.map((s) =>
@@ -682,7 +693,7 @@ export default function ItalismPage() {
 
   const handleMouseUp = () => {
     if (isDrawing && currentShape) {
-      let newShape = currentShape as Shape
+      const newShape = { ...currentShape } as Shape
 
       // Normalize rectangles with negative dimensions (drawn upward/leftward)
       if (newShape.type === "rectangle" && newShape.width !== undefined && newShape.height !== undefined) {
@@ -928,7 +939,7 @@ export default function ItalismPage() {
             <div className="flex gap-2">
               <button
                 onClick={undo}
-                disabled={historyIndexRef.current <= 0}
+                disabled={!canUndo}
                 className="flex-1 px-4 py-2 bg-slate-700 hover:bg-slate-600 disabled:bg-slate-800 disabled:text-slate-600 disabled:cursor-not-allowed rounded text-sm transition-colors"
                 title="Undo (Ctrl+Z)"
               >
@@ -936,7 +947,7 @@ export default function ItalismPage() {
               </button>
               <button
                 onClick={redo}
-                disabled={historyIndexRef.current >= historyRef.current.length - 1}
+                disabled={!canRedo}
                 className="flex-1 px-4 py-2 bg-slate-700 hover:bg-slate-600 disabled:bg-slate-800 disabled:text-slate-600 disabled:cursor-not-allowed rounded text-sm transition-colors"
                 title="Redo (Ctrl+Shift+Z)"
               >
@@ -1,6 +1,6 @@
 "use client"
 
-import { useEffect, useRef, useState } from "react"
+import { useEffect, useMemo, useRef, useState } from "react"
 import Link from "next/link"
 import type { FlowNetwork, FlowAllocation, FlowParticle } from "@/lib/tbff-flow/types"
 import { renderFlowNetwork } from "@/lib/tbff-flow/rendering"
@@ -16,30 +16,117 @@ import {
   calculateFlowNetworkTotals,
   updateFlowNodeProperties,
 } from "@/lib/tbff-flow/utils"
-import { propagateFlow, updateFlowParticles } from "@/lib/tbff-flow/algorithms"
-
-type Tool = 'select' | 'create-allocation'
+import { propagateFlow, updateFlowParticles, validateNetwork } from "@/lib/tbff-flow/algorithms"
+import {
+  addFlowNode,
+  MIN_NODE_SIZE,
+  nextNodeName,
+  removeFlowNode,
+  updateFlowNode,
+  type NodeChanges,
+} from "@/lib/tbff-flow/editing"
+import type { AllocationLimits } from "@/lib/core/limits"
+import type { Diagnostic } from "@/lib/core/types"
+import { parseNetworkDocumentOf, expectNetworkModel, serializeFlowNetwork, deserializeFlowNetwork } from "@/lib/network-io/serialization"
+import type { SharedNetworkState } from "@/lib/network-io/share"
+import { NetworkFileButtons } from "@/components/network-file-buttons"
+import { ShareLinkButton } from "@/components/share-link-button"
+import { ProblemsPanel, diagnosticTarget } from "@/components/problems-panel"
+import { GeneratePanel } from "@/components/generate-panel"
+import { MetricsPanel } from "@/components/metrics-panel"
+import { computeMetrics, fromPropagatedNetwork } from "@/lib/core/metrics"
+import { fromFlowNetwork, layoutOf, toFlowNetwork } from "@/lib/core/adapters"
+import { generatedName, generateGraph, type GeneratorConfig } from "@/lib/core/generators"
+import { computeLayout, type Layout, type LayoutAlgorithm } from "@/lib/core/layout"
+import { AutoLayoutButton } from "@/components/auto-layout-button"
+import { DEFAULT_VIEWPORT, fitViewport, toWorld, zoomAt, type Viewport } from "@/lib/core/viewport"
+import { ViewportControls } from "@/components/viewport-controls"
+import { emptyHistory, jumpTo, record, redo, snapshotCommand, undo, type History } from "@/lib/core/history"
+import { HistoryPanel } from "@/components/history-panel"
+
+type Tool = 'select' | 'create-allocation' | 'create-node'
+
+/** Floor/cap input value: empty clears the limit */
+const parseLimit = (value: string) =>
+  value === '' ? undefined : Math.max(0, parseFloat(value) || 0)
 
 export default function TBFFFlowPage() {
   const canvasRef = useRef<HTMLCanvasElement>(null)
   const animationFrameRef = useRef<number | null>(null)
 
   const [network, setNetwork] = useState<FlowNetwork>(flowSampleNetworks.linear)
-  const [particles, setParticles] = useState<FlowParticle[]>([])
+  // Particles live in a ref: the animation loop redraws the canvas itself
+  // instead of re-rendering the page every frame
+  const particlesRef = useRef<FlowParticle[]>([])
   const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null)
   const [selectedAllocationId, setSelectedAllocationId] = useState<string | null>(null)
   const [selectedNetworkKey, setSelectedNetworkKey] = useState<string>('linear')
   const [tool, setTool] = useState<Tool>('select')
   const [allocationSourceId, setAllocationSourceId] = useState<string | null>(null)
   const [isAnimating, setIsAnimating] = useState(true)
+  // Pan/zoom; panRef tracks a drag in progress (a drag that moved suppresses the click ending it)
+  const [viewport, setViewport] = useState<Viewport>(DEFAULT_VIEWPORT)
+  const panRef = useRef<{ x: number; y: number; origin: Viewport; moved: boolean } | null>(null)
+  // Undo/redo - edits go through commit, which records them as commands
+  const [history, setHistory] = useState<History<FlowNetwork>>(emptyHistory)
+
+  // Nodes of the problem picked in the problems panel, outlined on the canvas
+  const [highlightedIds, setHighlightedIds] = useState<string[] | null>(null)
+  const validation = useMemo(() => validateNetwork(network), [network])
+  const metrics = useMemo(() => computeMetrics(fromPropagatedNetwork(network)), [network])
+
+  // Select the node/allocation a problem is about
+  const handleSelectDiagnostic = (diagnostic: Diagnostic | null) => {
+    setHighlightedIds(diagnostic?.nodeIds ?? null)
+    if (!diagnostic) return
+
+    const { nodeId, edgeId } = diagnosticTarget(diagnostic)
+    if (edgeId) {
+      setSelectedAllocationId(edgeId)
+      setSelectedNodeId(null)
+    } else if (nodeId) {
+      setSelectedNodeId(nodeId)
+      setSelectedAllocationId(null)
+    }
+  }
+
+  // Latest render inputs, read by the animation loop (synced below)
+  const sceneRef = useRef({ network, selectedNodeId, selectedAllocationId, highlightedIds, viewport })
+
+  const drawCanvas = () => {
+    const canvas = canvasRef.current
+    if (!canvas) return
+
+    const ctx = canvas.getContext("2d")
+    if (!ctx) return
+
+    // Resizing clears the canvas, so only do it when the element changed size
+    if (canvas.width !== canvas.offsetWidth || canvas.height !== canvas.offsetHeight) {
+      canvas.width = canvas.offsetWidth
+      canvas.height = canvas.offsetHeight
+    }
+
+    const scene = sceneRef.current
+    renderFlowNetwork(
+      ctx,
+      scene.network,
+      canvas.width,
+      canvas.height,
+      particlesRef.current,
+      scene.selectedNodeId,
+      scene.selectedAllocationId,
+      new Set(scene.highlightedIds ?? []),
+      scene.viewport
+    )
+  }
 
-  // Animation loop
+  // Animation loop - moves particles and redraws without touching React state
   useEffect(() => {
     if (!isAnimating) return
 
     const animate = () => {
-      // Update particles
-      setParticles(prev => updateFlowParticles(prev))
+      particlesRef.current = updateFlowParticles(particlesRef.current)
+      drawCanvas()
 
       animationFrameRef.current = requestAnimationFrame(animate)
     }
@@ -53,36 +140,35 @@ export default function TBFFFlowPage() {
     }
   }, [isAnimating])
 
-  // Render canvas
+  // Redraw when the network or view changes (the loop is not running while paused)
   useEffect(() => {
-    const canvas = canvasRef.current
-    if (!canvas) return
+    sceneRef.current = { network, selectedNodeId, selectedAllocationId, highlightedIds, viewport }
+    drawCanvas()
+  }, [network, selectedNodeId, selectedAllocationId, highlightedIds, viewport])
+
+  // Propagate flow through an edited network, then replace the network and
+  // record the change (edits sharing a key merge into one step). Runs
+  // synchronously so sliders update live and the history holds settled flows.
+  const commit = (label: string, updatedNetwork: FlowNetwork, key?: string) => {
+    const result = propagateFlow(updatedNetwork)
+    setHistory(prev => record(prev, snapshotCommand(label, network, result.network, key)))
+    setNetwork(result.network)
+    particlesRef.current = result.particles
+  }
 
-    const ctx = canvas.getContext("2d")
-    if (!ctx) return
+  // Restore a network from the history (snapshots are already propagated,
+  // only the particles need regenerating)
+  const applyHistory = (restored: { history: History<FlowNetwork>; state: FlowNetwork }) => {
+    setHistory(restored.history)
+    setNetwork(restored.state)
+    particlesRef.current = propagateFlow(restored.state).particles
+  }
 
-    // Set canvas size
-    canvas.width = canvas.offsetWidth
-    canvas.height = canvas.offsetHeight
+  const handleUndo = () => applyHistory(undo(history, network))
+  const handleRedo = () => applyHistory(redo(history, network))
+  const handleJump = (position: number) => applyHistory(jumpTo(history, network, position))
 
-    // Render the network
-    renderFlowNetwork(
-      ctx,
-      network,
-      canvas.width,
-      canvas.height,
-      particles,
-      selectedNodeId,
-      selectedAllocationId
-    )
-  }, [network, particles, selectedNodeId, selectedAllocationId])
-
-  // Propagate flow when network changes
-  const handlePropagateFlow = () => {
-    const result = propagateFlow(network)
-    setNetwork(result.network)
-    setParticles(result.particles)
-  }
+  const nodeName = (nodeId: string) => network.nodes.find(n => n.id === nodeId)?.name ?? nodeId
 
   // Set external flow for selected node
   const handleSetNodeFlow = (nodeId: string, flow: number) => {
@@ -97,14 +183,7 @@ export default function TBFFFlowPage() {
       nodes: updatedNodes,
     }
 
-    setNetwork(updatedNetwork)
-
-    // Auto-propagate
-    setTimeout(() => {
-      const result = propagateFlow(updatedNetwork)
-      setNetwork(result.network)
-      setParticles(result.particles)
-    }, 100)
+    commit(`Set ${nodeName(nodeId)} external flow`, updatedNetwork, `flow:${nodeId}`)
   }
 
   // Handle canvas click
@@ -112,9 +191,13 @@ export default function TBFFFlowPage() {
     const canvas = canvasRef.current
     if (!canvas) return
 
+    // The click ending a pan isn't a selection
+    const pan = panRef.current
+    panRef.current = null
+    if (pan?.moved) return
+
     const rect = canvas.getBoundingClientRect()
-    const x = e.clientX - rect.left
-    const y = e.clientY - rect.top
+    const { x, y } = toWorld(viewport, e.clientX - rect.left, e.clientY - rect.top)
 
     // Find clicked node
     const clickedNode = network.nodes.find(
@@ -154,12 +237,57 @@ export default function TBFFFlowPage() {
           setAllocationSourceId(null)
         }
       }
+    } else if (tool === 'create-node') {
+      if (clickedNode) {
+        setSelectedNodeId(clickedNode.id)
+        setSelectedAllocationId(null)
+      } else {
+        createNode(x, y)
+      }
     }
   }
 
+  // Dragging pans the view once the mouse moved more than 5 pixels
+  const handleMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    panRef.current = { x: e.clientX, y: e.clientY, origin: viewport, moved: false }
+  }
+
+  const handleMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const pan = panRef.current
+    if (!pan) return
+
+    const dx = e.clientX - pan.x
+    const dy = e.clientY - pan.y
+    if (!pan.moved && Math.sqrt(dx * dx + dy * dy) <= 5) return
+
+    pan.moved = true
+    setViewport({ ...pan.origin, x: pan.origin.x + dx, y: pan.origin.y + dy })
+  }
+
+  // Zoom around the cursor
+  const handleWheel = (e: React.WheelEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect()
+    const factor = e.deltaY < 0 ? 1.15 : 1 / 1.15
+    setViewport(prev => zoomAt(prev, e.clientX - rect.left, e.clientY - rect.top, factor))
+  }
+
+  // Zoom around the middle of the canvas
+  const handleZoom = (factor: number) => {
+    const canvas = canvasRef.current
+    if (!canvas) return
+    setViewport(prev => zoomAt(prev, canvas.offsetWidth / 2, canvas.offsetHeight / 2, factor))
+  }
+
+  // Viewport showing every node (the default one if they already fit)
+  const fitNetwork = (nodes: FlowNetwork['nodes']) => {
+    const canvas = canvasRef.current
+    return canvas ? fitViewport(nodes, canvas.offsetWidth, canvas.offsetHeight) : DEFAULT_VIEWPORT
+  }
+
   // Find allocation at point
   const findAllocationAtPoint = (x: number, y: number): FlowAllocation | null => {
-    const tolerance = 15
+    // 15 pixels on screen, whatever the zoom
+    const tolerance = 15 / viewport.scale
 
     for (const allocation of network.allocations) {
       const sourceNode = network.nodes.find(n => n.id === allocation.sourceNodeId)
@@ -235,12 +363,9 @@ export default function TBFFFlowPage() {
       allocations: finalAllocations,
     }
 
-    setNetwork(updatedNetwork)
+    commit(`Create allocation ${nodeName(sourceId)} → ${nodeName(targetId)}`, updatedNetwork)
     setSelectedAllocationId(newAllocation.id)
     setTool('select')
-
-    // Re-propagate
-    setTimeout(() => handlePropagateFlow(), 100)
   }
 
   // Update allocation percentage
@@ -269,14 +394,23 @@ export default function TBFFFlowPage() {
       allocations: finalAllocations,
     }
 
-    setNetwork(updatedNetwork)
+    commit(
+      `Set allocation ${nodeName(allocation.sourceNodeId)} → ${nodeName(allocation.targetNodeId)} percentage`,
+      updatedNetwork,
+      `percentage:${allocationId}`
+    )
+  }
+
+  // Update allocation floor/cap (undefined clears a limit)
+  const updateAllocationLimits = (allocationId: string, limits: AllocationLimits) => {
+    const updatedNetwork = {
+      ...network,
+      allocations: network.allocations.map(a =>
+        a.id === allocationId ? { ...a, ...limits } : a
+      ),
+    }
 
-    // Re-propagate
-    setTimeout(() => {
-      const result = propagateFlow(updatedNetwork)
-      setNetwork(result.network)
-      setParticles(result.particles)
-    }, 100)
+    commit('Set allocation floor/cap', updatedNetwork, `limits:${allocationId}:${Object.keys(limits).join()}`)
   }
 
   // Delete allocation
@@ -301,25 +435,105 @@ export default function TBFFFlowPage() {
       allocations: finalAllocations,
     }
 
-    setNetwork(updatedNetwork)
+    commit(
+      `Delete allocation ${nodeName(allocation.sourceNodeId)} → ${nodeName(allocation.targetNodeId)}`,
+      updatedNetwork
+    )
     setSelectedAllocationId(null)
+  }
 
-    // Re-propagate
-    setTimeout(() => handlePropagateFlow(), 100)
+  // Create a node centred on a canvas point and select it
+  const createNode = (x: number, y: number) => {
+    const id = `node_${Date.now()}`
+    const name = nextNodeName(network)
+    commit(`Create ${name}`, addFlowNode(network, { id, name, x, y }))
+    setSelectedNodeId(id)
+    setSelectedAllocationId(null)
+  }
+
+  // Rename, resize or change the absorption thresholds of a node
+  const editNode = (nodeId: string, changes: NodeChanges) => {
+    commit(
+      `Edit ${nodeName(nodeId)}`,
+      updateFlowNode(network, nodeId, changes),
+      `node:${nodeId}:${Object.keys(changes).join()}`
+    )
+  }
+
+  // Delete node along with its incoming and outgoing allocations
+  const deleteNode = (nodeId: string) => {
+    if (!network.nodes.some(n => n.id === nodeId)) return
+
+    commit(`Delete ${nodeName(nodeId)}`, removeFlowNode(network, nodeId))
+    setSelectedNodeId(null)
+    setSelectedAllocationId(null)
+    setAllocationSourceId(null)
+    setHighlightedIds(null)
   }
 
   // Load network
   const handleLoadNetwork = (key: string) => {
     setSelectedNetworkKey(key)
     const newNetwork = getFlowSampleNetwork(key as keyof typeof flowSampleNetworks)
-    setNetwork(newNetwork)
+    commit(`Load ${newNetwork.name}`, newNetwork)
+    setViewport(DEFAULT_VIEWPORT)
+    setSelectedNodeId(null)
+    setSelectedAllocationId(null)
+    setAllocationSourceId(null)
+    setHighlightedIds(null)
+    setTool('select')
+  }
+
+  // Replace the current network with one loaded from a file or link
+  const loadCustomNetwork = (imported: FlowNetwork) => {
+    setSelectedNetworkKey('custom')
     setSelectedNodeId(null)
     setSelectedAllocationId(null)
     setAllocationSourceId(null)
+    setHighlightedIds(null)
     setTool('select')
 
-    // Propagate initial flows
-    setTimeout(() => handlePropagateFlow(), 100)
+    commit(`Load ${imported.name}`, imported)
+    setViewport(fitNetwork(imported.nodes))
+  }
+
+  // Load a randomly generated network (top-left positions, so keep clear of the right/bottom edges)
+  const handleGenerate = (config: GeneratorConfig) => {
+    const graph = generateGraph({ ...config, width: 740, height: 540, spacing: 150 })
+    loadCustomNetwork(toFlowNetwork(graph, generatedName(config)))
+  }
+
+  // Current positions and an automatic layout filling the visible canvas
+  // (positions are top-left corners, so the area excludes the box size)
+  // (recorded as one history step up front; the animation then walks there)
+  const getAutoLayouts = (algorithm: LayoutAlgorithm) => {
+    const canvas = canvasRef.current
+    const graph = fromFlowNetwork(network)
+    const to = computeLayout(graph, algorithm, {
+      width: (canvas?.offsetWidth ?? 960) - 120,
+      height: (canvas?.offsetHeight ?? 720) - 100,
+      spacing: 150,
+    })
+    const laidOut = { ...network, nodes: network.nodes.map(n => ({ ...n, ...to.get(n.id) })) }
+    setHistory(prev => record(prev, snapshotCommand('Auto-layout', network, laidOut)))
+    return { from: layoutOf(graph), to }
+  }
+
+  const handleLayoutFrame = (layout: Layout) => {
+    setNetwork(prev => ({
+      ...prev,
+      nodes: prev.nodes.map(n => ({ ...n, ...layout.get(n.id) })),
+    }))
+  }
+
+  // Load a network from an exported JSON file
+  const handleImportNetwork = (json: string) => {
+    loadCustomNetwork(deserializeFlowNetwork(parseNetworkDocumentOf(json, 'tbff-flow')))
+  }
+
+  // Restore a network shared via URL fragment (external flows are part of the network)
+  const handleRestoreShared = ({ document }: SharedNetworkState) => {
+    loadCustomNetwork(deserializeFlowNetwork(expectNetworkModel(document, 'tbff-flow')))
   }
 
   // Get selected details
@@ -347,8 +561,24 @@ export default function TBFFFlowPage() {
         setAllocationSourceId(null)
         setSelectedNodeId(null)
         setSelectedAllocationId(null)
+        return
+      }
+
+      // Form fields keep their own undo, Delete and Space
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLSelectElement) return
+
+      // Ctrl+Z / Cmd+Z undo, with Shift redo
+      if ((e.ctrlKey || e.metaKey) && e.code === 'KeyZ') {
+        e.preventDefault()
+        if (e.shiftKey) {
+          handleRedo()
+        } else {
+          handleUndo()
+        }
       } else if (e.key === 'Delete' && selectedAllocationId) {
         deleteAllocation(selectedAllocationId)
+      } else if (e.key === 'Delete' && selectedNode && !selectedNode.isOverflowSink) {
+        deleteNode(selectedNode.id)
       } else if (e.key === ' ') {
         e.preventDefault()
         setIsAnimating(prev => !prev)
@@ -357,7 +587,7 @@ export default function TBFFFlowPage() {
 
     window.addEventListener('keydown', handleKeyDown)
     return () => window.removeEventListener('keydown', handleKeyDown)
-  }, [selectedAllocationId])
+  }, [selectedAllocationId, selectedNode, network, history])
 
   return (
     <div className="min-h-screen bg-slate-900 text-white">
@@ -388,9 +618,19 @@ export default function TBFFFlowPage() {
           <canvas
             ref={canvasRef}
             className={`w-full h-full ${
-              tool === 'create-allocation' ? 'cursor-crosshair' : 'cursor-pointer'
+              tool === 'select' ? 'cursor-pointer' : 'cursor-crosshair'
             }`}
             onClick={handleCanvasClick}
+            onMouseDown={handleMouseDown}
+            onMouseMove={handleMouseMove}
+            onMouseLeave={() => (panRef.current = null)}
+            onWheel={handleWheel}
+          />
+
+          <ViewportControls
+            viewport={viewport}
+            onZoom={handleZoom}
+            onFit={() => setViewport(fitNetwork(network.nodes))}
           />
 
           {/* Tool indicator */}
@@ -399,6 +639,11 @@ export default function TBFFFlowPage() {
               Click target node to create allocation
             </div>
           )}
+          {tool === 'create-node' && (
+            <div className="absolute top-4 left-4 bg-cyan-600 px-4 py-2 rounded-lg text-sm font-medium">
+              Click empty space to add a node
+            </div>
+          )}
 
           {/* Animation status */}
           <div className="absolute top-4 right-4 bg-slate-800 px-4 py-2 rounded-lg text-sm">
@@ -435,9 +680,24 @@ export default function TBFFFlowPage() {
               >
                 Create Arrow
               </button>
+              <button
+                onClick={() => {
+                  setTool('create-node')
+                  setAllocationSourceId(null)
+                }}
+                className={`col-span-2 px-3 py-2 rounded text-sm transition-colors ${
+                  tool === 'create-node'
+                    ? 'bg-cyan-600 text-white'
+                    : 'bg-slate-700 hover:bg-slate-600'
+                }`}
+              >
+                Create Node
+              </button>
             </div>
           </div>
 
+          <HistoryPanel history={history} onUndo={handleUndo} onRedo={handleRedo} onJump={handleJump} />
+
           {/* Network Selector */}
           <div className="space-y-2">
             <h3 className="text-sm font-semibold text-slate-400">Select Network</h3>
@@ -451,7 +711,22 @@ export default function TBFFFlowPage() {
                   {opt.label}
                 </option>
               ))}
+              {selectedNetworkKey === 'custom' && (
+                <option value="custom" disabled>
+                  {network.name} (imported)
+                </option>
+              )}
             </select>
+            <NetworkFileButtons
+              fileName={network.name}
+              onExport={() => serializeFlowNetwork(network)}
+              onImport={handleImportNetwork}
+            />
+            <ShareLinkButton
+              onShare={() => ({ document: serializeFlowNetwork(network), inputs: {} })}
+              onRestore={handleRestoreShared}
+            />
+            <AutoLayoutButton getLayouts={getAutoLayouts} onFrame={handleLayoutFrame} />
           </div>
 
           {/* Network Info */}
@@ -481,6 +756,24 @@ export default function TBFFFlowPage() {
             </div>
           </div>
 
+          <MetricsPanel metrics={metrics} className="bg-slate-700 p-4 rounded" />
+
+          {/* Problems */}
+          <ProblemsPanel
+            diagnostics={validation.diagnostics}
+            highlighted={highlightedIds}
+            onSelect={handleSelectDiagnostic}
+            className="bg-slate-700 p-4 rounded"
+          />
+
+          <GeneratePanel
+            onGenerate={handleGenerate}
+            thresholdRange={[10, 50]}
+            amountLabel="External flow"
+            amountMax={100}
+            className="bg-slate-700 p-4 rounded"
+          />
+
           {/* Set Flow Input */}
           {selectedNode && !selectedNode.isOverflowSink && (
             <div className="bg-green-900/30 border border-green-500/30 p-4 rounded">
@@ -551,6 +844,39 @@ export default function TBFFFlowPage() {
                     />
                   )}
                 </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <label className="text-slate-400 block mb-1">Floor</label>
+                    <input
+                      type="number"
+                      value={selectedAllocation.floor ?? ''}
+                      onChange={(e) =>
+                        updateAllocationLimits(selectedAllocation.id, { floor: parseLimit(e.target.value) })
+                      }
+                      placeholder="none"
+                      className="w-full px-3 py-2 bg-slate-800 rounded text-sm"
+                      min="0"
+                      step="50"
+                    />
+                  </div>
+                  <div>
+                    <label className="text-slate-400 block mb-1">Cap ($/mo)</label>
+                    <input
+                      type="number"
+                      value={selectedAllocation.cap ?? ''}
+                      onChange={(e) =>
+                        updateAllocationLimits(selectedAllocation.id, { cap: parseLimit(e.target.value) })
+                      }
+                      placeholder="none"
+                      className="w-full px-3 py-2 bg-slate-800 rounded text-sm"
+                      min="0"
+                      step="50"
+                    />
+                  </div>
+                </div>
+                <div className="text-[10px] text-slate-500 -mt-2">
+                  Floors are paid first; flow above a cap goes to the overflow sink.
+                </div>
                 <button
                   onClick={() => deleteAllocation(selectedAllocation.id)}
                   className="w-full px-3 py-2 bg-red-600 hover:bg-red-700 rounded text-sm transition-colors"
@@ -566,10 +892,22 @@ export default function TBFFFlowPage() {
             <div className="bg-slate-700 p-4 rounded">
               <h3 className="font-semibold text-cyan-400 mb-3">Node Details</h3>
               <div className="text-xs space-y-2">
-                <div>
-                  <span className="text-slate-400">Name: </span>
-                  <span className="text-white font-medium">{selectedNode.name}</span>
-                </div>
+                {selectedNode.isOverflowSink ? (
+                  <div>
+                    <span className="text-slate-400">Name: </span>
+                    <span className="text-white font-medium">{selectedNode.name}</span>
+                  </div>
+                ) : (
+                  <div>
+                    <label className="text-slate-400 block mb-1">Name</label>
+                    <input
+                      type="text"
+                      value={selectedNode.name}
+                      onChange={(e) => editNode(selectedNode.id, { name: e.target.value })}
+                      className="w-full px-3 py-2 bg-slate-800 rounded text-sm"
+                    />
+                  </div>
+                )}
                 <div>
                   <span className="text-slate-400">Status: </span>
                   <span className={`font-medium ${getFlowStatusColorClass(selectedNode.status)}`}>
@@ -589,16 +927,72 @@ export default function TBFFFlowPage() {
                     <span className="text-slate-400">Outflow:</span>
                     <span className="text-yellow-400 font-mono">{formatFlow(selectedNode.outflow)}</span>
                   </div>
-                  <div className="flex justify-between">
-                    <span className="text-slate-400">Min Absorption:</span>
-                    <span className="text-white font-mono">{formatFlow(selectedNode.minAbsorption)}</span>
-                  </div>
-                  <div className="flex justify-between">
-                    <span className="text-slate-400">Max Absorption:</span>
-                    <span className="text-white font-mono">{formatFlow(selectedNode.maxAbsorption)}</span>
-                  </div>
                 </div>
 
+                {!selectedNode.isOverflowSink && (
+                  <div className="pt-3 border-t border-slate-600 space-y-2">
+                    <div>
+                      <label className="text-slate-400 block mb-1">
+                        Min Absorption: {formatFlow(selectedNode.minAbsorption)}
+                      </label>
+                      <input
+                        type="range"
+                        min="0"
+                        max={Math.max(100, selectedNode.maxAbsorption)}
+                        value={selectedNode.minAbsorption}
+                        onChange={(e) =>
+                          editNode(selectedNode.id, { minAbsorption: parseFloat(e.target.value) })
+                        }
+                        className="w-full"
+                      />
+                    </div>
+                    <div>
+                      <label className="text-slate-400 block mb-1">
+                        Max Absorption: {formatFlow(selectedNode.maxAbsorption)}
+                      </label>
+                      <input
+                        type="range"
+                        min="0"
+                        max={Math.max(100, selectedNode.maxAbsorption)}
+                        value={selectedNode.maxAbsorption}
+                        onChange={(e) =>
+                          editNode(selectedNode.id, { maxAbsorption: parseFloat(e.target.value) })
+                        }
+                        className="w-full"
+                      />
+                    </div>
+                    {selectedNode.minAbsorption > selectedNode.maxAbsorption && (
+                      <div className="text-red-400">Min absorption is above max absorption</div>
+                    )}
+                    <div className="grid grid-cols-2 gap-2">
+                      <div>
+                        <label className="text-slate-400 block mb-1">Width: {selectedNode.width}</label>
+                        <input
+                          type="range"
+                          min={MIN_NODE_SIZE}
+                          max="300"
+                          step="10"
+                          value={selectedNode.width}
+                          onChange={(e) => editNode(selectedNode.id, { width: parseFloat(e.target.value) })}
+                          className="w-full"
+                        />
+                      </div>
+                      <div>
+                        <label className="text-slate-400 block mb-1">Height: {selectedNode.height}</label>
+                        <input
+                          type="range"
+                          min={MIN_NODE_SIZE}
+                          max="300"
+                          step="10"
+                          value={selectedNode.height}
+                          onChange={(e) => editNode(selectedNode.id, { height: parseFloat(e.target.value) })}
+                          className="w-full"
+                        />
+                      </div>
+                    </div>
+                  </div>
+                )}
+
                 {/* Outgoing Allocations */}
                 {outgoingAllocations.length > 0 && (
                   <div className="pt-3 border-t border-slate-600">
@@ -620,6 +1014,15 @@ export default function TBFFFlowPage() {
                     })}
                   </div>
                 )}
+
+                {!selectedNode.isOverflowSink && (
+                  <button
+                    onClick={() => deleteNode(selectedNode.id)}
+                    className="w-full px-3 py-2 bg-red-600 hover:bg-red-700 rounded text-sm transition-colors"
+                  >
+                    Delete Node
+                  </button>
+                )}
               </div>
             </div>
           )}
@@ -659,8 +1062,12 @@ export default function TBFFFlowPage() {
             <ul className="space-y-1 list-disc list-inside">
               <li>Click node to select and <strong className="text-green-400">set flow</strong></li>
               <li>Use <strong className="text-cyan-400">Create Arrow</strong> to draw allocations</li>
+              <li>Use <strong className="text-cyan-400">Create Node</strong> and click empty space to add a node</li>
+              <li>Rename, resize and set absorption thresholds in <strong className="text-cyan-400">Node Details</strong></li>
+              <li>Press <kbd className="px-1 bg-slate-800 rounded">Delete</kbd> to remove the selected arrow or node</li>
               <li>Watch flows <strong className="text-green-400">propagate</strong> in real-time</li>
               <li>Press <kbd className="px-1 bg-slate-800 rounded">Space</kbd> to pause/play animation</li>
+              <li>Press <kbd className="px-1 bg-slate-800 rounded">Ctrl+Z</kbd> / <kbd className="px-1 bg-slate-800 rounded">Ctrl+Shift+Z</kbd> to undo/redo</li>
               <li>Overflow sink appears automatically if needed</li>
             </ul>
           </div>
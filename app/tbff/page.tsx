@@ -1,14 +1,65 @@
 "use client"
 
-import { useEffect, useRef, useState } from "react"
+import { useEffect, useMemo, useRef, useState } from "react"
 import Link from "next/link"
-import type { FlowFundingNetwork, Allocation } from "@/lib/tbff/types"
+import type { FlowFundingNetwork, Allocation, FlowParticle, FundingRound, FundingStep } from "@/lib/tbff/types"
 import { renderNetwork } from "@/lib/tbff/rendering"
 import { sampleNetworks, networkOptions, getSampleNetwork } from "@/lib/tbff/sample-networks"
 import { formatCurrency, getStatusColorClass, normalizeAllocations, calculateNetworkTotals, updateAccountComputedProperties } from "@/lib/tbff/utils"
-import { initialDistribution, getDistributionSummary } from "@/lib/tbff/algorithms"
+import { addAccount, nextAccountName, removeAccount, updateAccount, type AccountChanges } from "@/lib/tbff/editing"
+import {
+  runFundingRound,
+  getDistributionSummary,
+  applyConsumption,
+  updateFlowParticles,
+  validateNetwork,
+} from "@/lib/tbff/algorithms"
+import { DEFAULT_STRATEGY, DISTRIBUTION_STRATEGIES, STRATEGY_OPTIONS, type StrategyId } from "@/lib/core/strategies"
+import type { AllocationLimits } from "@/lib/core/limits"
+import type { Diagnostic } from "@/lib/core/types"
+import { parseNetworkDocumentOf, expectNetworkModel, serializeTbffNetwork, deserializeTbffNetwork } from "@/lib/network-io/serialization"
+import type { SharedNetworkState } from "@/lib/network-io/share"
+import { NetworkFileButtons } from "@/components/network-file-buttons"
+import { ShareLinkButton } from "@/components/share-link-button"
+import { ProblemsPanel, diagnosticTarget } from "@/components/problems-panel"
+import { GeneratePanel } from "@/components/generate-panel"
+import { fromTbffNetwork, layoutOf, toTbffNetwork } from "@/lib/core/adapters"
+import { generatedName, generateGraph, type GeneratorConfig } from "@/lib/core/generators"
+import { computeLayout, type Layout, type LayoutAlgorithm } from "@/lib/core/layout"
+import { AutoLayoutButton } from "@/components/auto-layout-button"
+import { DEFAULT_VIEWPORT, fitViewport, toWorld, zoomAt, type Viewport } from "@/lib/core/viewport"
+import { ViewportControls } from "@/components/viewport-controls"
+import { emptyHistory, jumpTo, record, redo, snapshotCommand, undo, type History } from "@/lib/core/history"
+import { HistoryPanel } from "@/components/history-panel"
+import { PlaybackControls } from "@/components/playback-controls"
+import { MetricsPanel } from "@/components/metrics-panel"
+import { NumberInput } from "@/components/number-input"
+import { computeMetrics, fromTbffDistribution, type DistributionMetrics } from "@/lib/core/metrics"
+
+type Tool = 'select' | 'create-allocation' | 'create-account'
+
+/** Milliseconds per funding round step when replaying at 1x */
+const REPLAY_STEP_MS = 1000
+
+/** One-line description of a step in a funding round */
+const describeStep = (step: FundingStep, round: FundingRound) => {
+  switch (step.type) {
+    case 'initial-distribution':
+      return `Initial distribution of ${formatCurrency(step.amount)}`
+    case 'overflow-redistribution':
+      return 'Overflow redistribution begins'
+    case 'redistribution-step':
+      return `Redistribution round ${step.iteration}`
+    case 'complete':
+      return round.converged
+        ? 'Funding round complete'
+        : `Stopped after ${round.redistribution.length} rounds - overflow still circulating`
+  }
+}
 
-type Tool = 'select' | 'create-allocation'
+/** Floor/cap input value: empty clears the limit */
+const parseLimit = (value: string) =>
+  value === '' ? undefined : Math.max(0, parseFloat(value) || 0)
 
 export default function TBFFPage() {
   const canvasRef = useRef<HTMLCanvasElement>(null)
@@ -22,28 +73,170 @@ export default function TBFFPage() {
   const [draggedAccountId, setDraggedAccountId] = useState<string | null>(null)
   const [dragOffset, setDragOffset] = useState({ x: 0, y: 0 })
   const [mouseDownPos, setMouseDownPos] = useState<{ x: number; y: number } | null>(null)
+  // Network before an account drag, recorded as one history step when the drag ends
+  const dragStartRef = useRef<FlowFundingNetwork | null>(null)
+  // Pan/zoom; panOrigin is the viewport when a drag on empty space started
+  const [viewport, setViewport] = useState<Viewport>(DEFAULT_VIEWPORT)
+  const [panOrigin, setPanOrigin] = useState<Viewport | null>(null)
   const [fundingAmount, setFundingAmount] = useState(1000)
+  const [strategy, setStrategy] = useState<StrategyId>(DEFAULT_STRATEGY)
   const [lastDistribution, setLastDistribution] = useState<{
     totalDistributed: number
     accountsChanged: number
     changes: Array<{ accountId: string; name: string; before: number; after: number; delta: number }>
+    metrics: DistributionMetrics
   } | null>(null)
 
-  // Render canvas whenever network changes
-  useEffect(() => {
+  // Replay of the last funding round, shown on the canvas until the network
+  // changes any other way. Particles live in a ref and are drawn straight to
+  // the canvas each frame.
+  const [lastRound, setLastRound] = useState<FundingRound | null>(null)
+  const [replayStep, setReplayStep] = useState(0)
+  const [isReplaying, setIsReplaying] = useState(false)
+  const [replaySpeed, setReplaySpeed] = useState(1)
+  const particlesRef = useRef<FlowParticle[]>([])
+  const replayFrameRef = useRef<number | null>(null)
+  // The replay only matches the network it produced - hide it after any other change
+  const round = lastRound?.network === network ? lastRound : null
+  const displayedNetwork = round?.steps[replayStep]?.network ?? network
+
+  // Undo/redo - edits go through commit, which records them as commands
+  const [history, setHistory] = useState<History<FlowFundingNetwork>>(emptyHistory)
+
+  // Replace the network and record the change (edits sharing a key merge into one step)
+  const commit = (label: string, updatedNetwork: FlowFundingNetwork, key?: string) => {
+    setHistory(prev => record(prev, snapshotCommand(label, network, updatedNetwork, key)))
+    setNetwork(updatedNetwork)
+  }
+
+  const applyHistory = (result: { history: History<FlowFundingNetwork>; state: FlowFundingNetwork }) => {
+    setHistory(result.history)
+    setNetwork(result.state)
+    setLastDistribution(null)
+    setLastRound(null)
+  }
+
+  const handleUndo = () => applyHistory(undo(history, network))
+  const handleRedo = () => applyHistory(redo(history, network))
+  const handleJump = (position: number) => applyHistory(jumpTo(history, network, position))
+
+  const accountName = (accountId: string) =>
+    network.accounts.find(a => a.id === accountId)?.name ?? accountId
+
+  // Nodes of the problem picked in the problems panel, outlined on the canvas
+  const [highlightedIds, setHighlightedIds] = useState<string[] | null>(null)
+  const validation = useMemo(() => validateNetwork(network), [network])
+
+  // Select the account/allocation a problem is about
+  const handleSelectDiagnostic = (diagnostic: Diagnostic | null) => {
+    setHighlightedIds(diagnostic?.nodeIds ?? null)
+    if (!diagnostic) return
+
+    const { nodeId, edgeId } = diagnosticTarget(diagnostic)
+    if (edgeId) {
+      setSelectedAllocationId(edgeId)
+      setSelectedAccountId(null)
+    } else if (nodeId) {
+      setSelectedAccountId(nodeId)
+      setSelectedAllocationId(null)
+    }
+  }
+
+  // Latest render inputs, read by the replay animation loop (synced below)
+  const sceneRef = useRef({ displayedNetwork, selectedAccountId, selectedAllocationId, highlightedIds, viewport })
+
+  const drawCanvas = () => {
     const canvas = canvasRef.current
     if (!canvas) return
 
     const ctx = canvas.getContext("2d")
     if (!ctx) return
 
-    // Set canvas size
-    canvas.width = canvas.offsetWidth
-    canvas.height = canvas.offsetHeight
+    // Resizing clears the canvas, so only do it when the element changed size
+    if (canvas.width !== canvas.offsetWidth || canvas.height !== canvas.offsetHeight) {
+      canvas.width = canvas.offsetWidth
+      canvas.height = canvas.offsetHeight
+    }
+
+    const scene = sceneRef.current
+    renderNetwork(
+      ctx,
+      scene.displayedNetwork,
+      canvas.width,
+      canvas.height,
+      scene.selectedAccountId,
+      scene.selectedAllocationId,
+      new Set(scene.highlightedIds ?? []),
+      scene.viewport,
+      particlesRef.current
+    )
+  }
+
+  // Render canvas whenever network changes
+  useEffect(() => {
+    sceneRef.current = { displayedNetwork, selectedAccountId, selectedAllocationId, highlightedIds, viewport }
+    drawCanvas()
+  }, [displayedNetwork, selectedAccountId, selectedAllocationId, highlightedIds, viewport])
+
+  // Auto-play through the steps of the round
+  useEffect(() => {
+    if (!isReplaying || !round) return
+
+    const interval = setInterval(() => {
+      setReplayStep(prev => {
+        if (prev >= round.steps.length - 1) {
+          setIsReplaying(false)
+          return prev
+        }
+        return prev + 1
+      })
+    }, REPLAY_STEP_MS / replaySpeed)
 
-    // Render the network
-    renderNetwork(ctx, network, canvas.width, canvas.height, selectedAccountId, selectedAllocationId)
-  }, [network, selectedAccountId, selectedAllocationId])
+    return () => clearInterval(interval)
+  }, [isReplaying, round, replaySpeed])
+
+  // Send the step's particles along the allocation arrows
+  useEffect(() => {
+    particlesRef.current = []
+    const step = round?.steps[replayStep]?.step
+    if (step?.type !== 'redistribution-step' || step.flowParticles.length === 0) {
+      drawCanvas()
+      return
+    }
+
+    const particles = step.flowParticles
+    const end = Math.max(...particles.map(p => p.startTime + p.duration))
+    let startTime: number | null = null
+
+    const animate = (timestamp: number) => {
+      if (startTime === null) startTime = timestamp
+      const elapsed = (timestamp - startTime) * replaySpeed
+
+      particlesRef.current = elapsed < end ? updateFlowParticles(particles, elapsed) : []
+      drawCanvas()
+      if (elapsed < end) replayFrameRef.current = requestAnimationFrame(animate)
+    }
+    replayFrameRef.current = requestAnimationFrame(animate)
+
+    return () => {
+      if (replayFrameRef.current) cancelAnimationFrame(replayFrameRef.current)
+      particlesRef.current = []
+    }
+  }, [round, replayStep, replaySpeed])
+
+  // Show a step of the replay (pauses auto-play)
+  const handleReplaySelect = (index: number) => {
+    if (!round) return
+    setReplayStep(Math.max(0, Math.min(round.steps.length - 1, index)))
+    setIsReplaying(false)
+  }
+
+  // Play from the start again once the end is reached
+  const handleReplayPlayPause = () => {
+    if (!round) return
+    if (!isReplaying && replayStep >= round.steps.length - 1) setReplayStep(0)
+    setIsReplaying(!isReplaying)
+  }
 
   // Handle mouse down - record position for all interactions
   const handleMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
@@ -51,11 +244,12 @@ export default function TBFFPage() {
     if (!canvas) return
 
     const rect = canvas.getBoundingClientRect()
-    const x = e.clientX - rect.left
-    const y = e.clientY - rect.top
+    const screenX = e.clientX - rect.left
+    const screenY = e.clientY - rect.top
+    const { x, y } = toWorld(viewport, screenX, screenY)
 
-    // Always record mouse down position
-    setMouseDownPos({ x, y })
+    // Always record mouse down position (on screen, for the drag threshold)
+    setMouseDownPos({ x: screenX, y: screenY })
 
     // Find clicked account
     const clickedAccount = network.accounts.find(
@@ -68,11 +262,14 @@ export default function TBFFPage() {
 
     // Prepare for potential drag (only in select mode)
     if (tool === 'select' && clickedAccount) {
+      dragStartRef.current = network
       setDraggedAccountId(clickedAccount.id)
       setDragOffset({
         x: x - clickedAccount.x,
         y: y - clickedAccount.y,
       })
+    } else if (tool === 'select') {
+      setPanOrigin(viewport)
     }
   }
 
@@ -82,13 +279,14 @@ export default function TBFFPage() {
     if (!canvas) return
 
     const rect = canvas.getBoundingClientRect()
-    const x = e.clientX - rect.left
-    const y = e.clientY - rect.top
+    const screenX = e.clientX - rect.left
+    const screenY = e.clientY - rect.top
+    const { x, y } = toWorld(viewport, screenX, screenY)
 
     // Only handle dragging in select mode
-    if (tool === 'select' && mouseDownPos && draggedAccountId && !isDragging) {
-      const dx = x - mouseDownPos.x
-      const dy = y - mouseDownPos.y
+    if (tool === 'select' && mouseDownPos && (draggedAccountId || panOrigin) && !isDragging) {
+      const dx = screenX - mouseDownPos.x
+      const dy = screenY - mouseDownPos.y
       const distance = Math.sqrt(dx * dx + dy * dy)
 
       // Start drag if moved more than 5 pixels
@@ -97,6 +295,15 @@ export default function TBFFPage() {
       }
     }
 
+    // Dragging empty space pans the view
+    if (isDragging && panOrigin && mouseDownPos) {
+      setViewport({
+        ...panOrigin,
+        x: panOrigin.x + screenX - mouseDownPos.x,
+        y: panOrigin.y + screenY - mouseDownPos.y,
+      })
+    }
+
     // If dragging, update position
     if (isDragging && draggedAccountId) {
       const updatedNetwork = calculateNetworkTotals({
@@ -122,19 +329,21 @@ export default function TBFFPage() {
     if (!canvas) return
 
     const rect = canvas.getBoundingClientRect()
-    const x = e.clientX - rect.left
-    const y = e.clientY - rect.top
+    const { x, y } = toWorld(viewport, e.clientX - rect.left, e.clientY - rect.top)
 
     // If was dragging, just end drag
     if (isDragging) {
+      finishAccountDrag()
       setIsDragging(false)
       setDraggedAccountId(null)
+      setPanOrigin(null)
       setMouseDownPos(null)
       return
     }
 
     // Clear drag-related state
     setDraggedAccountId(null)
+    setPanOrigin(null)
     setMouseDownPos(null)
 
     // Find what was clicked
@@ -175,21 +384,62 @@ export default function TBFFPage() {
           setAllocationSourceId(null)
         }
       }
+    } else if (tool === 'create-account') {
+      if (clickedAccount) {
+        setSelectedAccountId(clickedAccount.id)
+        setSelectedAllocationId(null)
+      } else {
+        createAccount(x, y)
+      }
     }
   }
 
   // Handle mouse leave - only cancel drag, don't deselect
   const handleMouseLeave = () => {
     if (isDragging) {
+      finishAccountDrag()
       setIsDragging(false)
     }
     setDraggedAccountId(null)
+    setPanOrigin(null)
     setMouseDownPos(null)
   }
 
+  // Record a finished account drag as a single move
+  const finishAccountDrag = () => {
+    const before = dragStartRef.current
+    dragStartRef.current = null
+    if (before && draggedAccountId && before !== network) {
+      setHistory(prev =>
+        record(prev, snapshotCommand(`Move ${accountName(draggedAccountId)}`, before, network))
+      )
+    }
+  }
+
+  // Zoom around the cursor
+  const handleWheel = (e: React.WheelEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect()
+    const factor = e.deltaY < 0 ? 1.15 : 1 / 1.15
+    setViewport((prev) => zoomAt(prev, e.clientX - rect.left, e.clientY - rect.top, factor))
+  }
+
+  // Zoom around the middle of the canvas
+  const handleZoom = (factor: number) => {
+    const canvas = canvasRef.current
+    if (!canvas) return
+    setViewport((prev) => zoomAt(prev, canvas.offsetWidth / 2, canvas.offsetHeight / 2, factor))
+  }
+
+  // Viewport showing every account (the default one if they already fit)
+  const fitNetwork = (accounts: FlowFundingNetwork['accounts']) => {
+    const canvas = canvasRef.current
+    return canvas ? fitViewport(accounts, canvas.offsetWidth, canvas.offsetHeight) : DEFAULT_VIEWPORT
+  }
+
   // Find allocation at point (simple distance check)
   const findAllocationAtPoint = (x: number, y: number): Allocation | null => {
-    const tolerance = 15
+    // 15 pixels on screen, whatever the zoom
+    const tolerance = 15 / viewport.scale
 
     for (const allocation of network.allocations) {
       const source = network.accounts.find(a => a.id === allocation.sourceAccountId)
@@ -276,7 +526,7 @@ export default function TBFFPage() {
       allocations: finalAllocations,
     })
 
-    setNetwork(updatedNetwork)
+    commit(`Create allocation ${accountName(sourceId)} → ${accountName(targetId)}`, updatedNetwork)
     setSelectedAllocationId(newAllocation.id)
   }
 
@@ -306,7 +556,23 @@ export default function TBFFPage() {
       allocations: finalAllocations,
     })
 
-    setNetwork(updatedNetwork)
+    commit(
+      `Set allocation ${accountName(allocation.sourceAccountId)} → ${accountName(allocation.targetAccountId)} percentage`,
+      updatedNetwork,
+      `percentage:${allocationId}`
+    )
+  }
+
+  // Update allocation floor/cap (undefined clears a limit)
+  const updateAllocationLimits = (allocationId: string, limits: AllocationLimits) => {
+    const updatedNetwork = calculateNetworkTotals({
+      ...network,
+      allocations: network.allocations.map(a =>
+        a.id === allocationId ? { ...a, ...limits } : a
+      ),
+    })
+
+    commit('Set allocation floor/cap', updatedNetwork, `limits:${allocationId}:${Object.keys(limits).join()}`)
   }
 
   // Delete allocation
@@ -333,21 +599,113 @@ export default function TBFFPage() {
       allocations: finalAllocations,
     })
 
-    setNetwork(updatedNetwork)
+    commit(
+      `Delete allocation ${accountName(allocation.sourceAccountId)} → ${accountName(allocation.targetAccountId)}`,
+      updatedNetwork
+    )
+    setSelectedAllocationId(null)
+  }
+
+  // Create an empty account centred on a canvas point and select it
+  const createAccount = (x: number, y: number) => {
+    const id = `account_${Date.now()}`
+    const name = nextAccountName(network)
+    commit(`Create ${name}`, addAccount(network, { id, name, x, y }))
+    setSelectedAccountId(id)
     setSelectedAllocationId(null)
   }
 
+  // Update an account's name, balance or thresholds
+  const editAccount = (accountId: string, changes: AccountChanges) => {
+    commit(
+      `Edit ${accountName(accountId)}`,
+      updateAccount(network, accountId, changes),
+      `account:${accountId}:${Object.keys(changes).join()}`
+    )
+  }
+
+  // Delete account along with its incoming and outgoing allocations
+  const deleteAccount = (accountId: string) => {
+    if (!network.accounts.some(a => a.id === accountId)) return
+
+    commit(`Delete ${accountName(accountId)}`, removeAccount(network, accountId))
+    setSelectedAccountId(null)
+    setSelectedAllocationId(null)
+    setAllocationSourceId(null)
+    setHighlightedIds(null)
+  }
+
   // Load different network
   const handleLoadNetwork = (key: string) => {
     setSelectedNetworkKey(key)
     const newNetwork = getSampleNetwork(key as keyof typeof sampleNetworks)
-    setNetwork(newNetwork)
+    commit(`Load ${newNetwork.name}`, newNetwork)
+    setViewport(DEFAULT_VIEWPORT)
+    setSelectedAccountId(null)
+    setSelectedAllocationId(null)
+    setAllocationSourceId(null)
+    setHighlightedIds(null)
+    setTool('select')
+  }
+
+  // Replace the current network with one loaded from a file or link
+  const loadCustomNetwork = (imported: FlowFundingNetwork) => {
+    setSelectedNetworkKey('custom')
+    commit(`Load ${imported.name}`, imported)
+    setViewport(fitNetwork(imported.accounts))
     setSelectedAccountId(null)
     setSelectedAllocationId(null)
     setAllocationSourceId(null)
+    setHighlightedIds(null)
+    setLastDistribution(null)
     setTool('select')
   }
 
+  // Load a randomly generated network (top-left positions, so keep clear of the right/bottom edges)
+  const handleGenerate = (config: GeneratorConfig) => {
+    const graph = generateGraph({ ...config, width: 720, height: 520, spacing: 190 })
+    loadCustomNetwork(toTbffNetwork(graph, generatedName(config)))
+  }
+
+  // Current positions and an automatic layout filling the visible canvas
+  // (positions are top-left corners, so the area excludes the box size)
+  // (recorded as one history step up front; the animation then walks there)
+  const getAutoLayouts = (algorithm: LayoutAlgorithm) => {
+    const canvas = canvasRef.current
+    const graph = fromTbffNetwork(network)
+    const to = computeLayout(graph, algorithm, {
+      width: (canvas?.offsetWidth ?? 960) - 160,
+      height: (canvas?.offsetHeight ?? 720) - 140,
+      spacing: 180,
+    })
+    const laidOut = { ...network, accounts: network.accounts.map(n => ({ ...n, ...to.get(n.id) })) }
+    setHistory(prev => record(prev, snapshotCommand('Auto-layout', network, laidOut)))
+    return { from: layoutOf(graph), to }
+  }
+
+  const handleLayoutFrame = (layout: Layout) => {
+    setNetwork(prev => ({
+      ...prev,
+      accounts: prev.accounts.map(n => ({ ...n, ...layout.get(n.id) })),
+    }))
+  }
+
+  // Load a network from an exported JSON file
+  const handleImportNetwork = (json: string) => {
+    loadCustomNetwork(deserializeTbffNetwork(parseNetworkDocumentOf(json, 'tbff')))
+  }
+
+  // Restore a network shared via URL fragment
+  const handleRestoreShared = ({ document, inputs }: SharedNetworkState) => {
+    loadCustomNetwork(deserializeTbffNetwork(expectNetworkModel(document, 'tbff')))
+    if (typeof inputs.fundingAmount === 'number') {
+      setFundingAmount(inputs.fundingAmount)
+    }
+    if (typeof inputs.strategy === 'string' && inputs.strategy in DISTRIBUTION_STRATEGIES) {
+      setStrategy(inputs.strategy as StrategyId)
+    }
+  }
+
   // Add funding to network
   const handleAddFunding = () => {
     if (fundingAmount <= 0) {
@@ -355,18 +713,70 @@ export default function TBFFPage() {
       return
     }
 
+    playFundingRound(`Add funding ${formatCurrency(fundingAmount)}`, fundingAmount)
+  }
+
+  // Send existing overflow along the allocations (e.g. after raising a balance by hand)
+  const handleRedistribute = () => {
+    playFundingRound('Redistribute overflow', 0)
+  }
+
+  // Run a funding round, keep its result and replay how it got there
+  const playFundingRound = (label: string, amount: number) => {
     const beforeNetwork = network
-    const afterNetwork = initialDistribution(network, fundingAmount)
+    const fundingRound = runFundingRound(network, amount, strategy)
+    const afterNetwork = fundingRound.network
     const summary = getDistributionSummary(beforeNetwork, afterNetwork)
+    const metrics = computeMetrics(fromTbffDistribution(beforeNetwork, fundingRound, amount))
 
-    setNetwork(afterNetwork)
-    setLastDistribution(summary)
+    commit(label, afterNetwork)
+    setLastDistribution({ ...summary, metrics })
+    setLastRound(fundingRound)
+    setReplayStep(0)
+    setIsReplaying(true)
 
     console.log(`\n✅ Distribution Complete`)
     console.log(`Total distributed: ${summary.totalDistributed.toFixed(0)}`)
     console.log(`Accounts changed: ${summary.accountsChanged}`)
   }
 
+  // Spend one period of every account's consumption rate
+  const handleAdvancePeriod = () => {
+    commit('Advance period', applyConsumption(network, 1))
+    setLastDistribution(null)
+  }
+
+  // Update an account's consumption rate (burn per period)
+  const updateAccountConsumption = (accountId: string, consumptionRate: number) => {
+    const updatedNetwork = calculateNetworkTotals({
+      ...network,
+      accounts: network.accounts.map(a =>
+        a.id === accountId ? { ...a, consumptionRate: Math.max(0, consumptionRate) } : a
+      ),
+    })
+
+    commit(`Set ${accountName(accountId)} consumption`, updatedNetwork, `consumption:${accountId}`)
+  }
+
+  // Update an account's priority (used by the priority-weighted strategy)
+  const updateAccountPriority = (accountId: string, priority: number) => {
+    commit(
+      `Set ${accountName(accountId)} priority`,
+      {
+        ...network,
+        accounts: network.accounts.map(a =>
+          a.id === accountId ? { ...a, priority: Math.max(0, priority) } : a
+        ),
+      },
+      `priority:${accountId}`
+    )
+  }
+
+  const totalConsumption = network.accounts.reduce(
+    (sum, acc) => sum + (acc.consumptionRate || 0),
+    0
+  )
+
   // Get selected account/allocation details
   const selectedAccount = selectedAccountId
     ? network.accounts.find((a) => a.id === selectedAccountId)
@@ -394,14 +804,30 @@ export default function TBFFPage() {
         setAllocationSourceId(null)
         setSelectedAccountId(null)
         setSelectedAllocationId(null)
+        return
+      }
+
+      // Form fields keep their own undo and Delete
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLSelectElement) return
+
+      // Ctrl+Z / Cmd+Z undo, with Shift redo
+      if ((e.ctrlKey || e.metaKey) && e.code === 'KeyZ') {
+        e.preventDefault()
+        if (e.shiftKey) {
+          handleRedo()
+        } else {
+          handleUndo()
+        }
       } else if (e.key === 'Delete' && selectedAllocationId) {
         deleteAllocation(selectedAllocationId)
+      } else if (e.key === 'Delete' && selectedAccountId) {
+        deleteAccount(selectedAccountId)
       }
     }
 
     window.addEventListener('keydown', handleKeyDown)
     return () => window.removeEventListener('keydown', handleKeyDown)
-  }, [selectedAllocationId])
+  }, [selectedAllocationId, selectedAccountId, network, history])
 
   return (
     <div className="min-h-screen bg-slate-900 text-white">
@@ -412,7 +838,7 @@ export default function TBFFPage() {
             Threshold-Based Flow Funding
           </h1>
           <p className="text-sm text-slate-400 mt-1">
-            Milestone 3: Initial Distribution
+            Milestone 4: Overflow Redistribution
           </p>
         </div>
         <Link href="/" className="text-cyan-400 hover:text-cyan-300 transition-colors">
@@ -437,6 +863,13 @@ export default function TBFFPage() {
             onMouseMove={handleMouseMove}
             onMouseUp={handleMouseUp}
             onMouseLeave={handleMouseLeave}
+            onWheel={handleWheel}
+          />
+
+          <ViewportControls
+            viewport={viewport}
+            onZoom={handleZoom}
+            onFit={() => setViewport(fitNetwork(network.accounts))}
           />
 
           {/* Tool indicator */}
@@ -445,6 +878,11 @@ export default function TBFFPage() {
               Click target account to create allocation
             </div>
           )}
+          {tool === 'create-account' && (
+            <div className="absolute top-4 left-4 bg-cyan-600 px-4 py-2 rounded-lg text-sm font-medium">
+              Click empty space to add an account
+            </div>
+          )}
         </div>
 
         {/* Sidebar */}
@@ -476,9 +914,24 @@ export default function TBFFPage() {
               >
                 Create Arrow
               </button>
+              <button
+                onClick={() => {
+                  setTool('create-account')
+                  setAllocationSourceId(null)
+                }}
+                className={`col-span-2 px-3 py-2 rounded text-sm transition-colors ${
+                  tool === 'create-account'
+                    ? 'bg-cyan-600 text-white'
+                    : 'bg-slate-700 hover:bg-slate-600'
+                }`}
+              >
+                Create Account
+              </button>
             </div>
           </div>
 
+          <HistoryPanel history={history} onUndo={handleUndo} onRedo={handleRedo} onJump={handleJump} />
+
           {/* Network Selector */}
           <div className="space-y-2">
             <h3 className="text-sm font-semibold text-slate-400">Select Network</h3>
@@ -492,7 +945,22 @@ export default function TBFFPage() {
                   {opt.label}
                 </option>
               ))}
+              {selectedNetworkKey === 'custom' && (
+                <option value="custom" disabled>
+                  {network.name} (imported)
+                </option>
+              )}
             </select>
+            <NetworkFileButtons
+              fileName={network.name}
+              onExport={() => serializeTbffNetwork(network)}
+              onImport={handleImportNetwork}
+            />
+            <ShareLinkButton
+              onShare={() => ({ document: serializeTbffNetwork(network), inputs: { fundingAmount, strategy } })}
+              onRestore={handleRestoreShared}
+            />
+            <AutoLayoutButton getLayouts={getAutoLayouts} onFrame={handleLayoutFrame} />
           </div>
 
           {/* Network Info */}
@@ -526,6 +994,19 @@ export default function TBFFPage() {
             </div>
           </div>
 
+          {/* Problems */}
+          <ProblemsPanel
+            diagnostics={validation.diagnostics}
+            highlighted={highlightedIds}
+            onSelect={handleSelectDiagnostic}
+            className="bg-slate-700 p-4 rounded"
+          />
+
+          <GeneratePanel
+            onGenerate={handleGenerate}
+            className="bg-slate-700 p-4 rounded"
+          />
+
           {/* Funding Controls */}
           <div className="bg-green-900/30 border border-green-500/30 p-4 rounded">
             <h3 className="font-semibold text-green-400 mb-3">💰 Add Funding</h3>
@@ -543,12 +1024,41 @@ export default function TBFFPage() {
                   step="100"
                 />
               </div>
+              <div>
+                <label className="text-xs text-slate-400 block mb-1">
+                  Strategy
+                </label>
+                <select
+                  value={strategy}
+                  onChange={(e) => setStrategy(e.target.value as StrategyId)}
+                  className="w-full px-3 py-2 bg-slate-700 rounded text-sm"
+                >
+                  {STRATEGY_OPTIONS.map((option) => (
+                    <option key={option.id} value={option.id}>
+                      {option.name}
+                    </option>
+                  ))}
+                </select>
+                <div className="text-[10px] text-slate-500 mt-1">
+                  {DISTRIBUTION_STRATEGIES[strategy].description}
+                </div>
+              </div>
               <button
                 onClick={handleAddFunding}
                 className="w-full px-4 py-2 bg-green-600 hover:bg-green-700 rounded text-sm font-medium transition-colors"
               >
                 Distribute Funding
               </button>
+              <button
+                onClick={handleRedistribute}
+                disabled={network.totalOverflow <= 0}
+                className="w-full px-4 py-2 bg-slate-700 hover:bg-slate-600 disabled:opacity-40 disabled:hover:bg-slate-700 rounded text-sm transition-colors"
+              >
+                Redistribute Overflow
+              </button>
+              <div className="text-[10px] text-slate-500">
+                Funds above an account&apos;s max threshold flow along its allocations until nothing overflows.
+              </div>
             </div>
 
             {/* Distribution Summary */}
@@ -574,18 +1084,57 @@ export default function TBFFPage() {
                           className="flex justify-between items-center bg-slate-800/50 p-1.5 rounded"
                         >
                           <span className="text-white text-[11px]">{change.name}</span>
-                          <span className="text-green-400 text-[11px] font-mono">
-                            +{formatCurrency(change.delta)}
+                          <span
+                            className={`text-[11px] font-mono ${
+                              change.delta > 0 ? 'text-green-400' : 'text-red-400'
+                            }`}
+                          >
+                            {change.delta > 0 ? '+' : ''}{formatCurrency(change.delta)}
                           </span>
                         </div>
                       ))}
                     </div>
                   )}
                 </div>
+                <MetricsPanel metrics={lastDistribution.metrics} className="mt-4 bg-slate-800/50 p-3 rounded" />
               </div>
             )}
           </div>
 
+          {/* Funding Round Replay */}
+          {round && (
+            <PlaybackControls
+              steps={round.steps.map(({ step }) => describeStep(step, round))}
+              current={replayStep}
+              playing={isReplaying}
+              speed={replaySpeed}
+              onPlayPause={handleReplayPlayPause}
+              onSelect={handleReplaySelect}
+              onSpeedChange={setReplaySpeed}
+            />
+          )}
+
+          {/* Consumption Controls */}
+          <div className="bg-orange-900/30 border border-orange-500/30 p-4 rounded">
+            <h3 className="font-semibold text-orange-400 mb-3">🔥 Consumption</h3>
+            <div className="space-y-3">
+              <div className="text-xs flex justify-between">
+                <span className="text-slate-400">Total burn per period:</span>
+                <span className="text-orange-400 font-mono">{formatCurrency(totalConsumption)}</span>
+              </div>
+              <button
+                onClick={handleAdvancePeriod}
+                disabled={totalConsumption === 0}
+                className="w-full px-4 py-2 bg-orange-600 hover:bg-orange-700 disabled:bg-slate-600 disabled:cursor-not-allowed rounded text-sm font-medium transition-colors"
+              >
+                Advance 1 Period
+              </button>
+              <div className="text-[10px] text-slate-500">
+                Set burn rates in Account Details. Accounts that stop receiving funds slide back into deficit.
+              </div>
+            </div>
+          </div>
+
           {/* Selected Allocation Editor */}
           {selectedAllocation && (
             <div className="bg-slate-700 p-4 rounded">
@@ -632,6 +1181,39 @@ export default function TBFFPage() {
                     </>
                   )}
                 </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <label className="text-slate-400 block mb-1">Floor</label>
+                    <input
+                      type="number"
+                      value={selectedAllocation.floor ?? ''}
+                      onChange={(e) =>
+                        updateAllocationLimits(selectedAllocation.id, { floor: parseLimit(e.target.value) })
+                      }
+                      placeholder="none"
+                      className="w-full px-3 py-2 bg-slate-800 rounded text-sm"
+                      min="0"
+                      step="50"
+                    />
+                  </div>
+                  <div>
+                    <label className="text-slate-400 block mb-1">Cap (per round)</label>
+                    <input
+                      type="number"
+                      value={selectedAllocation.cap ?? ''}
+                      onChange={(e) =>
+                        updateAllocationLimits(selectedAllocation.id, { cap: parseLimit(e.target.value) })
+                      }
+                      placeholder="none"
+                      className="w-full px-3 py-2 bg-slate-800 rounded text-sm"
+                      min="0"
+                      step="50"
+                    />
+                  </div>
+                </div>
+                <div className="text-[10px] text-slate-500 -mt-2">
+                  Floors are paid before other allocations from this account; overflow above a cap stays unallocated.
+                </div>
                 <button
                   onClick={() => deleteAllocation(selectedAllocation.id)}
                   className="w-full px-3 py-2 bg-red-600 hover:bg-red-700 rounded text-sm transition-colors"
@@ -648,8 +1230,13 @@ export default function TBFFPage() {
               <h3 className="font-semibold text-cyan-400 mb-3">Account Details</h3>
               <div className="text-xs space-y-2">
                 <div>
-                  <span className="text-slate-400">Name: </span>
-                  <span className="text-white font-medium">{selectedAccount.name}</span>
+                  <label className="text-slate-400 block mb-1">Name</label>
+                  <input
+                    type="text"
+                    value={selectedAccount.name}
+                    onChange={(e) => editAccount(selectedAccount.id, { name: e.target.value })}
+                    className="w-full px-3 py-2 bg-slate-800 rounded text-sm"
+                  />
                 </div>
                 <div>
                   <span className="text-slate-400">Status: </span>
@@ -657,27 +1244,77 @@ export default function TBFFPage() {
                     {selectedAccount.status.toUpperCase()}
                   </span>
                 </div>
-                <div className="pt-2 space-y-1">
-                  <div className="flex justify-between">
-                    <span className="text-slate-400">Balance:</span>
-                    <span className="text-white font-mono">
-                      {formatCurrency(selectedAccount.balance)}
-                    </span>
-                  </div>
-                  <div className="flex justify-between">
-                    <span className="text-slate-400">Min Threshold:</span>
-                    <span className="text-white font-mono">
-                      {formatCurrency(selectedAccount.minThreshold)}
-                    </span>
+                <div className="pt-2 space-y-2">
+                  <div>
+                    <label className="text-slate-400 block mb-1">Balance</label>
+                    <input
+                      type="number"
+                      value={selectedAccount.balance}
+                      onChange={(e) =>
+                        editAccount(selectedAccount.id, { balance: parseFloat(e.target.value) || 0 })
+                      }
+                      className="w-full px-3 py-2 bg-slate-800 rounded text-sm font-mono"
+                      min="0"
+                      step="10"
+                    />
                   </div>
-                  <div className="flex justify-between">
-                    <span className="text-slate-400">Max Threshold:</span>
-                    <span className="text-white font-mono">
-                      {formatCurrency(selectedAccount.maxThreshold)}
-                    </span>
+                  <div className="grid grid-cols-2 gap-2">
+                    <div>
+                      <label className="text-slate-400 block mb-1">Min Threshold</label>
+                      <NumberInput
+                        key={`${selectedAccount.id}:min`}
+                        value={selectedAccount.minThreshold}
+                        onCommit={(value) => editAccount(selectedAccount.id, { minThreshold: value })}
+                        min={0}
+                        step={10}
+                      />
+                    </div>
+                    <div>
+                      <label className="text-slate-400 block mb-1">Max Threshold</label>
+                      <NumberInput
+                        key={`${selectedAccount.id}:max`}
+                        value={selectedAccount.maxThreshold}
+                        onCommit={(value) => editAccount(selectedAccount.id, { maxThreshold: value })}
+                        min={0}
+                        step={10}
+                      />
+                    </div>
                   </div>
+                  {selectedAccount.minThreshold > selectedAccount.maxThreshold && (
+                    <div className="text-red-400">Min threshold is above max threshold</div>
+                  )}
+                </div>
+
+                <div className="pt-2">
+                  <label className="text-slate-400 block mb-1">Consumption per period</label>
+                  <input
+                    type="number"
+                    value={selectedAccount.consumptionRate || 0}
+                    onChange={(e) =>
+                      updateAccountConsumption(selectedAccount.id, parseFloat(e.target.value) || 0)
+                    }
+                    className="w-full px-3 py-2 bg-slate-800 rounded text-sm"
+                    min="0"
+                    step="10"
+                  />
                 </div>
 
+                {strategy === 'priority-weighted' && (
+                  <div>
+                    <label className="text-slate-400 block mb-1">Priority</label>
+                    <input
+                      type="number"
+                      value={selectedAccount.priority ?? 1}
+                      onChange={(e) =>
+                        updateAccountPriority(selectedAccount.id, parseFloat(e.target.value) || 0)
+                      }
+                      className="w-full px-3 py-2 bg-slate-800 rounded text-sm"
+                      min="0"
+                      step="0.5"
+                    />
+                  </div>
+                )}
+
                 {/* Outgoing Allocations */}
                 {outgoingAllocations.length > 0 && (
                   <div className="pt-3 border-t border-slate-600">
@@ -699,6 +1336,13 @@ export default function TBFFPage() {
                     })}
                   </div>
                 )}
+
+                <button
+                  onClick={() => deleteAccount(selectedAccount.id)}
+                  className="w-full px-3 py-2 bg-red-600 hover:bg-red-700 rounded text-sm transition-colors"
+                >
+                  Delete Account
+                </button>
               </div>
             </div>
           )}
@@ -760,14 +1404,18 @@ export default function TBFFPage() {
           {/* Instructions */}
           <div className="bg-slate-700 p-4 rounded text-xs text-slate-300">
             <p className="mb-2">
-              <strong className="text-white">Milestone 3:</strong> Initial Distribution
+              <strong className="text-white">Milestone 4:</strong> Overflow Redistribution
             </p>
             <ul className="space-y-1 list-disc list-inside">
-              <li><strong className="text-green-400">Add funding</strong> to distribute across accounts</li>
+              <li><strong className="text-green-400">Add funding</strong> to distribute across accounts - overflow then flows along allocations</li>
+              <li>Each funding round <strong className="text-green-400">replays</strong> step by step - pause or step through it in the Replay panel</li>
               <li><strong className="text-cyan-400">Drag</strong> accounts to reposition them</li>
               <li>Use <strong className="text-cyan-400">Create Arrow</strong> tool to draw allocations</li>
+              <li>Use <strong className="text-cyan-400">Create Account</strong> tool and click empty space to add an account</li>
+              <li>Click an account to edit its name, balance and thresholds</li>
               <li>Click arrow to edit percentage</li>
-              <li>Press <kbd className="px-1 bg-slate-800 rounded">Delete</kbd> to remove allocation</li>
+              <li>Press <kbd className="px-1 bg-slate-800 rounded">Delete</kbd> to remove the selected allocation or account</li>
+              <li>Press <kbd className="px-1 bg-slate-800 rounded">Ctrl+Z</kbd> / <kbd className="px-1 bg-slate-800 rounded">Ctrl+Shift+Z</kbd> to undo/redo</li>
               <li>Check console for distribution logs</li>
             </ul>
           </div>
@@ -0,0 +1,72 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import {
+  LAYOUT_OPTIONS,
+  interpolateLayout,
+  type Layout,
+  type LayoutAlgorithm,
+} from "@/lib/core/layout"
+
+interface AutoLayoutButtonProps {
+  /** Current positions and the new ones for the chosen algorithm */
+  getLayouts: (algorithm: LayoutAlgorithm) => { from: Layout; to: Layout }
+  /** Apply positions - called every animation frame, last with the final layout */
+  onFrame: (layout: Layout) => void
+  /** Animation length in ms */
+  duration?: number
+  /** Classes for the button and select, so they match the host page */
+  buttonClassName?: string
+  selectClassName?: string
+}
+
+/**
+ * Algorithm picker plus a button that animates nodes into an automatic layout
+ */
+export function AutoLayoutButton({
+  getLayouts,
+  onFrame,
+  duration = 700,
+  buttonClassName = "flex-1 px-3 py-2 rounded text-sm bg-slate-600 hover:bg-slate-500 transition-colors",
+  selectClassName = "px-2 py-2 bg-slate-800 rounded text-sm",
+}: AutoLayoutButtonProps) {
+  const [algorithm, setAlgorithm] = useState<LayoutAlgorithm>("force")
+  const frameRef = useRef<number>(0)
+
+  // Stop animating when the page goes away
+  useEffect(() => () => cancelAnimationFrame(frameRef.current), [])
+
+  const handleLayout = () => {
+    cancelAnimationFrame(frameRef.current)
+    const { from, to } = getLayouts(algorithm)
+    let start: number | null = null
+
+    const animate = (timestamp: number) => {
+      if (start === null) start = timestamp
+      const t = Math.min((timestamp - start) / duration, 1)
+      onFrame(t < 1 ? interpolateLayout(from, to, t) : to)
+      if (t < 1) frameRef.current = requestAnimationFrame(animate)
+    }
+    frameRef.current = requestAnimationFrame(animate)
+  }
+
+  return (
+    <div className="flex gap-2">
+      <select
+        value={algorithm}
+        onChange={e => setAlgorithm(e.target.value as LayoutAlgorithm)}
+        title={LAYOUT_OPTIONS.find(option => option.id === algorithm)?.description}
+        className={selectClassName}
+      >
+        {LAYOUT_OPTIONS.map(option => (
+          <option key={option.id} value={option.id}>
+            {option.name}
+          </option>
+        ))}
+      </select>
+      <button onClick={handleLayout} className={buttonClassName}>
+        ✨ Auto-layout
+      </button>
+    </div>
+  )
+}
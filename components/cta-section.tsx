@@ -24,7 +24,7 @@ export function CTASection() {
               <Github className="h-10 w-10 text-primary mb-4 group-hover:scale-110 transition-transform" />
               <h3 className="text-xl font-semibold mb-3">Explore & Contribute</h3>
               <p className="text-muted-foreground text-sm leading-relaxed mb-4">
-                Dive into the open source primitives we're developing. Experiment with FolkJS, fork, and build.
+                Dive into the open source primitives we&apos;re developing. Experiment with FolkJS, fork, and build.
               </p>
               <div className="flex items-center text-primary text-sm font-medium">
                 View on GitHub <ArrowRight className="ml-2 h-4 w-4" />
@@ -46,7 +46,7 @@ export function CTASection() {
               <Mail className="h-10 w-10 text-primary mb-4 group-hover:scale-110 transition-transform" />
               <h3 className="text-xl font-semibold mb-3">Support the Work</h3>
               <p className="text-muted-foreground text-sm leading-relaxed mb-4">
-                Interested in funding or collaborating? Let's build the future together.
+                Interested in funding or collaborating? Let&apos;s build the future together.
               </p>
               <div className="flex items-center text-primary text-sm font-medium">
                 Get in touch <ArrowRight className="ml-2 h-4 w-4" />
@@ -0,0 +1,211 @@
+"use client"
+
+import { useState } from "react"
+import {
+  TOPOLOGY_OPTIONS,
+  type AllocationSplit,
+  type Distribution,
+  type GeneratorConfig,
+  type TopologyId,
+} from "@/lib/core/generators"
+
+interface GeneratePanelProps {
+  /** Build and load a network from the chosen settings */
+  onGenerate: (config: GeneratorConfig) => void
+  /** Default range of minimum thresholds */
+  thresholdRange?: [number, number]
+  /** What the per-node amount is (balance or inflow) */
+  amountLabel?: string
+  /** Default upper bound of the per-node amount (0 = start empty) */
+  amountMax?: number
+  className?: string
+}
+
+/** Topology-specific parameter shown under the topology select */
+const PARAMETERS: Record<
+  TopologyId,
+  { key: keyof GeneratorConfig; label: string; min: number; max: number; step: number; initial: number }
+> = {
+  "erdos-renyi": { key: "edgeProbability", label: "Edge probability", min: 0.05, max: 1, step: 0.05, initial: 0.2 },
+  "scale-free": { key: "attachments", label: "Links per new node", min: 1, max: 6, step: 1, initial: 2 },
+  "small-world": { key: "neighbours", label: "Ring neighbours", min: 2, max: 10, step: 2, initial: 4 },
+  hierarchical: { key: "branching", label: "Children per node", min: 1, max: 6, step: 1, initial: 3 },
+  bipartite: { key: "funderShare", label: "Funder share", min: 0.1, max: 0.9, step: 0.1, initial: 0.3 },
+}
+
+const INPUT_CLASS = "w-full px-2 py-1 bg-slate-900 rounded text-sm"
+
+/**
+ * Settings for the seeded random network generators (lib/core/generators)
+ */
+export function GeneratePanel({
+  onGenerate,
+  thresholdRange = [100, 500],
+  amountLabel = "Starting balance",
+  amountMax = 0,
+  className = "bg-slate-800 p-4 rounded",
+}: GeneratePanelProps) {
+  const [topology, setTopology] = useState<TopologyId>("scale-free")
+  const [nodes, setNodes] = useState(12)
+  const [seed, setSeed] = useState(1)
+  const [minLow, setMinLow] = useState(thresholdRange[0])
+  const [minHigh, setMinHigh] = useState(thresholdRange[1])
+  const [heavyTailed, setHeavyTailed] = useState(false)
+  const [amountHigh, setAmountHigh] = useState(amountMax)
+  const [split, setSplit] = useState<AllocationSplit>("uniform")
+  const [parameters, setParameters] = useState<Partial<Record<TopologyId, number>>>({})
+
+  const parameter = PARAMETERS[topology]
+  const parameterValue = parameters[topology] ?? parameter.initial
+
+  const handleGenerate = () => {
+    const minThreshold: Distribution = {
+      type: heavyTailed ? "log-uniform" : "uniform",
+      min: Math.min(minLow, minHigh),
+      max: Math.max(minLow, minHigh),
+    }
+    onGenerate({
+      topology,
+      nodes,
+      seed,
+      minThreshold,
+      amount: { type: amountHigh > 0 ? "uniform" : "constant", min: 0, max: amountHigh },
+      split,
+      [parameter.key]: parameterValue,
+    })
+  }
+
+  return (
+    <div className={className}>
+      <h3 className="font-semibold mb-3">Generate Network</h3>
+      <div className="space-y-3 text-xs">
+        <div>
+          <label className="block text-slate-400 mb-1">Topology</label>
+          <select
+            value={topology}
+            onChange={e => setTopology(e.target.value as TopologyId)}
+            className={INPUT_CLASS}
+          >
+            {TOPOLOGY_OPTIONS.map(option => (
+              <option key={option.id} value={option.id}>
+                {option.name}
+              </option>
+            ))}
+          </select>
+          <p className="text-slate-500 mt-1">
+            {TOPOLOGY_OPTIONS.find(option => option.id === topology)?.description}
+          </p>
+        </div>
+
+        <div>
+          <label className="block text-slate-400 mb-1">
+            {parameter.label}: {parameterValue}
+          </label>
+          <input
+            type="range"
+            min={parameter.min}
+            max={parameter.max}
+            step={parameter.step}
+            value={parameterValue}
+            onChange={e =>
+              setParameters(prev => ({ ...prev, [topology]: parseFloat(e.target.value) }))
+            }
+            className="w-full"
+          />
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <label className="block text-slate-400 mb-1">Nodes</label>
+            <input
+              type="number"
+              min={1}
+              max={5000}
+              value={nodes}
+              onChange={e => setNodes(Math.max(1, Math.min(5000, parseInt(e.target.value) || 1)))}
+              className={INPUT_CLASS}
+            />
+          </div>
+          <div>
+            <label className="block text-slate-400 mb-1">Seed</label>
+            <div className="flex gap-1">
+              <input
+                type="number"
+                value={seed}
+                onChange={e => setSeed(parseInt(e.target.value) || 0)}
+                className={INPUT_CLASS}
+              />
+              <button
+                onClick={() => setSeed(Math.floor(Math.random() * 100000))}
+                className="px-2 bg-slate-600 hover:bg-slate-500 rounded"
+                title="Random seed"
+              >
+                🎲
+              </button>
+            </div>
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-slate-400 mb-1">Minimum threshold range</label>
+          <div className="grid grid-cols-2 gap-2">
+            <input
+              type="number"
+              min={0}
+              value={minLow}
+              onChange={e => setMinLow(Math.max(0, parseFloat(e.target.value) || 0))}
+              className={INPUT_CLASS}
+            />
+            <input
+              type="number"
+              min={0}
+              value={minHigh}
+              onChange={e => setMinHigh(Math.max(0, parseFloat(e.target.value) || 0))}
+              className={INPUT_CLASS}
+            />
+          </div>
+          <label className="flex items-center gap-2 text-slate-400 mt-1">
+            <input
+              type="checkbox"
+              checked={heavyTailed}
+              onChange={e => setHeavyTailed(e.target.checked)}
+            />
+            Heavy-tailed (log-uniform)
+          </label>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <label className="block text-slate-400 mb-1">{amountLabel} up to</label>
+            <input
+              type="number"
+              min={0}
+              value={amountHigh}
+              onChange={e => setAmountHigh(Math.max(0, parseFloat(e.target.value) || 0))}
+              className={INPUT_CLASS}
+            />
+          </div>
+          <div>
+            <label className="block text-slate-400 mb-1">Allocation split</label>
+            <select
+              value={split}
+              onChange={e => setSplit(e.target.value as AllocationSplit)}
+              className={INPUT_CLASS}
+            >
+              <option value="equal">Equal</option>
+              <option value="uniform">Random</option>
+              <option value="skewed">Skewed</option>
+            </select>
+          </div>
+        </div>
+
+        <button
+          onClick={handleGenerate}
+          className="w-full px-3 py-2 rounded text-sm bg-cyan-600 hover:bg-cyan-500 font-medium transition-colors"
+        >
+          Generate
+        </button>
+      </div>
+    </div>
+  )
+}
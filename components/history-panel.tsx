@@ -0,0 +1,71 @@
+"use client"
+
+import { canRedo, canUndo, type History } from "@/lib/core/history"
+
+interface HistoryPanelProps<T> {
+  history: History<T>
+  onUndo: () => void
+  onRedo: () => void
+  /** Undo/redo until `position` commands are applied (0 = the start) */
+  onJump: (position: number) => void
+  className?: string
+}
+
+/**
+ * Undo/redo buttons plus the list of recorded edits; clicking an entry
+ * jumps back (or forward) to the state right after it
+ */
+export function HistoryPanel<T>({
+  history,
+  onUndo,
+  onRedo,
+  onJump,
+  className = "bg-slate-700 p-4 rounded",
+}: HistoryPanelProps<T>) {
+  const position = history.past.length
+  const entries = [...history.past, ...history.future]
+
+  return (
+    <div className={className}>
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="font-semibold">History</h3>
+        <div className="flex gap-1">
+          <button
+            onClick={onUndo}
+            disabled={!canUndo(history)}
+            className="px-2 py-1 rounded text-xs bg-slate-600 hover:bg-slate-500 disabled:opacity-40 disabled:hover:bg-slate-600"
+            title="Undo (Ctrl+Z)"
+          >
+            ↶ Undo
+          </button>
+          <button
+            onClick={onRedo}
+            disabled={!canRedo(history)}
+            className="px-2 py-1 rounded text-xs bg-slate-600 hover:bg-slate-500 disabled:opacity-40 disabled:hover:bg-slate-600"
+            title="Redo (Ctrl+Shift+Z)"
+          >
+            ↷ Redo
+          </button>
+        </div>
+      </div>
+      <ol className="max-h-48 overflow-y-auto space-y-0.5 text-xs">
+        {["Start", ...entries.map(command => command.label)].map((label, index) => (
+          <li key={index}>
+            <button
+              onClick={() => onJump(index)}
+              className={`w-full text-left px-2 py-1 rounded transition-colors ${
+                index === position
+                  ? "bg-cyan-600 text-white"
+                  : index > position
+                    ? "text-slate-500 hover:bg-slate-600"
+                    : "hover:bg-slate-600"
+              }`}
+            >
+              {label}
+            </button>
+          </li>
+        ))}
+      </ol>
+    </div>
+  )
+}
@@ -56,7 +56,7 @@ export function InterlaySection() {
                 <div>
                   <h3 className="text-lg font-semibold mb-2">Emergent Interconnections</h3>
                   <p className="text-muted-foreground leading-relaxed">
-                    Named for "leylines"—a metaphor for emergent connections across digital domains that self-organize
+                    Named for &quot;leylines&quot;—a metaphor for emergent connections across digital domains that self-organize
                     and flow freely.
                   </p>
                 </div>
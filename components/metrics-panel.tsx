@@ -0,0 +1,68 @@
+"use client"
+
+import type { DistributionMetrics } from "@/lib/core/metrics"
+
+interface MetricsPanelProps {
+  metrics: DistributionMetrics
+  /** Unit suffix for amounts, e.g. "/mo" for flow models */
+  unit?: string
+  className?: string
+}
+
+const percent = (value: number) => `${(value * 100).toFixed(0)}%`
+
+/**
+ * Fairness and health of a distribution (see lib/core/metrics)
+ */
+export function MetricsPanel({
+  metrics,
+  unit = "",
+  className = "bg-slate-800 p-4 rounded",
+}: MetricsPanelProps) {
+  const rows: Array<{ label: string; value: string; hint: string; color: string }> = [
+    {
+      label: "Gini (vs thresholds)",
+      value: metrics.gini.toFixed(2),
+      hint: "0 = every account equally provided for",
+      color: metrics.gini > 0.4 ? "text-amber-400" : "text-green-400",
+    },
+    {
+      label: "At or above minimum",
+      value: percent(metrics.shareAtMinimum),
+      hint: "Share of accounts whose minimum is met",
+      color: metrics.shareAtMinimum < 1 ? "text-amber-400" : "text-green-400",
+    },
+    {
+      label: "Unmet need",
+      value: `$${metrics.unmetNeed.toFixed(0)}${unit}`,
+      hint: "Total shortfall below minimums",
+      color: metrics.unmetNeed > 0 ? "text-red-400" : "text-green-400",
+    },
+    {
+      label: "Overflow / lost",
+      value: percent(metrics.lostFraction),
+      hint: "Funding no account kept",
+      color: metrics.lostFraction > 0 ? "text-slate-300" : "text-green-400",
+    },
+    {
+      label: "Average path length",
+      value: metrics.averagePathLength.toFixed(2),
+      hint: "Allocations crossed per funded dollar",
+      color: "text-blue-400",
+    },
+  ]
+
+  return (
+    <div className={className}>
+      <h4 className="font-semibold mb-3">Distribution Metrics</h4>
+      <div className="text-sm space-y-2">
+        {rows.map(row => (
+          <div key={row.label} title={row.hint} className="flex justify-between">
+            <span className="text-slate-400">{row.label}:</span>
+            <span className={`font-mono ${row.color}`}>{row.value}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
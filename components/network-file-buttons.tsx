@@ -0,0 +1,79 @@
+"use client"
+
+import { useRef, useState } from "react"
+import type { NetworkDocument } from "@/lib/network-io/schema"
+import { stringifyNetworkDocument } from "@/lib/network-io/serialization"
+
+interface NetworkFileButtonsProps {
+  /** Download name without extension */
+  fileName: string
+  /** Build the document for the current network */
+  onExport: () => NetworkDocument
+  /** Load a file's contents - throw to show an error */
+  onImport: (json: string) => void
+  /** Classes for the two buttons, so they match the host page */
+  buttonClassName?: string
+}
+
+/**
+ * Import/Export buttons for saving networks as versioned JSON files
+ */
+export function NetworkFileButtons({
+  fileName,
+  onExport,
+  onImport,
+  buttonClassName = "px-3 py-2 rounded text-sm bg-slate-700 hover:bg-slate-600 transition-colors",
+}: NetworkFileButtonsProps) {
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleExport = () => {
+    const json = stringifyNetworkDocument(onExport())
+    const url = URL.createObjectURL(new Blob([json], { type: "application/json" }))
+
+    const link = document.createElement("a")
+    link.href = url
+    link.download = `${fileName.replace(/[^a-z0-9-_]+/gi, "-").toLowerCase()}.json`
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    // Allow re-importing the same file
+    e.target.value = ""
+    if (!file) return
+
+    try {
+      onImport(await file.text())
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err))
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-2 gap-2">
+        <button onClick={() => inputRef.current?.click()} className={buttonClassName}>
+          Import JSON
+        </button>
+        <button onClick={handleExport} className={buttonClassName}>
+          Export JSON
+        </button>
+      </div>
+      <input
+        ref={inputRef}
+        type="file"
+        accept="application/json,.json"
+        onChange={handleFileChange}
+        className="hidden"
+      />
+      {error && (
+        <div className="text-xs text-red-400 bg-red-950/40 border border-red-500/30 rounded p-2 whitespace-pre-line">
+          {error}
+        </div>
+      )}
+    </div>
+  )
+}
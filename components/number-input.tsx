@@ -0,0 +1,54 @@
+"use client"
+
+import { useState } from "react"
+
+interface NumberInputProps {
+  value: number
+  /** Called with the typed number on blur or Enter (not on every keystroke) */
+  onCommit: (value: number) => void
+  min?: number
+  step?: number
+  className?: string
+}
+
+/**
+ * Number field that keeps what is being typed as a draft and only commits
+ * it once editing ends; Escape restores the current value
+ */
+export function NumberInput({
+  value,
+  onCommit,
+  min,
+  step,
+  className = "w-full px-3 py-2 bg-slate-800 rounded text-sm font-mono",
+}: NumberInputProps) {
+  const [draft, setDraft] = useState<string | null>(null)
+
+  const commitDraft = () => {
+    if (draft === null) return
+    const parsed = parseFloat(draft)
+    setDraft(null)
+    if (Number.isFinite(parsed) && parsed !== value) onCommit(parsed)
+  }
+
+  return (
+    <input
+      type="number"
+      value={draft ?? value}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commitDraft}
+      onKeyDown={(e) => {
+        if (e.key === "Enter") {
+          commitDraft()
+        } else if (e.key === "Escape") {
+          // Keep the page from treating Escape as "clear selection"
+          e.stopPropagation()
+          setDraft(null)
+        }
+      }}
+      className={className}
+      min={min}
+      step={step}
+    />
+  )
+}
@@ -0,0 +1,104 @@
+"use client"
+
+interface PlaybackControlsProps {
+  /** Short description of each step, in order */
+  steps: string[]
+  /** Index of the step being shown */
+  current: number
+  playing: boolean
+  speed: number
+  onPlayPause: () => void
+  /** Show a step (pauses playback) */
+  onSelect: (index: number) => void
+  onSpeedChange: (speed: number) => void
+  className?: string
+}
+
+const SPEEDS = [1, 2, 5]
+
+/**
+ * Play/pause, step and speed controls for replaying a recorded run, with a
+ * clickable strip of its steps
+ */
+export function PlaybackControls({
+  steps,
+  current,
+  playing,
+  speed,
+  onPlayPause,
+  onSelect,
+  onSpeedChange,
+  className = "bg-slate-700 p-4 rounded",
+}: PlaybackControlsProps) {
+  const last = steps.length - 1
+
+  return (
+    <div className={className}>
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="font-semibold">Replay</h3>
+        <span className="text-xs text-slate-400">
+          Step {current + 1} of {steps.length}
+        </span>
+      </div>
+      <div className="space-y-3 text-xs">
+        <div className="text-slate-300">{steps[current]}</div>
+
+        <div className="flex gap-1">
+          {steps.map((label, index) => (
+            <button
+              key={index}
+              onClick={() => onSelect(index)}
+              title={label}
+              className={`flex-1 h-2 rounded-sm transition-colors ${
+                index === current
+                  ? "bg-cyan-400"
+                  : index < current
+                    ? "bg-cyan-700 hover:bg-cyan-600"
+                    : "bg-slate-600 hover:bg-slate-500"
+              }`}
+            />
+          ))}
+        </div>
+
+        <div className="flex gap-2">
+          <button
+            onClick={() => onSelect(current - 1)}
+            disabled={current <= 0}
+            className="flex-1 px-3 py-2 rounded text-sm bg-slate-600 hover:bg-slate-500 disabled:opacity-40 disabled:hover:bg-slate-600"
+          >
+            ← Prev
+          </button>
+          <button
+            onClick={onPlayPause}
+            className={`flex-1 px-3 py-2 rounded text-sm font-medium transition-colors ${
+              playing ? "bg-yellow-600 hover:bg-yellow-500" : "bg-green-600 hover:bg-green-500"
+            }`}
+          >
+            {playing ? "⏸ Pause" : "▶ Play"}
+          </button>
+          <button
+            onClick={() => onSelect(current + 1)}
+            disabled={current >= last}
+            className="flex-1 px-3 py-2 rounded text-sm bg-slate-600 hover:bg-slate-500 disabled:opacity-40 disabled:hover:bg-slate-600"
+          >
+            Next →
+          </button>
+        </div>
+
+        <div className="flex gap-2">
+          {SPEEDS.map(option => (
+            <button
+              key={option}
+              onClick={() => onSpeedChange(option)}
+              className={`flex-1 py-1 rounded transition-colors ${
+                speed === option ? "bg-cyan-600 text-white" : "bg-slate-800 hover:bg-slate-600"
+              }`}
+            >
+              {option}x
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -10,7 +10,7 @@ export function ProblemSection() {
             <h2 className="text-4xl md:text-5xl font-bold mb-6 text-balance">The Tyranny of App Silos</h2>
             <p className="text-xl text-muted-foreground leading-relaxed">
               Why do we need 10 different apps to talk to the same friends? App silos create terrible UX, fragmenting
-              our digital identities, data, and workflows. But this isn't an accident—it's a feature of{" "}
+              our digital identities, data, and workflows. But this isn&apos;t an accident—it&apos;s a feature of{" "}
               <span className="text-primary font-semibold">appitalism</span> (and ultimately of capitalism).
             </p>
           </div>
@@ -37,15 +37,15 @@ export function ProblemSection() {
               <Zap className="h-12 w-12 text-primary mb-4" />
               <h3 className="text-xl font-semibold mb-3">Structural Enforcement</h3>
               <p className="text-muted-foreground leading-relaxed">
-                These aren't bugs—they're features. Business models depend on artificial scarcity and producer control.
+                These aren&apos;t bugs—they&apos;re features. Business models depend on artificial scarcity and producer control.
               </p>
             </Card>
           </div>
 
           <div className="bg-muted/30 border border-border rounded-lg p-8 md:p-12">
             <blockquote className="text-2xl md:text-3xl font-medium text-balance leading-relaxed">
-              "App silos are not accidental but structurally enforced by business models that prioritize{" "}
-              <span className="text-primary">enclosure, lock-in, and artificial scarcity</span> over user empowerment."
+              &quot;App silos are not accidental but structurally enforced by business models that prioritize{" "}
+              <span className="text-primary">enclosure, lock-in, and artificial scarcity</span> over user empowerment.&quot;
             </blockquote>
           </div>
         </div>
@@ -0,0 +1,122 @@
+"use client"
+
+import { useState } from "react"
+import type { Diagnostic, DiagnosticSeverity } from "@/lib/core/types"
+
+interface ProblemsPanelProps {
+  /** Diagnostics from the engine's validateNetwork */
+  diagnostics: Diagnostic[]
+  /** Node ids currently highlighted on the canvas */
+  highlighted: string[] | null
+  /** Select the offending element (null clears the selection) */
+  onSelect: (diagnostic: Diagnostic | null) => void
+  className?: string
+}
+
+const SEVERITIES: DiagnosticSeverity[] = ["error", "warning", "info"]
+
+const SEVERITY_STYLES: Record<DiagnosticSeverity, string> = {
+  error: "text-red-300 bg-red-500/10 border-red-500/30",
+  warning: "text-amber-300 bg-amber-500/10 border-amber-500/30",
+  info: "text-sky-300 bg-sky-500/10 border-sky-500/20",
+}
+
+const SEVERITY_ICONS: Record<DiagnosticSeverity, string> = {
+  error: "⛔",
+  warning: "⚠️",
+  info: "ℹ️",
+}
+
+/**
+ * The single element a diagnostic is about, if there is one: an allocation
+ * for allocation problems, otherwise a node. Multi-node findings such as
+ * cycles are only highlighted.
+ */
+export function diagnosticTarget(diagnostic: Diagnostic): { nodeId?: string; edgeId?: string } {
+  if (diagnostic.edgeIds.length === 1 || diagnostic.code === "duplicate-allocation") {
+    return { nodeId: diagnostic.nodeIds[0], edgeId: diagnostic.edgeIds[0] }
+  }
+  if (diagnostic.nodeIds.length === 1) {
+    return { nodeId: diagnostic.nodeIds[0] }
+  }
+  return {}
+}
+
+const sameIds = (a: string[] | null, b: string[]) =>
+  a !== null && a.length === b.length && a.every((id, i) => id === b[i])
+
+/**
+ * Validation problems (errors, warnings and graph analysis findings).
+ * Clicking a problem selects the account/allocation it is about and
+ * highlights its nodes on the canvas.
+ */
+export function ProblemsPanel({
+  diagnostics,
+  highlighted,
+  onSelect,
+  className = "bg-slate-800 p-4 rounded",
+}: ProblemsPanelProps) {
+  const [showInfo, setShowInfo] = useState(false)
+
+  const counts = Object.fromEntries(
+    SEVERITIES.map(s => [s, diagnostics.filter(d => d.severity === s).length])
+  ) as Record<DiagnosticSeverity, number>
+  const visible = diagnostics
+    .filter(d => showInfo || d.severity !== "info")
+    .sort((a, b) => SEVERITIES.indexOf(a.severity) - SEVERITIES.indexOf(b.severity))
+
+  return (
+    <div className={className}>
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="font-semibold text-cyan-400">Problems</h3>
+        <div className="text-[10px] space-x-2">
+          <span className="text-red-400">{counts.error} errors</span>
+          <span className="text-amber-400">{counts.warning} warnings</span>
+        </div>
+      </div>
+      <div className="text-xs space-y-2">
+        {visible.length === 0 ? (
+          <div className="text-slate-500">No problems found</div>
+        ) : (
+          visible.map((diagnostic, i) => {
+            const active = sameIds(highlighted, diagnostic.nodeIds)
+            return (
+              <button
+                key={`${diagnostic.code}-${i}`}
+                onClick={() => onSelect(active ? null : diagnostic)}
+                className={`w-full text-left p-2 rounded border transition-colors ${SEVERITY_STYLES[diagnostic.severity]} ${
+                  active ? "ring-2 ring-orange-400" : "hover:brightness-125"
+                }`}
+              >
+                <div>
+                  {SEVERITY_ICONS[diagnostic.severity]} {diagnostic.message}
+                </div>
+                {diagnostic.fix && (
+                  <div className="text-[10px] text-slate-400 mt-1">Fix: {diagnostic.fix}</div>
+                )}
+              </button>
+            )
+          })
+        )}
+        <div className="flex items-center justify-between">
+          <label className="flex items-center gap-2 text-[10px] text-slate-400">
+            <input
+              type="checkbox"
+              checked={showInfo}
+              onChange={e => setShowInfo(e.target.checked)}
+            />
+            Show analysis info ({counts.info})
+          </label>
+          {highlighted && (
+            <button
+              onClick={() => onSelect(null)}
+              className="text-[10px] text-slate-400 hover:text-white underline"
+            >
+              Clear highlight
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
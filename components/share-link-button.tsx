@@ -0,0 +1,90 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import {
+  buildShareUrl,
+  decodeSharedState,
+  readShareFragment,
+  type SharedNetworkState,
+} from "@/lib/network-io/share"
+
+interface ShareLinkButtonProps {
+  /** Snapshot of the current network and funding inputs */
+  onShare: () => SharedNetworkState
+  /** Apply a state decoded from the URL fragment - throw to show an error */
+  onRestore: (state: SharedNetworkState) => void
+  buttonClassName?: string
+}
+
+/**
+ * Copies a link encoding the current network into the URL fragment,
+ * and restores networks from such links on load
+ */
+export function ShareLinkButton({
+  onShare,
+  onRestore,
+  buttonClassName = "w-full px-3 py-2 rounded text-sm bg-slate-700 hover:bg-slate-600 transition-colors",
+}: ShareLinkButtonProps) {
+  const [status, setStatus] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  // Keep the latest callback without re-subscribing to hash changes
+  const onRestoreRef = useRef(onRestore)
+  useEffect(() => {
+    onRestoreRef.current = onRestore
+  })
+
+  useEffect(() => {
+    const restoreFromHash = async () => {
+      const encoded = readShareFragment(window.location.hash)
+      if (!encoded) return
+
+      try {
+        onRestoreRef.current(await decodeSharedState(encoded))
+        setError(null)
+      } catch (err) {
+        setError(err instanceof Error ? err.message : String(err))
+      }
+    }
+
+    restoreFromHash()
+    window.addEventListener("hashchange", restoreFromHash)
+    return () => window.removeEventListener("hashchange", restoreFromHash)
+  }, [])
+
+  const handleShare = async () => {
+    let url: string
+    try {
+      url = await buildShareUrl(onShare(), window.location)
+      // replaceState doesn't fire hashchange, so the page isn't re-restored
+      window.history.replaceState(null, "", url)
+      setError(null)
+    } catch (err) {
+      setStatus(null)
+      setError(`Could not create share link: ${err instanceof Error ? err.message : String(err)}`)
+      return
+    }
+
+    try {
+      await navigator.clipboard.writeText(url)
+      setStatus("Link copied to clipboard")
+    } catch {
+      setStatus("Link is in the address bar")
+    }
+    setTimeout(() => setStatus(null), 2000)
+  }
+
+  return (
+    <div className="space-y-2">
+      <button onClick={handleShare} className={buttonClassName}>
+        🔗 Copy Share Link
+      </button>
+      {status && <div className="text-xs text-green-400">{status}</div>}
+      {error && (
+        <div className="text-xs text-red-400 bg-red-950/40 border border-red-500/30 rounded p-2 whitespace-pre-line">
+          {error}
+        </div>
+      )}
+    </div>
+  )
+}
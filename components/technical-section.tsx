@@ -49,7 +49,7 @@ export function TechnicalSection() {
                 <a href="https://folkjs.org" className="text-primary hover:underline font-semibold">
                   FolkJS
                 </a>{" "}
-                provides the necessary computational foundation for post-appitalism. It's a malleable, user-programmable
+                provides the necessary computational foundation for post-appitalism. It&apos;s a malleable, user-programmable
                 substrate that enables the kind of fluid, interconnected digital ecosystems we envision.
               </p>
               <p className="text-muted-foreground leading-relaxed">
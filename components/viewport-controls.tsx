@@ -0,0 +1,51 @@
+"use client"
+
+import type { Viewport } from "@/lib/core/viewport"
+
+interface ViewportControlsProps {
+  viewport: Viewport
+  /** Zoom around the middle of the view */
+  onZoom: (factor: number) => void
+  /** Show the whole network */
+  onFit: () => void
+  className?: string
+}
+
+/**
+ * Zoom buttons for pan/zoom canvases (wheel zooms, dragging empty space pans)
+ */
+export function ViewportControls({
+  viewport,
+  onZoom,
+  onFit,
+  className = "absolute bottom-4 left-4 flex items-center gap-1 bg-slate-800 rounded-lg p-1 text-sm",
+}: ViewportControlsProps) {
+  return (
+    <div className={className}>
+      <button
+        onClick={() => onZoom(1 / 1.25)}
+        className="w-8 h-8 rounded hover:bg-slate-700"
+        title="Zoom out"
+      >
+        −
+      </button>
+      <span className="w-12 text-center font-mono text-xs text-slate-300">
+        {Math.round(viewport.scale * 100)}%
+      </span>
+      <button
+        onClick={() => onZoom(1.25)}
+        className="w-8 h-8 rounded hover:bg-slate-700"
+        title="Zoom in"
+      >
+        +
+      </button>
+      <button
+        onClick={onFit}
+        className="px-2 h-8 rounded hover:bg-slate-700"
+        title="Show the whole network"
+      >
+        Fit
+      </button>
+    </div>
+  )
+}
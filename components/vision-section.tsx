@@ -51,7 +51,7 @@ export function VisionSection() {
             <div className="max-w-3xl mx-auto space-y-6">
               <h3 className="text-3xl font-bold text-balance">Beyond Apps: Exfrastructure</h3>
               <p className="text-lg text-muted-foreground leading-relaxed">
-                This isn't about building another app—it's about creating the exfrastructure that enables ecosystems of
+                This isn&apos;t about building another app—it&apos;s about creating the exfrastructure that enables ecosystems of
                 tools to self-organize and flow freely. Built on substrates like{" "}
                 <a href="https://folkjs.org" className="text-primary hover:underline">
                   FolkJS
@@ -0,0 +1,265 @@
+/**
+ * Model Adapters
+ *
+ * Convert each engine's network representation to and from the core graph.
+ * Allocation percentages are normalized to 0-1 edge weights:
+ * - flow-funding / flow-v2: Map<targetId, 0-100> on each account/node
+ * - tbff / tbff-flow: Allocation arrays with 0-1 percentages
+ */
+
+import type { Account } from '../flow-funding/types'
+import type { FlowNode as FlowNodeV2 } from '../flow-v2/types'
+import type { FlowFundingNetwork } from '../tbff/types'
+import { calculateNetworkTotals, updateAccountComputedProperties } from '../tbff/utils'
+import type { FlowNetwork } from '../tbff-flow/types'
+import { calculateFlowNetworkTotals, updateFlowNodeProperties } from '../tbff-flow/utils'
+import { hasLimits, limitsOf, type AllocationLimits } from './limits'
+import type { FundingGraph, GraphEdge } from './types'
+
+type Layout = Map<string, { x: number; y: number }>
+
+/** Default canvas sizes (match the sample networks) */
+const TBFF_SIZE = { width: 160, height: 140 }
+const TBFF_FLOW_SIZE = { width: 120, height: 100 }
+
+function edgesFromMap(
+  sourceId: string,
+  allocations: Map<string, number>,
+  limits?: Map<string, AllocationLimits>
+): GraphEdge[] {
+  return Array.from(allocations, ([target, percentage]) => ({
+    id: `${sourceId}->${target}`,
+    source: sourceId,
+    target,
+    weight: percentage / 100,
+    ...limitsOf(limits?.get(target) ?? {}),
+  }))
+}
+
+function mapFromEdges(sourceId: string, edges: GraphEdge[]): Map<string, number> {
+  return new Map(
+    edges.filter(e => e.source === sourceId).map(e => [e.target, e.weight * 100])
+  )
+}
+
+/**
+ * Limits keyed by target, or undefined when no edge from the source has any
+ */
+function limitsFromEdges(
+  sourceId: string,
+  edges: GraphEdge[]
+): Map<string, AllocationLimits> | undefined {
+  const limited = edges.filter(e => e.source === sourceId && hasLimits(e))
+  if (limited.length === 0) return undefined
+  return new Map(limited.map(e => [e.target, limitsOf(e)]))
+}
+
+/**
+ * Fallback grid position for nodes without one
+ */
+function gridPosition(index: number): { x: number; y: number } {
+  return { x: 100 + (index % 4) * 200, y: 100 + Math.floor(index / 4) * 200 }
+}
+
+// ============================================================================
+// Flow Funding
+// ============================================================================
+
+export function fromAccounts(accounts: Account[], layout?: Layout): FundingGraph {
+  return {
+    nodes: accounts.map(a => ({
+      id: a.id,
+      name: a.name,
+      amount: a.balance,
+      minThreshold: a.minThreshold,
+      maxThreshold: a.maxThreshold,
+      consumptionRate: a.consumptionRate,
+      priority: a.priority,
+      position: layout?.get(a.id),
+    })),
+    edges: accounts.flatMap(a => edgesFromMap(a.id, a.allocations, a.allocationLimits)),
+  }
+}
+
+export function toAccounts(graph: FundingGraph): Account[] {
+  return graph.nodes.map(n => ({
+    id: n.id,
+    name: n.name,
+    balance: n.amount,
+    minThreshold: n.minThreshold,
+    maxThreshold: n.maxThreshold,
+    consumptionRate: n.consumptionRate,
+    priority: n.priority,
+    allocations: mapFromEdges(n.id, graph.edges),
+    allocationLimits: limitsFromEdges(n.id, graph.edges),
+  }))
+}
+
+// ============================================================================
+// Flow V2
+// ============================================================================
+
+export function fromFlowNodesV2(nodes: FlowNodeV2[], layout?: Layout): FundingGraph {
+  return {
+    nodes: nodes.map(n => ({
+      id: n.id,
+      name: n.name,
+      amount: n.externalInflow,
+      minThreshold: n.minThreshold,
+      maxThreshold: n.maxThreshold,
+      consumptionRate: n.consumptionRate,
+      position: layout?.get(n.id),
+    })),
+    edges: nodes.flatMap(n => edgesFromMap(n.id, n.allocations, n.allocationLimits)),
+  }
+}
+
+export function toFlowNodesV2(graph: FundingGraph): FlowNodeV2[] {
+  return graph.nodes.map(n => ({
+    id: n.id,
+    name: n.name,
+    externalInflow: n.amount,
+    minThreshold: n.minThreshold,
+    maxThreshold: n.maxThreshold,
+    consumptionRate: n.consumptionRate,
+    allocations: mapFromEdges(n.id, graph.edges),
+    allocationLimits: limitsFromEdges(n.id, graph.edges),
+  }))
+}
+
+/**
+ * Layout map for models that keep positions outside the nodes
+ */
+export function layoutOf(graph: FundingGraph): Layout {
+  return new Map(graph.nodes.map((n, i) => [n.id, n.position ?? gridPosition(i)]))
+}
+
+// ============================================================================
+// TBFF
+// ============================================================================
+
+export function fromTbffNetwork(network: FlowFundingNetwork): FundingGraph {
+  return {
+    nodes: network.accounts.map(a => ({
+      id: a.id,
+      name: a.name,
+      amount: a.balance,
+      minThreshold: a.minThreshold,
+      maxThreshold: a.maxThreshold,
+      consumptionRate: a.consumptionRate,
+      priority: a.priority,
+      position: { x: a.x, y: a.y },
+      size: { width: a.width, height: a.height },
+    })),
+    edges: network.allocations.map(a => ({
+      id: a.id,
+      source: a.sourceAccountId,
+      target: a.targetAccountId,
+      weight: a.percentage,
+      ...limitsOf(a),
+    })),
+  }
+}
+
+export function toTbffNetwork(graph: FundingGraph, name: string): FlowFundingNetwork {
+  return calculateNetworkTotals({
+    name,
+    accounts: graph.nodes.map((n, i) =>
+      updateAccountComputedProperties({
+        id: n.id,
+        name: n.name,
+        balance: n.amount,
+        minThreshold: n.minThreshold,
+        maxThreshold: n.maxThreshold,
+        consumptionRate: n.consumptionRate,
+        priority: n.priority,
+        ...(n.position ?? gridPosition(i)),
+        ...(n.size ?? TBFF_SIZE),
+        status: 'deficit', // Will be computed
+        shortfall: 0,
+        capacity: 0,
+        overflow: 0,
+      })
+    ),
+    allocations: graph.edges.map(e => ({
+      id: e.id,
+      sourceAccountId: e.source,
+      targetAccountId: e.target,
+      percentage: e.weight,
+      ...limitsOf(e),
+    })),
+    totalFunds: 0,
+    totalShortfall: 0,
+    totalCapacity: 0,
+    totalOverflow: 0,
+  })
+}
+
+// ============================================================================
+// TBFF Flow
+// ============================================================================
+
+export function fromFlowNetwork(network: FlowNetwork): FundingGraph {
+  return {
+    nodes: network.nodes.map(n => ({
+      id: n.id,
+      name: n.name,
+      amount: n.externalFlow,
+      minThreshold: n.minAbsorption,
+      maxThreshold: n.maxAbsorption,
+      position: { x: n.x, y: n.y },
+      size: { width: n.width, height: n.height },
+      ...(n.isOverflowSink && { sink: true }),
+    })),
+    edges: network.allocations.map(a => ({
+      id: a.id,
+      source: a.sourceNodeId,
+      target: a.targetNodeId,
+      weight: a.percentage,
+      ...limitsOf(a),
+    })),
+  }
+}
+
+/**
+ * Overflow sinks are dropped - propagateFlow recreates them when needed
+ */
+export function toFlowNetwork(graph: FundingGraph, name: string): FlowNetwork {
+  const sinks = new Set(graph.nodes.filter(n => n.sink).map(n => n.id))
+
+  return calculateFlowNetworkTotals({
+    name,
+    nodes: graph.nodes
+      .filter(n => !n.sink)
+      .map((n, i) =>
+        updateFlowNodeProperties({
+          id: n.id,
+          name: n.name,
+          ...(n.position ?? gridPosition(i)),
+          ...(n.size ?? TBFF_FLOW_SIZE),
+          minAbsorption: n.minThreshold,
+          maxAbsorption: n.maxThreshold,
+          inflow: n.amount,
+          absorbed: 0,
+          outflow: 0,
+          status: 'starved', // Will be computed
+          externalFlow: n.amount,
+          isOverflowSink: false,
+        })
+      ),
+    allocations: graph.edges
+      .filter(e => !sinks.has(e.source) && !sinks.has(e.target))
+      .map(e => ({
+        id: e.id,
+        sourceNodeId: e.source,
+        targetNodeId: e.target,
+        percentage: e.weight,
+        ...limitsOf(e),
+      })),
+    totalInflow: 0,
+    totalAbsorbed: 0,
+    totalOutflow: 0,
+    overflowNodeId: null,
+  })
+}
+
@@ -0,0 +1,79 @@
+import fc from 'fast-check'
+import { describe, expect, it } from 'vitest'
+import { randomGraph } from '../testing/arbitraries'
+import { analyzeGraph, stronglyConnectedComponents } from './analysis'
+import type { FundingGraph, GraphEdge } from './types'
+
+const node = (id: string, amount = 0) => ({ id, name: id, amount, minThreshold: 0, maxThreshold: 100 })
+const edge = (source: string, target: string, extra: Partial<GraphEdge> = {}): GraphEdge => ({
+  id: `${source}->${target}`, source, target, weight: 1, ...extra,
+})
+
+/**
+ * A -> B <-> C -> D, and E <-> F on their own
+ */
+const graph: FundingGraph = {
+  nodes: [node('A', 50), node('B'), node('C'), node('D'), node('E'), node('F')],
+  edges: [
+    edge('A', 'B', { weight: 1 }),
+    edge('B', 'C'),
+    edge('C', 'B', { weight: 0.5 }),
+    edge('C', 'D', { weight: 0.5 }),
+    edge('E', 'F'),
+    edge('F', 'E'),
+  ],
+}
+
+const sorted = (components: string[][]) => components.map(c => [...c].sort()).sort()
+
+describe('stronglyConnectedComponents', () => {
+  it('groups mutually reachable nodes', () => {
+    expect(sorted(stronglyConnectedComponents(graph))).toEqual([['A'], ['B', 'C'], ['D'], ['E', 'F']])
+  })
+
+  it('partitions the nodes of any graph', () => {
+    fc.assert(
+      fc.property(randomGraph, (g) => {
+        const members = stronglyConnectedComponents(g).flat().sort()
+        expect(members).toEqual(g.nodes.map(n => n.id).sort())
+      })
+    )
+  })
+
+  it('handles long chains without recursion', () => {
+    const ids = Array.from({ length: 20000 }, (_, i) => `n${i}`)
+    const chain: FundingGraph = {
+      nodes: ids.map(id => node(id)),
+      edges: ids.slice(1).map((id, i) => edge(ids[i], id)),
+    }
+    expect(stronglyConnectedComponents(chain)).toHaveLength(ids.length)
+  })
+})
+
+describe('analyzeGraph', () => {
+  it('classifies cycles, sources, sinks and unreachable nodes', () => {
+    const analysis = analyzeGraph(graph)
+
+    expect(sorted(analysis.cycles)).toEqual([['B', 'C'], ['E', 'F']])
+    expect(sorted(analysis.closedCycles)).toEqual([['E', 'F']])
+    expect(analysis.sources).toEqual(['A'])
+    expect(analysis.sinks).toEqual(['D'])
+    expect(analysis.unreachable).toEqual(['E', 'F'])
+  })
+
+  it('does not treat a capped cycle as closed', () => {
+    const capped = {
+      ...graph,
+      edges: graph.edges.map(e => (e.id === 'E->F' ? { ...e, cap: 10 } : e)),
+    }
+    expect(analyzeGraph(capped).closedCycles).toEqual([])
+  })
+
+  it('keeps a capped cycle closed when capped overflow stays put', () => {
+    const capped = {
+      ...graph,
+      edges: graph.edges.map(e => (e.id === 'E->F' ? { ...e, cap: 10 } : e)),
+    }
+    expect(sorted(analyzeGraph(capped, { cappedOverflowLeaves: false }).closedCycles)).toEqual([['E', 'F']])
+  })
+})
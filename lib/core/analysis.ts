@@ -0,0 +1,157 @@
+/**
+ * Graph Analysis
+ *
+ * Structural analysis of the allocation graph, independent of balances:
+ * - strongly connected components (Tarjan) and the cycles among them
+ * - closed cycles: components no allocation leaves (and, in models where
+ *   overflow above a cap leaves the network, no cap spills out of), so their
+ *   overflow can never reach the rest of the network
+ * - sources (nothing allocates to them) and sinks (allocate to nothing)
+ * - unreachable nodes: no funded node has an allocation path to them
+ */
+
+import type { FundingGraph } from './types'
+
+export interface GraphAnalysis {
+  /** Strongly connected components, in reverse topological order */
+  components: string[][]
+  /** Components with more than one node */
+  cycles: string[][]
+  /** Cycles that no allocation leaves (see AnalysisOptions for caps) */
+  closedCycles: string[][]
+  /** Nodes no allocation points to */
+  sources: string[]
+  /** Nodes without outgoing allocations (including overflow sinks) */
+  sinks: string[]
+  /** Nodes no funded node can reach along allocations */
+  unreachable: string[]
+}
+
+export interface AnalysisOptions {
+  /**
+   * Whether overflow an allocation cap holds back leaves the network
+   * (flow-funding loses it, the flow models send it to the overflow sink) or
+   * stays with its node (tbff). Only in the first case is a capped cycle open.
+   * Defaults to true.
+   */
+  cappedOverflowLeaves?: boolean
+}
+
+/**
+ * Adjacency list over known nodes, ignoring self-loops and dangling edges
+ */
+function adjacency(graph: FundingGraph): Map<string, string[]> {
+  const next = new Map(graph.nodes.map(n => [n.id, [] as string[]]))
+  for (const edge of graph.edges) {
+    if (edge.source === edge.target || !next.has(edge.target)) continue
+    next.get(edge.source)?.push(edge.target)
+  }
+  return next
+}
+
+/**
+ * Tarjan's algorithm, iterative so large generated networks cannot overflow
+ * the call stack
+ */
+export function stronglyConnectedComponents(graph: FundingGraph): string[][] {
+  const next = adjacency(graph)
+  const index = new Map<string, number>()
+  const lowLink = new Map<string, number>()
+  const onStack = new Set<string>()
+  const stack: string[] = []
+  const components: string[][] = []
+  let counter = 0
+
+  for (const root of next.keys()) {
+    if (index.has(root)) continue
+
+    // Each frame is a node and the position of the next neighbour to visit
+    const frames: Array<{ id: string; edge: number }> = [{ id: root, edge: 0 }]
+    index.set(root, counter)
+    lowLink.set(root, counter++)
+    stack.push(root)
+    onStack.add(root)
+
+    while (frames.length > 0) {
+      const frame = frames[frames.length - 1]
+      const neighbours = next.get(frame.id)!
+
+      if (frame.edge < neighbours.length) {
+        const target = neighbours[frame.edge++]
+        if (!index.has(target)) {
+          index.set(target, counter)
+          lowLink.set(target, counter++)
+          stack.push(target)
+          onStack.add(target)
+          frames.push({ id: target, edge: 0 })
+        } else if (onStack.has(target)) {
+          lowLink.set(frame.id, Math.min(lowLink.get(frame.id)!, index.get(target)!))
+        }
+        continue
+      }
+
+      frames.pop()
+      const parent = frames[frames.length - 1]
+      if (parent) {
+        lowLink.set(parent.id, Math.min(lowLink.get(parent.id)!, lowLink.get(frame.id)!))
+      }
+
+      if (lowLink.get(frame.id) === index.get(frame.id)) {
+        const component: string[] = []
+        let member: string
+        do {
+          member = stack.pop()!
+          onStack.delete(member)
+          component.push(member)
+        } while (member !== frame.id)
+        components.push(component.reverse())
+      }
+    }
+  }
+
+  return components
+}
+
+/**
+ * Analyze the allocation structure of a network
+ */
+export function analyzeGraph(
+  graph: FundingGraph,
+  { cappedOverflowLeaves = true }: AnalysisOptions = {}
+): GraphAnalysis {
+  const next = adjacency(graph)
+  const components = stronglyConnectedComponents(graph)
+  const cycles = components.filter(c => c.length > 1)
+
+  // Where overflow above a cap leaves the network, capped cycles are open
+  const capped = new Set(
+    cappedOverflowLeaves ? graph.edges.filter(e => e.cap !== undefined).map(e => e.source) : []
+  )
+  const closedCycles = cycles.filter(component => {
+    const members = new Set(component)
+    return component.every(id =>
+      !capped.has(id) && next.get(id)!.every(target => members.has(target))
+    )
+  })
+
+  const targets = new Set(Array.from(next.values()).flat())
+  const sources = graph.nodes.filter(n => !targets.has(n.id)).map(n => n.id)
+  const sinks = graph.nodes.filter(n => next.get(n.id)!.length === 0).map(n => n.id)
+
+  // Breadth-first search from every funded node
+  const reached = new Set(graph.nodes.filter(n => n.amount > 0).map(n => n.id))
+  const queue = Array.from(reached)
+  while (queue.length > 0) {
+    for (const target of next.get(queue.shift()!)!) {
+      if (!reached.has(target)) {
+        reached.add(target)
+        queue.push(target)
+      }
+    }
+  }
+  const unreachable = graph.nodes
+    .filter(n => !n.sink && !reached.has(n.id))
+    .map(n => n.id)
+
+  return { components, cycles, closedCycles, sources, sinks, unreachable }
+}
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest'
+import { nextName, removeNodeAllocations } from './editing'
+
+describe('nextName', () => {
+  it('skips names that are taken', () => {
+    expect(nextName('Node', ['Node 3', 'Node 4', 'Other'], 3)).toBe('Node 5')
+    expect(nextName('Account', [], 1)).toBe('Account 1')
+  })
+})
+
+describe('removeNodeAllocations', () => {
+  interface Edge {
+    id: string
+    from: string
+    to: string
+    percentage: number
+  }
+  const ends = { source: (e: Edge) => e.from, target: (e: Edge) => e.to }
+  const double = (edges: Edge[]) => edges.map(e => ({ ...e, percentage: e.percentage * 2 }))
+
+  it('drops allocations to and from the node and renormalizes only the affected sources', () => {
+    const edges: Edge[] = [
+      { id: 'a', from: 'A', to: 'B', percentage: 0.5 },
+      { id: 'b', from: 'A', to: 'C', percentage: 0.5 },
+      { id: 'c', from: 'C', to: 'B', percentage: 1 },
+      { id: 'd', from: 'D', to: 'B', percentage: 0.5 },
+      { id: 'e', from: 'D', to: 'A', percentage: 0.5 },
+    ]
+
+    expect(removeNodeAllocations(edges, 'C', ends, double)).toEqual([
+      { id: 'a', from: 'A', to: 'B', percentage: 1 },
+      { id: 'd', from: 'D', to: 'B', percentage: 0.5 },
+      { id: 'e', from: 'D', to: 'A', percentage: 0.5 },
+    ])
+  })
+})
@@ -0,0 +1,49 @@
+/**
+ * Editing - Structure changes shared by the canvas editors
+ *
+ * tbff and tbff-flow both keep nodes in an array and allocations as a list of
+ * 0-1 percentages per source. Their editing modules map model fields onto
+ * these helpers and add the model's own computed properties.
+ */
+
+/**
+ * Allocation endpoints, read through the model's field names
+ */
+export interface AllocationEnds<A> {
+  source: (allocation: A) => string
+  target: (allocation: A) => string
+}
+
+/**
+ * First "<prefix> N" not already taken, counting up from `start`
+ */
+export function nextName(prefix: string, taken: Iterable<string>, start: number): string {
+  const names = new Set(taken)
+  let n = start
+  while (names.has(`${prefix} ${n}`)) n++
+  return `${prefix} ${n}`
+}
+
+/**
+ * Allocations left after removing a node: every allocation to or from it is
+ * dropped, and sources that lost a target have the rest renormalized
+ */
+export function removeNodeAllocations<A extends { id: string }>(
+  allocations: A[],
+  nodeId: string,
+  ends: AllocationEnds<A>,
+  normalize: (fromOneSource: A[]) => A[]
+): A[] {
+  const affectedSources = new Set(
+    allocations.filter(a => ends.target(a) === nodeId).map(ends.source)
+  )
+  const remaining = allocations.filter(a => ends.source(a) !== nodeId && ends.target(a) !== nodeId)
+
+  const normalized = new Map(
+    [...affectedSources].flatMap(sourceId =>
+      normalize(remaining.filter(a => ends.source(a) === sourceId)).map(a => [a.id, a] as const)
+    )
+  )
+
+  return remaining.map(a => normalized.get(a.id) ?? a)
+}
@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest'
+import { analyzeGraph } from './analysis'
+import { createRng, generatedName, generateGraph, TOPOLOGY_OPTIONS, type TopologyId } from './generators'
+import type { ModelKind } from './types'
+import { validateGraph } from './validation'
+
+const TOPOLOGIES = TOPOLOGY_OPTIONS.map(t => t.id)
+const MODELS: ModelKind[] = ['flow-funding', 'flow-v2', 'tbff', 'tbff-flow']
+
+describe('createRng', () => {
+  it('repeats the same sequence for the same seed', () => {
+    const a = createRng(42)
+    const b = createRng(42)
+    const values = Array.from({ length: 5 }, () => a())
+
+    expect(values).toEqual(Array.from({ length: 5 }, () => b()))
+    expect(values.every(v => v >= 0 && v < 1)).toBe(true)
+    expect(createRng(43)()).not.toBe(values[0])
+  })
+})
+
+describe.each(TOPOLOGIES)('generateGraph (%s)', (topology: TopologyId) => {
+  it.each([1, 2, 12, 60])('produces a valid network of %i nodes for every model', nodes => {
+    const graph = generateGraph({ topology, nodes, seed: 7, split: 'skewed' })
+
+    expect(graph.nodes).toHaveLength(nodes)
+    for (const model of MODELS) {
+      expect(validateGraph(graph, model).errors).toEqual([])
+    }
+  })
+
+  it('is deterministic per seed', () => {
+    const config = { topology, nodes: 20, amount: { type: 'uniform' as const, min: 0, max: 500 } }
+
+    expect(generateGraph({ ...config, seed: 3 })).toEqual(generateGraph({ ...config, seed: 3 }))
+    expect(generateGraph({ ...config, seed: 3 })).not.toEqual(generateGraph({ ...config, seed: 4 }))
+  })
+
+  it('keeps every node inside the layout area', () => {
+    const graph = generateGraph({ topology, nodes: 30, width: 1000, height: 700 })
+
+    for (const node of graph.nodes) {
+      expect(node.position!.x).toBeGreaterThan(0)
+      expect(node.position!.x).toBeLessThan(1000)
+      expect(node.position!.y).toBeGreaterThan(0)
+      expect(node.position!.y).toBeLessThan(700)
+    }
+  })
+})
+
+describe('topology shapes', () => {
+  it('builds a tree for hierarchical networks', () => {
+    const graph = generateGraph({ topology: 'hierarchical', nodes: 13, branching: 3 })
+
+    expect(graph.edges).toHaveLength(12)
+    expect(graph.edges.filter(e => e.source === 'n1').map(e => e.target)).toEqual(['n2', 'n3', 'n4'])
+    expect(analyzeGraph(graph).cycles).toEqual([])
+  })
+
+  it('only lets funders allocate in bipartite networks', () => {
+    const graph = generateGraph({ topology: 'bipartite', nodes: 10, funderShare: 0.3 })
+    const funders = graph.nodes.filter(n => n.name.startsWith('Funder')).map(n => n.id)
+
+    expect(funders).toHaveLength(3)
+    expect(new Set(graph.edges.map(e => e.source))).toEqual(new Set(funders))
+    expect(graph.edges.every(e => !funders.includes(e.target))).toBe(true)
+  })
+
+  it('grows hubs in scale-free networks', () => {
+    const graph = generateGraph({ topology: 'scale-free', nodes: 200, attachments: 2, seed: 5 })
+    const degree = new Map<string, number>()
+    for (const edge of graph.edges) {
+      degree.set(edge.source, (degree.get(edge.source) || 0) + 1)
+      degree.set(edge.target, (degree.get(edge.target) || 0) + 1)
+    }
+
+    const average = (2 * graph.edges.length) / graph.nodes.length
+    expect(Math.max(...degree.values())).toBeGreaterThan(4 * average)
+  })
+
+  it('splits allocations as configured', () => {
+    const graph = generateGraph({ topology: 'erdos-renyi', nodes: 10, edgeProbability: 0.5, split: 'equal' })
+    const fromFirst = graph.edges.filter(e => e.source === 'n1')
+
+    expect(fromFirst.reduce((sum, e) => sum + e.weight, 0)).toBeCloseTo(1)
+    expect(Math.max(...fromFirst.map(e => e.weight)) - Math.min(...fromFirst.map(e => e.weight))).toBeLessThanOrEqual(0.011)
+  })
+
+  it.each([
+    { topology: 'erdos-renyi' as const, nodes: 600 },
+    { topology: 'erdos-renyi' as const, nodes: 100, edgeProbability: 0.5, split: 'skewed' as const },
+    { topology: 'bipartite' as const, nodes: 1000 },
+  ])('keeps allocations valid with high out-degree ($topology, $nodes nodes)', config => {
+    const graph = generateGraph({ ...config, seed: 1 })
+    const totals = new Map<string, number>()
+    for (const edge of graph.edges) {
+      totals.set(edge.source, (totals.get(edge.source) || 0) + edge.weight)
+    }
+
+    expect(graph.edges.every(e => e.weight > 0 && e.weight <= 1)).toBe(true)
+    expect(Array.from(totals.values()).every(total => Math.abs(total - 1) < 1e-9)).toBe(true)
+    expect(validateGraph(graph, 'tbff').errors).toEqual([])
+  })
+
+  it('grows the layout area to keep nodes apart', () => {
+    const graph = generateGraph({ topology: 'small-world', nodes: 40, spacing: 120 })
+    const [a, b] = graph.nodes.map(n => n.position!)
+
+    expect(Math.hypot(a.x - b.x, a.y - b.y)).toBeGreaterThan(0.9 * 120)
+    expect(Math.min(...graph.nodes.map(n => n.position!.x))).toBeGreaterThan(0)
+  })
+
+  it('rejects an empty network', () => {
+    expect(() => generateGraph({ topology: 'small-world', nodes: 0 })).toThrow('positive integer')
+  })
+})
+
+describe('generatedName', () => {
+  it('names the topology, size and seed', () => {
+    expect(generatedName({ topology: 'scale-free', nodes: 12, seed: 7 })).toBe('Scale-free (12 nodes, seed 7)')
+  })
+})
@@ -0,0 +1,392 @@
+/**
+ * Random Network Generators
+ *
+ * Seeded generators for stress testing and demos. Each produces a core graph
+ * with thresholds, weighted allocations and layout positions, which the
+ * adapters in ./adapters turn into any model's network. The same config and
+ * seed always produce the same network.
+ *
+ * Topologies:
+ * - erdos-renyi: every ordered pair is connected with a fixed probability
+ * - scale-free: preferential attachment (Barabási–Albert) - a few hubs
+ * - small-world: ring lattice with randomly rewired edges (Watts–Strogatz)
+ * - hierarchical: a tree where each node allocates to its children
+ * - bipartite: funders that only allocate to projects
+ *
+ * Generated networks always pass validateGraph: no self-allocations,
+ * no duplicate edges, min ≤ max and allocations summing to 100%.
+ */
+
+import { circlePositions, type Position } from './layout'
+import type { FundingGraph, GraphEdge, GraphNode } from './types'
+
+export type TopologyId =
+  | 'erdos-renyi'
+  | 'scale-free'
+  | 'small-world'
+  | 'hierarchical'
+  | 'bipartite'
+
+/**
+ * Distribution of a generated amount
+ * - uniform: every value in [min, max] equally likely
+ * - log-uniform: heavy-tailed - most values near min, a few near max
+ */
+export interface Distribution {
+  type: 'constant' | 'uniform' | 'log-uniform'
+  min: number
+  /** Ignored for constant */
+  max: number
+}
+
+/**
+ * How a node splits its overflow across its allocations
+ * - equal: the same share for every target
+ * - uniform: random shares
+ * - skewed: random shares dominated by one or two targets
+ */
+export type AllocationSplit = 'equal' | 'uniform' | 'skewed'
+
+export interface GeneratorConfig {
+  topology: TopologyId
+  /** Number of nodes (funders included for bipartite) */
+  nodes: number
+  /** Random seed (default: 1) */
+  seed?: number
+  /** Minimum thresholds (default: uniform 100-500) */
+  minThreshold?: Distribution
+  /** Maximum threshold as a multiple of the minimum (default: uniform 1.5-3) */
+  maxFactor?: Distribution
+  /** Starting balance / external inflow per node (default: 0) */
+  amount?: Distribution
+  /** Allocation shares (default: 'uniform') */
+  split?: AllocationSplit
+  /** erdos-renyi: edge probability (default: 0.2) */
+  edgeProbability?: number
+  /** scale-free: allocations per new node (default: 2) */
+  attachments?: number
+  /** small-world: lattice neighbours per node (default: 4) */
+  neighbours?: number
+  /** small-world: rewiring probability (default: 0.1) */
+  rewireProbability?: number
+  /** hierarchical: children per node (default: 3) */
+  branching?: number
+  /** bipartite: share of nodes that are funders (default: 0.3) */
+  funderShare?: number
+  /** Layout area (default: 800 × 600) */
+  width?: number
+  height?: number
+  /** Least distance between neighbouring nodes - the area grows to fit (default: 0) */
+  spacing?: number
+}
+
+export interface TopologyOption {
+  id: TopologyId
+  name: string
+  description: string
+}
+
+export const TOPOLOGY_OPTIONS: TopologyOption[] = [
+  {
+    id: 'erdos-renyi',
+    name: 'Erdős–Rényi',
+    description: 'Every pair of nodes allocates with the same probability',
+  },
+  {
+    id: 'scale-free',
+    name: 'Scale-free',
+    description: 'New nodes attach to well-connected ones - a few large hubs',
+  },
+  {
+    id: 'small-world',
+    name: 'Small-world',
+    description: 'Allocations to ring neighbours, with a few random shortcuts',
+  },
+  {
+    id: 'hierarchical',
+    name: 'Hierarchical',
+    description: 'A tree - each node passes its overflow down to its children',
+  },
+  {
+    id: 'bipartite',
+    name: 'Funders & projects',
+    description: 'Funders allocate to projects; projects keep what they get',
+  },
+]
+
+/** Room left around the layout area's edges */
+const MARGIN = 80
+
+/**
+ * Seeded pseudo-random numbers in [0, 1) (mulberry32)
+ */
+export function createRng(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+function sample(distribution: Distribution, random: () => number): number {
+  const { type, min, max } = distribution
+  if (type === 'constant' || max <= min) return min
+  if (type === 'log-uniform' && min > 0) {
+    return Math.exp(Math.log(min) + random() * (Math.log(max) - Math.log(min)))
+  }
+  return min + random() * (max - min)
+}
+
+/** Whole dollars keep generated networks readable */
+const round = (value: number) => Math.round(value)
+
+// ============================================================================
+// Topologies (directed adjacency over node indices)
+// ============================================================================
+
+type Adjacency = Array<Set<number>>
+
+function erdosRenyi(n: number, p: number, random: () => number): Adjacency {
+  const next: Adjacency = Array.from({ length: n }, () => new Set())
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j < n; j++) {
+      if (i !== j && random() < p) next[i].add(j)
+    }
+  }
+  return next
+}
+
+/**
+ * Barabási–Albert: each new node connects to `m` existing nodes picked in
+ * proportion to their degree. The allocation points either way, so hubs
+ * both receive and pass funds on.
+ */
+function scaleFree(n: number, m: number, random: () => number): Adjacency {
+  const next: Adjacency = Array.from({ length: n }, () => new Set())
+  // Each node appears once per edge end (plus once for itself)
+  const weighted: number[] = []
+
+  for (let i = 0; i < n; i++) {
+    const targets = new Set<number>()
+    while (targets.size < Math.min(m, i)) {
+      targets.add(weighted[Math.floor(random() * weighted.length)])
+    }
+    for (const target of targets) {
+      if (random() < 0.5) {
+        next[i].add(target)
+      } else {
+        next[target].add(i)
+      }
+      weighted.push(target, i)
+    }
+    weighted.push(i)
+  }
+  return next
+}
+
+/**
+ * Watts–Strogatz: allocate to the next k/2 nodes around the ring, rewiring
+ * each allocation to a random node with probability beta
+ */
+function smallWorld(n: number, k: number, beta: number, random: () => number): Adjacency {
+  const next: Adjacency = Array.from({ length: n }, () => new Set())
+  const reach = Math.max(1, Math.floor(k / 2))
+
+  for (let i = 0; i < n; i++) {
+    for (let offset = 1; offset <= reach && offset < n; offset++) {
+      let target = (i + offset) % n
+      if (random() < beta) {
+        const candidates = Array.from({ length: n }, (_, j) => j)
+          .filter(j => j !== i && !next[i].has(j))
+        if (candidates.length > 0) {
+          target = candidates[Math.floor(random() * candidates.length)]
+        }
+      }
+      next[i].add(target)
+    }
+  }
+  return next
+}
+
+function hierarchical(n: number, branching: number): Adjacency {
+  const next: Adjacency = Array.from({ length: n }, () => new Set())
+  for (let child = 1; child < n; child++) {
+    next[Math.floor((child - 1) / branching)].add(child)
+  }
+  return next
+}
+
+/**
+ * Funders (the first `funders` nodes) allocate to each project with
+ * probability p - and to at least one
+ */
+function bipartite(n: number, funders: number, p: number, random: () => number): Adjacency {
+  const next: Adjacency = Array.from({ length: n }, () => new Set())
+  for (let f = 0; f < funders; f++) {
+    for (let project = funders; project < n; project++) {
+      if (random() < p) next[f].add(project)
+    }
+    if (next[f].size === 0 && n > funders) {
+      next[f].add(funders + Math.floor(random() * (n - funders)))
+    }
+  }
+  return next
+}
+
+// ============================================================================
+// Layouts
+// ============================================================================
+
+/**
+ * Rows of nodes, evenly spread horizontally
+ */
+function rowsLayout(
+  rows: number[][],
+  n: number,
+  width: number,
+  height: number,
+  spacing: number
+): Position[] {
+  const positions: Position[] = new Array(n)
+  const rowGap = rows.length > 1 ? Math.max((height - 2 * MARGIN) / (rows.length - 1), spacing) : 0
+  rows.forEach((row, r) => {
+    const y = rows.length === 1 ? height / 2 : MARGIN + r * rowGap
+    const gap = Math.max((width - 2 * MARGIN) / row.length, spacing)
+    row.forEach((index, i) => {
+      positions[index] = { x: round(MARGIN + (i + 0.5) * gap), y: round(y) }
+    })
+  })
+  return positions
+}
+
+function treeRows(n: number, branching: number): number[][] {
+  const rows: number[][] = []
+  let start = 0
+  for (let size = 1; start < n; size *= branching) {
+    rows.push(Array.from({ length: Math.min(size, n - start) }, (_, i) => start + i))
+    start += size
+  }
+  return rows
+}
+
+// ============================================================================
+// Generator
+// ============================================================================
+
+function splitWeights(count: number, split: AllocationSplit, random: () => number): number[] {
+  const raw = Array.from({ length: count }, () =>
+    split === 'equal' ? 1 : split === 'skewed' ? random() ** 4 + 1e-3 : random() + 1e-3
+  )
+  // Fractional shares: rounding to whole percentages breaks down once a node
+  // has more than 100 targets
+  const total = raw.reduce((sum, w) => sum + w, 0)
+  return raw.map(w => w / total)
+}
+
+/**
+ * Generate a network
+ *
+ * @throws If the node count is below 1
+ */
+export function generateGraph(config: GeneratorConfig): FundingGraph {
+  const {
+    topology,
+    nodes: n,
+    seed = 1,
+    minThreshold = { type: 'uniform', min: 100, max: 500 },
+    maxFactor = { type: 'uniform', min: 1.5, max: 3 },
+    amount = { type: 'constant', min: 0, max: 0 },
+    split = 'uniform',
+    edgeProbability = 0.2,
+    attachments = 2,
+    neighbours = 4,
+    rewireProbability = 0.1,
+    branching = 3,
+    funderShare = 0.3,
+    width = 800,
+    height = 600,
+    spacing = 0,
+  } = config
+
+  if (!Number.isInteger(n) || n < 1) {
+    throw new Error(`Node count must be a positive integer, got ${n}`)
+  }
+
+  const random = createRng(seed)
+  const funders = topology === 'bipartite' ? Math.max(1, Math.min(n - 1, round(n * funderShare))) : 0
+
+  let next: Adjacency
+  let positions: Position[]
+  switch (topology) {
+    case 'erdos-renyi':
+      next = erdosRenyi(n, edgeProbability, random)
+      positions = circlePositions(n, width, height, spacing)
+      break
+    case 'scale-free':
+      next = scaleFree(n, attachments, random)
+      positions = circlePositions(n, width, height, spacing)
+      break
+    case 'small-world':
+      next = smallWorld(n, neighbours, rewireProbability, random)
+      positions = circlePositions(n, width, height, spacing)
+      break
+    case 'hierarchical':
+      next = hierarchical(n, Math.max(1, branching))
+      positions = rowsLayout(treeRows(n, Math.max(1, branching)), n, width, height, spacing)
+      break
+    case 'bipartite': {
+      next = bipartite(n, funders, edgeProbability, random)
+      const all = Array.from({ length: n }, (_, i) => i)
+      positions = rowsLayout([all.slice(0, funders), all.slice(funders)], n, width, height, spacing)
+      break
+    }
+    default:
+      throw new Error(`Unknown topology: ${topology}`)
+  }
+
+  const id = (index: number) => `n${index + 1}`
+  const name = (index: number) =>
+    topology === 'bipartite'
+      ? index < funders
+        ? `Funder ${index + 1}`
+        : `Project ${index - funders + 1}`
+      : `Node ${index + 1}`
+
+  const graphNodes: GraphNode[] = Array.from({ length: n }, (_, i) => {
+    const min = round(sample(minThreshold, random))
+    const isFunder = i < funders
+    return {
+      id: id(i),
+      name: name(i),
+      amount: round(sample(amount, random)),
+      // Funders pass everything on
+      minThreshold: isFunder ? 0 : min,
+      maxThreshold: isFunder ? 0 : Math.max(min, round(min * sample(maxFactor, random))),
+      position: positions[i],
+    }
+  })
+
+  const edges: GraphEdge[] = next.flatMap((targets, source) => {
+    const ordered = Array.from(targets).sort((a, b) => a - b)
+    const weights = splitWeights(ordered.length, split, random)
+    return ordered.map((target, i) => ({
+      id: `${id(source)}->${id(target)}`,
+      source: id(source),
+      target: id(target),
+      weight: weights[i],
+    }))
+  })
+
+  return { nodes: graphNodes, edges }
+}
+
+/**
+ * Display name for a generated network, e.g. "Scale-free (12 nodes, seed 7)"
+ */
+export function generatedName(config: GeneratorConfig): string {
+  const topology = TOPOLOGY_OPTIONS.find(option => option.id === config.topology)
+  return `${topology?.name ?? config.topology} (${config.nodes} nodes, seed ${config.seed ?? 1})`
+}
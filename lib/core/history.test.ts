@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest'
+import { emptyHistory, jumpTo, record, redo, snapshotCommand, undo, type Command, type History } from './history'
+
+/** Adds `n` to the state - a true command rather than a snapshot */
+const add = (n: number, key?: string): Command<number> => ({
+  label: `add ${n}`,
+  key,
+  apply: state => state + n,
+  revert: state => state - n,
+})
+
+/** Apply and record, like an editor does */
+const run = ({ history, state }: { history: History<number>; state: number }, command: Command<number>) => ({
+  history: record(history, command),
+  state: command.apply(state),
+})
+
+describe('history', () => {
+  it('undoes and redoes commands in order', () => {
+    let current = { history: emptyHistory<number>(), state: 0 }
+    current = run(current, add(1))
+    current = run(current, add(10))
+
+    current = undo(current.history, current.state)
+    expect(current.state).toBe(1)
+    current = undo(current.history, current.state)
+    expect(current.state).toBe(0)
+    expect(undo(current.history, current.state)).toEqual(current)
+
+    current = redo(current.history, current.state)
+    expect(current.state).toBe(1)
+  })
+
+  it('clears the redo stack when a new command is recorded', () => {
+    let current = run({ history: emptyHistory<number>(), state: 0 }, add(1))
+    current = undo(current.history, current.state)
+    current = run(current, add(5))
+
+    expect(current.history.future).toEqual([])
+    expect(current.history.past.map(c => c.label)).toEqual(['add 5'])
+  })
+
+  it('merges consecutive commands with the same key', () => {
+    let current = { history: emptyHistory<number>(), state: 0 }
+    current = run(current, add(1, 'slider'))
+    current = run(current, add(2, 'slider'))
+    current = run(current, add(3, 'slider'))
+
+    expect(current.history.past).toHaveLength(1)
+    expect(undo(current.history, current.state).state).toBe(0)
+  })
+
+  it('starts a new step after undo even with the same key', () => {
+    let current = run({ history: emptyHistory<number>(), state: 0 }, add(1, 'slider'))
+    current = run(current, add(1))
+    current = undo(current.history, current.state)
+    current = run(current, add(2, 'slider'))
+
+    expect(current.history.past).toHaveLength(2)
+  })
+
+  it('keeps at most the limit of steps', () => {
+    let history = emptyHistory<number>()
+    for (let i = 0; i < 5; i++) history = record(history, add(i), 3)
+
+    expect(history.past.map(c => c.label)).toEqual(['add 2', 'add 3', 'add 4'])
+  })
+
+  it('jumps through the history with snapshot commands', () => {
+    const states = ['a', 'b', 'c', 'd']
+    let history = emptyHistory<string>()
+    for (let i = 1; i < states.length; i++) {
+      history = record(history, snapshotCommand(`to ${states[i]}`, states[i - 1], states[i]))
+    }
+
+    const back = jumpTo(history, 'd', 1)
+    expect(back.state).toBe('b')
+    expect(back.history.future).toHaveLength(2)
+
+    expect(jumpTo(back.history, back.state, 3).state).toBe('d')
+  })
+})
@@ -0,0 +1,118 @@
+/**
+ * History - Command-based undo/redo for the network editors
+ *
+ * Every edit is recorded as a Command that knows how to apply and revert
+ * itself. Editors keep networks immutable, so most commands are snapshots
+ * (see snapshotCommand): reverting swaps the old network object back in,
+ * sharing everything the edit didn't touch.
+ *
+ * Consecutive commands with the same `key` merge into one, so dragging a
+ * slider or typing a name is a single step rather than one per event.
+ */
+
+export interface Command<T> {
+  /** Shown in the history list */
+  label: string
+  /** Commands with the same key recorded in a row merge into one */
+  key?: string
+  apply: (state: T) => T
+  revert: (state: T) => T
+}
+
+export interface History<T> {
+  /** Applied commands, oldest first */
+  past: Command<T>[]
+  /** Undone commands, next to redo first */
+  future: Command<T>[]
+}
+
+/** Most steps kept before the oldest are dropped */
+export const HISTORY_LIMIT = 50
+
+export function emptyHistory<T>(): History<T> {
+  return { past: [], future: [] }
+}
+
+/**
+ * Command that switches between two states of an immutable value
+ */
+export function snapshotCommand<T>(label: string, before: T, after: T, key?: string): Command<T> {
+  return {
+    label,
+    key,
+    apply: () => after,
+    revert: () => before,
+  }
+}
+
+/**
+ * Record a command that has already been applied
+ *
+ * Clears the redo stack. Merges with the previous command when both share a
+ * key; drops the oldest command beyond `limit`.
+ */
+export function record<T>(history: History<T>, command: Command<T>, limit = HISTORY_LIMIT): History<T> {
+  const last = history.past[history.past.length - 1]
+
+  if (command.key !== undefined && last?.key === command.key && history.future.length === 0) {
+    const merged: Command<T> = {
+      label: command.label,
+      key: command.key,
+      apply: state => command.apply(last.apply(state)),
+      revert: state => last.revert(command.revert(state)),
+    }
+    return { past: [...history.past.slice(0, -1), merged], future: [] }
+  }
+
+  return { past: [...history.past, command].slice(-limit), future: [] }
+}
+
+export function canUndo<T>(history: History<T>): boolean {
+  return history.past.length > 0
+}
+
+export function canRedo<T>(history: History<T>): boolean {
+  return history.future.length > 0
+}
+
+/**
+ * Revert the last applied command (a no-op with nothing to undo)
+ */
+export function undo<T>(history: History<T>, state: T): { history: History<T>; state: T } {
+  const command = history.past[history.past.length - 1]
+  if (!command) return { history, state }
+
+  return {
+    // Strip the key so the next edit starts a new step instead of merging
+    history: { past: history.past.slice(0, -1), future: [{ ...command, key: undefined }, ...history.future] },
+    state: command.revert(state),
+  }
+}
+
+/**
+ * Re-apply the last undone command (a no-op with nothing to redo)
+ */
+export function redo<T>(history: History<T>, state: T): { history: History<T>; state: T } {
+  const [command, ...future] = history.future
+  if (!command) return { history, state }
+
+  return {
+    history: { past: [...history.past, command], future },
+    state: command.apply(state),
+  }
+}
+
+/**
+ * Undo or redo until exactly `position` commands are applied
+ * (0 = before the first recorded command)
+ */
+export function jumpTo<T>(history: History<T>, state: T, position: number): { history: History<T>; state: T } {
+  let current = { history, state }
+  while (current.history.past.length > position && canUndo(current.history)) {
+    current = undo(current.history, current.state)
+  }
+  while (current.history.past.length < position && canRedo(current.history)) {
+    current = redo(current.history, current.state)
+  }
+  return current
+}
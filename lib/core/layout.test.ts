@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest'
+import { generateGraph } from './generators'
+import {
+  computeLayout,
+  easeInOut,
+  interpolateLayout,
+  LAYOUT_OPTIONS,
+  type Layout,
+  type LayoutAlgorithm,
+} from './layout'
+import type { FundingGraph } from './types'
+
+const ALGORITHMS = LAYOUT_OPTIONS.map(option => option.id)
+
+function chain(...ids: string[]): FundingGraph {
+  return {
+    nodes: ids.map(id => ({ id, name: id, amount: 0, minThreshold: 10, maxThreshold: 20 })),
+    edges: ids.slice(1).map((target, i) => ({
+      id: `${ids[i]}->${target}`,
+      source: ids[i],
+      target,
+      weight: 1,
+    })),
+  }
+}
+
+function minDistance(layout: Layout): number {
+  const points = Array.from(layout.values())
+  let min = Infinity
+  points.forEach((a, i) =>
+    points.slice(i + 1).forEach(b => {
+      min = Math.min(min, Math.hypot(a.x - b.x, a.y - b.y))
+    })
+  )
+  return min
+}
+
+describe.each(ALGORITHMS)('computeLayout (%s)', (algorithm: LayoutAlgorithm) => {
+  const graph = generateGraph({ topology: 'scale-free', nodes: 20, seed: 3 })
+
+  it('positions every node inside the area', () => {
+    const layout = computeLayout(graph, algorithm, { width: 800, height: 600 })
+
+    expect(layout.size).toBe(20)
+    for (const { x, y } of layout.values()) {
+      expect(x).toBeGreaterThanOrEqual(0)
+      expect(x).toBeLessThanOrEqual(800)
+      expect(y).toBeGreaterThanOrEqual(0)
+      expect(y).toBeLessThanOrEqual(600)
+    }
+  })
+
+  it('is deterministic', () => {
+    expect(computeLayout(graph, algorithm)).toEqual(computeLayout(graph, algorithm))
+  })
+
+  it('keeps nodes apart', () => {
+    expect(minDistance(computeLayout(graph, algorithm, { spacing: 60 }))).toBeGreaterThan(20)
+  })
+})
+
+describe('computeLayout', () => {
+  it('returns an empty layout for an empty graph', () => {
+    expect(computeLayout({ nodes: [], edges: [] }, 'force').size).toBe(0)
+  })
+
+  it('lays out allocations left to right', () => {
+    const layout = computeLayout(chain('a', 'b', 'c'), 'layered')
+
+    expect(layout.get('a')!.x).toBeLessThan(layout.get('b')!.x)
+    expect(layout.get('b')!.x).toBeLessThan(layout.get('c')!.x)
+  })
+
+  it('breaks cycles when layering', () => {
+    const ring = chain('a', 'b', 'c')
+    ring.edges.push({ id: 'c->a', source: 'c', target: 'a', weight: 1 })
+    const layout = computeLayout(ring, 'layered')
+
+    expect(new Set(Array.from(layout.values(), p => p.x)).size).toBe(3)
+  })
+
+  it('places ring neighbours next to each other on the circle', () => {
+    // Declared out of ring order: a -> c -> b -> d -> a
+    const ring = chain('a', 'c', 'b', 'd')
+    ring.nodes.sort((x, y) => x.id.localeCompare(y.id))
+    ring.edges.push({ id: 'd->a', source: 'd', target: 'a', weight: 1 })
+    const layout = computeLayout(ring, 'circular')
+    const [a, c] = [layout.get('a')!, layout.get('c')!]
+
+    expect(Math.hypot(a.x - c.x, a.y - c.y)).toBeLessThan(
+      Math.hypot(a.x - layout.get('b')!.x, a.y - layout.get('b')!.y)
+    )
+  })
+
+  it('grows the area to honour spacing', () => {
+    const graph = generateGraph({ topology: 'small-world', nodes: 50 })
+    const layout = computeLayout(graph, 'circular', { spacing: 100 })
+
+    expect(minDistance(layout)).toBeGreaterThan(0.9 * 100)
+  })
+
+  it('rejects unknown algorithms', () => {
+    expect(() => computeLayout(chain('a'), 'spiral' as LayoutAlgorithm)).toThrow('Unknown layout')
+  })
+})
+
+describe('interpolateLayout', () => {
+  const from: Layout = new Map([['a', { x: 0, y: 0 }]])
+  const to: Layout = new Map([
+    ['a', { x: 100, y: 200 }],
+    ['b', { x: 50, y: 50 }],
+  ])
+
+  it('moves from the start to the target', () => {
+    expect(interpolateLayout(from, to, 0).get('a')).toEqual({ x: 0, y: 0 })
+    expect(interpolateLayout(from, to, 0.5).get('a')).toEqual({ x: 50, y: 100 })
+    expect(interpolateLayout(from, to, 1).get('a')).toEqual({ x: 100, y: 200 })
+  })
+
+  it('keeps new nodes at their target', () => {
+    expect(interpolateLayout(from, to, 0.3).get('b')).toEqual({ x: 50, y: 50 })
+  })
+
+  it('eases in and out', () => {
+    expect(easeInOut(0.1)).toBeLessThan(0.1)
+    expect(easeInOut(0.9)).toBeGreaterThan(0.9)
+    expect(easeInOut(2)).toBe(1)
+  })
+})
@@ -0,0 +1,374 @@
+/**
+ * Automatic Graph Layout
+ *
+ * Positions for networks that have none (imported, generated) or whose
+ * hand-placed positions have become a tangle. Layouts are computed on the
+ * core graph, so every model can use them via its adapter, and are
+ * deterministic - the same graph always gets the same positions.
+ *
+ * Algorithms:
+ * - force: force-directed (Fruchterman–Reingold), starting from the current
+ *   positions so a re-layout stays recognisable
+ * - layered: columns left to right following allocation direction; cycles
+ *   are broken at the allocation that closes them
+ * - circular: a ring in allocation order, so mutual-aid rings read as rings
+ *
+ * Positions are returned in whatever convention the graph uses (centers for
+ * flow-funding/flow-v2, top-left corners for tbff/tbff-flow) - callers with
+ * boxed nodes shrink the area by the node size.
+ */
+
+import type { FundingGraph } from './types'
+
+export type LayoutAlgorithm = 'force' | 'layered' | 'circular'
+
+export type Position = { x: number; y: number }
+
+export type Layout = Map<string, Position>
+
+export interface LayoutOptions {
+  /** Layout area (grows if needed to honour spacing) */
+  width?: number
+  height?: number
+  /** Preferred minimum distance between nodes */
+  spacing?: number
+  /** Force-directed simulation steps (default: 300, fewer for large graphs) */
+  iterations?: number
+}
+
+export interface LayoutOption {
+  id: LayoutAlgorithm
+  name: string
+  description: string
+}
+
+export const LAYOUT_OPTIONS: LayoutOption[] = [
+  {
+    id: 'force',
+    name: 'Force-directed',
+    description: 'Connected nodes pull together, all nodes push apart',
+  },
+  {
+    id: 'layered',
+    name: 'Layered',
+    description: 'Left to right in the direction money flows',
+  },
+  {
+    id: 'circular',
+    name: 'Circular',
+    description: 'A ring in allocation order - suits mutual-aid rings',
+  },
+]
+
+/** Room left around the layout area's edges */
+const MARGIN = 80
+
+const round = (value: number) => Math.round(value)
+
+// ============================================================================
+// Circular
+// ============================================================================
+
+/**
+ * `count` evenly spaced points on a circle, starting at the top
+ */
+export function circlePositions(
+  count: number,
+  width: number,
+  height: number,
+  spacing = 0
+): Position[] {
+  const radius = Math.max(0, Math.min(width, height) / 2 - MARGIN, (spacing * count) / (2 * Math.PI))
+  const cx = Math.max(width / 2, radius + MARGIN)
+  const cy = Math.max(height / 2, radius + MARGIN)
+  return Array.from({ length: count }, (_, i) => {
+    const angle = (2 * Math.PI * i) / count - Math.PI / 2
+    return {
+      x: round(cx + radius * Math.cos(angle)),
+      y: round(cy + radius * Math.sin(angle)),
+    }
+  })
+}
+
+/**
+ * Depth-first order along allocations (largest share first), so nodes that
+ * allocate to each other end up next to each other
+ */
+function allocationOrder(graph: FundingGraph): string[] {
+  const outgoing = outgoingOf(graph)
+  const visited = new Set<string>()
+  const order: string[] = []
+
+  const visit = (id: string) => {
+    visited.add(id)
+    order.push(id)
+    for (const target of outgoing.get(id) ?? []) {
+      if (!visited.has(target)) visit(target)
+    }
+  }
+  for (const node of graph.nodes) {
+    if (!visited.has(node.id)) visit(node.id)
+  }
+  return order
+}
+
+function circularLayout(graph: FundingGraph, width: number, height: number, spacing: number): Layout {
+  const order = allocationOrder(graph)
+  const positions = circlePositions(order.length, width, height, spacing)
+  return new Map(order.map((id, i) => [id, positions[i]]))
+}
+
+// ============================================================================
+// Layered
+// ============================================================================
+
+/**
+ * Column of each node: the longest allocation path leading to it, ignoring
+ * allocations that close a cycle
+ */
+function layersOf(graph: FundingGraph): Map<string, number> {
+  const outgoing = outgoingOf(graph)
+  const state = new Map<string, 'active' | 'done'>()
+  const forward = new Map<string, string[]>()
+
+  // Depth-first search; an edge back to a node still on the stack closes a cycle
+  const visit = (id: string) => {
+    state.set(id, 'active')
+    const targets: string[] = []
+    for (const target of outgoing.get(id) ?? []) {
+      const seen = state.get(target)
+      if (seen === 'active') continue
+      targets.push(target)
+      if (!seen) visit(target)
+    }
+    forward.set(id, targets)
+    state.set(id, 'done')
+  }
+  // Start from nodes nothing allocates to, so sources end up in the first column
+  const targeted = new Set(graph.edges.map(e => e.target))
+  const starts = [
+    ...graph.nodes.filter(n => !targeted.has(n.id)),
+    ...graph.nodes.filter(n => targeted.has(n.id)),
+  ]
+  for (const node of starts) {
+    if (!state.has(node.id)) visit(node.id)
+  }
+
+  // Longest path over the (now acyclic) forward edges, in topological order
+  const incoming = new Map(graph.nodes.map(n => [n.id, 0]))
+  forward.forEach(targets => targets.forEach(t => incoming.set(t, (incoming.get(t) ?? 0) + 1)))
+  const layers = new Map(graph.nodes.map(n => [n.id, 0]))
+  const queue = graph.nodes.filter(n => incoming.get(n.id) === 0).map(n => n.id)
+  while (queue.length > 0) {
+    const id = queue.shift()!
+    for (const target of forward.get(id) ?? []) {
+      layers.set(target, Math.max(layers.get(target)!, layers.get(id)! + 1))
+      incoming.set(target, incoming.get(target)! - 1)
+      if (incoming.get(target) === 0) queue.push(target)
+    }
+  }
+  return layers
+}
+
+function layeredLayout(graph: FundingGraph, width: number, height: number, spacing: number): Layout {
+  const layers = layersOf(graph)
+  const columns: string[][] = []
+  for (const node of graph.nodes) {
+    const layer = layers.get(node.id)!
+    if (!columns[layer]) columns[layer] = []
+    columns[layer].push(node.id)
+  }
+
+  // Order each column by the average row of its sources (barycenter), to cut crossings
+  const sources = new Map<string, string[]>()
+  for (const edge of graph.edges) {
+    sources.set(edge.target, [...(sources.get(edge.target) ?? []), edge.source])
+  }
+  const row = new Map<string, number>()
+  columns.forEach(column => {
+    const barycenter = (id: string) => {
+      const rows = (sources.get(id) ?? []).filter(s => row.has(s)).map(s => row.get(s)!)
+      return rows.length > 0 ? rows.reduce((sum, r) => sum + r, 0) / rows.length : Infinity
+    }
+    const sorted = column
+      .map((id, i) => ({ id, i, key: barycenter(id) }))
+      .sort((a, b) => a.key - b.key || a.i - b.i)
+    sorted.forEach(({ id }, r) => row.set(id, (r + 0.5) / sorted.length))
+    column.splice(0, column.length, ...sorted.map(s => s.id))
+  })
+
+  const layout: Layout = new Map()
+  const columnGap = columns.length > 1 ? Math.max((width - 2 * MARGIN) / (columns.length - 1), spacing) : 0
+  columns.forEach((column, c) => {
+    const x = columns.length === 1 ? width / 2 : MARGIN + c * columnGap
+    const gap = Math.max((height - 2 * MARGIN) / column.length, spacing)
+    const top = Math.max(MARGIN, height / 2 - (gap * column.length) / 2)
+    column.forEach((id, r) => layout.set(id, { x: round(x), y: round(top + (r + 0.5) * gap) }))
+  })
+  return layout
+}
+
+// ============================================================================
+// Force-directed
+// ============================================================================
+
+function forceLayout(
+  graph: FundingGraph,
+  width: number,
+  height: number,
+  spacing: number,
+  iterations: number
+): Layout {
+  const n = graph.nodes.length
+  const index = new Map(graph.nodes.map((node, i) => [node.id, i]))
+
+  // Start from the current positions, unless they are missing or all stacked
+  const given = graph.nodes.map(node => node.position)
+  const usable =
+    given.every(Boolean) && new Set(given.map(p => `${p!.x},${p!.y}`)).size === n
+  const start = usable ? (given as Position[]) : circlePositions(n, width, height, spacing)
+  const x = start.map(p => p.x)
+  const y = start.map(p => p.y)
+
+  const edges = graph.edges
+    .map(e => [index.get(e.source), index.get(e.target)])
+    .filter((pair): pair is [number, number] => pair[0] !== undefined && pair[1] !== undefined && pair[0] !== pair[1])
+
+  // Ideal edge length
+  const k = Math.max(spacing, Math.sqrt(((width - 2 * MARGIN) * (height - 2 * MARGIN)) / n) * 0.75, 1)
+  const dx = new Array<number>(n)
+  const dy = new Array<number>(n)
+
+  for (let step = 0; step < iterations; step++) {
+    dx.fill(0)
+    dy.fill(0)
+
+    for (let i = 0; i < n; i++) {
+      for (let j = i + 1; j < n; j++) {
+        let ox = x[i] - x[j]
+        let oy = y[i] - y[j]
+        let distance = Math.hypot(ox, oy)
+        if (distance < 0.01) {
+          // Coincident nodes: separate them in a fixed direction
+          ox = Math.cos(i + j)
+          oy = Math.sin(i + j)
+          distance = 1
+        }
+        const force = (k * k) / distance
+        dx[i] += (ox / distance) * force
+        dy[i] += (oy / distance) * force
+        dx[j] -= (ox / distance) * force
+        dy[j] -= (oy / distance) * force
+      }
+    }
+
+    for (const [a, b] of edges) {
+      const ox = x[a] - x[b]
+      const oy = y[a] - y[b]
+      const distance = Math.max(Math.hypot(ox, oy), 0.01)
+      const force = (distance * distance) / k
+      dx[a] -= (ox / distance) * force
+      dy[a] -= (oy / distance) * force
+      dx[b] += (ox / distance) * force
+      dy[b] += (oy / distance) * force
+    }
+
+    // Move at most `temperature`, cooling linearly
+    const temperature = (Math.max(width, height) / 10) * (1 - step / iterations)
+    for (let i = 0; i < n; i++) {
+      const length = Math.hypot(dx[i], dy[i])
+      if (length === 0) continue
+      const move = Math.min(length, temperature)
+      x[i] += (dx[i] / length) * move
+      y[i] += (dy[i] / length) * move
+    }
+  }
+
+  return fitToArea(graph.nodes.map(node => node.id), x, y, width, height)
+}
+
+/**
+ * Scale and shift positions into the area inside the margin
+ */
+function fitToArea(ids: string[], x: number[], y: number[], width: number, height: number): Layout {
+  const fit = (values: number[], size: number) => {
+    const min = Math.min(...values)
+    const extent = Math.max(...values) - min
+    const room = Math.max(0, size - 2 * MARGIN)
+    return values.map(v => round(extent === 0 ? size / 2 : MARGIN + ((v - min) / extent) * room))
+  }
+  const fx = fit(x, width)
+  const fy = fit(y, height)
+  return new Map(ids.map((id, i) => [id, { x: fx[i], y: fy[i] }]))
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+function outgoingOf(graph: FundingGraph): Map<string, string[]> {
+  const outgoing = new Map<string, string[]>()
+  const sorted = [...graph.edges].sort((a, b) => b.weight - a.weight)
+  for (const edge of sorted) {
+    outgoing.set(edge.source, [...(outgoing.get(edge.source) ?? []), edge.target])
+  }
+  return outgoing
+}
+
+/**
+ * Compute positions for every node of the graph
+ *
+ * The area grows beyond width × height when `spacing` needs more room.
+ */
+export function computeLayout(
+  graph: FundingGraph,
+  algorithm: LayoutAlgorithm,
+  options: LayoutOptions = {}
+): Layout {
+  const n = graph.nodes.length
+  if (n === 0) return new Map()
+
+  // Each force-directed step compares every pair of nodes - keep large graphs responsive
+  const { spacing = 0, iterations = Math.max(10, Math.min(300, Math.round(3e7 / (n * n)))) } = options
+  // Enough room for n nodes `spacing` apart
+  const needed = spacing * Math.ceil(Math.sqrt(n)) + 2 * MARGIN
+  const width = Math.max(options.width ?? 800, needed)
+  const height = Math.max(options.height ?? 600, needed)
+
+  switch (algorithm) {
+    case 'force':
+      return forceLayout(graph, width, height, spacing, iterations)
+    case 'layered':
+      return layeredLayout(graph, width, height, spacing)
+    case 'circular':
+      return circularLayout(graph, width, height, spacing)
+    default:
+      throw new Error(`Unknown layout algorithm: ${algorithm}`)
+  }
+}
+
+/**
+ * Ease in and out (smoothstep) - slow start, slow finish
+ */
+export function easeInOut(t: number): number {
+  const clamped = Math.min(1, Math.max(0, t))
+  return clamped * clamped * (3 - 2 * clamped)
+}
+
+/**
+ * Positions part-way from `from` to `to` (t = 0-1, eased)
+ *
+ * Nodes missing from `from` sit at their target position throughout.
+ */
+export function interpolateLayout(from: Layout, to: Layout, t: number): Layout {
+  const eased = easeInOut(t)
+  const layout: Layout = new Map()
+  to.forEach((target, id) => {
+    const source = from.get(id) ?? target
+    layout.set(id, {
+      x: source.x + (target.x - source.x) * eased,
+      y: source.y + (target.y - source.y) * eased,
+    })
+  })
+  return layout
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest'
+import { formatLimits, splitWithLimits, type LimitedShare } from './limits'
+
+const split = (amount: number, shares: LimitedShare<string>[]) =>
+  Object.fromEntries(splitWithLimits(amount, shares))
+
+describe('splitWithLimits', () => {
+  it('splits by weight when no share has limits', () => {
+    expect(split(100, [
+      { key: 'A', weight: 0.25 },
+      { key: 'B', weight: 0.5 },
+    ])).toEqual({ A: 25, B: 50 })
+  })
+
+  it('pays floors before splitting the rest by weight', () => {
+    const amounts = split(900, [
+      { key: 'B', weight: 0.9 },
+      { key: 'C', weight: 0.1, floor: 300 },
+    ])
+
+    // C gets its 300 floor, then 10% of the other 600
+    expect(amounts.B).toBeCloseTo(540)
+    expect(amounts.C).toBeCloseTo(360)
+  })
+
+  it('splits pro rata to the floors when the amount cannot cover them', () => {
+    expect(split(150, [
+      { key: 'A', weight: 0.5, floor: 100 },
+      { key: 'B', weight: 0.5, floor: 200 },
+    ])).toEqual({ A: 50, B: 100 })
+  })
+
+  it('re-splits what a capped share cannot take', () => {
+    const amounts = split(900, [
+      { key: 'A', weight: 0.5, cap: 200 },
+      { key: 'B', weight: 0.5 },
+    ])
+
+    expect(amounts.A).toBeCloseTo(200)
+    expect(amounts.B).toBeCloseTo(700)
+  })
+
+  it('leaves the amount above every cap unallocated', () => {
+    const amounts = split(900, [
+      { key: 'A', weight: 0.5, cap: 200 },
+      { key: 'B', weight: 0.5, floor: 100, cap: 300 },
+    ])
+
+    expect(amounts).toEqual({ A: 200, B: 300 })
+  })
+
+  it('keeps the unallocated share of weights below 100%', () => {
+    const amounts = split(100, [{ key: 'A', weight: 0.6, floor: 10 }])
+
+    // 10 floor + 60% of the remaining 90
+    expect(amounts.A).toBeCloseTo(64)
+  })
+})
+
+describe('formatLimits', () => {
+  it('labels floors and caps', () => {
+    expect(formatLimits({ floor: 100, cap: 500 })).toBe('≥100 ≤500')
+    expect(formatLimits({ cap: 500 })).toBe('≤500')
+    expect(formatLimits({})).toBe('')
+  })
+})
@@ -0,0 +1,113 @@
+/**
+ * Allocation Limits
+ *
+ * Absolute constraints on an allocation, on top of its percentage:
+ * - floor: paid before any allocation from the same source gets its share
+ * - cap: the most the allocation carries per round (stock models) or per
+ *   month (flow models)
+ *
+ * Engines split each source's overflow/outflow with splitWithLimits. Whatever
+ * it does not return is unallocated - the engine treats it like overflow from
+ * an account without allocations.
+ */
+
+export interface AllocationLimits {
+  floor?: number
+  cap?: number
+}
+
+/**
+ * One allocation to split across, identified by `key`
+ */
+export interface LimitedShare<K> extends AllocationLimits {
+  key: K
+  /** Share of the amount (as given - not normalized) */
+  weight: number
+}
+
+/** Amounts below this are treated as fully placed */
+const EPSILON = 1e-9
+
+export function hasLimits(limits?: AllocationLimits): boolean {
+  return limits?.floor !== undefined || limits?.cap !== undefined
+}
+
+/**
+ * Floor/cap of an edge or allocation, without undefined keys
+ */
+export function limitsOf(limits: AllocationLimits): AllocationLimits {
+  return {
+    ...(limits.floor !== undefined && { floor: limits.floor }),
+    ...(limits.cap !== undefined && { cap: limits.cap }),
+  }
+}
+
+/**
+ * Short label for an allocation's floor/cap, e.g. "≥100 ≤500" (empty when
+ * there are none)
+ */
+export function formatLimits(limits: AllocationLimits): string {
+  return [
+    limits.floor !== undefined ? `≥${limits.floor.toFixed(0)}` : '',
+    limits.cap !== undefined ? `≤${limits.cap.toFixed(0)}` : '',
+  ].filter(Boolean).join(' ')
+}
+
+/**
+ * Split an amount across allocations
+ *
+ * 1. Floors are paid first (pro rata to the floors if the amount cannot
+ *    cover them all)
+ * 2. The rest is split by weight. Weights are used as given, so weights that
+ *    sum below 1 leave part of the amount unallocated
+ * 3. Whatever a capped allocation cannot take is re-split by weight among
+ *    the allocations that still have room
+ *
+ * @returns Amount per allocation key (zero amounts omitted)
+ */
+export function splitWithLimits<K>(amount: number, shares: LimitedShare<K>[]): Map<K, number> {
+  const amounts = new Map<K, number>()
+  const add = (key: K, value: number) => {
+    if (value > 0) amounts.set(key, (amounts.get(key) || 0) + value)
+  }
+
+  // No limits: plain percentage split
+  if (!shares.some(hasLimits)) {
+    for (const share of shares) add(share.key, amount * share.weight)
+    return amounts
+  }
+
+  // Phase 1: floors
+  const floors = shares.map(s => Math.min(s.floor ?? 0, s.cap ?? Infinity))
+  const totalFloors = floors.reduce((sum, f) => sum + f, 0)
+  if (totalFloors > 0 && amount <= totalFloors) {
+    shares.forEach((s, i) => add(s.key, (floors[i] / totalFloors) * amount))
+    return amounts
+  }
+  shares.forEach((s, i) => add(s.key, floors[i]))
+
+  // Phase 2-3: weighted split of the rest, re-splitting above caps
+  const rest = amount - totalFloors
+  let open = shares
+    .map((s, i) => ({ key: s.key, weight: s.weight, room: (s.cap ?? Infinity) - floors[i] }))
+    .filter(s => s.weight > 0 && s.room > 0)
+  let pool = rest * open.reduce((sum, s) => sum + s.weight, 0)
+
+  while (pool > EPSILON && open.length > 0) {
+    const totalWeight = open.reduce((sum, s) => sum + s.weight, 0)
+    const full = open.filter(s => (s.weight / totalWeight) * pool >= s.room)
+
+    if (full.length === 0) {
+      for (const share of open) add(share.key, (share.weight / totalWeight) * pool)
+      break
+    }
+
+    for (const share of full) {
+      add(share.key, share.room)
+      pool -= share.room
+    }
+    open = open.filter(s => !full.includes(s))
+  }
+
+  return amounts
+}
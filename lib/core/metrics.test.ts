@@ -0,0 +1,153 @@
+import { describe, expect, it } from 'vitest'
+import { cloneAccounts, runDistribution } from '../flow-funding/engine'
+import { getScenario } from '../flow-funding/scenarios'
+import { runTargetedDistribution } from '../flow-funding/targeted'
+import type { Account } from '../flow-funding/types'
+import { calculateSteadyState } from '../flow-v2/engine-v2'
+import type { FlowNode } from '../flow-v2/types'
+import { runFundingRound } from '../tbff/algorithms'
+import { getSampleNetwork } from '../tbff/sample-networks'
+import { propagateFlow } from '../tbff-flow/algorithms'
+import { getFlowSampleNetwork } from '../tbff-flow/sample-networks'
+import {
+  computeMetrics,
+  fromDistributionResult,
+  fromFlowNetworkV2,
+  fromPropagatedNetwork,
+  fromTbffDistribution,
+  gini,
+} from './metrics'
+
+describe('gini', () => {
+  it('is 0 for equal values and approaches 1 when one value holds everything', () => {
+    expect(gini([5, 5, 5, 5])).toBe(0)
+    expect(gini([0, 0, 0, 12])).toBeCloseTo(0.75)
+    expect(gini([])).toBe(0)
+    expect(gini([0, 0])).toBe(0)
+  })
+})
+
+describe('computeMetrics', () => {
+  it('measures fairness against thresholds, unmet need, loss and path length', () => {
+    const metrics = computeMetrics({
+      accounts: [
+        { id: 'A', minThreshold: 100, maxThreshold: 200, balance: 100 },
+        { id: 'B', minThreshold: 200, maxThreshold: 400, balance: 200 },
+        { id: 'C', minThreshold: 100, maxThreshold: 200, balance: 0 },
+      ],
+      funding: 400,
+      lost: 100,
+      transferred: 600,
+    })
+
+    // Fulfilment ratios 1, 1, 0
+    expect(metrics.gini).toBeCloseTo(1 / 3)
+    expect(metrics.shareAtMinimum).toBeCloseTo(2 / 3)
+    expect(metrics.unmetNeed).toBe(100)
+    expect(metrics.lostFraction).toBe(0.25)
+    expect(metrics.averagePathLength).toBe(1.5)
+  })
+
+  it('reports zero loss and path length without funding', () => {
+    const metrics = computeMetrics({ accounts: [], funding: 0, lost: 0, transferred: 0 })
+
+    expect(metrics).toEqual({
+      gini: 0,
+      shareAtMinimum: 1,
+      unmetNeed: 0,
+      lostFraction: 0,
+      averagePathLength: 0,
+    })
+  })
+})
+
+describe('outcome builders', () => {
+  const accounts = (): Account[] => [
+    { id: 'A', name: 'A', balance: 0, minThreshold: 100, maxThreshold: 200, allocations: new Map([['B', 100]]) },
+    { id: 'B', name: 'B', balance: 0, minThreshold: 100, maxThreshold: 300, allocations: new Map() },
+  ]
+
+  it('counts transfers and lost overflow of a targeted flow-funding run', () => {
+    const input = accounts()
+    input[0].balance = 600
+    const result = runTargetedDistribution(input)
+    const metrics = computeMetrics(fromDistributionResult(input, result, 600))
+
+    // A keeps 200 and passes 400 to B, which keeps 300 and loses 100
+    expect(metrics.lostFraction).toBeCloseTo(100 / 600)
+    expect(metrics.averagePathLength).toBeCloseTo(400 / 600)
+    expect(metrics.shareAtMinimum).toBe(1)
+  })
+
+  it('takes global funding from the result', () => {
+    const input = accounts()
+    const metrics = computeMetrics(fromDistributionResult(input, runDistribution(input, 100)))
+
+    expect(metrics.unmetNeed).toBeCloseTo(100)
+    expect(metrics.lostFraction).toBe(0)
+  })
+
+  it('gives both flow-funding solvers the same loss and path length on a closed loop', () => {
+    const scenario = getScenario('mutual-aid-circle')!
+    const [iterative, exact] = (['iterative', 'exact'] as const).map(solver =>
+      computeMetrics(
+        fromDistributionResult(
+          scenario.accounts,
+          runDistribution(cloneAccounts(scenario.accounts), scenario.suggestedFunding, { solver })
+        )
+      )
+    )
+
+    // Excess circulating above max counts as overflow, and flows count once
+    expect(iterative.lostFraction).toBeGreaterThan(0)
+    expect(iterative.lostFraction).toBeCloseTo(exact.lostFraction)
+    expect(iterative.averagePathLength).toBeCloseTo(exact.averagePathLength)
+  })
+
+  it('uses retained inflow and the overflow node for flow-v2', () => {
+    const nodes: FlowNode[] = [
+      { id: 'A', name: 'A', externalInflow: 1000, minThreshold: 100, maxThreshold: 200, allocations: new Map() },
+    ]
+    const metrics = computeMetrics(fromFlowNetworkV2(calculateSteadyState(nodes)))
+
+    // Capacity zone: A retains its max of 200, the rest overflows
+    expect(metrics.lostFraction).toBeCloseTo(0.8)
+    expect(metrics.averagePathLength).toBe(0)
+    expect(metrics.shareAtMinimum).toBe(1)
+  })
+
+  it('uses absorbed flow for tbff-flow', () => {
+    const { network } = propagateFlow(getFlowSampleNetwork('linear'))
+    const metrics = computeMetrics(fromPropagatedNetwork(network))
+
+    // Alice absorbs 50 of 100 and passes 50 to Bob, who absorbs 30 and passes 20 to Carol
+    expect(metrics.lostFraction).toBe(0)
+    expect(metrics.averagePathLength).toBeCloseTo(0.7)
+    expect(metrics.shareAtMinimum).toBe(1)
+  })
+
+  it('counts tbff overflow that redistribution could not place', () => {
+    // No allocations: every account keeps what lands above its maximum
+    const before = { ...getSampleNetwork('statesDemo'), allocations: [] }
+    const capacity = before.accounts.reduce((sum, a) => sum + Math.max(0, a.maxThreshold - a.balance), 0)
+    const round = runFundingRound(before, capacity + 500)
+    const metrics = computeMetrics(fromTbffDistribution(before, round, capacity + 500))
+
+    expect(metrics.unmetNeed).toBe(0)
+    expect(metrics.lostFraction).toBeCloseTo(500 / (capacity + 500))
+    expect(metrics.averagePathLength).toBe(0)
+  })
+
+  it('counts tbff transfers along allocations', () => {
+    const before = getSampleNetwork('simpleLinear')
+    const round = runFundingRound(before, 2000)
+    const metrics = computeMetrics(fromTbffDistribution(before, round, 2000))
+    const moved = round.redistribution.reduce(
+      (total, step) => total + Object.values(step.transfers).reduce((s, v) => s + v, 0),
+      0
+    )
+
+    expect(moved).toBeGreaterThan(0)
+    expect(metrics.averagePathLength).toBeCloseTo(moved / 2000)
+  })
+})
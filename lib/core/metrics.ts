@@ -0,0 +1,192 @@
+/**
+ * Distribution Metrics
+ *
+ * Fairness and health of a distribution, computed the same way for every
+ * engine. Each engine's result is first reduced to a DistributionOutcome
+ * (see the from* builders below); computeMetrics then reports:
+ * - Gini coefficient of holdings relative to thresholds
+ * - share of accounts at or above their minimum
+ * - total unmet need (sum of shortfalls below minimum)
+ * - fraction of the funding that ended in overflow or was lost
+ * - average path length: allocations each funded dollar crossed, on average
+ *
+ * Stock models (flow-funding, tbff) measure balances in dollars; flow models
+ * (flow-v2, tbff-flow) measure retained/absorbed flow per month.
+ */
+
+import type { Account, DistributionResult } from '../flow-funding/types'
+import type { FlowNetwork as FlowNetworkV2 } from '../flow-v2/types'
+import type { FlowFundingNetwork, FundingRound } from '../tbff/types'
+import type { FlowNetwork } from '../tbff-flow/types'
+
+/**
+ * Engine-independent summary of a distribution
+ */
+export interface DistributionOutcome {
+  /** Final holdings per account/node (overflow sinks excluded) */
+  accounts: Array<{ id: string; minThreshold: number; maxThreshold: number; balance: number }>
+  /** External funding that entered the network */
+  funding: number
+  /** Part of the funding that ended in overflow or was lost */
+  lost: number
+  /** Total amount moved along allocations */
+  transferred: number
+}
+
+export interface DistributionMetrics {
+  /** 0 (every account equally provided for) to 1 (one account holds everything) */
+  gini: number
+  /** Share of accounts at or above their minimum (0-1) */
+  shareAtMinimum: number
+  /** Sum of every account's distance below its minimum */
+  unmetNeed: number
+  /** Fraction of the funding that ended in overflow or was lost (0-1) */
+  lostFraction: number
+  /** Allocations crossed per funded dollar, from the settled flows */
+  averagePathLength: number
+}
+
+/** Holdings this close to a threshold count as at the threshold */
+const TOLERANCE = 1e-6
+
+/**
+ * Holding relative to the account's need: balance / min, or balance / max
+ * for accounts without a minimum (null when both are zero)
+ */
+function fulfilment(account: DistributionOutcome['accounts'][number]): number | null {
+  const reference = account.minThreshold > 0 ? account.minThreshold : account.maxThreshold
+  return reference > 0 ? Math.max(0, account.balance) / reference : null
+}
+
+/**
+ * Gini coefficient of non-negative values (0 for empty or all-zero input)
+ */
+export function gini(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b)
+  const n = sorted.length
+  const total = sorted.reduce((sum, v) => sum + v, 0)
+  if (n === 0 || total <= 0) return 0
+
+  const weighted = sorted.reduce((sum, v, i) => sum + (i + 1) * v, 0)
+  return (2 * weighted) / (n * total) - (n + 1) / n
+}
+
+export function computeMetrics(outcome: DistributionOutcome): DistributionMetrics {
+  const { accounts, funding, lost, transferred } = outcome
+
+  const ratios = accounts.map(fulfilment).filter((r): r is number => r !== null)
+  const atMinimum = accounts.filter(a => a.balance + TOLERANCE >= a.minThreshold).length
+
+  return {
+    gini: gini(ratios),
+    shareAtMinimum: accounts.length > 0 ? atMinimum / accounts.length : 1,
+    unmetNeed: accounts.reduce((sum, a) => sum + Math.max(0, a.minThreshold - a.balance), 0),
+    lostFraction: funding > 0 ? Math.min(1, Math.max(0, lost / funding)) : 0,
+    averagePathLength: funding > 0 ? transferred / funding : 0,
+  }
+}
+
+// ============================================================================
+// Outcome builders
+// ============================================================================
+
+const sum = (values: Iterable<number>) => Array.from(values).reduce((s, v) => s + v, 0)
+
+/**
+ * flow-funding: runDistribution or runTargetedDistribution
+ *
+ * Holdings still above max (a run that did not converge) count as overflow.
+ *
+ * Targeted runs start from balances that already include the injection, so
+ * pass the injected amount as `injected` to count it as funding.
+ */
+export function fromDistributionResult(
+  accounts: Account[],
+  result: DistributionResult,
+  injected = 0
+): DistributionOutcome {
+  const kept = sum(result.finalBalances.values()) - sum(result.initialBalances.values())
+  // Holdings above max are overflow the run did not settle, as in fromTbffDistribution
+  const aboveMax = (balances: Map<string, number>) =>
+    sum(accounts.map(a => Math.max(0, (balances.get(a.id) ?? 0) - a.maxThreshold)))
+  const addedOverflow = Math.max(0, aboveMax(result.finalBalances) - aboveMax(result.initialBalances))
+
+  return {
+    accounts: accounts.map(a => ({
+      id: a.id,
+      minThreshold: a.minThreshold,
+      maxThreshold: a.maxThreshold,
+      balance: result.finalBalances.get(a.id) ?? a.balance,
+    })),
+    funding: result.totalFunding + injected,
+    lost: Math.max(0, result.totalFunding - kept) + addedOverflow,
+    transferred: sum(result.flows.values()),
+  }
+}
+
+/**
+ * flow-v2: calculateSteadyState (holdings are retained inflow per month)
+ */
+export function fromFlowNetworkV2(network: FlowNetworkV2): DistributionOutcome {
+  const nodes = Array.from(network.nodes.values())
+
+  return {
+    accounts: nodes.map(n => ({
+      id: n.id,
+      minThreshold: n.minThreshold,
+      maxThreshold: n.maxThreshold,
+      balance: (n.totalInflow || 0) - (n.totalOutflow || 0),
+    })),
+    funding: network.totalExternalInflow,
+    lost: network.overflowNode?.totalInflow ?? 0,
+    transferred: sum(network.edges.map(e => e.flowRate)),
+  }
+}
+
+/**
+ * tbff-flow: propagateFlow (holdings are absorbed flow)
+ */
+export function fromPropagatedNetwork(network: FlowNetwork): DistributionOutcome {
+  const nodes = network.nodes.filter(n => !n.isOverflowSink)
+  const funding = sum(nodes.map(n => n.externalFlow))
+
+  return {
+    accounts: nodes.map(n => ({
+      id: n.id,
+      minThreshold: n.minAbsorption,
+      maxThreshold: n.maxAbsorption,
+      balance: n.absorbed,
+    })),
+    funding,
+    lost: Math.max(0, funding - sum(nodes.map(n => n.absorbed))),
+    transferred: sum(nodes.map(n => Math.max(0, n.inflow - n.externalFlow))),
+  }
+}
+
+/**
+ * tbff: runFundingRound of `funding` starting from `before`
+ *
+ * Overflow that redistribution could not place (it stays with its account,
+ * above the maximum) counts as overflow.
+ */
+export function fromTbffDistribution(
+  before: FlowFundingNetwork,
+  round: FundingRound,
+  funding: number
+): DistributionOutcome {
+  const after = round.network
+  const kept = sum(after.accounts.map(a => a.balance)) - sum(before.accounts.map(a => a.balance))
+  const addedOverflow = Math.max(0, after.totalOverflow - before.totalOverflow)
+
+  return {
+    accounts: after.accounts.map(a => ({
+      id: a.id,
+      minThreshold: a.minThreshold,
+      maxThreshold: a.maxThreshold,
+      balance: a.balance,
+    })),
+    funding,
+    lost: Math.max(0, funding - kept) + addedOverflow,
+    transferred: sum(round.redistribution.flatMap(step => Object.values(step.transfers))),
+  }
+}
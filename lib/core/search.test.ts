@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest'
+import { findMinimum } from './search'
+
+describe('findMinimum', () => {
+  it('finds the threshold of a monotone condition within precision', () => {
+    const threshold = 1234.5678
+    const x = findMinimum(x => x >= threshold, 10, 0.001)
+
+    expect(x).toBeGreaterThanOrEqual(threshold)
+    expect(x! - threshold).toBeLessThanOrEqual(0.001)
+  })
+
+  it('returns 0 when the condition already holds', () => {
+    expect(findMinimum(() => true, 100)).toBe(0)
+  })
+
+  it('returns null when the condition never holds', () => {
+    expect(findMinimum(() => false, 1)).toBeNull()
+  })
+})
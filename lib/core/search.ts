@@ -0,0 +1,49 @@
+/**
+ * Monotone Search
+ *
+ * Finds the smallest input at which a monotone condition starts to hold -
+ * e.g. the least funding at which every account reaches its minimum. Used by
+ * the inverse solvers of the flow-funding and flow-v2 engines, which only
+ * need to run their engine forwards.
+ */
+
+/** Doublings of the initial guess before giving up */
+const MAX_DOUBLINGS = 40
+
+/** Bisection steps (caps the work if precision is tiny) */
+const MAX_BISECTIONS = 60
+
+/**
+ * Smallest x ≥ 0 (within `precision`) for which `reached(x)` holds
+ *
+ * `reached` must be monotone: once it holds, it holds for every larger x.
+ * The answer is bracketed by doubling `guess`, then narrowed by bisection.
+ *
+ * @returns The smallest x found, or null if even guess × 2^40 is not enough
+ */
+export function findMinimum(
+  reached: (x: number) => boolean,
+  guess: number,
+  precision = 0.01
+): number | null {
+  if (reached(0)) return 0
+
+  let low = 0
+  let high = Math.max(guess, precision)
+  for (let n = 0; !reached(high); n++) {
+    if (n === MAX_DOUBLINGS) return null
+    low = high
+    high *= 2
+  }
+
+  for (let n = 0; n < MAX_BISECTIONS && high - low > precision; n++) {
+    const mid = (low + high) / 2
+    if (reached(mid)) {
+      high = mid
+    } else {
+      low = mid
+    }
+  }
+
+  return high
+}
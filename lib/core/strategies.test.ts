@@ -0,0 +1,103 @@
+import fc from 'fast-check'
+import { describe, expect, it } from 'vitest'
+import { randomFunding, randomGraph, sum } from '../testing/arbitraries'
+import { STRATEGY_OPTIONS, getStrategy, type StrategyId } from './strategies'
+import type { FundingGraph } from './types'
+
+const graph = (overrides: Partial<FundingGraph> = {}): FundingGraph => ({
+  nodes: [
+    { id: 'A', name: 'A', amount: 0, minThreshold: 100, maxThreshold: 200 },
+    { id: 'B', name: 'B', amount: 50, minThreshold: 100, maxThreshold: 400 },
+    { id: 'C', name: 'C', amount: 300, minThreshold: 100, maxThreshold: 400 },
+  ],
+  edges: [],
+  ...overrides,
+})
+
+const allocate = (id: StrategyId, g: FundingGraph, funding: number) =>
+  Object.fromEntries(getStrategy(id).allocate(g, funding))
+
+describe('distribution strategies', () => {
+  it.each(STRATEGY_OPTIONS.map(s => s.id))('%s places all funding while any account has capacity', (id) => {
+    fc.assert(
+      fc.property(randomGraph, randomFunding, (g, funding) => {
+        const amounts = getStrategy(id).allocate(g, funding)
+        const capacity = sum(g.nodes, n => Math.max(0, n.maxThreshold - n.amount))
+        fc.pre(capacity > 0)
+
+        expect(sum(amounts.values(), a => a)).toBeCloseTo(funding, 6)
+        for (const amount of amounts.values()) {
+          expect(amount).toBeGreaterThanOrEqual(0)
+        }
+      })
+    )
+  })
+
+  it('proportional-shortfall fills minimums by shortfall, then capacity', () => {
+    expect(allocate('proportional-shortfall', graph(), 75)).toEqual({ A: 50, B: 25 })
+
+    const amounts = allocate('proportional-shortfall', graph(), 250)
+    // 150 fills both minimums; the other 100 splits 100:300:100 by capacity
+    expect(amounts.A).toBeCloseTo(120)
+    expect(amounts.B).toBeCloseTo(110)
+    expect(amounts.C).toBeCloseTo(20)
+  })
+
+  it('equal splits evenly and re-splits what capped accounts cannot take', () => {
+    expect(allocate('equal', graph(), 90)).toEqual({ A: 30, B: 30, C: 30 })
+
+    const amounts = allocate('equal', graph(), 600)
+    expect(amounts.C).toBeCloseTo(100)
+    expect(amounts.A).toBeCloseTo(200)
+    expect(amounts.B).toBeCloseTo(300)
+  })
+
+  it('priority-weighted favours higher priorities within each tier', () => {
+    const prioritized = graph()
+    prioritized.nodes[0].priority = 3
+    const amounts = allocate('priority-weighted', prioritized, 90)
+
+    // Shortfalls 100 and 50, weighted 3:1 -> 300:50
+    expect(amounts.A).toBeCloseTo(90 * 300 / 350)
+    expect(amounts.B).toBeCloseTo(90 * 50 / 350)
+  })
+
+  it('quadratic-matching rewards broad support over a single large allocation', () => {
+    const g = graph({
+      nodes: [
+        { id: 'A', name: 'A', amount: 0, minThreshold: 100, maxThreshold: 200 },
+        { id: 'B', name: 'B', amount: 0, minThreshold: 100, maxThreshold: 200 },
+        { id: 'X', name: 'X', amount: 500, minThreshold: 0, maxThreshold: 500 },
+        { id: 'Y', name: 'Y', amount: 500, minThreshold: 0, maxThreshold: 500 },
+      ],
+      edges: [
+        { id: 'X->A', source: 'X', target: 'A', weight: 0.25 },
+        { id: 'Y->A', source: 'Y', target: 'A', weight: 0.25 },
+        { id: 'X->B', source: 'X', target: 'B', weight: 0.5 },
+      ],
+    })
+    const amounts = allocate('quadratic-matching', g, 100)
+
+    // (√.25 + √.25)² = 1 vs (√.5)² = 0.5
+    expect(amounts.A).toBeCloseTo(100 * 2 / 3)
+    expect(amounts.B).toBeCloseTo(100 / 3)
+  })
+
+  it('lowest-balance-first raises the lowest balances to a common level', () => {
+    const amounts = allocate('lowest-balance-first', graph(), 150)
+
+    // A: 0 -> 100, B: 50 -> 100
+    expect(amounts.A).toBeCloseTo(100)
+    expect(amounts.B).toBeCloseTo(50)
+    expect(amounts.C ?? 0).toBeCloseTo(0)
+  })
+
+  it('leaves funding unplaced when every account is at max', () => {
+    const full = graph({
+      nodes: [{ id: 'A', name: 'A', amount: 200, minThreshold: 100, maxThreshold: 200 }],
+    })
+    for (const { id } of STRATEGY_OPTIONS) {
+      expect(allocate(id, full, 100)).toEqual({})
+    }
+  })
+})
@@ -0,0 +1,240 @@
+/**
+ * Initial Distribution Strategies
+ *
+ * Policies for splitting new external funding across accounts before any
+ * overflow redistribution happens. Shared by the stock models (flow-funding,
+ * tbff), which convert their networks to the core graph and add the returned
+ * amounts to their balances.
+ *
+ * Strategies may place funds above an account's maximum (the overflow phase
+ * redistributes it). They leave funds unplaced only when no account has any
+ * capacity left - each engine decides what happens to that remainder.
+ */
+
+import type { FundingGraph, GraphNode } from './types'
+
+export type StrategyId =
+  | 'proportional-shortfall'
+  | 'equal'
+  | 'priority-weighted'
+  | 'quadratic-matching'
+  | 'lowest-balance-first'
+
+export interface DistributionStrategy {
+  id: StrategyId
+  name: string
+  description: string
+  /** Amount of `funding` to add to each node (node ID -> amount) */
+  allocate(graph: FundingGraph, funding: number): Map<string, number>
+}
+
+/** Strategy used when none is configured (the original policy) */
+export const DEFAULT_STRATEGY: StrategyId = 'proportional-shortfall'
+
+/** Amounts below this are treated as fully placed */
+const EPSILON = 1e-9
+
+interface FillTarget {
+  id: string
+  /** Most this target can take */
+  cap: number
+  weight: number
+}
+
+const shortfallOf = (node: GraphNode) => Math.max(0, node.minThreshold - node.amount)
+
+/** Capacity left once the node is at (or above) its minimum */
+const capacityOf = (node: GraphNode) =>
+  Math.max(0, node.maxThreshold - Math.max(node.amount, node.minThreshold))
+
+function add(amounts: Map<string, number>, id: string, amount: number) {
+  if (amount > 0) amounts.set(id, (amounts.get(id) || 0) + amount)
+}
+
+/**
+ * Split `amount` proportionally to weight without exceeding any cap; what a
+ * capped target cannot take is re-split among the rest. Targets fall back
+ * to cap-proportional shares when all remaining weights are zero.
+ *
+ * @returns Amount that did not fit under the caps
+ */
+function fillProportionally(
+  targets: FillTarget[],
+  amount: number,
+  amounts: Map<string, number>
+): number {
+  let remaining = amount
+  let open = targets.filter(t => t.cap > 0)
+
+  while (remaining > EPSILON && open.length > 0) {
+    const totalWeight = open.reduce((sum, t) => sum + t.weight, 0)
+    const weightOf = totalWeight > 0 ? (t: FillTarget) => t.weight : (t: FillTarget) => t.cap
+    const total = totalWeight > 0 ? totalWeight : open.reduce((sum, t) => sum + t.cap, 0)
+
+    const saturated = open.filter(t => (weightOf(t) / total) * remaining >= t.cap)
+    if (saturated.length === 0) {
+      for (const target of open) {
+        add(amounts, target.id, (weightOf(target) / total) * remaining)
+      }
+      return 0
+    }
+
+    for (const target of saturated) {
+      add(amounts, target.id, target.cap)
+      remaining -= target.cap
+    }
+    open = open.filter(t => !saturated.includes(t))
+  }
+
+  return Math.max(0, remaining)
+}
+
+/**
+ * Funding beyond total capacity: split by weight over the nodes that had
+ * capacity, pushing them past their maximum
+ */
+function placeSurplus(targets: FillTarget[], surplus: number, amounts: Map<string, number>) {
+  const open = targets.filter(t => t.cap > 0)
+  if (surplus <= EPSILON || open.length === 0) return
+
+  const totalWeight = open.reduce((sum, t) => sum + t.weight, 0)
+  for (const target of open) {
+    const share = totalWeight > 0 ? target.weight / totalWeight : 1 / open.length
+    add(amounts, target.id, share * surplus)
+  }
+}
+
+/**
+ * Minimums first, then capacity, each tier split by `weight`
+ *
+ * @param weight - Weight of a node within a tier, given its need in that tier
+ */
+function minimumsFirst(
+  weight: (node: GraphNode, need: number, graph: FundingGraph) => number
+): DistributionStrategy['allocate'] {
+  return (graph, funding) => {
+    const amounts = new Map<string, number>()
+
+    const needs = graph.nodes.map(n => ({
+      id: n.id,
+      cap: shortfallOf(n),
+      weight: weight(n, shortfallOf(n), graph),
+    }))
+    const afterMinimums = fillProportionally(needs, funding, amounts)
+
+    const capacities = graph.nodes.map(n => ({
+      id: n.id,
+      cap: capacityOf(n),
+      weight: weight(n, capacityOf(n), graph),
+    }))
+    const surplus = fillProportionally(capacities, afterMinimums, amounts)
+
+    placeSurplus(capacities, surplus, amounts)
+    return amounts
+  }
+}
+
+/**
+ * Quadratic-funding score: (Σ √contribution)² over incoming allocations,
+ * so broad support from many accounts outweighs one large allocation
+ */
+function quadraticScore(node: GraphNode, graph: FundingGraph): number {
+  const roots = graph.edges
+    .filter(e => e.target === node.id && e.source !== node.id)
+    .reduce((sum, e) => sum + Math.sqrt(Math.max(0, e.weight)), 0)
+  return roots * roots
+}
+
+/**
+ * Raise the lowest balances to a common level, never past a node's maximum
+ */
+function levelFill(graph: FundingGraph, funding: number): Map<string, number> {
+  const amounts = new Map<string, number>()
+  const targets = graph.nodes.map(n => ({
+    id: n.id,
+    balance: n.amount,
+    cap: Math.max(0, n.maxThreshold - n.amount),
+    weight: Math.max(0, n.maxThreshold - n.amount),
+  }))
+  const totalCapacity = targets.reduce((sum, t) => sum + t.cap, 0)
+
+  if (funding >= totalCapacity) {
+    for (const target of targets) add(amounts, target.id, target.cap)
+    placeSurplus(targets, funding - totalCapacity, amounts)
+    return amounts
+  }
+
+  const placedAt = (level: number) =>
+    targets.reduce((sum, t) => sum + Math.min(t.cap, Math.max(0, level - t.balance)), 0)
+
+  // Binary search the water level that places exactly `funding`
+  let low = Math.min(...targets.map(t => t.balance))
+  let high = Math.max(...targets.map(t => t.balance + t.cap))
+  for (let i = 0; i < 100; i++) {
+    const mid = (low + high) / 2
+    if (placedAt(mid) < funding) low = mid
+    else high = mid
+  }
+
+  for (const target of targets) {
+    add(amounts, target.id, Math.min(target.cap, Math.max(0, high - target.balance)))
+  }
+  return amounts
+}
+
+export const DISTRIBUTION_STRATEGIES: Record<StrategyId, DistributionStrategy> = {
+  'proportional-shortfall': {
+    id: 'proportional-shortfall',
+    name: 'Proportional to shortfall',
+    description:
+      'Fill minimums in proportion to each shortfall, then remaining capacity in proportion to capacity',
+    allocate: minimumsFirst((_, need) => need),
+  },
+  equal: {
+    id: 'equal',
+    name: 'Equal split',
+    description: 'Every account with capacity gets the same amount, regardless of need',
+    allocate(graph, funding) {
+      const amounts = new Map<string, number>()
+      const targets = graph.nodes.map(n => ({
+        id: n.id,
+        cap: Math.max(0, n.maxThreshold - n.amount),
+        weight: 1,
+      }))
+      placeSurplus(targets, fillProportionally(targets, funding, amounts), amounts)
+      return amounts
+    },
+  },
+  'priority-weighted': {
+    id: 'priority-weighted',
+    name: 'Priority-weighted',
+    description: 'Minimums first, then capacity, with each share scaled by the account priority',
+    allocate: minimumsFirst((node, need) => need * (node.priority ?? 1)),
+  },
+  'quadratic-matching': {
+    id: 'quadratic-matching',
+    name: 'Quadratic matching',
+    description:
+      'Minimums first, then capacity, matched by (Σ √incoming allocation)² - broad support wins',
+    allocate: minimumsFirst((node, _, graph) => quadraticScore(node, graph)),
+  },
+  'lowest-balance-first': {
+    id: 'lowest-balance-first',
+    name: 'Lowest balance first',
+    description: 'Raise the lowest balances to a common level before anyone else gets funds',
+    allocate: levelFill,
+  },
+}
+
+export const STRATEGY_OPTIONS = Object.values(DISTRIBUTION_STRATEGIES)
+
+/**
+ * Look up a strategy by ID
+ */
+export function getStrategy(id: StrategyId = DEFAULT_STRATEGY): DistributionStrategy {
+  const strategy = DISTRIBUTION_STRATEGIES[id]
+  if (!strategy) {
+    throw new Error(`Unknown distribution strategy: ${id}`)
+  }
+  return strategy
+}
@@ -0,0 +1,122 @@
+/**
+ * Core Graph Model
+ *
+ * Engine-independent representation shared by all four models.
+ * Each engine keeps its own types for simulation state; adapters in
+ * ./adapters convert to and from this graph so structure checks, analysis
+ * and tooling only have to be written once.
+ */
+
+/**
+ * The four engines (one per lib/ module)
+ */
+export type ModelKind = 'flow-funding' | 'flow-v2' | 'tbff' | 'tbff-flow'
+
+/**
+ * A participant - an account (stock models) or node (flow models)
+ */
+export interface GraphNode {
+  id: string
+  name: string
+  /** Balance (flow-funding, tbff) or external inflow per month (flow-v2, tbff-flow) */
+  amount: number
+  /** Minimum threshold / absorption */
+  minThreshold: number
+  /** Maximum threshold / absorption */
+  maxThreshold: number
+  /** Burn rate - spent per period (flow-funding, tbff) or per month (flow-v2) */
+  consumptionRate?: number
+  /** Relative weight for priority-weighted distribution (flow-funding, tbff; default 1) */
+  priority?: number
+  /** Canvas position, for models that have one */
+  position?: { x: number; y: number }
+  /** Canvas size (tbff, tbff-flow) */
+  size?: { width: number; height: number }
+  /** Overflow sink (tbff-flow) - absorbs everything, never allocates */
+  sink?: boolean
+}
+
+/**
+ * An allocation - where a share of a node's overflow/outflow goes
+ */
+export interface GraphEdge {
+  /** Allocation id (array-based models); derived from the endpoints otherwise */
+  id: string
+  source: string
+  target: string
+  /** Share of the source's overflow, 0-1 (as declared - not normalized) */
+  weight: number
+  /** Paid before other allocations from the source (see ./limits) */
+  floor?: number
+  /** Most this allocation carries per round / per month (see ./limits) */
+  cap?: number
+}
+
+export interface FundingGraph {
+  nodes: GraphNode[]
+  edges: GraphEdge[]
+}
+
+export type DiagnosticSeverity = 'error' | 'warning' | 'info'
+
+/**
+ * Kinds of validation finding (see ./validation and ./analysis)
+ */
+export type DiagnosticCode =
+  // Network
+  | 'empty-network'
+  // Nodes
+  | 'duplicate-id'
+  | 'negative-threshold'
+  | 'min-exceeds-max'
+  | 'negative-amount'
+  | 'negative-consumption'
+  | 'negative-priority'
+  | 'no-outgoing'
+  | 'unfunded'
+  // Allocations
+  | 'unknown-source'
+  | 'unknown-target'
+  | 'self-allocation'
+  | 'weight-out-of-range'
+  | 'negative-limit'
+  | 'floor-exceeds-cap'
+  | 'over-allocated'
+  | 'under-allocated'
+  | 'duplicate-allocation'
+  | 'sink-allocates'
+  // Graph analysis
+  | 'closed-cycle'
+  | 'cycle'
+  | 'unreachable'
+  | 'sources'
+  | 'sinks'
+
+/**
+ * A validation finding that points at the nodes and allocations involved,
+ * so pages can select and highlight them
+ */
+export interface Diagnostic {
+  code: DiagnosticCode
+  severity: DiagnosticSeverity
+  message: string
+  /** Nodes involved (empty for network-wide findings) */
+  nodeIds: string[]
+  /** Allocations involved, by GraphEdge id */
+  edgeIds: string[]
+  /** Suggested change that resolves it (informational findings have none) */
+  fix?: string
+}
+
+/**
+ * Validation result shared by all engines
+ *
+ * `errors` and `warnings` are the messages of the error/warning diagnostics,
+ * for logs and thrown errors.
+ */
+export interface ValidationResult {
+  valid: boolean
+  errors: string[]
+  warnings: string[]
+  diagnostics: Diagnostic[]
+}
@@ -0,0 +1,202 @@
+import fc from 'fast-check'
+import { describe, expect, it } from 'vitest'
+import { ALL_SCENARIOS } from '../flow-funding/scenarios'
+import { ALL_SCENARIOS_V2 } from '../flow-v2/scenarios-v2'
+import { sampleNetworks } from '../tbff/sample-networks'
+import { propagateFlow } from '../tbff-flow/algorithms'
+import { flowSampleNetworks } from '../tbff-flow/sample-networks'
+import { randomGraph } from '../testing/arbitraries'
+import {
+  fromAccounts,
+  fromFlowNetwork,
+  fromFlowNodesV2,
+  fromTbffNetwork,
+  toAccounts,
+  toFlowNetwork,
+  toFlowNodesV2,
+  toTbffNetwork,
+} from './adapters'
+import type { FundingGraph, ModelKind } from './types'
+import { validateGraph } from './validation'
+
+const MODELS: ModelKind[] = ['flow-funding', 'flow-v2', 'tbff', 'tbff-flow']
+
+const graph = (overrides: Partial<FundingGraph> = {}): FundingGraph => ({
+  nodes: [
+    { id: 'A', name: 'A', amount: 100, minThreshold: 10, maxThreshold: 50 },
+    { id: 'B', name: 'B', amount: 0, minThreshold: 10, maxThreshold: 50 },
+  ],
+  edges: [
+    { id: 'e1', source: 'A', target: 'B', weight: 1 },
+    { id: 'e2', source: 'B', target: 'A', weight: 1 },
+  ],
+  ...overrides,
+})
+
+describe('validateGraph', () => {
+  it.each(MODELS)('applies the shared structural rules to %s', (model) => {
+    expect(validateGraph(graph(), model).valid).toBe(true)
+
+    const invalid = graph({
+      nodes: [
+        { id: 'A', name: 'A', amount: -1, minThreshold: 60, maxThreshold: 50 },
+        { id: 'A', name: 'A again', amount: 0, minThreshold: 0, maxThreshold: 10 },
+      ],
+      edges: [
+        { id: 'e1', source: 'A', target: 'A', weight: 0.8 },
+        { id: 'e2', source: 'A', target: 'missing', weight: 0.8, floor: 20, cap: 10 },
+      ],
+    })
+    const { errors } = validateGraph(invalid, model)
+
+    expect(errors.some(e => e.includes('duplicate id'))).toBe(true)
+    expect(errors.some(e => e.includes('exceeds maximum threshold'))).toBe(true)
+    expect(errors.some(e => e.includes('must be non-negative'))).toBe(true)
+    expect(errors.some(e => e.includes('cannot allocate to itself'))).toBe(true)
+    expect(errors.some(e => e.includes('does not exist'))).toBe(true)
+    expect(errors.some(e => e.includes('exceed 100%'))).toBe(true)
+    expect(errors.some(e => e.includes('exceeds its cap'))).toBe(true)
+  })
+
+  it('points each diagnostic at the nodes and allocations involved', () => {
+    const invalid = graph({
+      edges: [
+        { id: 'e1', source: 'A', target: 'missing', weight: 1 },
+        { id: 'e2', source: 'B', target: 'A', weight: 0.5, floor: 20, cap: 10 },
+      ],
+    })
+    const { diagnostics } = validateGraph(invalid, 'tbff')
+    const byCode = (code: string) => diagnostics.find(d => d.code === code)
+
+    expect(byCode('unknown-target')).toMatchObject({
+      severity: 'error', nodeIds: ['A'], edgeIds: ['e1'],
+    })
+    expect(byCode('floor-exceeds-cap')).toMatchObject({
+      severity: 'error', nodeIds: ['B', 'A'], edgeIds: ['e2'],
+    })
+    expect(byCode('under-allocated')).toMatchObject({
+      severity: 'warning', nodeIds: ['B'], edgeIds: ['e2'],
+    })
+    for (const diagnostic of diagnostics.filter(d => d.severity !== 'info')) {
+      expect(diagnostic.fix).toBeTruthy()
+    }
+  })
+
+  it('warns about unfunded flow-funding accounts only', () => {
+    const unfunded = graph({ edges: [{ id: 'e1', source: 'B', target: 'A', weight: 1 }] })
+
+    expect(validateGraph(unfunded, 'flow-funding').warnings.join('\n')).toContain('will never receive funds')
+    expect(validateGraph(unfunded, 'flow-v2').warnings.join('\n')).not.toContain('will never receive funds')
+  })
+
+  it('warns when tbff-flow outflow is only partly allocated', () => {
+    const partial = graph({ edges: [{ id: 'e1', source: 'A', target: 'B', weight: 0.5 }] })
+
+    expect(validateGraph(partial, 'tbff-flow').warnings.join('\n')).toContain('the rest is lost')
+    // flow-funding and flow-v2 normalize allocations, so partial sums are fine
+    expect(validateGraph(partial, 'flow-v2').warnings.join('\n')).not.toContain('the rest is lost')
+  })
+
+  it('rejects allocations out of the tbff-flow overflow sink', () => {
+    const withSink = graph({
+      nodes: [...graph().nodes, { id: 'sink', name: 'Overflow', amount: 0, minThreshold: 0, maxThreshold: Infinity, sink: true }],
+      edges: [...graph().edges, { id: 'e3', source: 'sink', target: 'A', weight: 1 }],
+    })
+
+    expect(validateGraph(withSink, 'tbff-flow').errors).toEqual([
+      'Node sink: the overflow sink cannot allocate flow',
+    ])
+  })
+
+  it('reports closed loops as structured diagnostics', () => {
+    const { warnings, diagnostics } = validateGraph(graph(), 'flow-funding')
+    const loop = diagnostics.find(d => d.code === 'closed-cycle')
+
+    expect(loop?.severity).toBe('warning')
+    expect([...loop!.nodeIds].sort()).toEqual(['A', 'B'])
+    expect(warnings).toContain(loop!.message)
+  })
+
+  it('treats partly allocated tbff-flow loops as open', () => {
+    const leaky = graph({
+      edges: [
+        { id: 'e1', source: 'A', target: 'B', weight: 0.5 },
+        { id: 'e2', source: 'B', target: 'A', weight: 1 },
+      ],
+    })
+
+    expect(validateGraph(leaky, 'flow-v2').diagnostics.map(d => d.code)).toContain('closed-cycle')
+    expect(validateGraph(leaky, 'tbff-flow').diagnostics.map(d => d.code)).toContain('cycle')
+    expect(validateGraph(leaky, 'tbff-flow').diagnostics.map(d => d.code)).not.toContain('closed-cycle')
+  })
+
+  it('treats capped loops as closed only where capped overflow stays put', () => {
+    const capped = graph({
+      edges: [
+        { id: 'e1', source: 'A', target: 'B', weight: 1, cap: 10 },
+        { id: 'e2', source: 'B', target: 'A', weight: 1 },
+      ],
+    })
+    const codes = (model: ModelKind) => validateGraph(capped, model).diagnostics.map(d => d.code)
+
+    expect(codes('tbff')).toContain('closed-cycle')
+    expect(codes('flow-funding')).not.toContain('closed-cycle')
+    expect(codes('flow-v2')).not.toContain('closed-cycle')
+    expect(codes('tbff-flow')).not.toContain('closed-cycle')
+  })
+
+  it('accepts every preset network', () => {
+    for (const scenario of ALL_SCENARIOS) {
+      expect(validateGraph(fromAccounts(scenario.accounts), 'flow-funding').errors).toEqual([])
+    }
+    for (const scenario of ALL_SCENARIOS_V2) {
+      expect(validateGraph(fromFlowNodesV2(scenario.nodes), 'flow-v2').errors).toEqual([])
+    }
+    for (const network of Object.values(sampleNetworks)) {
+      expect(validateGraph(fromTbffNetwork(network), 'tbff').errors).toEqual([])
+    }
+    for (const network of Object.values(flowSampleNetworks)) {
+      const propagated = propagateFlow(network).network
+      expect(validateGraph(fromFlowNetwork(propagated), 'tbff-flow').errors).toEqual([])
+    }
+  })
+})
+
+describe('adapters', () => {
+  /** Drop model-specific extras and float noise from percentage conversion */
+  const essentials = (g: FundingGraph) => ({
+    nodes: g.nodes.map(({ id, name, amount, minThreshold, maxThreshold }) => ({
+      id, name, amount, minThreshold, maxThreshold,
+    })),
+    edges: g.edges.map(e => ({ ...e, weight: Number(e.weight.toFixed(9)) })),
+  })
+
+  it('round-trip every model through the core graph', () => {
+    fc.assert(
+      fc.property(randomGraph, (g) => {
+        const expected = essentials(g)
+
+        expect(essentials(fromAccounts(toAccounts(g)))).toEqual(expected)
+        expect(essentials(fromFlowNodesV2(toFlowNodesV2(g)))).toEqual(expected)
+        expect(essentials(fromTbffNetwork(toTbffNetwork(g, 'Random')))).toEqual(expected)
+        expect(essentials(fromFlowNetwork(toFlowNetwork(g, 'Random')))).toEqual(expected)
+      })
+    )
+  })
+
+  it('carry allocation floors and caps through every model', () => {
+    const limited = graph({
+      edges: [
+        { id: 'e1', source: 'A', target: 'B', weight: 1, floor: 5, cap: 40 },
+        { id: 'e2', source: 'B', target: 'A', weight: 1 },
+      ],
+    })
+    const limitsOf = (g: FundingGraph) => g.edges.map(({ source, target, floor, cap }) => ({ source, target, floor, cap }))
+    const expected = limitsOf(limited)
+
+    expect(limitsOf(fromAccounts(toAccounts(limited)))).toEqual(expected)
+    expect(limitsOf(fromFlowNodesV2(toFlowNodesV2(limited)))).toEqual(expected)
+    expect(limitsOf(fromTbffNetwork(toTbffNetwork(limited, 'Limited')))).toEqual(expected)
+    expect(limitsOf(fromFlowNetwork(toFlowNetwork(limited, 'Limited')))).toEqual(expected)
+  })
+})
@@ -0,0 +1,433 @@
+/**
+ * Network Validation
+ *
+ * One validator for all four engines. Shared structural rules run for every
+ * model; each model adds its own rules on top (see MODEL_RULES). Every
+ * finding is a Diagnostic with a code, the node/allocation ids it concerns
+ * and, where there is one, a suggested fix.
+ */
+
+import { analyzeGraph } from './analysis'
+import type {
+  Diagnostic,
+  DiagnosticSeverity,
+  FundingGraph,
+  GraphEdge,
+  ModelKind,
+  ValidationResult,
+} from './types'
+
+/** Allow small floating point error when summing allocations */
+const ALLOCATION_TOLERANCE = 0.0001
+
+/** A diagnostic as reported by a rule (severity comes from the method) */
+type Finding = Omit<Diagnostic, 'severity' | 'nodeIds' | 'edgeIds'> & {
+  nodeIds?: string[]
+  edgeIds?: string[]
+}
+
+type Report = Record<DiagnosticSeverity, (finding: Finding) => void>
+
+interface ModelRules {
+  /** What the model calls a participant, for messages */
+  noun: 'Account' | 'Node'
+  /** What GraphNode.amount means in this model, for messages */
+  amountLabel: string
+  /** Whether the engine normalizes allocations (otherwise the unallocated rest leaves) */
+  normalizesAllocations: boolean
+  /** Whether overflow above an allocation cap leaves the network (otherwise it stays put) */
+  cappedOverflowLeaves: boolean
+  /** Flow models only get inflow along allocations; stock models also get external funding */
+  unreachable: { severity: 'warning' | 'info'; consequence: string }
+  /** Extra checks beyond the shared structural rules */
+  check(graph: FundingGraph, outgoing: Map<string, GraphEdge[]>, report: Report): void
+}
+
+const formatPercent = (weight: number) => `${Number((weight * 100).toFixed(2))}%`
+
+const totalWeight = (edges: GraphEdge[]) => edges.reduce((sum, e) => sum + e.weight, 0)
+
+/**
+ * Overflow from nodes without allocations leaves the network
+ */
+function warnNoOutgoing(
+  noun: string,
+  consequence: string
+): ModelRules['check'] {
+  return (graph, outgoing, report) => {
+    if (graph.nodes.length < 2) return
+    for (const node of graph.nodes) {
+      if (!node.sink && (outgoing.get(node.id) || []).length === 0) {
+        report.warning({
+          code: 'no-outgoing',
+          message: `${noun} ${node.id}: has no outgoing allocations (${consequence})`,
+          nodeIds: [node.id],
+          fix: `Add an allocation from ${node.id}`,
+        })
+      }
+    }
+  }
+}
+
+/**
+ * Array-based models can list the same source → target pair twice
+ */
+function warnDuplicateEdges(noun: string, graph: FundingGraph, report: Report) {
+  const seen = new Map<string, GraphEdge>()
+  for (const edge of graph.edges) {
+    const key = `${edge.source}->${edge.target}`
+    const first = seen.get(key)
+    if (first) {
+      report.warning({
+        code: 'duplicate-allocation',
+        message: `${noun} ${edge.source}: has more than one allocation to ${edge.target}`,
+        nodeIds: [edge.source, edge.target],
+        edgeIds: [first.id, edge.id],
+        fix: 'Delete one of the allocations and merge its percentage into the other',
+      })
+    }
+    seen.set(key, first ?? edge)
+  }
+}
+
+/**
+ * Outgoing allocations that sum below 100%
+ */
+function checkUnderAllocated(
+  noun: string,
+  sourceId: string,
+  edges: GraphEdge[],
+  describe: (total: string) => string,
+  report: Report
+) {
+  const total = totalWeight(edges)
+  if (edges.length > 0 && total < 1 - ALLOCATION_TOLERANCE) {
+    report.warning({
+      code: 'under-allocated',
+      message: `${noun} ${sourceId}: ${describe(formatPercent(total))}`,
+      nodeIds: [sourceId],
+      edgeIds: edges.map(e => e.id),
+      fix: `Raise ${sourceId}'s allocations so they sum to 100%`,
+    })
+  }
+}
+
+/**
+ * Cycles, unreachable nodes, sources and sinks (see ./analysis)
+ */
+function reportAnalysis(
+  graph: FundingGraph,
+  outgoing: Map<string, GraphEdge[]>,
+  { noun, normalizesAllocations, cappedOverflowLeaves, unreachable }: ModelRules,
+  report: Report
+) {
+  const analysis = analyzeGraph(graph, { cappedOverflowLeaves })
+  const list = (ids: string[]) => ids.join(', ')
+  const edgesWithin = (ids: string[]) =>
+    graph.edges.filter(e => ids.includes(e.source) && ids.includes(e.target)).map(e => e.id)
+
+  // Without normalization, the unallocated share of a member's overflow escapes
+  const leaks = (id: string) =>
+    !normalizesAllocations && totalWeight(outgoing.get(id) || []) < 1 - ALLOCATION_TOLERANCE
+
+  for (const cycle of analysis.cycles) {
+    if (analysis.closedCycles.includes(cycle) && !cycle.some(leaks)) {
+      report.warning({
+        code: 'closed-cycle',
+        message:
+          `${noun}s ${list(cycle)} form a closed loop: overflow can never leave it ` +
+          `(once all are at maximum it circulates forever)`,
+        nodeIds: cycle,
+        edgeIds: edgesWithin(cycle),
+        fix:
+          `Allocate part of one member's overflow to a ${noun.toLowerCase()} outside the loop` +
+          (cappedOverflowLeaves ? ', or cap an allocation' : ''),
+      })
+    } else {
+      report.info({
+        code: 'cycle',
+        message: `${noun}s ${list(cycle)} form a cycle: overflow can circulate before leaving`,
+        nodeIds: cycle,
+        edgeIds: edgesWithin(cycle),
+      })
+    }
+  }
+
+  // Reachability is only meaningful once something is funded
+  const funded = graph.nodes.some(n => n.amount > 0)
+  for (const id of funded ? analysis.unreachable : []) {
+    report[unreachable.severity]({
+      code: 'unreachable',
+      message: `${noun} ${id}: not reachable from any funded ${noun.toLowerCase()} (${unreachable.consequence})`,
+      nodeIds: [id],
+      fix: unreachable.severity === 'warning'
+        ? `Allocate to ${id} from a funded ${noun.toLowerCase()}, or give it external inflow`
+        : undefined,
+    })
+  }
+
+  if (graph.nodes.length > 1) {
+    if (analysis.sources.length > 0) {
+      report.info({
+        code: 'sources',
+        message: `Sources (nothing allocates to them): ${list(analysis.sources)}`,
+        nodeIds: analysis.sources,
+      })
+    }
+    if (analysis.sinks.length > 0) {
+      report.info({
+        code: 'sinks',
+        message: `Sinks (no outgoing allocations): ${list(analysis.sinks)}`,
+        nodeIds: analysis.sinks,
+      })
+    }
+  }
+}
+
+const MODEL_RULES: Record<ModelKind, ModelRules> = {
+  'flow-funding': {
+    noun: 'Account',
+    amountLabel: 'balance',
+    normalizesAllocations: true,
+    cappedOverflowLeaves: true,
+    unreachable: { severity: 'info', consequence: 'only new external funding can reach it' },
+    check(graph, outgoing, report) {
+      warnNoOutgoing('Account', 'overflow will be lost')(graph, outgoing, report)
+
+      const targets = new Set(graph.edges.map(e => e.target))
+      for (const node of graph.nodes) {
+        if (!targets.has(node.id) && node.amount === 0) {
+          report.warning({
+            code: 'unfunded',
+            message:
+              `Account ${node.id}: has no incoming allocations and zero balance ` +
+              `(will never receive funds)`,
+            nodeIds: [node.id],
+            fix: `Give ${node.id} a starting balance or allocate to it from another account`,
+          })
+        }
+      }
+    },
+  },
+
+  'flow-v2': {
+    noun: 'Node',
+    amountLabel: 'external inflow',
+    normalizesAllocations: true,
+    cappedOverflowLeaves: true,
+    unreachable: { severity: 'warning', consequence: 'it will receive no flow' },
+    check: warnNoOutgoing('Node', 'overflow will be lost'),
+  },
+
+  tbff: {
+    noun: 'Account',
+    amountLabel: 'balance',
+    normalizesAllocations: true,
+    cappedOverflowLeaves: false,
+    unreachable: { severity: 'info', consequence: 'only new external funding can reach it' },
+    check(graph, outgoing, report) {
+      warnDuplicateEdges('Account', graph, report)
+
+      // Allocations are kept normalized by the editor
+      for (const [sourceId, edges] of outgoing) {
+        checkUnderAllocated(
+          'Account',
+          sourceId,
+          edges,
+          total => `allocations sum to ${total} (expected 100%)`,
+          report
+        )
+      }
+    },
+  },
+
+  'tbff-flow': {
+    noun: 'Node',
+    amountLabel: 'external flow',
+    normalizesAllocations: false,
+    cappedOverflowLeaves: true,
+    unreachable: { severity: 'warning', consequence: 'it will receive no flow' },
+    check(graph, outgoing, report) {
+      warnNoOutgoing('Node', 'outflow goes to the overflow sink')(graph, outgoing, report)
+      warnDuplicateEdges('Node', graph, report)
+
+      const sinks = new Set(graph.nodes.filter(n => n.sink).map(n => n.id))
+      for (const [sourceId, edges] of outgoing) {
+        if (sinks.has(sourceId)) {
+          report.error({
+            code: 'sink-allocates',
+            message: `Node ${sourceId}: the overflow sink cannot allocate flow`,
+            nodeIds: [sourceId],
+            edgeIds: edges.map(e => e.id),
+            fix: 'Delete the allocations out of the overflow sink',
+          })
+          continue
+        }
+
+        // propagateFlow uses percentages as-is, so anything unallocated disappears
+        checkUnderAllocated(
+          'Node',
+          sourceId,
+          edges,
+          total => `only ${total} of outflow is allocated (the rest is lost)`,
+          report
+        )
+      }
+    },
+  },
+}
+
+/**
+ * Validate a network for the given engine
+ */
+export function validateGraph(graph: FundingGraph, model: ModelKind): ValidationResult {
+  const diagnostics: Diagnostic[] = []
+  const reportAs = (severity: DiagnosticSeverity) => (finding: Finding) => {
+    diagnostics.push({ severity, nodeIds: [], edgeIds: [], ...finding })
+  }
+  const report: Report = {
+    error: reportAs('error'),
+    warning: reportAs('warning'),
+    info: reportAs('info'),
+  }
+  const rules = MODEL_RULES[model]
+  const { noun, amountLabel, check } = rules
+
+  if (graph.nodes.length === 0) {
+    report.error({
+      code: 'empty-network',
+      message: `Network must contain at least one ${noun.toLowerCase()}`,
+      fix: `Add a ${noun.toLowerCase()}`,
+    })
+    return toResult(diagnostics)
+  }
+
+  // Nodes
+  const nodeIds = new Set<string>()
+  for (const node of graph.nodes) {
+    const nodeError = (code: Finding['code'], problem: string, fix: string) =>
+      report.error({ code, message: `${noun} ${node.id}: ${problem}`, nodeIds: [node.id], fix })
+
+    if (nodeIds.has(node.id)) {
+      nodeError('duplicate-id', 'duplicate id', `Rename one of the ${noun.toLowerCase()}s called ${node.id}`)
+    }
+    nodeIds.add(node.id)
+
+    if (node.minThreshold < 0) {
+      nodeError('negative-threshold', 'minimum threshold must be non-negative', 'Set the minimum to 0 or more')
+    }
+    if (node.maxThreshold < 0) {
+      nodeError('negative-threshold', 'maximum threshold must be non-negative', 'Set the maximum to 0 or more')
+    }
+    if (node.minThreshold > node.maxThreshold) {
+      nodeError(
+        'min-exceeds-max',
+        `minimum threshold (${node.minThreshold}) exceeds maximum threshold (${node.maxThreshold})`,
+        `Raise the maximum to at least ${node.minThreshold} or lower the minimum`
+      )
+    }
+    if (node.amount < 0) {
+      nodeError('negative-amount', `${amountLabel} must be non-negative`, `Set the ${amountLabel} to 0 or more`)
+    }
+    if (node.consumptionRate !== undefined && node.consumptionRate < 0) {
+      nodeError('negative-consumption', 'consumption rate must be non-negative', 'Set the consumption rate to 0 or more')
+    }
+    if (node.priority !== undefined && node.priority < 0) {
+      nodeError('negative-priority', 'priority must be non-negative', 'Set the priority to 0 or more')
+    }
+  }
+
+  // Allocations
+  const outgoing = new Map<string, GraphEdge[]>()
+  for (const edge of graph.edges) {
+    const ids = { nodeIds: [edge.source, edge.target].filter(id => nodeIds.has(id)), edgeIds: [edge.id] }
+
+    if (!nodeIds.has(edge.source)) {
+      report.error({
+        code: 'unknown-source',
+        message: `Allocation ${edge.id}: source ${edge.source} does not exist`,
+        ...ids,
+        fix: 'Delete the allocation',
+      })
+      continue
+    }
+    if (edge.weight < 0 || edge.weight > 1) {
+      report.error({
+        code: 'weight-out-of-range',
+        message: `${noun} ${edge.source}: allocation to ${edge.target} must be between 0% and 100%`,
+        ...ids,
+        fix: 'Set the percentage between 0% and 100%',
+      })
+    }
+    if (!nodeIds.has(edge.target)) {
+      report.error({
+        code: 'unknown-target',
+        message: `${noun} ${edge.source}: allocation target ${edge.target} does not exist`,
+        ...ids,
+        fix: `Delete the allocation or add a ${noun.toLowerCase()} called ${edge.target}`,
+      })
+    }
+    if (edge.target === edge.source) {
+      report.error({
+        code: 'self-allocation',
+        message: `${noun} ${edge.source}: cannot allocate to itself`,
+        ...ids,
+        fix: 'Delete the allocation',
+      })
+    }
+    if ((edge.floor ?? 0) < 0 || (edge.cap ?? 0) < 0) {
+      report.error({
+        code: 'negative-limit',
+        message: `${noun} ${edge.source}: allocation limits to ${edge.target} must be non-negative`,
+        ...ids,
+        fix: 'Set the floor and cap to 0 or more, or clear them',
+      })
+    }
+    if (edge.floor !== undefined && edge.cap !== undefined && edge.floor > edge.cap) {
+      report.error({
+        code: 'floor-exceeds-cap',
+        message:
+          `${noun} ${edge.source}: allocation floor to ${edge.target} (${edge.floor}) ` +
+          `exceeds its cap (${edge.cap})`,
+        ...ids,
+        fix: `Raise the cap to at least ${edge.floor} or lower the floor`,
+      })
+    }
+
+    outgoing.set(edge.source, [...(outgoing.get(edge.source) || []), edge])
+  }
+
+  for (const [sourceId, edges] of outgoing) {
+    const total = totalWeight(edges)
+    if (total > 1 + ALLOCATION_TOLERANCE) {
+      report.error({
+        code: 'over-allocated',
+        message: `${noun} ${sourceId}: total allocations (${formatPercent(total)}) exceed 100%`,
+        nodeIds: [sourceId],
+        edgeIds: edges.map(e => e.id),
+        fix: `Lower ${sourceId}'s allocations so they sum to at most 100%`,
+      })
+    }
+  }
+
+  check(graph, outgoing, report)
+  reportAnalysis(graph, outgoing, rules, report)
+
+  return toResult(diagnostics)
+}
+
+/**
+ * Message lists and validity from the collected diagnostics
+ */
+function toResult(diagnostics: Diagnostic[]): ValidationResult {
+  const messages = (severity: DiagnosticSeverity) =>
+    diagnostics.filter(d => d.severity === severity).map(d => d.message)
+  const errors = messages('error')
+
+  return {
+    valid: errors.length === 0,
+    errors,
+    warnings: messages('warning'),
+    diagnostics,
+  }
+}
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest'
+import {
+  boxVisible,
+  DEFAULT_VIEWPORT,
+  detailForCount,
+  detailLevel,
+  fitViewport,
+  MAX_SCALE,
+  segmentVisible,
+  toWorld,
+  visibleBounds,
+  zoomAt,
+} from './viewport'
+
+describe('viewport transform', () => {
+  const viewport = { x: 100, y: 50, scale: 2 }
+
+  it('maps screen points to world coordinates', () => {
+    expect(toWorld(viewport, 100, 50)).toEqual({ x: 0, y: 0 })
+    expect(toWorld(viewport, 300, 250)).toEqual({ x: 100, y: 100 })
+  })
+
+  it('computes the visible world area', () => {
+    expect(visibleBounds(viewport, 400, 300, 10)).toEqual({
+      left: -60,
+      top: -35,
+      right: 160,
+      bottom: 135,
+    })
+  })
+
+  it('keeps the point under the cursor fixed when zooming', () => {
+    const zoomed = zoomAt(viewport, 200, 150, 1.5)
+
+    expect(zoomed.scale).toBe(3)
+    expect(toWorld(zoomed, 200, 150)).toEqual(toWorld(viewport, 200, 150))
+  })
+
+  it('clamps the zoom level', () => {
+    expect(zoomAt(DEFAULT_VIEWPORT, 0, 0, 100).scale).toBe(MAX_SCALE)
+  })
+})
+
+describe('culling', () => {
+  const bounds = { left: 0, top: 0, right: 100, bottom: 100 }
+
+  it('detects boxes overlapping the bounds', () => {
+    expect(boxVisible(bounds, { x: 90, y: 90, width: 50, height: 50 })).toBe(true)
+    expect(boxVisible(bounds, { x: 101, y: 0, width: 50, height: 50 })).toBe(false)
+    expect(boxVisible(bounds, { x: -60, y: 0, width: 50, height: 50 })).toBe(false)
+  })
+
+  it('keeps segments that cross the bounds with both ends outside', () => {
+    expect(segmentVisible(bounds, -50, 50, 150, 50)).toBe(true)
+    expect(segmentVisible(bounds, 150, 0, 200, 100)).toBe(false)
+  })
+})
+
+describe('fitViewport', () => {
+  it('leaves networks that already fit alone', () => {
+    expect(fitViewport([{ x: 10, y: 10, width: 100, height: 100 }], 800, 600)).toBe(DEFAULT_VIEWPORT)
+  })
+
+  it('zooms out to show every box, centred', () => {
+    const boxes = [
+      { x: 0, y: 0, width: 100, height: 100 },
+      { x: 1900, y: 900, width: 100, height: 100 },
+    ]
+    const viewport = fitViewport(boxes, 800, 600, 0)
+
+    expect(viewport.scale).toBeCloseTo(0.4)
+    const bounds = visibleBounds(viewport, 800, 600)
+    boxes.forEach(box => expect(boxVisible(bounds, box)).toBe(true))
+    expect(bounds.left + bounds.right).toBeCloseTo(2000)
+  })
+})
+
+describe('level of detail', () => {
+  it('drops detail as nodes shrink on screen', () => {
+    expect(detailLevel(1)).toBe('full')
+    expect(detailLevel(0.4)).toBe('reduced')
+    expect(detailLevel(0.1)).toBe('minimal')
+  })
+
+  it('drops detail for large networks in views without zoom', () => {
+    expect(detailForCount(20)).toBe('full')
+    expect(detailForCount(500)).toBe('reduced')
+    expect(detailForCount(5000)).toBe('minimal')
+  })
+})
@@ -0,0 +1,160 @@
+/**
+ * Viewport - Pan/zoom, culling and level of detail for large networks
+ *
+ * Canvas views draw the network in world coordinates (the positions stored
+ * on accounts/nodes) through a viewport transform:
+ *
+ *   screen = world * scale + (x, y)
+ *
+ * With thousands of nodes, drawing everything every frame is too slow, so
+ * renderers skip what lies outside the visible bounds and drop labels as
+ * nodes get small on screen (see detailLevel).
+ */
+
+export interface Viewport {
+  /** Screen offset of the world origin */
+  x: number
+  y: number
+  /** Screen pixels per world unit */
+  scale: number
+}
+
+export interface Bounds {
+  left: number
+  top: number
+  right: number
+  bottom: number
+}
+
+export interface Box {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+/**
+ * How much to draw per node/edge
+ * - full: everything (labels, threshold lines, badges)
+ * - reduced: shapes and names only
+ * - minimal: bare shapes, no text - for overviews of huge networks
+ */
+export type DetailLevel = 'full' | 'reduced' | 'minimal'
+
+export const DEFAULT_VIEWPORT: Viewport = { x: 0, y: 0, scale: 1 }
+
+export const MIN_SCALE = 0.02
+export const MAX_SCALE = 4
+
+/** Node count above which views without zoom (SVG) drop detail */
+export const LARGE_NETWORK = 150
+
+const clampScale = (scale: number) => Math.min(MAX_SCALE, Math.max(MIN_SCALE, scale))
+
+/**
+ * Screen point to world coordinates
+ */
+export function toWorld(viewport: Viewport, screenX: number, screenY: number): { x: number; y: number } {
+  return {
+    x: (screenX - viewport.x) / viewport.scale,
+    y: (screenY - viewport.y) / viewport.scale,
+  }
+}
+
+/**
+ * World area visible on a `width` × `height` screen, grown by `margin` world units
+ */
+export function visibleBounds(viewport: Viewport, width: number, height: number, margin = 0): Bounds {
+  const topLeft = toWorld(viewport, 0, 0)
+  const bottomRight = toWorld(viewport, width, height)
+  return {
+    left: topLeft.x - margin,
+    top: topLeft.y - margin,
+    right: bottomRight.x + margin,
+    bottom: bottomRight.y + margin,
+  }
+}
+
+export function boxVisible(bounds: Bounds, box: Box): boolean {
+  return (
+    box.x <= bounds.right &&
+    box.x + box.width >= bounds.left &&
+    box.y <= bounds.bottom &&
+    box.y + box.height >= bounds.top
+  )
+}
+
+/**
+ * Whether a line segment may cross the bounds (bounding-box test - can
+ * report a diagonal that passes just outside a corner as visible)
+ */
+export function segmentVisible(bounds: Bounds, x1: number, y1: number, x2: number, y2: number): boolean {
+  return (
+    Math.min(x1, x2) <= bounds.right &&
+    Math.max(x1, x2) >= bounds.left &&
+    Math.min(y1, y2) <= bounds.bottom &&
+    Math.max(y1, y2) >= bounds.top
+  )
+}
+
+/**
+ * Zoom by `factor`, keeping the world point under (screenX, screenY) in place
+ */
+export function zoomAt(viewport: Viewport, screenX: number, screenY: number, factor: number): Viewport {
+  const scale = clampScale(viewport.scale * factor)
+  const anchor = toWorld(viewport, screenX, screenY)
+  return {
+    x: screenX - anchor.x * scale,
+    y: screenY - anchor.y * scale,
+    scale,
+  }
+}
+
+/**
+ * Viewport showing every box on a `width` × `height` screen
+ *
+ * Never zooms in past 1, and keeps the default viewport when everything is
+ * already on screen, so small networks look exactly as laid out.
+ */
+export function fitViewport(boxes: Box[], width: number, height: number, padding = 40): Viewport {
+  if (boxes.length === 0) return DEFAULT_VIEWPORT
+
+  const left = Math.min(...boxes.map(b => b.x))
+  const top = Math.min(...boxes.map(b => b.y))
+  const right = Math.max(...boxes.map(b => b.x + b.width))
+  const bottom = Math.max(...boxes.map(b => b.y + b.height))
+  if (left >= 0 && top >= 0 && right <= width && bottom <= height) {
+    return DEFAULT_VIEWPORT
+  }
+
+  const scale = clampScale(
+    Math.min(
+      1,
+      (width - 2 * padding) / Math.max(1, right - left),
+      (height - 2 * padding) / Math.max(1, bottom - top)
+    )
+  )
+  return {
+    x: (width - (right - left) * scale) / 2 - left * scale,
+    y: (height - (bottom - top) * scale) / 2 - top * scale,
+    scale,
+  }
+}
+
+/**
+ * Detail for a zoom level - text becomes unreadable below about half size
+ */
+export function detailLevel(scale: number): DetailLevel {
+  if (scale >= 0.6) return 'full'
+  if (scale >= 0.3) return 'reduced'
+  return 'minimal'
+}
+
+/**
+ * Detail for views that can't zoom, by network size
+ */
+export function detailForCount(nodeCount: number): DetailLevel {
+  if (nodeCount <= LARGE_NETWORK) return 'full'
+  if (nodeCount <= 4 * LARGE_NETWORK) return 'reduced'
+  return 'minimal'
+}
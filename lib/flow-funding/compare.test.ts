@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest'
+import { compareScenarios } from './compare'
+import { cloneAccounts } from './engine'
+import { workerCoop } from './scenarios'
+import type { Account } from './types'
+
+const accounts = (): Account[] => [
+  { id: 'A', name: 'A', balance: 0, minThreshold: 100, maxThreshold: 200, allocations: new Map([['B', 100]]) },
+  { id: 'B', name: 'B', balance: 0, minThreshold: 100, maxThreshold: 400, allocations: new Map() },
+  { id: 'C', name: 'C', balance: 0, minThreshold: 100, maxThreshold: 400, allocations: new Map() },
+]
+
+/** A sends its overflow to C instead of B */
+const variant = (): Account[] =>
+  accounts().map(a => (a.id === 'A' ? { ...a, allocations: new Map([['C', 100]]) } : a))
+
+describe('compareScenarios', () => {
+  it('diffs balances, flows and states of two networks', () => {
+    const { accounts: deltas, flows } = compareScenarios(
+      { accounts: accounts() },
+      { accounts: variant() },
+      300,
+      'A'
+    )
+
+    expect(deltas.map(d => [d.accountId, d.balanceA, d.balanceB, d.delta])).toEqual([
+      ['A', 200, 200, 0],
+      ['B', 100, 0, -100],
+      ['C', 0, 100, 100],
+    ])
+    expect(deltas.filter(d => d.stateChanged).map(d => [d.accountId, d.stateA, d.stateB])).toEqual([
+      ['B', 'sustainable', 'below-minimum'],
+      ['C', 'below-minimum', 'sustainable'],
+    ])
+    expect(flows).toEqual([
+      { source: 'A', target: 'B', amountA: 100, amountB: 0, delta: -100 },
+      { source: 'A', target: 'C', amountA: 0, amountB: 100, delta: 100 },
+    ])
+  })
+
+  it('compares one network under two configs', () => {
+    const { accounts: deltas } = compareScenarios(
+      { accounts: accounts(), config: { strategy: 'proportional-shortfall' } },
+      { accounts: accounts(), config: { strategy: 'equal' } },
+      600
+    )
+
+    expect(deltas.every(d => d.balanceA !== null && d.balanceB !== null)).toBe(true)
+    expect(deltas.reduce((sum, d) => sum + d.delta, 0)).toBeCloseTo(0)
+  })
+
+  it('lists accounts that exist on one side only', () => {
+    const extra: Account = {
+      id: 'D', name: 'D', balance: 50, minThreshold: 100, maxThreshold: 200, allocations: new Map(),
+    }
+    const { accounts: deltas } = compareScenarios(
+      { accounts: accounts() },
+      { accounts: [...accounts(), extra] },
+      0
+    )
+
+    expect(deltas[3]).toMatchObject({ accountId: 'D', balanceA: null, balanceB: 50, stateA: null })
+    expect(deltas[3].stateChanged).toBe(true)
+  })
+
+  it('does not modify the scenario accounts', () => {
+    const before = workerCoop.accounts.map(a => a.balance)
+    compareScenarios({ accounts: workerCoop.accounts }, { accounts: cloneAccounts(workerCoop.accounts) }, 1000)
+
+    expect(workerCoop.accounts.map(a => a.balance)).toEqual(before)
+  })
+})
@@ -0,0 +1,139 @@
+/**
+ * Scenario Comparison - Run the same funding through two setups
+ *
+ * Side A and side B are each a network plus a DistributionConfig, so the
+ * comparison covers both "two networks, same config" (e.g. a variant where
+ * one member allocates differently) and "one network, two configs" (e.g.
+ * two solvers or strategies). Reports per-account and per-edge deltas
+ * (B - A) and which accounts end in a different AccountState.
+ */
+
+import type { Account, AccountState, DistributionResult } from './types'
+import { cloneAccounts, runDistribution, type DistributionConfig } from './engine'
+import { runTargetedDistribution } from './targeted'
+import { finalState } from './sensitivity'
+
+export interface ComparisonSide {
+  accounts: Account[]
+  config?: DistributionConfig
+}
+
+export interface AccountDelta {
+  accountId: string
+  name: string
+  /** Final balance on each side (null if the account only exists on the other) */
+  balanceA: number | null
+  balanceB: number | null
+  /** B - A (missing accounts count as 0) */
+  delta: number
+  stateA: AccountState | null
+  stateB: AccountState | null
+  stateChanged: boolean
+}
+
+export interface FlowDelta {
+  source: string
+  target: string
+  /** Total moved along the allocation over all iterations */
+  amountA: number
+  amountB: number
+  /** B - A */
+  delta: number
+}
+
+export interface ComparisonResult {
+  resultA: DistributionResult
+  resultB: DistributionResult
+  /** A's accounts first, then accounts only B has */
+  accounts: AccountDelta[]
+  /** Every allocation that carried funds on either side */
+  flows: FlowDelta[]
+}
+
+/**
+ * Run one side: global funding, or funding injected at `targetAccountId`
+ *
+ * Accounts are cloned - the input is not modified.
+ */
+function runSide(side: ComparisonSide, funding: number, targetAccountId?: string): DistributionResult {
+  const accounts = cloneAccounts(side.accounts)
+
+  if (targetAccountId) {
+    const target = accounts.find(a => a.id === targetAccountId)
+    if (!target) {
+      throw new Error(`Unknown target account: ${targetAccountId}`)
+    }
+    target.balance += funding
+    return runTargetedDistribution(accounts, side.config)
+  }
+
+  return runDistribution(accounts, funding, side.config)
+}
+
+/**
+ * Sum per-iteration flows into total transfer per edge
+ */
+function flowTotals(result: DistributionResult): Map<string, number> {
+  const totals = new Map<string, number>()
+  for (const iteration of result.iterations) {
+    iteration.flows.forEach((amount, key) => {
+      totals.set(key, (totals.get(key) || 0) + amount)
+    })
+  }
+  return totals
+}
+
+/**
+ * Run `funding` through both sides and diff the outcomes
+ *
+ * @param targetAccountId - Inject at this account on both sides instead of
+ *   distributing globally
+ */
+export function compareScenarios(
+  a: ComparisonSide,
+  b: ComparisonSide,
+  funding: number,
+  targetAccountId?: string
+): ComparisonResult {
+  const resultA = runSide(a, funding, targetAccountId)
+  const resultB = runSide(b, funding, targetAccountId)
+
+  const accountsA = new Map(a.accounts.map(account => [account.id, account]))
+  const accountsB = new Map(b.accounts.map(account => [account.id, account]))
+  const ids = [...accountsA.keys(), ...Array.from(accountsB.keys()).filter(id => !accountsA.has(id))]
+
+  const accounts = ids.map(id => {
+    const accountA = accountsA.get(id)
+    const accountB = accountsB.get(id)
+    const balanceA = accountA ? resultA.finalBalances.get(id) ?? accountA.balance : null
+    const balanceB = accountB ? resultB.finalBalances.get(id) ?? accountB.balance : null
+    const stateA = accountA && balanceA !== null ? finalState(accountA, balanceA) : null
+    const stateB = accountB && balanceB !== null ? finalState(accountB, balanceB) : null
+
+    return {
+      accountId: id,
+      name: (accountB ?? accountA)!.name,
+      balanceA,
+      balanceB,
+      delta: (balanceB ?? 0) - (balanceA ?? 0),
+      stateA,
+      stateB,
+      stateChanged: stateA !== stateB,
+    }
+  })
+
+  const totalsA = flowTotals(resultA)
+  const totalsB = flowTotals(resultB)
+  const keys = [...totalsA.keys(), ...Array.from(totalsB.keys()).filter(key => !totalsA.has(key))]
+
+  const flows = keys
+    .map(key => {
+      const [source, target] = key.split('->')
+      const amountA = totalsA.get(key) || 0
+      const amountB = totalsB.get(key) || 0
+      return { source, target, amountA, amountB, delta: amountB - amountA }
+    })
+    .filter(flow => flow.amountA > 0 || flow.amountB > 0)
+
+  return { resultA, resultB, accounts, flows }
+}
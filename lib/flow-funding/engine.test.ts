@@ -0,0 +1,181 @@
+import fc from 'fast-check'
+import { describe, expect, it } from 'vitest'
+import { randomFunding, randomGraph, sum, toAccounts } from '../testing/arbitraries'
+import {
+  applyConsumption,
+  cloneAccounts,
+  runDistribution,
+  validateNetwork,
+  type SolverMode,
+} from './engine'
+import { solveFixedPoint } from './exact'
+import type { Account, DistributionResult } from './types'
+
+const TOLERANCE = 1e-6
+
+/**
+ * Funds the result accounts for outside final balances
+ */
+const reportedLoss = (result: DistributionResult) => result.overflowLost + result.overflowCirculating
+
+describe('runDistribution', () => {
+  it('fills minimums proportionally to shortfall when funding is scarce', () => {
+    const accounts: Account[] = [
+      { id: 'A', name: 'A', balance: 0, minThreshold: 100, maxThreshold: 200, allocations: new Map() },
+      { id: 'B', name: 'B', balance: 0, minThreshold: 300, maxThreshold: 400, allocations: new Map() },
+    ]
+    const result = runDistribution(accounts, 200)
+
+    expect(result.finalBalances.get('A')).toBeCloseTo(50)
+    expect(result.finalBalances.get('B')).toBeCloseTo(150)
+    expect(result.converged).toBe(true)
+  })
+
+  it('uses the configured initial distribution strategy', () => {
+    const accounts = (): Account[] => [
+      { id: 'A', name: 'A', balance: 0, minThreshold: 100, maxThreshold: 200, allocations: new Map() },
+      { id: 'B', name: 'B', balance: 0, minThreshold: 300, maxThreshold: 400, allocations: new Map() },
+    ]
+    const result = runDistribution(accounts(), 200, { strategy: 'equal' })
+
+    expect(result.finalBalances.get('A')).toBeCloseTo(100)
+    expect(result.finalBalances.get('B')).toBeCloseTo(100)
+  })
+
+  it('redistributes overflow along allocations', () => {
+    const accounts: Account[] = [
+      { id: 'A', name: 'A', balance: 500, minThreshold: 0, maxThreshold: 100, allocations: new Map([['B', 100]]) },
+      { id: 'B', name: 'B', balance: 0, minThreshold: 0, maxThreshold: 1000, allocations: new Map() },
+    ]
+    const result = runDistribution(accounts, 0)
+
+    expect(result.finalBalances.get('A')).toBeCloseTo(100)
+    expect(result.finalBalances.get('B')).toBeCloseTo(400)
+  })
+
+  it('applies allocation caps per round, across iterations', () => {
+    const accounts: Account[] = [
+      {
+        id: 'A', name: 'A', balance: 1000, minThreshold: 0, maxThreshold: 100,
+        allocations: new Map([['B', 100]]), allocationLimits: new Map([['B', { cap: 300 }]]),
+      },
+      { id: 'B', name: 'B', balance: 0, minThreshold: 0, maxThreshold: 100, allocations: new Map([['A', 100]]) },
+    ]
+    const result = runDistribution(accounts, 0)
+
+    // A sends 300 in total: 600 is lost at once, and B's 200 returned to A has
+    // nowhere to go on the next pass
+    expect(result.finalBalances.get('A')).toBeCloseTo(100)
+    expect(result.finalBalances.get('B')).toBeCloseTo(100)
+    expect(sum(result.iterations, i => i.flows.get('A->B') || 0)).toBeCloseTo(300)
+  })
+
+  it('pays allocation floors before other allocations', () => {
+    const accounts: Account[] = [
+      {
+        id: 'A', name: 'A', balance: 1000, minThreshold: 0, maxThreshold: 100,
+        allocations: new Map([['B', 90], ['C', 10]]), allocationLimits: new Map([['C', { floor: 300 }]]),
+      },
+      { id: 'B', name: 'B', balance: 0, minThreshold: 0, maxThreshold: 1000, allocations: new Map() },
+      { id: 'C', name: 'C', balance: 0, minThreshold: 0, maxThreshold: 1000, allocations: new Map() },
+    ]
+    const result = runDistribution(accounts, 0, { solver: 'exact' })
+
+    expect(result.finalBalances.get('B')).toBeCloseTo(540)
+    expect(result.finalBalances.get('C')).toBeCloseTo(360)
+  })
+
+  it('rejects invalid networks', () => {
+    const accounts: Account[] = [
+      { id: 'A', name: 'A', balance: 0, minThreshold: 200, maxThreshold: 100, allocations: new Map([['X', 50]]) },
+    ]
+
+    expect(validateNetwork(accounts).errors).toHaveLength(2)
+    expect(() => runDistribution(accounts, 100)).toThrow('Invalid network')
+  })
+
+  it('conserves funds, counting lost and circulating overflow', () => {
+    fc.assert(
+      fc.property(randomGraph, randomFunding, fc.constantFrom<SolverMode>('iterative', 'exact'), (graph, funding, solver) => {
+        const accounts = toAccounts(graph)
+        const before = sum(accounts, a => a.balance)
+        const result = runDistribution(accounts, funding, { solver })
+        const after = sum(result.finalBalances, ([, balance]) => balance)
+
+        expect(after + reportedLoss(result)).toBeCloseTo(before + funding, 4)
+      })
+    )
+  })
+
+  it('settles a closed loop in one step, reporting its excess as circulating', () => {
+    const accounts: Account[] = [
+      { id: 'A', name: 'A', balance: 300, minThreshold: 0, maxThreshold: 100, allocations: new Map([['B', 100]]) },
+      { id: 'B', name: 'B', balance: 100, minThreshold: 0, maxThreshold: 100, allocations: new Map([['A', 100]]) },
+    ]
+    const result = runDistribution(accounts, 0, { solver: 'exact' })
+
+    expect(result.finalBalances).toEqual(new Map([['A', 100], ['B', 100]]))
+    expect(result.overflowCirculating).toBeCloseTo(200)
+    expect(result.converged).toBe(true)
+    expect(result.iterationCount).toBe(1)
+    expect(result.iterations[0].flows.get('A->B')).toBeCloseTo(200)
+  })
+
+  it('never produces negative balances', () => {
+    fc.assert(
+      fc.property(randomGraph, randomFunding, fc.constantFrom<SolverMode>('iterative', 'exact'), (graph, funding, solver) => {
+        const result = runDistribution(toAccounts(graph), funding, { solver })
+        for (const balance of result.finalBalances.values()) {
+          expect(balance).toBeGreaterThanOrEqual(-TOLERANCE)
+        }
+      })
+    )
+  })
+
+  it('keeps every balance at or below maxThreshold after convergence', () => {
+    fc.assert(
+      fc.property(randomGraph, randomFunding, fc.constantFrom<SolverMode>('iterative', 'exact'), (graph, funding, solver) => {
+        const accounts = toAccounts(graph)
+        const result = runDistribution(accounts, funding, { solver })
+        fc.pre(result.converged)
+
+        for (const account of accounts) {
+          expect(result.finalBalances.get(account.id)!).toBeLessThanOrEqual(account.maxThreshold + TOLERANCE)
+        }
+      })
+    )
+  })
+})
+
+describe('applyConsumption', () => {
+  it('drains balances by rate x periods without going negative', () => {
+    const accounts: Account[] = [
+      { id: 'A', name: 'A', balance: 100, minThreshold: 50, maxThreshold: 200, allocations: new Map(), consumptionRate: 30 },
+      { id: 'B', name: 'B', balance: 40, minThreshold: 50, maxThreshold: 200, allocations: new Map(), consumptionRate: 30 },
+      { id: 'C', name: 'C', balance: 40, minThreshold: 50, maxThreshold: 200, allocations: new Map() },
+    ]
+    const spent = applyConsumption(accounts, 2)
+
+    expect(accounts.map(a => a.balance)).toEqual([40, 0, 40])
+    expect(spent).toEqual(new Map([['A', 60], ['B', 40]]))
+  })
+})
+
+describe('solveFixedPoint', () => {
+  it('accounts for every dollar as balance, lost overflow or circulating overflow', () => {
+    fc.assert(
+      fc.property(randomGraph, (graph) => {
+        const accounts = toAccounts(graph)
+        // Push every account over its maximum so overflow has to go somewhere
+        for (const account of accounts) account.balance = account.maxThreshold * 2
+        const total = sum(accounts, a => a.balance)
+
+        const result = solveFixedPoint(cloneAccounts(accounts))
+        fc.pre(result.solvable)
+
+        const final = sum(result.finalBalances, ([, balance]) => balance)
+        expect(final + result.overflowLost + result.overflowCirculating).toBeCloseTo(total, 4)
+      })
+    )
+  })
+})
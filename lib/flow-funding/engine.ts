@@ -5,7 +5,8 @@
  * threshold-based-flow-funding.md
  *
  * Algorithm phases:
- * 1. Initial Distribution: Prioritize minimum thresholds, then fill capacity
+ * 1. Initial Distribution: Split funding by strategy (default: minimum
+ *    thresholds first, then capacity)
  * 2. Overflow Calculation: Identify funds exceeding maximum thresholds
  * 3. Overflow Redistribution: Redistribute overflow according to allocations
  * 4. Recursive Processing: Repeat until convergence
@@ -17,6 +18,18 @@ import type {
   IterationResult,
   ValidationResult,
 } from './types'
+import { solveFixedPoint } from './exact'
+import { fromAccounts } from '../core/adapters'
+import { hasLimits, splitWithLimits } from '../core/limits'
+import { DEFAULT_STRATEGY, getStrategy, type StrategyId } from '../core/strategies'
+import { validateGraph } from '../core/validation'
+
+/**
+ * Solver used for the overflow redistribution phase
+ * - iterative: repeat overflow/redistribute until overflow < epsilon
+ * - exact: solve the fixed point directly (iterations are still recorded as a trace)
+ */
+export type SolverMode = 'iterative' | 'exact'
 
 /**
  * Configuration for the distribution algorithm
@@ -28,210 +41,71 @@ export interface DistributionConfig {
   epsilon?: number
   /** Enable detailed logging (default: false) */
   verbose?: boolean
+  /** Redistribution solver (default: 'iterative') */
+  solver?: SolverMode
+  /** Initial distribution strategy (default: 'proportional-shortfall') */
+  strategy?: StrategyId
 }
 
 const DEFAULT_CONFIG: Required<DistributionConfig> = {
   maxIterations: 100,
   epsilon: 0.01,
   verbose: false,
+  solver: 'iterative',
+  strategy: DEFAULT_STRATEGY,
 }
 
 /**
  * Validates a flow funding network
  */
 export function validateNetwork(accounts: Account[]): ValidationResult {
-  const errors: string[] = []
-  const warnings: string[] = []
-
-  if (accounts.length === 0) {
-    errors.push('Network must contain at least one account')
-    return { valid: false, errors, warnings }
-  }
-
-  const accountIds = new Set(accounts.map(a => a.id))
-
-  for (const account of accounts) {
-    // Check threshold validity
-    if (account.minThreshold < 0) {
-      errors.push(`Account ${account.id}: minimum threshold must be non-negative`)
-    }
-    if (account.maxThreshold < 0) {
-      errors.push(`Account ${account.id}: maximum threshold must be non-negative`)
-    }
-    if (account.minThreshold > account.maxThreshold) {
-      errors.push(
-        `Account ${account.id}: minimum threshold (${account.minThreshold}) ` +
-        `exceeds maximum threshold (${account.maxThreshold})`
-      )
-    }
-
-    // Check balance validity
-    if (account.balance < 0) {
-      errors.push(`Account ${account.id}: balance must be non-negative`)
-    }
-
-    // Check allocations
-    let totalAllocation = 0
-    for (const [targetId, percentage] of account.allocations.entries()) {
-      if (percentage < 0 || percentage > 100) {
-        errors.push(
-          `Account ${account.id}: allocation to ${targetId} must be between 0 and 100`
-        )
-      }
-      if (!accountIds.has(targetId)) {
-        errors.push(
-          `Account ${account.id}: allocation target ${targetId} does not exist`
-        )
-      }
-      if (targetId === account.id) {
-        errors.push(`Account ${account.id}: cannot allocate to itself`)
-      }
-      totalAllocation += percentage
-    }
-
-    if (totalAllocation > 100.01) { // Allow small floating point error
-      errors.push(
-        `Account ${account.id}: total allocations (${totalAllocation}%) exceed 100%`
-      )
-    }
-
-    // Warnings
-    if (account.allocations.size === 0 && accounts.length > 1) {
-      warnings.push(
-        `Account ${account.id}: has no outgoing allocations (overflow will be lost)`
-      )
-    }
-
-    const hasIncoming = accounts.some(a =>
-      Array.from(a.allocations.keys()).includes(account.id)
-    )
-    if (!hasIncoming && account.balance === 0) {
-      warnings.push(
-        `Account ${account.id}: has no incoming allocations and zero balance ` +
-        `(will never receive funds)`
-      )
-    }
-  }
-
-  return {
-    valid: errors.length === 0,
-    errors,
-    warnings,
-  }
+  return validateGraph(fromAccounts(accounts), 'flow-funding')
 }
 
 /**
  * Phase 1: Initial Distribution
  *
- * Distributes external funding, prioritizing minimum thresholds
- * then filling remaining capacity up to maximum thresholds
+ * Distributes external funding according to the configured strategy (by
+ * default: minimum thresholds first, then remaining capacity). Funding that
+ * no account has capacity for is not placed.
+ *
+ * Returns the amount not placed
  */
 function distributeInitial(
   accounts: Account[],
   funding: number,
+  strategyId: StrategyId,
   verbose: boolean
-): void {
-  if (verbose) {
-    console.log(`\n=== Initial Distribution: $${funding.toFixed(2)} ===`)
-  }
-
-  // Calculate total minimum requirement
-  let totalMinRequired = 0
-  const minShortfalls = new Map<string, number>()
-
-  for (const account of accounts) {
-    const shortfall = Math.max(0, account.minThreshold - account.balance)
-    if (shortfall > 0) {
-      minShortfalls.set(account.id, shortfall)
-      totalMinRequired += shortfall
-    }
-  }
+): number {
+  const strategy = getStrategy(strategyId)
 
   if (verbose) {
-    console.log(`Total minimum requirement: $${totalMinRequired.toFixed(2)}`)
+    console.log(`\n=== Initial Distribution: $${funding.toFixed(2)} (${strategy.name}) ===`)
   }
 
-  // Case 1: Insufficient funds to meet all minimums
-  if (funding < totalMinRequired) {
-    if (verbose) {
-      console.log('Insufficient funds - distributing proportionally to minimums')
-    }
+  const amounts = strategy.allocate(fromAccounts(accounts), funding)
+  let placed = 0
 
-    for (const account of accounts) {
-      const shortfall = minShortfalls.get(account.id) || 0
-      if (shortfall > 0) {
-        const allocation = (shortfall / totalMinRequired) * funding
-        account.balance += allocation
-
-        if (verbose) {
-          console.log(
-            `  ${account.id}: +$${allocation.toFixed(2)} ` +
-            `(${((shortfall / totalMinRequired) * 100).toFixed(1)}% of funding)`
-          )
-        }
-      }
-    }
-    return
-  }
-
-  // Case 2: Can meet all minimums
-  if (verbose) {
-    console.log('Sufficient funds - meeting all minimums first')
-  }
-
-  // Step 1: Fill all minimums
   for (const account of accounts) {
-    const shortfall = minShortfalls.get(account.id) || 0
-    if (shortfall > 0) {
-      account.balance = account.minThreshold
-      if (verbose) {
-        console.log(`  ${account.id}: filled to minimum ($${account.minThreshold.toFixed(2)})`)
-      }
-    }
-  }
-
-  // Step 2: Distribute remaining funds based on capacity
-  const remaining = funding - totalMinRequired
-  if (remaining <= 0) return
-
-  if (verbose) {
-    console.log(`\nDistributing remaining $${remaining.toFixed(2)} based on capacity`)
-  }
-
-  // Calculate total remaining capacity
-  let totalCapacity = 0
-  const capacities = new Map<string, number>()
-
-  for (const account of accounts) {
-    const capacity = Math.max(0, account.maxThreshold - account.balance)
-    if (capacity > 0) {
-      capacities.set(account.id, capacity)
-      totalCapacity += capacity
-    }
-  }
-
-  if (totalCapacity === 0) {
-    if (verbose) {
-      console.log('No remaining capacity - all accounts at maximum')
-    }
-    return
-  }
-
-  // Distribute proportionally to capacity
-  for (const account of accounts) {
-    const capacity = capacities.get(account.id) || 0
-    if (capacity > 0) {
-      const allocation = (capacity / totalCapacity) * remaining
-      account.balance += allocation
+    const amount = amounts.get(account.id) || 0
+    if (amount > 0) {
+      account.balance += amount
+      placed += amount
 
       if (verbose) {
         console.log(
-          `  ${account.id}: +$${allocation.toFixed(2)} ` +
-          `(${((capacity / totalCapacity) * 100).toFixed(1)}% of remaining)`
+          `  ${account.id}: +$${amount.toFixed(2)} ` +
+          `(${((amount / funding) * 100).toFixed(1)}% of funding)`
         )
       }
     }
   }
+
+  if (verbose && funding - placed > 0.01) {
+    console.log(`No remaining capacity - $${(funding - placed).toFixed(2)} not placed`)
+  }
+
+  return Math.max(0, funding - placed)
 }
 
 /**
@@ -271,13 +145,18 @@ function calculateOverflow(
 /**
  * Phase 3: Redistribute Overflow
  *
- * Redistributes overflow according to allocation preferences
- * Returns true if any redistribution occurred
+ * Redistributes overflow according to allocation preferences (normalized)
+ * and allocation limits. Floors and caps apply per round, so `sent` carries
+ * the amount already sent along each edge in earlier iterations.
+ * Overflow that no allocation can take is lost.
+ *
+ * Returns the flows of this iteration (sourceId->targetId -> amount)
  */
-function redistributeOverflow(
+export function redistributeOverflow(
   accounts: Account[],
   overflows: Map<string, number>,
-  verbose: boolean
+  verbose: boolean,
+  sent: Map<string, number> = new Map()
 ): Map<string, number> {
   const accountMap = new Map(accounts.map(a => [a.id, a]))
   const flows = new Map<string, number>()
@@ -303,16 +182,32 @@ function redistributeOverflow(
       continue
     }
 
+    // Floors and caps still available this round
+    const shares = Array.from(source.allocations, ([targetId, percentage]) => {
+      const limits = source.allocationLimits?.get(targetId)
+      const alreadySent = sent.get(`${sourceId}->${targetId}`) || 0
+      return {
+        key: targetId,
+        weight: percentage / totalAllocation,
+        floor: limits?.floor === undefined ? undefined : Math.max(0, limits.floor - alreadySent),
+        cap: limits?.cap === undefined ? undefined : Math.max(0, limits.cap - alreadySent),
+      }
+    })
+    const amounts = splitWithLimits(overflow, shares)
+
     // Distribute overflow according to allocations
+    let distributed = 0
     for (const [targetId, percentage] of source.allocations.entries()) {
       const target = accountMap.get(targetId)
       if (!target) continue
 
-      const normalizedPercentage = percentage / totalAllocation
-      const amount = overflow * normalizedPercentage
+      const amount = amounts.get(targetId) || 0
+      const key = `${sourceId}->${targetId}`
 
       target.balance += amount
-      flows.set(`${sourceId}->${targetId}`, amount)
+      flows.set(key, amount)
+      sent.set(key, (sent.get(key) || 0) + amount)
+      distributed += amount
 
       if (verbose) {
         console.log(
@@ -321,17 +216,148 @@ function redistributeOverflow(
         )
       }
     }
+
+    if (verbose && overflow - distributed > 0.01) {
+      console.log(
+        `    ${sourceId}: $${(overflow - distributed).toFixed(2)} above allocation caps - lost`
+      )
+    }
   }
 
   return flows
 }
 
+/**
+ * Whether any account has allocation floors or caps
+ *
+ * The exact solver assumes purely proportional allocations, so runs with
+ * limits fall back to the iterative result.
+ */
+export function hasAllocationLimits(accounts: Account[]): boolean {
+  return accounts.some(a =>
+    Array.from(a.allocationLimits?.values() ?? []).some(hasLimits)
+  )
+}
+
+/**
+ * Overflow of one iteration that was not forwarded along any allocation
+ */
+export function unforwarded(totalOverflow: number, flows: Map<string, number>): number {
+  let forwarded = 0
+  for (const amount of flows.values()) forwarded += amount
+  return Math.max(0, totalOverflow - forwarded)
+}
+
+/**
+ * Apply an exact fixed-point solution to the accounts
+ * Returns false if the solver failed and the iterative result should stand
+ */
+export function applyFixedPoint(
+  accounts: Account[],
+  exact: ReturnType<typeof solveFixedPoint>,
+  verbose: boolean
+): boolean {
+  if (!exact.solvable) {
+    if (verbose) {
+      console.log(
+        '\n⚠️  Exact solver: linear system is singular - keeping iterative result'
+      )
+    }
+    return false
+  }
+
+  for (const account of accounts) {
+    account.balance = exact.finalBalances.get(account.id) ?? account.balance
+  }
+
+  if (verbose) {
+    console.log(
+      `\n✓ Exact solver: ${exact.saturated.size} saturated accounts, ` +
+      `$${exact.overflowLost.toFixed(2)} overflow lost, ` +
+      `$${exact.overflowCirculating.toFixed(2)} circulating in closed loops`
+    )
+  }
+  return true
+}
+
+/**
+ * Settle the accounts at an exact fixed point in a single step
+ *
+ * Mutates the accounts. The step records each account's starting overflow
+ * and the settled flow along every allocation. Returns null if the solver
+ * failed and the iterative loop should run instead.
+ */
+export function settleExact(
+  accounts: Account[],
+  exact: ReturnType<typeof solveFixedPoint>,
+  verbose: boolean
+): IterationResult | null {
+  const overflows = new Map<string, number>()
+  let totalOverflow = 0
+  for (const account of accounts) {
+    const overflow = Math.max(0, account.balance - account.maxThreshold)
+    if (overflow > 0) {
+      overflows.set(account.id, overflow)
+      totalOverflow += overflow
+    }
+  }
+
+  if (!applyFixedPoint(accounts, exact, verbose)) return null
+
+  return {
+    iteration: 0,
+    balances: new Map(accounts.map(a => [a.id, a.balance])),
+    overflows,
+    totalOverflow,
+    flows: exact.flows,
+    converged: true,
+  }
+}
+
+/**
+ * Total flow along each allocation once the overflow has settled
+ *
+ * A converged trace has settled, so its totals stand. Otherwise excess still
+ * circulates and the totals grow with every iteration; the fixed point of the
+ * accounts the trace started from gives the settled flows instead (unless
+ * allocation limits rule it out).
+ */
+export function settledFlows(
+  start: Account[],
+  sent: Map<string, number>,
+  converged: boolean
+): Map<string, number> {
+  if (converged) return new Map(sent)
+  const fixedPoint = solveExact(start, false)
+  return fixedPoint?.solvable ? fixedPoint.flows : new Map(sent)
+}
+
+/**
+ * Exact fixed point, or null when allocation limits rule it out
+ */
+export function solveExact(
+  accounts: Account[],
+  verbose: boolean
+): ReturnType<typeof solveFixedPoint> | null {
+  if (hasAllocationLimits(accounts)) {
+    if (verbose) {
+      console.log('\n⚠️  Exact solver: allocation floors/caps present - using iterative result')
+    }
+    return null
+  }
+  return solveFixedPoint(accounts)
+}
+
 /**
  * Main distribution function
  *
  * Runs the complete flow funding algorithm:
  * 1. Initial distribution
  * 2. Iterative overflow redistribution until convergence
+ *
+ * With `solver: 'exact'` the closed-form fixed point replaces the loop: the
+ * result has a single step with the settled flows. The loop only runs when
+ * the exact solver cannot be used.
  */
 export function runDistribution(
   accounts: Account[],
@@ -339,7 +365,7 @@ export function runDistribution(
   config: DistributionConfig = {}
 ): DistributionResult {
   const cfg = { ...DEFAULT_CONFIG, ...config }
-  const { maxIterations, epsilon, verbose } = cfg
+  const { maxIterations, epsilon, verbose, solver, strategy } = cfg
 
   // Validate network
   const validation = validateNetwork(accounts)
@@ -370,13 +396,27 @@ export function runDistribution(
   }
 
   // Phase 1: Initial distribution
-  distributeInitial(accounts, funding, verbose)
+  const unplaced = distributeInitial(accounts, funding, strategy, verbose)
 
-  // Phase 2-4: Iterative overflow redistribution
   const iterations: IterationResult[] = []
+  const sent = new Map<string, number>()
   let converged = false
+  let overflowLost = unplaced
+  let overflowCirculating = 0
+
+  // Exact mode: settle in one step
+  const start = cloneAccounts(accounts)
+  const exact = solver === 'exact' ? solveExact(accounts, verbose) : null
+  const settled = exact ? settleExact(accounts, exact, verbose) : null
+  if (exact && settled) {
+    iterations.push(settled)
+    overflowLost += exact.overflowLost
+    overflowCirculating = exact.overflowCirculating
+    converged = true
+  }
 
-  for (let i = 0; i < maxIterations; i++) {
+  // Phase 2-4: Iterative overflow redistribution
+  for (let i = 0; i < maxIterations && !converged; i++) {
     if (verbose) {
       console.log(`\n--- Iteration ${i} ---`)
     }
@@ -403,14 +443,17 @@ export function runDistribution(
       if (verbose) {
         console.log(`✓ Converged (overflow < ${epsilon})`)
       }
+      // The residual below epsilon was capped off, not redistributed
+      overflowLost += totalOverflow
       converged = true
       iterations.push(iteration)
       break
     }
 
     // Redistribute overflow
-    const flows = redistributeOverflow(accounts, overflows, verbose)
+    const flows = redistributeOverflow(accounts, overflows, verbose, sent)
     iteration.flows = flows
+    overflowLost += unforwarded(totalOverflow, flows)
 
     iterations.push(iteration)
 
@@ -450,6 +493,9 @@ export function runDistribution(
     converged,
     totalFunding: funding,
     iterationCount: iterations.length,
+    flows: settled ? settled.flows : settledFlows(start, sent, converged),
+    overflowLost,
+    overflowCirculating,
   }
 }
 
@@ -460,5 +506,34 @@ export function cloneAccounts(accounts: Account[]): Account[] {
   return accounts.map(a => ({
     ...a,
     allocations: new Map(a.allocations),
+    allocationLimits: a.allocationLimits && new Map(a.allocationLimits),
   }))
 }
+
+/**
+ * Apply each account's consumption rate over a number of periods
+ *
+ * Mutates the accounts. Spending is capped at the available balance, so
+ * balances never go negative - an unfunded account drains to zero.
+ *
+ * @param extra - Additional spending per account for this step (not scaled)
+ * @returns Amount actually spent per account (accounts that spent nothing are omitted)
+ */
+export function applyConsumption(
+  accounts: Account[],
+  periods: number = 1,
+  extra?: Map<string, number>
+): Map<string, number> {
+  const spent = new Map<string, number>()
+
+  for (const account of accounts) {
+    const wanted = (account.consumptionRate || 0) * periods + (extra?.get(account.id) || 0)
+    const amount = Math.min(account.balance, wanted)
+    if (amount > 0) {
+      account.balance -= amount
+      spent.set(account.id, amount)
+    }
+  }
+
+  return spent
+}
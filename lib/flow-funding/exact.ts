@@ -0,0 +1,278 @@
+/**
+ * Exact Fixed-Point Solver
+ *
+ * Computes the converged state of overflow redistribution directly instead of
+ * iterating until the remaining overflow drops below epsilon.
+ *
+ * Saturated accounts (balance + inflow > maxThreshold) behave as pass-through
+ * nodes: they keep their maximum and forward everything else along their
+ * normalized allocations. For a fixed saturated set S the inflow x_t of every
+ * account satisfies the linear system
+ *
+ *   x_t = Σ_{s ∈ S} w_st · (b_s + x_s - max_s)
+ *
+ * where b is the balance before redistribution and w_st the normalized
+ * allocation from s to t. Inflows only grow as S grows, so the active-set loop
+ * below terminates after at most one solve per account.
+ *
+ * Saturated accounts that form a closed loop (every allocation stays inside
+ * the loop) would pass their excess around forever. They are treated as
+ * absorbing: members stay at their maximum and the excess is reported as
+ * circulating overflow instead of being forwarded.
+ */
+
+import type { Account } from './types'
+
+/** Relative tolerance used for saturation checks and pivoting */
+const TOLERANCE = 1e-9
+
+/**
+ * Result of solving the redistribution fixed point
+ */
+export interface FixedPointResult {
+  /** Balances once all overflow has settled */
+  finalBalances: Map<string, number>
+  /** Total overflow forwarded along each edge (sourceId->targetId -> amount) */
+  flows: Map<string, number>
+  /** Accounts that end at their maximum and forward their excess */
+  saturated: Set<string>
+  /** Overflow from saturated accounts that have no allocations */
+  overflowLost: number
+  /** Excess trapped in closed loops of saturated accounts */
+  overflowCirculating: number
+  /** Closed loops of saturated accounts (account IDs per loop) */
+  closedLoops: string[][]
+  /** False if the linear system could not be solved numerically */
+  solvable: boolean
+}
+
+/**
+ * Solve A·x = b with Gaussian elimination and partial pivoting
+ * Returns null if the system is singular
+ */
+function solveLinearSystem(matrix: number[][], rhs: number[]): number[] | null {
+  const n = rhs.length
+  const a = matrix.map((row, i) => [...row, rhs[i]])
+
+  for (let col = 0; col < n; col++) {
+    // Pick the largest pivot for numerical stability
+    let pivot = col
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) {
+        pivot = row
+      }
+    }
+
+    if (Math.abs(a[pivot][col]) < TOLERANCE) {
+      return null
+    }
+
+    if (pivot !== col) {
+      ;[a[pivot], a[col]] = [a[col], a[pivot]]
+    }
+
+    for (let row = col + 1; row < n; row++) {
+      const factor = a[row][col] / a[col][col]
+      if (factor === 0) continue
+      for (let k = col; k <= n; k++) {
+        a[row][k] -= factor * a[col][k]
+      }
+    }
+  }
+
+  // Back substitution
+  const x = new Array<number>(n).fill(0)
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = a[row][n]
+    for (let k = row + 1; k < n; k++) {
+      sum -= a[row][k] * x[k]
+    }
+    x[row] = sum / a[row][row]
+  }
+
+  return x
+}
+
+/**
+ * Normalized allocation weights for an account (sum to 1, or empty)
+ */
+function getWeights(account: Account): Map<string, number> {
+  let totalAllocation = 0
+  for (const percentage of account.allocations.values()) {
+    totalAllocation += percentage
+  }
+
+  const weights = new Map<string, number>()
+  if (totalAllocation === 0) return weights
+
+  for (const [targetId, percentage] of account.allocations.entries()) {
+    weights.set(targetId, percentage / totalAllocation)
+  }
+  return weights
+}
+
+/**
+ * Find closed classes among the saturated accounts: strongly connected
+ * components whose members allocate exclusively to each other
+ */
+function findClosedLoops(
+  saturated: Set<number>,
+  edges: Array<Array<[number, number]>>
+): Set<number>[] {
+  const order: number[] = []
+  const lowLink = new Map<number, number>()
+  const stack: number[] = []
+  const onStack = new Set<number>()
+  const components: Set<number>[] = []
+
+  // Tarjan's algorithm over the subgraph induced by the saturated set
+  const visit = (v: number) => {
+    lowLink.set(v, order.length)
+    const id = order.length
+    order.push(v)
+    stack.push(v)
+    onStack.add(v)
+
+    for (const [w] of edges[v]) {
+      if (!saturated.has(w)) continue
+      if (!lowLink.has(w)) {
+        visit(w)
+        lowLink.set(v, Math.min(lowLink.get(v)!, lowLink.get(w)!))
+      } else if (onStack.has(w)) {
+        lowLink.set(v, Math.min(lowLink.get(v)!, lowLink.get(w)!))
+      }
+    }
+
+    if (lowLink.get(v) === id) {
+      const component = new Set<number>()
+      let w: number
+      do {
+        w = stack.pop()!
+        onStack.delete(w)
+        component.add(w)
+      } while (w !== v)
+      components.push(component)
+    }
+  }
+
+  for (const v of saturated) {
+    if (!lowLink.has(v)) visit(v)
+  }
+
+  return components.filter(component =>
+    Array.from(component).every(
+      v => edges[v].length > 0 && edges[v].every(([w]) => component.has(w))
+    )
+  )
+}
+
+/**
+ * Compute the exact converged balances of overflow redistribution
+ *
+ * Starts from the accounts' current balances (i.e. after any initial
+ * distribution) and does not modify them.
+ */
+export function solveFixedPoint(accounts: Account[]): FixedPointResult {
+  const n = accounts.length
+  const index = new Map(accounts.map((a, i) => [a.id, i]))
+  const weights = accounts.map(getWeights)
+
+  // Weighted adjacency by index, ignoring missing targets and zero weights
+  const edges = weights.map(w =>
+    Array.from(w.entries())
+      .filter(([targetId, weight]) => index.has(targetId) && weight > 0)
+      .map(([targetId, weight]): [number, number] => [index.get(targetId)!, weight])
+  )
+  const scale = Math.max(1, ...accounts.map(a => Math.abs(a.maxThreshold)))
+
+  const isOverMax = (i: number, inflow: number) =>
+    accounts[i].balance + inflow - accounts[i].maxThreshold > TOLERANCE * scale
+
+  // Start with accounts that already exceed their maximum
+  let saturated = new Set<number>()
+  accounts.forEach((_, i) => {
+    if (isOverMax(i, 0)) saturated.add(i)
+  })
+
+  let inflows = new Array<number>(n).fill(0)
+  let closedLoops: Set<number>[] = []
+  let solvable = true
+
+  for (let round = 0; round <= n; round++) {
+    closedLoops = findClosedLoops(saturated, edges)
+    const absorbing = new Set(closedLoops.flatMap(loop => Array.from(loop)))
+
+    // Build (I - A)·x = c for the current saturated set
+    const matrix = accounts.map((_, i) =>
+      accounts.map((_, j) => (i === j ? 1 : 0))
+    )
+    const rhs = new Array<number>(n).fill(0)
+
+    for (const s of saturated) {
+      if (absorbing.has(s)) continue
+      const source = accounts[s]
+      for (const [t, weight] of edges[s]) {
+        matrix[t][s] -= weight
+        rhs[t] += weight * (source.balance - source.maxThreshold)
+      }
+    }
+
+    const solution = solveLinearSystem(matrix, rhs)
+    if (!solution) {
+      solvable = false
+      break
+    }
+    inflows = solution
+
+    // Grow the saturated set with accounts pushed over their maximum
+    const next = new Set(saturated)
+    inflows.forEach((inflow, i) => {
+      if (isOverMax(i, inflow)) next.add(i)
+    })
+
+    if (next.size === saturated.size) break
+    saturated = next
+  }
+
+  const absorbing = new Set(closedLoops.flatMap(loop => Array.from(loop)))
+  const finalBalances = new Map<string, number>()
+  const flows = new Map<string, number>()
+  let overflowLost = 0
+  let overflowCirculating = 0
+
+  accounts.forEach((account, i) => {
+    const total = account.balance + inflows[i]
+
+    if (!saturated.has(i)) {
+      finalBalances.set(account.id, total)
+      return
+    }
+
+    finalBalances.set(account.id, account.maxThreshold)
+    const overflow = total - account.maxThreshold
+
+    if (absorbing.has(i)) {
+      overflowCirculating += overflow
+    } else if (edges[i].length === 0) {
+      overflowLost += overflow
+      return
+    }
+
+    // Closed loops report a single pass of their circulating excess
+    for (const [t, weight] of edges[i]) {
+      flows.set(`${account.id}->${accounts[t].id}`, overflow * weight)
+    }
+  })
+
+  return {
+    finalBalances,
+    flows,
+    saturated: new Set(Array.from(saturated).map(i => accounts[i].id)),
+    overflowLost,
+    overflowCirculating,
+    closedLoops: closedLoops.map(loop =>
+      Array.from(loop).map(i => accounts[i].id)
+    ),
+    solvable,
+  }
+}
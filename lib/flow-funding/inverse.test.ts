@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest'
+import { solveRequiredFunding } from './inverse'
+import type { Account } from './types'
+
+const accounts = (): Account[] => [
+  { id: 'A', name: 'A', balance: 0, minThreshold: 100, maxThreshold: 200, allocations: new Map([['B', 100]]) },
+  { id: 'B', name: 'B', balance: 0, minThreshold: 100, maxThreshold: 1000, allocations: new Map() },
+]
+
+describe('solveRequiredFunding', () => {
+  it('finds the global funding at which every account reaches its minimum', () => {
+    const result = solveRequiredFunding(accounts())
+
+    expect(result?.funding).toBeCloseTo(200, 1)
+    expect(result?.balances.get('A')).toBeCloseTo(100, 1)
+    expect(result?.balances.get('B')).toBeCloseTo(100, 1)
+  })
+
+  it('finds the injection needed when funding enters at one account', () => {
+    // A keeps up to its max of 200 before anything reaches B
+    const result = solveRequiredFunding(accounts(), { targetAccountId: 'A' })
+
+    expect(result?.funding).toBeCloseTo(300, 1)
+  })
+
+  it('solves for a subset of accounts reaching their maximum', () => {
+    const result = solveRequiredFunding(accounts(), {
+      goal: 'max',
+      accountIds: ['B'],
+      targetAccountId: 'A',
+    })
+
+    expect(result?.funding).toBeCloseTo(1200, 1)
+    expect(result?.balances.get('B')).toBeCloseTo(1000, 1)
+  })
+
+  it('returns 0 when the goal is already met and leaves the input unchanged', () => {
+    const funded = accounts().map(a => ({ ...a, balance: 150 }))
+
+    expect(solveRequiredFunding(funded)?.funding).toBe(0)
+    expect(solveRequiredFunding(accounts())?.funding).toBeGreaterThan(0)
+    expect(funded.map(a => a.balance)).toEqual([150, 150])
+  })
+
+  it('returns null when funding can never reach an account', () => {
+    // B has no allocations, so its overflow is lost before reaching A
+    expect(solveRequiredFunding(accounts(), { targetAccountId: 'B' })).toBeNull()
+  })
+
+  it('rejects unknown accounts', () => {
+    expect(() => solveRequiredFunding(accounts(), { accountIds: ['Z'] })).toThrow('Unknown account: Z')
+  })
+})
@@ -0,0 +1,81 @@
+/**
+ * Inverse Solver - Minimum funding required to reach a target state
+ *
+ * Answers "how much funding do we need so that ...":
+ * - every account reaches its minimum (the default goal)
+ * - a chosen subset of accounts reaches its maximum
+ * - either of the above, with the funding injected at one account
+ *   (runTargetedDistribution) instead of distributed globally
+ *
+ * Final balances never decrease as funding grows, so the answer is found by
+ * searching over forward runs of the engine (see evaluateFunding).
+ */
+
+import type { Account } from './types'
+import type { DistributionConfig } from './engine'
+import { evaluateFunding } from './sensitivity'
+import { findMinimum } from '../core/search'
+
+/** Threshold every selected account has to reach */
+export type FundingGoal = 'min' | 'max'
+
+export interface InverseConfig {
+  /** Threshold to reach (default: 'min') */
+  goal?: FundingGoal
+  /** Accounts that must reach the goal (default: all) */
+  accountIds?: string[]
+  /** Account that receives the funding; distributed globally when omitted */
+  targetAccountId?: string
+  /** Answer precision in dollars (default: 0.01) */
+  precision?: number
+  /** Passed to each distribution run */
+  distribution?: DistributionConfig
+}
+
+export interface InverseResult {
+  /** Least funding (rounded up to the precision) that reaches the goal */
+  funding: number
+  /** Final balances at that funding */
+  balances: Map<string, number>
+}
+
+/** Balances this close to a threshold count as at the threshold */
+const TOLERANCE = 1e-6
+
+/**
+ * Minimum funding at which the selected accounts reach their goal threshold
+ *
+ * Accounts are cloned - the input is not modified.
+ *
+ * @returns null if no amount of funding reaches the goal - e.g. overflow
+ *   leaves through accounts without allocations or above allocation caps
+ *   before it gets to a selected account
+ */
+export function solveRequiredFunding(
+  accounts: Account[],
+  config: InverseConfig = {}
+): InverseResult | null {
+  const { goal = 'min', precision = 0.01 } = config
+
+  const selected = config.accountIds
+    ? config.accountIds.map(id => {
+        const account = accounts.find(a => a.id === id)
+        if (!account) throw new Error(`Unknown account: ${id}`)
+        return account
+      })
+    : accounts
+  const threshold = (a: Account) => (goal === 'min' ? a.minThreshold : a.maxThreshold)
+
+  const reached = (funding: number) => {
+    const { balances } = evaluateFunding(accounts, funding, config)
+    return selected.every(a => (balances.get(a.id) ?? 0) + TOLERANCE >= threshold(a))
+  }
+
+  // Funding the selected shortfalls directly is usually the right magnitude
+  const shortfall = selected.reduce((sum, a) => sum + Math.max(0, threshold(a) - a.balance), 0)
+
+  const funding = findMinimum(reached, shortfall, precision)
+  if (funding === null) return null
+
+  return { funding, balances: evaluateFunding(accounts, funding, config).balances }
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest'
+import { rankInjectionPoints, totalShortfall } from './recommend'
+import type { Account } from './types'
+
+/**
+ * A hub that needs little and passes its overflow on, two accounts it feeds
+ * and one needier account nothing flows to
+ */
+const accounts = (): Account[] => [
+  { id: 'Hub', name: 'Hub', balance: 0, minThreshold: 100, maxThreshold: 100, allocations: new Map([['X', 50], ['Y', 50]]) },
+  { id: 'X', name: 'X', balance: 0, minThreshold: 200, maxThreshold: 400, allocations: new Map() },
+  { id: 'Y', name: 'Y', balance: 0, minThreshold: 200, maxThreshold: 400, allocations: new Map() },
+  { id: 'Needy', name: 'Needy', balance: 0, minThreshold: 300, maxThreshold: 300, allocations: new Map() },
+]
+
+describe('totalShortfall', () => {
+  it('sums the distance below minimum', () => {
+    expect(totalShortfall(accounts())).toBe(800)
+    expect(totalShortfall(accounts(), new Map([['Needy', 500], ['X', 150]]))).toBe(350)
+  })
+})
+
+describe('rankInjectionPoints', () => {
+  it('ranks a hub whose overflow cascades above the neediest account', () => {
+    const ranking = rankInjectionPoints(accounts(), 500)
+
+    expect(ranking.map(c => c.accountId)).toEqual(['Hub', 'Needy', 'X', 'Y'])
+    expect(ranking.map(c => c.shortfallClosed)).toEqual([500, 300, 200, 200])
+    expect(ranking[0].remainingShortfall).toBe(300)
+    expect(ranking[0].balances.get('X')).toBe(200)
+  })
+
+  it('does not modify the input accounts', () => {
+    const input = accounts()
+    rankInjectionPoints(input, 500)
+
+    expect(input.map(a => a.balance)).toEqual([0, 0, 0, 0])
+  })
+})
@@ -0,0 +1,71 @@
+/**
+ * Injection Point Recommender - Where should targeted funding land?
+ *
+ * For a given amount, simulates injecting it at every account in turn
+ * (runTargetedDistribution via evaluateFunding) and ranks the accounts by how
+ * much shortfall below minimum the whole network closes. Because overflow
+ * cascades along allocations, a well-connected hub can beat the neediest
+ * account.
+ */
+
+import type { Account } from './types'
+import type { DistributionConfig } from './engine'
+import { evaluateFunding } from './sensitivity'
+
+export interface InjectionCandidate {
+  accountId: string
+  /** Network-wide shortfall below minimum closed by injecting here */
+  shortfallClosed: number
+  /** Network-wide shortfall left afterwards */
+  remainingShortfall: number
+  /** Final balances after the injection */
+  balances: Map<string, number>
+}
+
+/**
+ * Sum of every account's distance below its minimum threshold
+ *
+ * Uses `balances` when given, otherwise the accounts' own balances.
+ */
+export function totalShortfall(accounts: Account[], balances?: Map<string, number>): number {
+  return accounts.reduce((sum, a) => {
+    const balance = balances?.get(a.id) ?? a.balance
+    return sum + Math.max(0, a.minThreshold - balance)
+  }, 0)
+}
+
+/**
+ * Rank every account as an injection point for `amount`
+ *
+ * Accounts are cloned - the input is not modified.
+ *
+ * @returns Candidates sorted by shortfall closed, best first (ties keep
+ *   account order)
+ */
+export function rankInjectionPoints(
+  accounts: Account[],
+  amount: number,
+  config: DistributionConfig = {}
+): InjectionCandidate[] {
+  if (amount < 0) {
+    throw new Error('Injection amount cannot be negative')
+  }
+
+  const before = totalShortfall(accounts)
+
+  return accounts
+    .map(account => {
+      const { balances } = evaluateFunding(accounts, amount, {
+        targetAccountId: account.id,
+        distribution: config,
+      })
+      const remainingShortfall = totalShortfall(accounts, balances)
+      return {
+        accountId: account.id,
+        shortfallClosed: before - remainingShortfall,
+        remainingShortfall,
+        balances,
+      }
+    })
+    .sort((a, b) => b.shortfallClosed - a.shortfallClosed)
+}
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest'
+import { cloneAccounts, runDistribution, type SolverMode } from './engine'
+import { ALL_SCENARIOS } from './scenarios'
+
+/**
+ * Round so snapshots don't churn on floating point noise
+ */
+const round = (value: number) => Number(value.toFixed(6))
+
+describe.each<SolverMode>(['iterative', 'exact'])('ALL_SCENARIOS golden output (%s)', (solver) => {
+  it.each(ALL_SCENARIOS.map(s => [s.id, s] as const))('%s', (_, scenario) => {
+    const result = runDistribution(cloneAccounts(scenario.accounts), scenario.suggestedFunding, {
+      solver,
+    })
+
+    expect({
+      converged: result.converged,
+      iterationCount: result.iterationCount,
+      overflowLost: round(result.overflowLost),
+      overflowCirculating: round(result.overflowCirculating),
+      finalBalances: Object.fromEntries(
+        Array.from(result.finalBalances, ([id, balance]) => [id, round(balance)])
+      ),
+    }).toMatchSnapshot()
+  })
+})
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest'
+import { evaluateFunding, runSensitivity } from './sensitivity'
+import type { Account } from './types'
+
+const accounts = (): Account[] => [
+  { id: 'A', name: 'A', balance: 0, minThreshold: 100, maxThreshold: 200, allocations: new Map([['B', 100]]) },
+  { id: 'B', name: 'B', balance: 0, minThreshold: 100, maxThreshold: 1000, allocations: new Map() },
+]
+
+const summarize = (breakpoints: ReturnType<typeof runSensitivity>['breakpoints']) =>
+  breakpoints.map(b => `${b.accountId} ${b.from} -> ${b.to}`)
+
+describe('runSensitivity', () => {
+  it('samples final balances from 0 to maxFunding', () => {
+    const { points } = runSensitivity(accounts(), { maxFunding: 1000, steps: 4 })
+
+    expect(points.map(p => p.funding)).toEqual([0, 250, 500, 750, 1000])
+    expect(points[1].balances.get('A')).toBeCloseTo(105)
+    expect(points[1].states.get('A')).toBe('sustainable')
+  })
+
+  it('finds the funding levels where accounts change state, between samples', () => {
+    // Samples at 0, 300, 600, ...: the breakpoints at 200 and 1200 fall in between
+    const { breakpoints } = runSensitivity(accounts(), { maxFunding: 1500, steps: 5 })
+
+    expect(summarize(breakpoints)).toEqual([
+      'A below-minimum -> sustainable',
+      'B below-minimum -> sustainable',
+      'A sustainable -> at-maximum',
+      'B sustainable -> at-maximum',
+    ])
+    expect(breakpoints[0].funding).toBeCloseTo(200, 1)
+    expect(breakpoints[2].funding).toBeCloseTo(1200, 1)
+  })
+
+  it('reports every state an account passes through between two samples', () => {
+    const { breakpoints } = runSensitivity(accounts(), {
+      maxFunding: 400,
+      steps: 1,
+      targetAccountId: 'A',
+    })
+
+    expect(summarize(breakpoints.filter(b => b.accountId === 'A'))).toEqual([
+      'A below-minimum -> sustainable',
+      'A sustainable -> at-maximum',
+    ])
+    expect(breakpoints.find(b => b.accountId === 'B')?.funding).toBeCloseTo(300, 1)
+  })
+
+  it('does not modify the input accounts', () => {
+    const input = accounts()
+    evaluateFunding(input, 500)
+    expect(input.map(a => a.balance)).toEqual([0, 0])
+  })
+})
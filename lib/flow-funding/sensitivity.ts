@@ -0,0 +1,154 @@
+/**
+ * Funding Sensitivity - How final balances respond to the funding amount
+ *
+ * Sweeps external funding from 0 to a maximum, running a fresh distribution
+ * at each level, and reports:
+ * - each account's final balance and AccountState per funding level
+ * - breakpoints: funding levels where an account's state changes, refined by
+ *   bisection between the sampled levels
+ */
+
+import type { Account, AccountState } from './types'
+import { getAccountState } from './types'
+import { cloneAccounts, runDistribution, type DistributionConfig } from './engine'
+import { runTargetedDistribution } from './targeted'
+
+export interface SensitivityConfig {
+  /** Highest funding level in the sweep */
+  maxFunding: number
+  /** Number of intervals between 0 and maxFunding (default: 50) */
+  steps?: number
+  /** Account that receives the funding; distributed globally when omitted */
+  targetAccountId?: string
+  /** Breakpoint search stops once the bracket is this narrow (default: 0.01) */
+  precision?: number
+  /** Passed to each distribution run */
+  distribution?: DistributionConfig
+}
+
+/**
+ * Final balances and states at one funding level
+ */
+export interface SensitivityPoint {
+  funding: number
+  balances: Map<string, number>
+  states: Map<string, AccountState>
+}
+
+/**
+ * Funding level at which an account changes state
+ */
+export interface Breakpoint {
+  accountId: string
+  /** Lowest funding (within precision) at which the account is in `to` */
+  funding: number
+  from: AccountState
+  to: AccountState
+}
+
+export interface SensitivityResult {
+  points: SensitivityPoint[]
+  /** Sorted by funding */
+  breakpoints: Breakpoint[]
+}
+
+/** Balances this close to a threshold count as at the threshold */
+const TOLERANCE = 1e-6
+
+/** Bisection steps per breakpoint (caps the work if precision is tiny) */
+const MAX_BISECTIONS = 40
+
+/**
+ * State of an account after a distribution has settled
+ */
+export function finalState(account: Account, balance: number): AccountState {
+  return getAccountState(
+    balance + TOLERANCE,
+    account.minThreshold,
+    account.maxThreshold,
+    balance > account.maxThreshold + TOLERANCE
+  )
+}
+
+/**
+ * Final balances and states when `funding` is added to the accounts
+ *
+ * Accounts are cloned - the input is not modified.
+ */
+export function evaluateFunding(
+  accounts: Account[],
+  funding: number,
+  config: Pick<SensitivityConfig, 'targetAccountId' | 'distribution'> = {}
+): SensitivityPoint {
+  const current = cloneAccounts(accounts)
+  let balances: Map<string, number>
+
+  if (config.targetAccountId) {
+    const target = current.find(a => a.id === config.targetAccountId)
+    if (!target) {
+      throw new Error(`Unknown target account: ${config.targetAccountId}`)
+    }
+    target.balance += funding
+    balances = runTargetedDistribution(current, config.distribution).finalBalances
+  } else {
+    balances = runDistribution(current, funding, config.distribution).finalBalances
+  }
+
+  return {
+    funding,
+    balances,
+    states: new Map(accounts.map(a => [a.id, finalState(a, balances.get(a.id) ?? a.balance)])),
+  }
+}
+
+/**
+ * Sweep funding from 0 to maxFunding
+ */
+export function runSensitivity(
+  accounts: Account[],
+  config: SensitivityConfig
+): SensitivityResult {
+  const { maxFunding, steps = 50, precision = 0.01 } = config
+  if (maxFunding <= 0 || steps < 1) {
+    throw new Error('Sensitivity sweep needs maxFunding > 0 and at least one step')
+  }
+
+  const evaluate = (funding: number) => evaluateFunding(accounts, funding, config)
+  const points = Array.from({ length: steps + 1 }, (_, i) => evaluate((maxFunding * i) / steps))
+
+  const breakpoints: Breakpoint[] = []
+  for (let i = 1; i < points.length; i++) {
+    const before = points[i - 1]
+    const after = points[i]
+
+    for (const account of accounts) {
+      let from = before.states.get(account.id)!
+      const to = after.states.get(account.id)!
+      let low = before.funding
+
+      // An account can pass through several states between two samples
+      while (from !== to) {
+        // Narrow the bracket to the first level at which the account has left `from`
+        let high = after.funding
+        let landed = to
+        for (let n = 0; n < MAX_BISECTIONS && high - low > precision; n++) {
+          const mid = (low + high) / 2
+          const state = evaluate(mid).states.get(account.id)!
+          if (state === from) {
+            low = mid
+          } else {
+            high = mid
+            landed = state
+          }
+        }
+
+        breakpoints.push({ accountId: account.id, funding: high, from, to: landed })
+        from = landed
+        low = high
+      }
+    }
+  }
+
+  breakpoints.sort((a, b) => a.funding - b.funding)
+  return { points, breakpoints }
+}
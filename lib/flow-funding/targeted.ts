@@ -3,6 +3,8 @@
  */
 
 import type { Account, DistributionResult, IterationResult } from './types'
+import type { SolverMode } from './engine'
+import { cloneAccounts, redistributeOverflow, settledFlows, settleExact, solveExact, unforwarded } from './engine'
 
 /**
  * Run distribution starting from current account balances
@@ -14,9 +16,15 @@ export function runTargetedDistribution(
     maxIterations?: number
     epsilon?: number
     verbose?: boolean
+    solver?: SolverMode
   } = {}
 ): DistributionResult {
-  const { maxIterations = 100, epsilon = 0.01, verbose = false } = config
+  const {
+    maxIterations = 100,
+    epsilon = 0.01,
+    verbose = false,
+    solver = 'iterative',
+  } = config
 
   // Store initial state
   const initialBalances = new Map(accounts.map(a => [a.id, a.balance]))
@@ -28,11 +36,25 @@ export function runTargetedDistribution(
     })
   }
 
-  // Run overflow redistribution iterations
   const iterations: IterationResult[] = []
+  const sent = new Map<string, number>()
   let converged = false
+  let overflowLost = 0
+  let overflowCirculating = 0
+
+  // Exact mode: settle in one step
+  const start = cloneAccounts(accounts)
+  const exact = solver === 'exact' ? solveExact(accounts, verbose) : null
+  const settled = exact ? settleExact(accounts, exact, verbose) : null
+  if (exact && settled) {
+    iterations.push(settled)
+    overflowLost = exact.overflowLost
+    overflowCirculating = exact.overflowCirculating
+    converged = true
+  }
 
-  for (let i = 0; i < maxIterations; i++) {
+  // Run overflow redistribution iterations
+  for (let i = 0; i < maxIterations && !converged; i++) {
     if (verbose) {
       console.log(`\n--- Iteration ${i} ---`)
     }
@@ -56,13 +78,12 @@ export function runTargetedDistribution(
     }
 
     // Record iteration state
-    const flows = new Map<string, number>()
     const iteration: IterationResult = {
       iteration: i,
       balances: new Map(accounts.map(a => [a.id, a.balance])),
       overflows,
       totalOverflow,
-      flows,
+      flows: new Map(),
       converged: totalOverflow < epsilon,
     }
 
@@ -71,51 +92,15 @@ export function runTargetedDistribution(
       if (verbose) {
         console.log(`✓ Converged (overflow < ${epsilon})`)
       }
+      overflowLost += totalOverflow
       converged = true
       iterations.push(iteration)
       break
     }
 
     // Redistribute overflow
-    const accountMap = new Map(accounts.map(a => [a.id, a]))
-
-    for (const [sourceId, overflow] of overflows.entries()) {
-      const source = accountMap.get(sourceId)
-      if (!source) continue
-
-      // Normalize allocations
-      let totalAllocation = 0
-      for (const percentage of source.allocations.values()) {
-        totalAllocation += percentage
-      }
-
-      if (totalAllocation === 0) {
-        if (verbose) {
-          console.log(`  ${sourceId}: no allocations - overflow lost`)
-        }
-        continue
-      }
-
-      // Distribute overflow
-      for (const [targetId, percentage] of source.allocations.entries()) {
-        const target = accountMap.get(targetId)
-        if (!target) continue
-
-        const normalizedPercentage = percentage / totalAllocation
-        const amount = overflow * normalizedPercentage
-
-        target.balance += amount
-        flows.set(`${sourceId}->${targetId}`, amount)
-
-        if (verbose) {
-          console.log(
-            `  ${sourceId} → ${targetId}: $${amount.toFixed(2)} (${percentage}%)`
-          )
-        }
-      }
-    }
-
-    iteration.flows = flows
+    iteration.flows = redistributeOverflow(accounts, overflows, verbose, sent)
+    overflowLost += unforwarded(totalOverflow, iteration.flows)
     iterations.push(iteration)
   }
 
@@ -144,5 +129,8 @@ export function runTargetedDistribution(
     converged,
     totalFunding: 0, // Not applicable for targeted
     iterationCount: iterations.length,
+    flows: settled ? settled.flows : settledFlows(start, sent, converged),
+    overflowLost,
+    overflowCirculating,
   }
 }
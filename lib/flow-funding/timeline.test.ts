@@ -0,0 +1,78 @@
+import fc from 'fast-check'
+import { describe, expect, it } from 'vitest'
+import { randomGraph, toAccounts } from '../testing/arbitraries'
+import { recurringSchedule, runTimeline } from './timeline'
+import type { Account } from './types'
+
+const accounts = (): Account[] => [
+  { id: 'A', name: 'A', balance: 0, minThreshold: 100, maxThreshold: 200, allocations: new Map([['B', 100]]) },
+  { id: 'B', name: 'B', balance: 0, minThreshold: 100, maxThreshold: 1000, allocations: new Map() },
+]
+
+describe('runTimeline', () => {
+  it('carries balances over between rounds', () => {
+    const timeline = runTimeline(accounts(), recurringSchedule(accounts(), 3, 100))
+
+    expect(timeline.rounds).toHaveLength(3)
+    expect(timeline.rounds[0].result.finalBalances.get('A')).toBeCloseTo(50)
+    expect(timeline.rounds[1].result.initialBalances.get('A')).toBeCloseTo(50)
+    // Round 3 is beyond both minimums and is split by remaining capacity
+    expect(timeline.finalBalances.get('A')).toBeCloseTo(110)
+    expect(timeline.finalBalances.get('B')).toBeCloseTo(190)
+  })
+
+  it('spends before funding and never below zero', () => {
+    const timeline = runTimeline(accounts(), recurringSchedule(accounts(), 2, 0, 0.5))
+
+    expect(timeline.rounds[0].spent.size).toBe(0)
+    expect(timeline.finalBalances.get('A')).toBe(0)
+
+    const funded = runTimeline(accounts(), [
+      { amount: 200 },
+      { amount: 0, spending: new Map([['A', 30], ['B', 500]]) },
+    ])
+    expect(funded.rounds[1].spent.get('A')).toBeCloseTo(30)
+    expect(funded.rounds[1].spent.get('B')).toBeCloseTo(100)
+    expect(funded.finalBalances.get('A')).toBeCloseTo(70)
+    expect(funded.finalBalances.get('B')).toBe(0)
+  })
+
+  it('lets funded accounts slide back into deficit once funding stops', () => {
+    const burning = accounts().map(a => ({ ...a, consumptionRate: 40 }))
+    const timeline = runTimeline(burning, [{ amount: 200 }, { amount: 0 }, { amount: 0 }])
+
+    expect(timeline.rounds[0].result.finalBalances.get('A')).toBeCloseTo(100)
+    expect(timeline.rounds[2].spent.get('A')).toBeCloseTo(40)
+    expect(timeline.finalBalances.get('A')).toBeCloseTo(20)
+  })
+
+  it('sends targeted rounds to one account and lets overflow cascade', () => {
+    const timeline = runTimeline(accounts(), recurringSchedule(accounts(), 2, 150, 0, 'A'))
+
+    expect(timeline.rounds[0].result.totalFunding).toBe(150)
+    expect(timeline.rounds[0].result.initialBalances.get('A')).toBe(0)
+    expect(timeline.finalBalances.get('A')).toBeCloseTo(200)
+    expect(timeline.finalBalances.get('B')).toBeCloseTo(100)
+  })
+
+  it('rejects an unknown target account', () => {
+    expect(() => runTimeline(accounts(), [{ amount: 10, targetAccountId: 'missing' }])).toThrow(
+      'unknown target account missing'
+    )
+  })
+
+  it('does not modify the input accounts', () => {
+    fc.assert(
+      fc.property(randomGraph, (graph) => {
+        const input = toAccounts(graph)
+        const before = input.map(a => a.balance)
+        const timeline = runTimeline(input, recurringSchedule(input, 3, 500, 0.25))
+
+        expect(input.map(a => a.balance)).toEqual(before)
+        for (const balance of timeline.finalBalances.values()) {
+          expect(balance).toBeGreaterThanOrEqual(-1e-6)
+        }
+      })
+    )
+  })
+})
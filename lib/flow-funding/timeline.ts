@@ -0,0 +1,139 @@
+/**
+ * Funding Timeline - Recurring funding rounds
+ *
+ * Runs a schedule of funding rounds against the same accounts. Each round:
+ * 1. Spending drains balances (never below zero) - each account's
+ *    consumptionRate plus any extra spending scheduled for the round
+ * 2. Funding arrives - globally via runDistribution, or to one account
+ *    followed by runTargetedDistribution
+ *
+ * Balances carry over between rounds, so the result is a time series of
+ * DistributionResults.
+ */
+
+import type { Account, DistributionResult } from './types'
+import {
+  applyConsumption,
+  cloneAccounts,
+  runDistribution,
+  type DistributionConfig,
+} from './engine'
+import { runTargetedDistribution } from './targeted'
+
+/**
+ * One round of the funding schedule
+ */
+export interface FundingRound {
+  /** External funding added this round */
+  amount: number
+  /** Account that receives the funding; distributed globally when omitted */
+  targetAccountId?: string
+  /** Extra spending this round, on top of consumptionRate (account ID -> amount) */
+  spending?: Map<string, number>
+}
+
+/**
+ * Result of a single round
+ */
+export interface TimelineRound {
+  /** Round number (0-indexed) */
+  round: number
+  funding: number
+  targetAccountId?: string
+  /** Actual amount spent per account (capped by available balance) */
+  spent: Map<string, number>
+  /** Distribution starting from the post-spending balances */
+  result: DistributionResult
+}
+
+/**
+ * Complete timeline result
+ */
+export interface TimelineResult {
+  /** Balances before the first round */
+  initialBalances: Map<string, number>
+  rounds: TimelineRound[]
+  /** Balances after the last round */
+  finalBalances: Map<string, number>
+}
+
+/**
+ * Build a schedule of identical rounds
+ *
+ * @param spendingRate - Extra fraction of each account's minThreshold spent
+ *   per round, on top of its consumptionRate
+ */
+export function recurringSchedule(
+  accounts: Account[],
+  roundCount: number,
+  amount: number,
+  spendingRate: number = 0,
+  targetAccountId?: string
+): FundingRound[] {
+  const spending = new Map(
+    accounts.map(a => [a.id, a.minThreshold * spendingRate])
+  )
+
+  return Array.from({ length: roundCount }, () => ({
+    amount,
+    targetAccountId,
+    spending,
+  }))
+}
+
+/**
+ * Run a schedule of funding rounds
+ *
+ * Accounts are cloned - the input is not modified.
+ */
+export function runTimeline(
+  accounts: Account[],
+  rounds: FundingRound[],
+  config: DistributionConfig = {}
+): TimelineResult {
+  const current = cloneAccounts(accounts)
+  const initialBalances = new Map(current.map(a => [a.id, a.balance]))
+  const results: TimelineRound[] = []
+
+  rounds.forEach((round, index) => {
+    if (config.verbose) {
+      console.log(`\n📅 Round ${index + 1}: $${round.amount.toFixed(2)}`)
+    }
+
+    // Phase 1: Spending
+    const spent = applyConsumption(current, 1, round.spending)
+
+    // Phase 2: Funding
+    let result: DistributionResult
+    if (round.targetAccountId) {
+      const target = current.find(a => a.id === round.targetAccountId)
+      if (!target) {
+        throw new Error(`Round ${index + 1}: unknown target account ${round.targetAccountId}`)
+      }
+
+      const before = new Map(current.map(a => [a.id, a.balance]))
+      target.balance += round.amount
+      result = {
+        ...runTargetedDistribution(current, config),
+        initialBalances: before,
+        totalFunding: round.amount,
+      }
+    } else {
+      result = runDistribution(current, round.amount, config)
+    }
+
+    results.push({
+      round: index,
+      funding: round.amount,
+      targetAccountId: round.targetAccountId,
+      spent,
+      result,
+    })
+  })
+
+  return {
+    initialBalances,
+    rounds: results,
+    finalBalances: new Map(current.map(a => [a.id, a.balance])),
+  }
+}
@@ -3,6 +3,8 @@
  * Isolated module for threshold-based flow funding mechanism
  */
 
+import type { AllocationLimits } from '../core/limits'
+
 /**
  * Represents an account in the flow funding network
  */
@@ -16,8 +18,14 @@ export interface Account {
   minThreshold: number
   /** Maximum threshold - beyond this, funds overflow */
   maxThreshold: number
+  /** Amount spent per period (burn rate); balances never go below zero */
+  consumptionRate?: number
+  /** Relative weight under the priority-weighted strategy (default 1) */
+  priority?: number
   /** Allocation preferences: map of target account ID to percentage (0-100) */
   allocations: Map<string, number>
+  /** Absolute floors/caps per round: map of target account ID to limits */
+  allocationLimits?: Map<string, AllocationLimits>
 }
 
 /**
@@ -46,14 +54,35 @@ export interface DistributionResult {
   initialBalances: Map<string, number>
   /** Final balances after convergence */
   finalBalances: Map<string, number>
-  /** History of each iteration */
+  /**
+   * History of each iteration
+   *
+   * With the exact solver this is a single step holding the settled flow
+   * along each allocation.
+   */
   iterations: IterationResult[]
-  /** Whether the distribution converged */
+  /**
+   * Whether the distribution converged (always, once the exact solver
+   * succeeds - excess it takes out of closed loops is overflowCirculating)
+   */
   converged: boolean
+  /**
+   * Funds that left the network: overflow with nowhere to go (no allocations,
+   * above allocation caps, or the sub-epsilon residual) and funding no account
+   * had room for
+   */
+  overflowLost: number
+  /** Excess the exact solver took out of closed loops of saturated accounts */
+  overflowCirculating: number
   /** Total external funding added */
   totalFunding: number
-  /** Number of iterations to convergence */
+  /** Number of iterations to convergence (1 for the exact solver) */
   iterationCount: number
+  /**
+   * Settled flow along each allocation (sourceId->targetId -> amount) - the
+   * trace's totals only while they do not keep circulating (see settledFlows)
+   */
+  flows: Map<string, number>
 }
 
 /**
@@ -81,10 +110,6 @@ export function getAccountState(
 }
 
 /**
- * Validation result for a flow funding network
+ * Validation result (shared by all engines)
  */
-export interface ValidationResult {
-  valid: boolean
-  errors: string[]
-  warnings: string[]
-}
+export type { ValidationResult } from '../core/types'
@@ -0,0 +1,142 @@
+import fc from 'fast-check'
+import { describe, expect, it } from 'vitest'
+import { randomGraph, sum, toFlowNodesV2 } from '../testing/arbitraries'
+import { calculateOutflow, calculateSteadyState, getFlowZone, updateBalances } from './engine-v2'
+import type { FlowNode } from './types'
+
+const TOLERANCE = 1e-9
+
+/**
+ * Node with thresholds and a given total inflow
+ */
+function nodeWithInflow(minThreshold: number, maxThreshold: number, totalInflow: number): FlowNode {
+  return {
+    id: 'A',
+    name: 'A',
+    externalInflow: totalInflow,
+    minThreshold,
+    maxThreshold,
+    allocations: new Map(),
+    totalInflow,
+  }
+}
+
+const thresholds = fc
+  .tuple(fc.integer({ min: 0, max: 1000 }), fc.integer({ min: 0, max: 1000 }))
+  .map(([a, b]) => ({ min: Math.min(a, b), max: Math.max(a, b) }))
+
+const inflow = fc.double({ min: 0, max: 5000, noNaN: true })
+
+describe('calculateOutflow', () => {
+  it('keeps everything in the deficit zone and shares all excess at capacity', () => {
+    expect(calculateOutflow(nodeWithInflow(100, 200, 50))).toBe(0)
+    expect(calculateOutflow(nodeWithInflow(100, 200, 500))).toBe(300)
+    // Building zone: halfway between min and 1.5 * max shares half of 0.5 * max
+    expect(calculateOutflow(nodeWithInflow(100, 200, 200))).toBeCloseTo(50)
+    expect(getFlowZone(nodeWithInflow(100, 200, 200))).toBe('building')
+  })
+
+  it('is monotone in inflow', () => {
+    fc.assert(
+      fc.property(thresholds, inflow, inflow, ({ min, max }, a, b) => {
+        const [low, high] = a <= b ? [a, b] : [b, a]
+        expect(calculateOutflow(nodeWithInflow(min, max, low))).toBeLessThanOrEqual(
+          calculateOutflow(nodeWithInflow(min, max, high)) + TOLERANCE
+        )
+      })
+    )
+  })
+
+  it('never shares more than the inflow or retains more than maxThreshold', () => {
+    fc.assert(
+      fc.property(thresholds, inflow, ({ min, max }, value) => {
+        const outflow = calculateOutflow(nodeWithInflow(min, max, value))
+        expect(outflow).toBeGreaterThanOrEqual(0)
+        expect(outflow).toBeLessThanOrEqual(value + TOLERANCE)
+        expect(value - outflow).toBeLessThanOrEqual(max + TOLERANCE)
+      })
+    )
+  })
+})
+
+describe('calculateSteadyState', () => {
+  it('conserves flow at steady state: external inflow = retained + lost', () => {
+    fc.assert(
+      fc.property(randomGraph, (graph) => {
+        const nodes = toFlowNodesV2(graph)
+        const network = calculateSteadyState(nodes)
+        fc.pre(network.converged)
+
+        const retained = sum(nodes, n => n.totalInflow! - n.totalOutflow!)
+        const lost = sum(nodes, n => (n.allocations.size === 0 ? n.totalOutflow! : 0))
+
+        expect(Math.abs(retained + lost - network.totalExternalInflow)).toBeLessThan(0.05)
+      })
+    )
+  })
+
+  it('sends outflow above an allocation cap to the overflow node', () => {
+    const nodes: FlowNode[] = [
+      {
+        id: 'A', name: 'A', externalInflow: 1000, minThreshold: 0, maxThreshold: 100,
+        allocations: new Map([['B', 100]]), allocationLimits: new Map([['B', { cap: 200 }]]),
+      },
+      { id: 'B', name: 'B', externalInflow: 0, minThreshold: 1000, maxThreshold: 2000, allocations: new Map() },
+    ]
+    const network = calculateSteadyState(nodes)
+
+    expect(network.edges.find(e => e.target === 'B')?.flowRate).toBeCloseTo(200)
+    expect(network.overflowNode?.totalInflow).toBeCloseTo(700)
+  })
+
+  it('never produces negative flows', () => {
+    fc.assert(
+      fc.property(randomGraph, (graph) => {
+        const nodes = toFlowNodesV2(graph)
+        const network = calculateSteadyState(nodes)
+
+        for (const node of nodes) {
+          expect(node.totalInflow!).toBeGreaterThanOrEqual(0)
+          expect(node.totalOutflow!).toBeGreaterThanOrEqual(0)
+        }
+        for (const edge of network.edges) {
+          expect(edge.flowRate).toBeGreaterThan(0)
+        }
+      })
+    )
+  })
+
+  it('keeps retained flow at or below maxThreshold after convergence', () => {
+    fc.assert(
+      fc.property(randomGraph, (graph) => {
+        const nodes = toFlowNodesV2(graph)
+        fc.pre(calculateSteadyState(nodes).converged)
+
+        for (const node of nodes) {
+          // totalOutflow lags totalInflow by one (sub-epsilon) iteration
+          expect(node.totalInflow! - node.totalOutflow!).toBeLessThanOrEqual(node.maxThreshold + 0.01)
+        }
+      })
+    )
+  })
+})
+
+describe('updateBalances', () => {
+  const MONTH = 30 * 24 * 60 * 60
+
+  it('accumulates retained flow minus consumption', () => {
+    const node = { ...nodeWithInflow(100, 500, 300), totalOutflow: 100, consumptionRate: 150 }
+    updateBalances([node], MONTH)
+
+    expect(node.balance).toBeCloseTo(50)
+  })
+
+  it('drains unfunded nodes to zero, never below', () => {
+    const node = { ...nodeWithInflow(100, 500, 0), balance: 80, consumptionRate: 100 }
+    updateBalances([node], MONTH / 2)
+    expect(node.balance).toBeCloseTo(30)
+
+    updateBalances([node], MONTH)
+    expect(node.balance).toBe(0)
+  })
+})
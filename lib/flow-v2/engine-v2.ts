@@ -12,6 +12,9 @@ import type {
   OverflowNode,
   ValidationResult,
 } from './types'
+import { fromFlowNodesV2 } from '../core/adapters'
+import { splitWithLimits } from '../core/limits'
+import { validateGraph } from '../core/validation'
 
 /**
  * Time conversion constants
@@ -116,74 +119,30 @@ export function calculateOutflow(node: FlowNode): number {
  * Validate network structure
  */
 export function validateNetwork(nodes: FlowNode[]): ValidationResult {
-  const errors: string[] = []
-  const warnings: string[] = []
-
-  if (nodes.length === 0) {
-    errors.push('Network must contain at least one node')
-    return { valid: false, errors, warnings }
-  }
-
-  const nodeIds = new Set(nodes.map(n => n.id))
-
-  for (const node of nodes) {
-    // Check thresholds
-    if (node.minThreshold < 0) {
-      errors.push(`Node ${node.id}: min threshold must be non-negative`)
-    }
-    if (node.maxThreshold < 0) {
-      errors.push(`Node ${node.id}: max threshold must be non-negative`)
-    }
-    if (node.minThreshold > node.maxThreshold) {
-      errors.push(
-        `Node ${node.id}: min threshold (${node.minThreshold}) ` +
-          `exceeds max threshold (${node.maxThreshold})`
-      )
-    }
-
-    // Check external inflow
-    if (node.externalInflow < 0) {
-      errors.push(`Node ${node.id}: external inflow must be non-negative`)
-    }
-
-    // Check allocations
-    let totalAllocation = 0
-    for (const [targetId, percentage] of node.allocations.entries()) {
-      if (percentage < 0 || percentage > 100) {
-        errors.push(
-          `Node ${node.id}: allocation to ${targetId} must be 0-100`
-        )
-      }
-      if (!nodeIds.has(targetId)) {
-        errors.push(
-          `Node ${node.id}: allocation target ${targetId} does not exist`
-        )
-      }
-      if (targetId === node.id) {
-        errors.push(`Node ${node.id}: cannot allocate to itself`)
-      }
-      totalAllocation += percentage
-    }
-
-    if (totalAllocation > 100.01) {
-      errors.push(
-        `Node ${node.id}: total allocations (${totalAllocation}%) exceed 100%`
-      )
-    }
-
-    // Warnings
-    if (node.allocations.size === 0 && nodes.length > 1) {
-      warnings.push(
-        `Node ${node.id}: no outgoing allocations (overflow will be lost)`
-      )
-    }
-  }
+  return validateGraph(fromFlowNodesV2(nodes), 'flow-v2')
+}
 
-  return {
-    valid: errors.length === 0,
-    errors,
-    warnings,
+/**
+ * Split a node's outflow across its allocations
+ *
+ * Allocations are normalized; floors and caps ($/month) apply on top.
+ * Outflow above the caps is not returned (it goes to the overflow node).
+ */
+function splitOutflow(node: FlowNode, outflow: number): Map<string, number> {
+  let totalAllocation = 0
+  for (const percentage of node.allocations.values()) {
+    totalAllocation += percentage
   }
+  if (totalAllocation === 0) return new Map()
+
+  return splitWithLimits(
+    outflow,
+    Array.from(node.allocations, ([targetId, percentage]) => ({
+      key: targetId,
+      weight: percentage / totalAllocation,
+      ...node.allocationLimits?.get(targetId),
+    }))
+  )
 }
 
 /**
@@ -258,23 +217,11 @@ export function calculateSteadyState(
       const outflow = source.totalOutflow || 0
 
       if (outflow > 0) {
-        // Normalize allocations
-        let totalAllocation = 0
-        for (const percentage of source.allocations.values()) {
-          totalAllocation += percentage
-        }
-
-        if (totalAllocation > 0) {
-          for (const [targetId, percentage] of source.allocations.entries()) {
-            const target = nodeMap.get(targetId)
-            if (!target) continue
+        for (const [targetId, flowAmount] of splitOutflow(source, outflow)) {
+          if (!nodeMap.has(targetId)) continue
 
-            const normalizedPercentage = percentage / totalAllocation
-            const flowAmount = outflow * normalizedPercentage
-
-            const currentInflow = newInflows.get(targetId) || 0
-            newInflows.set(targetId, currentInflow + flowAmount)
-          }
+          const currentInflow = newInflows.get(targetId) || 0
+          newInflows.set(targetId, currentInflow + flowAmount)
         }
       }
     }
@@ -322,25 +269,13 @@ export function calculateSteadyState(
     const outflow = source.totalOutflow || 0
 
     if (outflow > 0) {
-      let totalAllocation = 0
-      for (const percentage of source.allocations.values()) {
-        totalAllocation += percentage
-      }
-
-      if (totalAllocation > 0) {
-        for (const [targetId, percentage] of source.allocations.entries()) {
-          const normalizedPercentage = percentage / totalAllocation
-          const flowRate = outflow * normalizedPercentage
-
-          if (flowRate > 0) {
-            edges.push({
-              source: source.id,
-              target: targetId,
-              flowRate,
-              percentage,
-            })
-          }
-        }
+      for (const [targetId, flowRate] of splitOutflow(source, outflow)) {
+        edges.push({
+          source: source.id,
+          target: targetId,
+          flowRate,
+          percentage: source.allocations.get(targetId) || 0,
+        })
       }
     }
   }
@@ -376,7 +311,15 @@ export function calculateSteadyState(
     const unallocatedPercentage = Math.max(0, 100 - totalAllocation)
     const unallocated = (outflow * unallocatedPercentage) / 100
 
-    totalUnallocatedOverflow += unallocated
+    // Outflow above allocation caps
+    let aboveCaps = 0
+    if (totalAllocation > 0 && node.allocationLimits) {
+      const allocated = Array.from(splitOutflow(node, outflow).values())
+        .reduce((sum, amount) => sum + amount, 0)
+      aboveCaps = Math.max(0, outflow - allocated)
+    }
+
+    totalUnallocatedOverflow += unallocated + aboveCaps
   }
 
   if (totalUnallocatedOverflow > epsilon) {
@@ -431,6 +374,7 @@ export function cloneNodes(nodes: FlowNode[]): FlowNode[] {
   return nodes.map(n => ({
     ...n,
     allocations: new Map(n.allocations),
+    allocationLimits: n.allocationLimits && new Map(n.allocationLimits),
     totalInflow: n.totalInflow,
     totalOutflow: n.totalOutflow,
     balance: n.balance,
@@ -440,6 +384,9 @@ export function cloneNodes(nodes: FlowNode[]): FlowNode[] {
 /**
  * Update node balances based on flow rates over time
  * (For visualization - accumulate balance over delta time)
+ *
+ * Retained flow (inflow - outflow) adds to the balance and consumption
+ * drains it; balances never go below zero.
  */
 export function updateBalances(
   nodes: FlowNode[],
@@ -448,8 +395,9 @@ export function updateBalances(
   for (const node of nodes) {
     const inflowPerSecond = perMonthToPerSecond(node.totalInflow || 0)
     const outflowPerSecond = perMonthToPerSecond(node.totalOutflow || 0)
-    const netFlowPerSecond = inflowPerSecond - outflowPerSecond
+    const consumptionPerSecond = perMonthToPerSecond(node.consumptionRate || 0)
+    const netFlowPerSecond = inflowPerSecond - outflowPerSecond - consumptionPerSecond
 
-    node.balance = (node.balance || 0) + netFlowPerSecond * deltaSeconds
+    node.balance = Math.max(0, (node.balance || 0) + netFlowPerSecond * deltaSeconds)
   }
 }
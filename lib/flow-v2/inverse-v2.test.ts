@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest'
+import { evaluateInflow, solveRequiredInflow } from './inverse-v2'
+import type { FlowNode } from './types'
+
+const nodes = (): FlowNode[] => [
+  { id: 'A', name: 'A', externalInflow: 0, minThreshold: 100, maxThreshold: 200, allocations: new Map([['B', 100]]) },
+  { id: 'B', name: 'B', externalInflow: 0, minThreshold: 100, maxThreshold: 1000, allocations: new Map() },
+]
+
+describe('solveRequiredInflow', () => {
+  it('finds the inflow at which every node reaches its minimum', () => {
+    const result = solveRequiredInflow(nodes())
+
+    expect(result?.inflow).toBeCloseTo(200, 1)
+    expect(result?.totalInflows.get('B')).toBeCloseTo(100, 1)
+  })
+
+  it('finds the inflow needed when it enters at one node', () => {
+    // A shares (inflow - 100) / 2 in its building zone, so B gets 100 at 300
+    const result = solveRequiredInflow(nodes(), { targetNodeId: 'A' })
+
+    expect(result?.inflow).toBeCloseTo(300, 1)
+    expect(result?.totalInflows.get('A')).toBeCloseTo(300, 1)
+  })
+
+  it('solves for a subset of nodes reaching their maximum', () => {
+    // Above 300 A retains its max of 200 and passes on the rest
+    const result = solveRequiredInflow(nodes(), { goal: 'max', nodeIds: ['B'], targetNodeId: 'A' })
+
+    expect(result?.inflow).toBeCloseTo(1200, 1)
+  })
+
+  it('returns null when inflow can never reach a node', () => {
+    expect(solveRequiredInflow(nodes(), { targetNodeId: 'B' })).toBeNull()
+  })
+
+  it('does not modify the input nodes', () => {
+    const input = nodes()
+    evaluateInflow(input, 500, { targetNodeId: 'A' })
+
+    expect(input.map(n => n.externalInflow)).toEqual([0, 0])
+    expect(input[0].totalInflow).toBeUndefined()
+  })
+})
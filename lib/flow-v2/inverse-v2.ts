@@ -0,0 +1,113 @@
+/**
+ * Flow Funding V2 Inverse Solver - Minimum inflow required to reach a target zone
+ *
+ * Answers "how much additional external inflow ($/month) do we need so that
+ * ...": every node's total inflow reaches its minimum (the default goal), or
+ * a chosen subset reaches its maximum. The inflow is either added to one
+ * node or split across nodes with an initial distribution strategy.
+ *
+ * Total inflows never decrease as external inflow grows, so the answer is
+ * found by searching over steady-state calculations.
+ */
+
+import type { FlowNode } from './types'
+import { calculateSteadyState, cloneNodes, type FlowConfig } from './engine-v2'
+import { fromFlowNodesV2 } from '../core/adapters'
+import { findMinimum } from '../core/search'
+import { getStrategy, type StrategyId } from '../core/strategies'
+
+/** Threshold every selected node's total inflow has to reach */
+export type InflowGoal = 'min' | 'max'
+
+export interface InverseConfigV2 {
+  /** Threshold to reach (default: 'min') */
+  goal?: InflowGoal
+  /** Nodes that must reach the goal (default: all) */
+  nodeIds?: string[]
+  /** Node that receives the additional inflow; split by `strategy` when omitted */
+  targetNodeId?: string
+  /** How untargeted inflow is split (default: proportional to shortfall) */
+  strategy?: StrategyId
+  /** Answer precision in $/month (default: 0.01) */
+  precision?: number
+  /** Passed to each steady-state calculation */
+  flow?: FlowConfig
+}
+
+export interface InverseResultV2 {
+  /** Least additional inflow ($/month, rounded up to the precision) that reaches the goal */
+  inflow: number
+  /** Steady-state total inflow per node at that inflow */
+  totalInflows: Map<string, number>
+}
+
+/** Inflows this close to a threshold count as at the threshold */
+const TOLERANCE = 1e-6
+
+/**
+ * Steady-state total inflows after adding `inflow` to the external inflows
+ *
+ * Nodes are cloned - the input is not modified.
+ */
+export function evaluateInflow(
+  nodes: FlowNode[],
+  inflow: number,
+  config: Pick<InverseConfigV2, 'targetNodeId' | 'strategy' | 'flow'> = {}
+): Map<string, number> {
+  const current = cloneNodes(nodes)
+
+  if (config.targetNodeId) {
+    const target = current.find(n => n.id === config.targetNodeId)
+    if (!target) {
+      throw new Error(`Unknown target node: ${config.targetNodeId}`)
+    }
+    target.externalInflow += inflow
+  } else {
+    const amounts = getStrategy(config.strategy).allocate(fromFlowNodesV2(current), inflow)
+    for (const node of current) {
+      node.externalInflow += amounts.get(node.id) || 0
+    }
+  }
+
+  const network = calculateSteadyState(current, config.flow)
+  return new Map(current.map(n => [n.id, network.nodes.get(n.id)?.totalInflow || 0]))
+}
+
+/**
+ * Minimum additional inflow at which the selected nodes reach their goal
+ *
+ * @returns null if no inflow reaches the goal - e.g. flow leaves through
+ *   nodes without allocations or above allocation caps before it gets to a
+ *   selected node
+ */
+export function solveRequiredInflow(
+  nodes: FlowNode[],
+  config: InverseConfigV2 = {}
+): InverseResultV2 | null {
+  const { goal = 'min', precision = 0.01 } = config
+
+  const selected = config.nodeIds
+    ? config.nodeIds.map(id => {
+        const node = nodes.find(n => n.id === id)
+        if (!node) throw new Error(`Unknown node: ${id}`)
+        return node
+      })
+    : nodes
+  const threshold = (n: FlowNode) => (goal === 'min' ? n.minThreshold : n.maxThreshold)
+
+  const reached = (inflow: number) => {
+    const totalInflows = evaluateInflow(nodes, inflow, config)
+    return selected.every(n => (totalInflows.get(n.id) ?? 0) + TOLERANCE >= threshold(n))
+  }
+
+  // Feeding the selected shortfalls directly is usually the right magnitude
+  const shortfall = selected.reduce(
+    (sum, n) => sum + Math.max(0, threshold(n) - n.externalInflow),
+    0
+  )
+
+  const inflow = findMinimum(reached, shortfall, precision)
+  if (inflow === null) return null
+
+  return { inflow, totalInflows: evaluateInflow(nodes, inflow, config) }
+}
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest'
+import { calculateSteadyState, cloneNodes, getFlowZone } from './engine-v2'
+import { ALL_SCENARIOS_V2 } from './scenarios-v2'
+
+/**
+ * Round so snapshots don't churn on floating point noise
+ */
+const round = (value: number) => Number(value.toFixed(6))
+
+describe('ALL_SCENARIOS_V2 golden output', () => {
+  it.each(ALL_SCENARIOS_V2.map(s => [s.id, s] as const))('%s', (_, scenario) => {
+    const nodes = cloneNodes(scenario.nodes)
+    const network = calculateSteadyState(nodes)
+
+    expect({
+      converged: network.converged,
+      iterations: network.iterations,
+      nodes: Object.fromEntries(
+        nodes.map(n => [
+          n.id,
+          {
+            inflow: round(n.totalInflow!),
+            outflow: round(n.totalOutflow!),
+            zone: getFlowZone(n),
+          },
+        ])
+      ),
+      edges: network.edges.map(e => `${e.source}->${e.target}: ${round(e.flowRate)}`),
+      overflow: network.overflowNode ? round(network.overflowNode.totalInflow) : null,
+    }).toMatchSnapshot()
+  })
+})
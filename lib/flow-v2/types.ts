@@ -4,6 +4,8 @@
  * Core types for the flow-oriented funding mechanism
  */
 
+import type { AllocationLimits } from '../core/limits'
+
 /**
  * Flow Node - A participant in the flow network
  *
@@ -21,9 +23,11 @@ export interface FlowNode {
   externalInflow: number  // From funders/sliders
   minThreshold: number    // Needs level
   maxThreshold: number    // Capacity level
+  consumptionRate?: number  // Spending drawn from the balance ($/month)
 
   // Where overflow flows to (percentages sum to ≤100)
   allocations: Map<string, number>
+  allocationLimits?: Map<string, AllocationLimits>  // Floors/caps ($/month) per target
 
   // Computed during steady-state calculation
   totalInflow?: number    // External + incoming from other nodes
@@ -108,10 +112,6 @@ export interface ScenarioV2 {
 }
 
 /**
- * Validation result
+ * Validation result (shared by all engines)
  */
-export interface ValidationResult {
-  valid: boolean
-  errors: string[]
-  warnings: string[]
-}
+export type { ValidationResult } from '../core/types'
@@ -0,0 +1,162 @@
+/**
+ * Network Document Schema
+ *
+ * Versioned JSON format for saving and loading networks from all four models.
+ * Maps (allocations, layouts) are stored as plain records so documents survive
+ * JSON.stringify; computed properties are omitted and recalculated on import.
+ */
+
+import { z } from 'zod'
+import type { ModelKind } from '../core/types'
+
+/**
+ * Identifies network documents produced by this app
+ */
+export const NETWORK_DOCUMENT_FORMAT = 'flow-funding-network'
+
+/**
+ * Current document version - bump when the shape of `data` changes
+ */
+export const NETWORK_DOCUMENT_VERSION = 1
+
+/**
+ * Model a document belongs to (one per lib/ module)
+ */
+export type NetworkModel = ModelKind
+
+const nonNegative = z.number().finite().nonnegative()
+const position = z.object({ x: z.number().finite(), y: z.number().finite() })
+
+/** Target ID -> percentage (0-100) */
+const percentageRecord = z.record(z.string(), z.number().finite().min(0).max(100))
+
+/** Absolute allocation floor/cap (lib/core/limits.ts) */
+const limits = { floor: nonNegative.optional(), cap: nonNegative.optional() }
+
+/** Target ID -> floor/cap */
+const limitsRecord = z.record(z.string(), z.object(limits))
+
+/** Flow-funding Scenario (lib/flow-funding/scenarios.ts) */
+const flowFundingData = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  description: z.string().default(''),
+  suggestedFunding: nonNegative,
+  accounts: z.array(
+    z.object({
+      id: z.string().min(1),
+      name: z.string(),
+      balance: nonNegative,
+      minThreshold: nonNegative,
+      maxThreshold: nonNegative,
+      consumptionRate: nonNegative.optional(),
+      priority: nonNegative.optional(),
+      allocations: percentageRecord,
+      allocationLimits: limitsRecord.optional(),
+    })
+  ),
+  layout: z.record(z.string(), position),
+})
+
+/** Flow-v2 ScenarioV2 (lib/flow-v2/types.ts) */
+const flowV2Data = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  description: z.string().default(''),
+  suggestedTotalInflow: nonNegative,
+  nodes: z.array(
+    z.object({
+      id: z.string().min(1),
+      name: z.string(),
+      externalInflow: nonNegative,
+      minThreshold: nonNegative,
+      maxThreshold: nonNegative,
+      consumptionRate: nonNegative.optional(),
+      allocations: percentageRecord,
+      allocationLimits: limitsRecord.optional(),
+    })
+  ),
+  layout: z.record(z.string(), position),
+})
+
+/** TBFF FlowFundingNetwork (lib/tbff/types.ts) */
+const tbffData = z.object({
+  name: z.string(),
+  accounts: z.array(
+    z.object({
+      id: z.string().min(1),
+      name: z.string(),
+      balance: nonNegative,
+      minThreshold: nonNegative,
+      maxThreshold: nonNegative,
+      consumptionRate: nonNegative.optional(),
+      priority: nonNegative.optional(),
+      x: z.number().finite(),
+      y: z.number().finite(),
+      width: z.number().finite().positive(),
+      height: z.number().finite().positive(),
+    })
+  ),
+  allocations: z.array(
+    z.object({
+      id: z.string().min(1),
+      sourceAccountId: z.string(),
+      targetAccountId: z.string(),
+      percentage: z.number().finite().min(0).max(1),
+      ...limits,
+    })
+  ),
+})
+
+/** TBFF-flow FlowNetwork (lib/tbff-flow/types.ts), without the overflow sink */
+const tbffFlowData = z.object({
+  name: z.string(),
+  nodes: z.array(
+    z.object({
+      id: z.string().min(1),
+      name: z.string(),
+      x: z.number().finite(),
+      y: z.number().finite(),
+      width: z.number().finite().positive(),
+      height: z.number().finite().positive(),
+      minAbsorption: nonNegative,
+      maxAbsorption: nonNegative,
+      externalFlow: nonNegative,
+    })
+  ),
+  allocations: z.array(
+    z.object({
+      id: z.string().min(1),
+      sourceNodeId: z.string(),
+      targetNodeId: z.string(),
+      percentage: z.number().finite().min(0).max(1),
+      ...limits,
+    })
+  ),
+})
+
+const envelope = <M extends NetworkModel, T extends z.ZodTypeAny>(model: M, data: T) =>
+  z.object({
+    format: z.literal(NETWORK_DOCUMENT_FORMAT),
+    version: z.literal(NETWORK_DOCUMENT_VERSION),
+    model: z.literal(model),
+    data,
+  })
+
+/**
+ * Shape only - structural rules (unique ids, known allocation targets,
+ * thresholds, ...) are checked by the core validator after parsing
+ */
+export const networkDocumentSchema = z.discriminatedUnion('model', [
+  envelope('flow-funding', flowFundingData),
+  envelope('flow-v2', flowV2Data),
+  envelope('tbff', tbffData),
+  envelope('tbff-flow', tbffFlowData),
+])
+
+export type NetworkDocument = z.infer<typeof networkDocumentSchema>
+
+/**
+ * Document for a specific model
+ */
+export type NetworkDocumentOf<M extends NetworkModel> = Extract<NetworkDocument, { model: M }>
@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest'
+import { ALL_SCENARIOS } from '../flow-funding/scenarios'
+import { ALL_SCENARIOS_V2 } from '../flow-v2/scenarios-v2'
+import { sampleNetworks, getSampleNetwork } from '../tbff/sample-networks'
+import { flowSampleNetworks, getFlowSampleNetwork } from '../tbff-flow/sample-networks'
+import { NETWORK_DOCUMENT_VERSION, type NetworkDocument } from './schema'
+import {
+  deserializeFlowNetwork,
+  deserializeScenario,
+  deserializeScenarioV2,
+  deserializeTbffNetwork,
+  parseNetworkDocument,
+  parseNetworkDocumentOf,
+  serializeFlowNetwork,
+  serializeScenario,
+  serializeScenarioV2,
+  serializeTbffNetwork,
+  stringifyNetworkDocument,
+} from './serialization'
+
+/**
+ * Export a document, import it again and re-export the result
+ */
+function roundTrip<D extends NetworkDocument>(doc: D, reexport: (imported: NetworkDocument) => D): D {
+  return reexport(parseNetworkDocument(stringifyNetworkDocument(doc)))
+}
+
+describe('network document round-trips', () => {
+  it.each(ALL_SCENARIOS.map(s => [s.id, s] as const))('flow-funding %s', (_, scenario) => {
+    const doc = serializeScenario(scenario)
+    const reexported = roundTrip(doc, imported =>
+      serializeScenario(deserializeScenario(imported as typeof doc))
+    )
+
+    expect(reexported).toEqual(doc)
+    expect(deserializeScenario(doc).accounts[0].allocations).toBeInstanceOf(Map)
+  })
+
+  it.each(ALL_SCENARIOS_V2.map(s => [s.id, s] as const))('flow-v2 %s', (_, scenario) => {
+    const doc = serializeScenarioV2(scenario)
+    const reexported = roundTrip(doc, imported =>
+      serializeScenarioV2(deserializeScenarioV2(imported as typeof doc))
+    )
+
+    expect(reexported).toEqual(doc)
+  })
+
+  it.each(Object.keys(sampleNetworks) as (keyof typeof sampleNetworks)[])('tbff %s', key => {
+    const network = getSampleNetwork(key)
+    const doc = serializeTbffNetwork(network)
+    const imported = deserializeTbffNetwork(roundTrip(doc, d => d as typeof doc))
+
+    expect(serializeTbffNetwork(imported)).toEqual(doc)
+    // Computed properties are recalculated on import
+    expect(imported.totalFunds).toBeCloseTo(network.totalFunds)
+    expect(imported.accounts.map(a => a.status)).toEqual(network.accounts.map(a => a.status))
+  })
+
+  it.each(Object.keys(flowSampleNetworks) as (keyof typeof flowSampleNetworks)[])('tbff-flow %s', key => {
+    const doc = serializeFlowNetwork(getFlowSampleNetwork(key))
+    const imported = deserializeFlowNetwork(roundTrip(doc, d => d as typeof doc))
+
+    expect(serializeFlowNetwork(imported)).toEqual(doc)
+    expect(imported.nodes.some(n => n.isOverflowSink)).toBe(false)
+  })
+})
+
+describe('parseNetworkDocument', () => {
+  const valid = () => serializeScenario(ALL_SCENARIOS[0])
+
+  it('rejects text that is not JSON', () => {
+    expect(() => parseNetworkDocument('{ not json')).toThrow('not valid JSON')
+  })
+
+  it('rejects documents from other apps and versions', () => {
+    expect(() => parseNetworkDocument(JSON.stringify({ ...valid(), format: 'other' }))).toThrow(
+      'Invalid network file'
+    )
+    expect(() =>
+      parseNetworkDocument(JSON.stringify({ ...valid(), version: NETWORK_DOCUMENT_VERSION + 1 }))
+    ).toThrow('Invalid network file')
+  })
+
+  it('lists malformed fields by path', () => {
+    const doc = valid()
+    doc.data.accounts[0].balance = -5
+
+    expect(() => parseNetworkDocument(JSON.stringify(doc))).toThrow('data.accounts.0.balance')
+  })
+
+  it('rejects structurally invalid networks', () => {
+    const doc = valid()
+    doc.data.accounts[0].allocations = { nowhere: 50 }
+
+    expect(() => parseNetworkDocument(JSON.stringify(doc))).toThrow('Invalid network file')
+  })
+
+  it('rejects a document for another model', () => {
+    const json = stringifyNetworkDocument(serializeTbffNetwork(getSampleNetwork('statesDemo')))
+
+    expect(parseNetworkDocumentOf(json, 'tbff').model).toBe('tbff')
+    expect(() => parseNetworkDocumentOf(json, 'flow-funding')).toThrow(
+      'Expected a flow-funding network, but got a tbff network'
+    )
+  })
+})
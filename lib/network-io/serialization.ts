@@ -0,0 +1,302 @@
+/**
+ * Network Serialization
+ *
+ * Converts between in-memory networks (with Maps and computed properties)
+ * and versioned JSON documents.
+ */
+
+import {
+  fromAccounts,
+  fromFlowNetwork,
+  fromFlowNodesV2,
+  fromTbffNetwork,
+} from '../core/adapters'
+import type { FundingGraph } from '../core/types'
+import { validateGraph } from '../core/validation'
+import type { Scenario } from '../flow-funding/scenarios'
+import type { ScenarioV2 } from '../flow-v2/types'
+import type { FlowFundingNetwork } from '../tbff/types'
+import { calculateNetworkTotals, updateAccountComputedProperties } from '../tbff/utils'
+import type { FlowNetwork } from '../tbff-flow/types'
+import { calculateFlowNetworkTotals, updateFlowNodeProperties } from '../tbff-flow/utils'
+import {
+  NETWORK_DOCUMENT_FORMAT,
+  NETWORK_DOCUMENT_VERSION,
+  networkDocumentSchema,
+  type NetworkDocument,
+  type NetworkDocumentOf,
+  type NetworkModel,
+} from './schema'
+
+function envelope<M extends NetworkModel>(
+  model: M,
+  data: NetworkDocumentOf<M>['data']
+): NetworkDocumentOf<M> {
+  return {
+    format: NETWORK_DOCUMENT_FORMAT,
+    version: NETWORK_DOCUMENT_VERSION,
+    model,
+    data,
+  } as NetworkDocumentOf<M>
+}
+
+/**
+ * Parse and validate a JSON document
+ * Throws with a readable list of problems if the document is invalid
+ */
+export function parseNetworkDocument(json: string): NetworkDocument {
+  let raw: unknown
+  try {
+    raw = JSON.parse(json)
+  } catch {
+    throw new Error('Network file is not valid JSON')
+  }
+
+  const parsed = networkDocumentSchema.safeParse(raw)
+  if (!parsed.success) {
+    const problems = parsed.error.issues.map(issue =>
+      issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message
+    )
+    throw new Error(`Invalid network file:\n${problems.join('\n')}`)
+  }
+
+  const validation = validateGraph(documentToGraph(parsed.data), parsed.data.model)
+  if (!validation.valid) {
+    throw new Error(`Invalid network file:\n${validation.errors.join('\n')}`)
+  }
+
+  return parsed.data
+}
+
+/**
+ * Core graph for a document, via the model's deserializer
+ */
+export function documentToGraph(doc: NetworkDocument): FundingGraph {
+  switch (doc.model) {
+    case 'flow-funding': {
+      const scenario = deserializeScenario(doc)
+      return fromAccounts(scenario.accounts, scenario.layout)
+    }
+    case 'flow-v2': {
+      const scenario = deserializeScenarioV2(doc)
+      return fromFlowNodesV2(scenario.nodes, scenario.layout)
+    }
+    case 'tbff':
+      return fromTbffNetwork(deserializeTbffNetwork(doc))
+    case 'tbff-flow':
+      return fromFlowNetwork(deserializeFlowNetwork(doc))
+  }
+}
+
+/**
+ * Parse a document and check that it belongs to the expected model
+ */
+export function parseNetworkDocumentOf<M extends NetworkModel>(
+  json: string,
+  model: M
+): NetworkDocumentOf<M> {
+  return expectNetworkModel(parseNetworkDocument(json), model)
+}
+
+/**
+ * Narrow an already-parsed document to the expected model
+ */
+export function expectNetworkModel<M extends NetworkModel>(
+  doc: NetworkDocument,
+  model: M
+): NetworkDocumentOf<M> {
+  if (doc.model !== model) {
+    throw new Error(`Expected a ${model} network, but got a ${doc.model} network`)
+  }
+  return doc as NetworkDocumentOf<M>
+}
+
+/**
+ * Stringify a document for download
+ */
+export function stringifyNetworkDocument(doc: NetworkDocument): string {
+  return JSON.stringify(doc, null, 2)
+}
+
+// ============================================================================
+// Flow Funding (Scenario)
+// ============================================================================
+
+export function serializeScenario(scenario: Scenario): NetworkDocumentOf<'flow-funding'> {
+  return envelope('flow-funding', {
+    id: scenario.id,
+    name: scenario.name,
+    description: scenario.description,
+    suggestedFunding: scenario.suggestedFunding,
+    accounts: scenario.accounts.map(a => ({
+      id: a.id,
+      name: a.name,
+      balance: a.balance,
+      minThreshold: a.minThreshold,
+      maxThreshold: a.maxThreshold,
+      consumptionRate: a.consumptionRate,
+      priority: a.priority,
+      allocations: Object.fromEntries(a.allocations),
+      allocationLimits: a.allocationLimits && Object.fromEntries(a.allocationLimits),
+    })),
+    layout: Object.fromEntries(scenario.layout),
+  })
+}
+
+export function deserializeScenario(doc: NetworkDocumentOf<'flow-funding'>): Scenario {
+  const { data } = doc
+  return {
+    ...data,
+    accounts: data.accounts.map(a => ({
+      ...a,
+      allocations: new Map(Object.entries(a.allocations)),
+      allocationLimits: a.allocationLimits && new Map(Object.entries(a.allocationLimits)),
+    })),
+    layout: new Map(Object.entries(data.layout)),
+  }
+}
+
+// ============================================================================
+// Flow V2 (ScenarioV2)
+// ============================================================================
+
+export function serializeScenarioV2(scenario: ScenarioV2): NetworkDocumentOf<'flow-v2'> {
+  return envelope('flow-v2', {
+    id: scenario.id,
+    name: scenario.name,
+    description: scenario.description,
+    suggestedTotalInflow: scenario.suggestedTotalInflow,
+    nodes: scenario.nodes.map(n => ({
+      id: n.id,
+      name: n.name,
+      externalInflow: n.externalInflow,
+      minThreshold: n.minThreshold,
+      maxThreshold: n.maxThreshold,
+      consumptionRate: n.consumptionRate,
+      allocations: Object.fromEntries(n.allocations),
+      allocationLimits: n.allocationLimits && Object.fromEntries(n.allocationLimits),
+    })),
+    layout: Object.fromEntries(scenario.layout),
+  })
+}
+
+export function deserializeScenarioV2(doc: NetworkDocumentOf<'flow-v2'>): ScenarioV2 {
+  const { data } = doc
+  return {
+    ...data,
+    nodes: data.nodes.map(n => ({
+      ...n,
+      allocations: new Map(Object.entries(n.allocations)),
+      allocationLimits: n.allocationLimits && new Map(Object.entries(n.allocationLimits)),
+    })),
+    layout: new Map(Object.entries(data.layout)),
+  }
+}
+
+// ============================================================================
+// TBFF (FlowFundingNetwork)
+// ============================================================================
+
+export function serializeTbffNetwork(network: FlowFundingNetwork): NetworkDocumentOf<'tbff'> {
+  return envelope('tbff', {
+    name: network.name,
+    accounts: network.accounts.map(a => ({
+      id: a.id,
+      name: a.name,
+      balance: a.balance,
+      minThreshold: a.minThreshold,
+      maxThreshold: a.maxThreshold,
+      consumptionRate: a.consumptionRate,
+      priority: a.priority,
+      x: a.x,
+      y: a.y,
+      width: a.width,
+      height: a.height,
+    })),
+    allocations: network.allocations.map(a => ({
+      id: a.id,
+      sourceAccountId: a.sourceAccountId,
+      targetAccountId: a.targetAccountId,
+      percentage: a.percentage,
+      floor: a.floor,
+      cap: a.cap,
+    })),
+  })
+}
+
+export function deserializeTbffNetwork(doc: NetworkDocumentOf<'tbff'>): FlowFundingNetwork {
+  const { data } = doc
+  return calculateNetworkTotals({
+    name: data.name,
+    accounts: data.accounts.map(a =>
+      updateAccountComputedProperties({
+        ...a,
+        status: 'deficit', // Will be computed
+        shortfall: 0,
+        capacity: 0,
+        overflow: 0,
+      })
+    ),
+    allocations: data.allocations,
+    totalFunds: 0,
+    totalShortfall: 0,
+    totalCapacity: 0,
+    totalOverflow: 0,
+  })
+}
+
+// ============================================================================
+// TBFF Flow (FlowNetwork)
+// ============================================================================
+
+/**
+ * The overflow sink is recreated by propagateFlow, so it is not exported
+ */
+export function serializeFlowNetwork(network: FlowNetwork): NetworkDocumentOf<'tbff-flow'> {
+  return envelope('tbff-flow', {
+    name: network.name,
+    nodes: network.nodes
+      .filter(n => !n.isOverflowSink)
+      .map(n => ({
+        id: n.id,
+        name: n.name,
+        x: n.x,
+        y: n.y,
+        width: n.width,
+        height: n.height,
+        minAbsorption: n.minAbsorption,
+        maxAbsorption: n.maxAbsorption,
+        externalFlow: n.externalFlow,
+      })),
+    allocations: network.allocations.map(a => ({
+      id: a.id,
+      sourceNodeId: a.sourceNodeId,
+      targetNodeId: a.targetNodeId,
+      percentage: a.percentage,
+      floor: a.floor,
+      cap: a.cap,
+    })),
+  })
+}
+
+export function deserializeFlowNetwork(doc: NetworkDocumentOf<'tbff-flow'>): FlowNetwork {
+  const { data } = doc
+  return calculateFlowNetworkTotals({
+    name: data.name,
+    nodes: data.nodes.map(n =>
+      updateFlowNodeProperties({
+        ...n,
+        inflow: n.externalFlow,
+        absorbed: 0,
+        outflow: 0,
+        status: 'starved', // Will be computed
+        isOverflowSink: false,
+      })
+    ),
+    allocations: data.allocations,
+    totalInflow: 0,
+    totalAbsorbed: 0,
+    totalOutflow: 0,
+    overflowNodeId: null,
+  })
+}
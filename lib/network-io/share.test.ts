@@ -0,0 +1,65 @@
+import { deflateRawSync } from 'node:zlib'
+import { describe, expect, it } from 'vitest'
+import { getSampleNetwork } from '../tbff/sample-networks'
+import { serializeTbffNetwork } from './serialization'
+import {
+  buildShareUrl,
+  decodeSharedState,
+  encodeSharedState,
+  readShareFragment,
+  SHARE_FRAGMENT_KEY,
+  type ShareInputs,
+} from './share'
+
+const state = {
+  document: serializeTbffNetwork(getSampleNetwork('commonsPool')),
+  inputs: { funding: 1500, strategy: 'equal', animate: true },
+}
+
+describe('shared state encoding', () => {
+  it('decodes what it encodes', async () => {
+    const encoded = await encodeSharedState(state)
+
+    expect(encoded).toMatch(/^[A-Za-z0-9_-]+$/)
+    expect(await decodeSharedState(encoded)).toEqual(JSON.parse(JSON.stringify(state)))
+  })
+
+  it('rejects corrupt or truncated values', async () => {
+    const encoded = await encodeSharedState(state)
+
+    await expect(decodeSharedState('not-a-network')).rejects.toThrow('corrupt or incomplete')
+    await expect(decodeSharedState(encoded.slice(0, encoded.length / 2))).rejects.toThrow(
+      'corrupt or incomplete'
+    )
+  })
+
+  it('rejects values that decompress to something other than an object', async () => {
+    for (const json of ['null', '42', '"network"']) {
+      const encoded = deflateRawSync(json).toString('base64url')
+      await expect(decodeSharedState(encoded)).rejects.toThrow('corrupt or incomplete')
+    }
+  })
+
+  it('drops inputs that are not plain values', async () => {
+    const inputs = { funding: { nested: 1 } } as unknown as ShareInputs
+    const encoded = await encodeSharedState({ document: state.document, inputs })
+
+    expect((await decodeSharedState(encoded)).inputs).toEqual({})
+  })
+})
+
+describe('share URLs', () => {
+  it('puts the state in the fragment of the current page', async () => {
+    const location = { origin: 'https://example.org', pathname: '/tbff', search: '?x=1' } as Location
+    const url = await buildShareUrl(state, location)
+    const { hash } = new URL(url)
+
+    expect(url.startsWith(`https://example.org/tbff?x=1#${SHARE_FRAGMENT_KEY}=`)).toBe(true)
+    expect(await decodeSharedState(readShareFragment(hash)!)).toMatchObject({ inputs: state.inputs })
+  })
+
+  it('ignores fragments without shared state', () => {
+    expect(readShareFragment('')).toBeNull()
+    expect(readShareFragment('#section-2')).toBeNull()
+  })
+})
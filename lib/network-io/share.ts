@@ -0,0 +1,110 @@
+/**
+ * Shareable URL State
+ *
+ * The site is a static export, so shared networks live entirely in the URL
+ * fragment: the network document plus the page's funding inputs are
+ * JSON-encoded, deflated and base64url-encoded into `#network=...`.
+ * Fragments never reach the server, so links work on any static host.
+ */
+
+import { z } from 'zod'
+import type { NetworkDocument } from './schema'
+import { parseNetworkDocument } from './serialization'
+
+/**
+ * Fragment key, e.g. `/tbff#network=eJyrVk...`
+ */
+export const SHARE_FRAGMENT_KEY = 'network'
+
+/**
+ * Page-specific inputs that aren't part of the network itself
+ * (funding amounts, modes, ...)
+ */
+export type ShareInputs = Record<string, number | string | boolean>
+
+export interface SharedNetworkState {
+  document: NetworkDocument
+  inputs: ShareInputs
+}
+
+const inputsSchema = z.record(z.string(), z.union([z.number(), z.string(), z.boolean()]))
+
+// ============================================================================
+// Compression
+// ============================================================================
+
+// The DOM lib of the TypeScript version in use predates the Compression Streams API
+type ByteTransform = new (format: 'deflate-raw') => TransformStream<Uint8Array, Uint8Array>
+declare const CompressionStream: ByteTransform
+declare const DecompressionStream: ByteTransform
+
+async function pipeThrough(bytes: Uint8Array, transform: TransformStream<Uint8Array, Uint8Array>) {
+  const stream = new Blob([bytes]).stream().pipeThrough(transform)
+  return new Uint8Array(await new Response(stream).arrayBuffer())
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = ''
+  for (const byte of bytes) binary += String.fromCharCode(byte)
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+function fromBase64Url(encoded: string): Uint8Array {
+  const base64 = encoded.replace(/-/g, '+').replace(/_/g, '/')
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4))
+  return Uint8Array.from(binary, char => char.charCodeAt(0))
+}
+
+// ============================================================================
+// Encoding
+// ============================================================================
+
+/**
+ * Encode a network and its inputs as a compressed fragment value
+ */
+export async function encodeSharedState(state: SharedNetworkState): Promise<string> {
+  const json = JSON.stringify({ document: state.document, inputs: state.inputs })
+  const compressed = await pipeThrough(
+    new TextEncoder().encode(json),
+    new CompressionStream('deflate-raw')
+  )
+  return toBase64Url(compressed)
+}
+
+/**
+ * Decode a fragment value produced by encodeSharedState
+ * Throws if the value is corrupt or the network document is invalid
+ */
+export async function decodeSharedState(encoded: string): Promise<SharedNetworkState> {
+  let payload: { document?: unknown; inputs?: unknown }
+  try {
+    const bytes = await pipeThrough(fromBase64Url(encoded), new DecompressionStream('deflate-raw'))
+    const parsed: unknown = JSON.parse(new TextDecoder().decode(bytes))
+    if (typeof parsed !== 'object' || parsed === null) throw new Error('Not an object')
+    payload = parsed
+  } catch {
+    throw new Error('Shared link is corrupt or incomplete')
+  }
+
+  const inputs = inputsSchema.safeParse(payload.inputs ?? {})
+  return {
+    document: parseNetworkDocument(JSON.stringify(payload.document)),
+    inputs: inputs.success ? inputs.data : {},
+  }
+}
+
+/**
+ * Build a full share URL for the current page
+ */
+export async function buildShareUrl(state: SharedNetworkState, location: Location): Promise<string> {
+  const encoded = await encodeSharedState(state)
+  return `${location.origin}${location.pathname}${location.search}#${SHARE_FRAGMENT_KEY}=${encoded}`
+}
+
+/**
+ * Extract the encoded state from a URL fragment (`#network=...`), if present
+ */
+export function readShareFragment(hash: string): string | null {
+  const params = new URLSearchParams(hash.replace(/^#/, ''))
+  return params.get(SHARE_FRAGMENT_KEY)
+}
@@ -0,0 +1,77 @@
+import fc from 'fast-check'
+import { describe, expect, it } from 'vitest'
+import { randomGraph, sum, toFlowNetwork } from '../testing/arbitraries'
+import { propagateFlow } from './algorithms'
+import { getFlowSampleNetwork } from './sample-networks'
+
+describe('propagateFlow', () => {
+  it('sends unallocated outflow to an overflow sink', () => {
+    const { network } = propagateFlow(toFlowNetwork({
+      nodes: [{ id: 'A', name: 'A', amount: 100, minThreshold: 10, maxThreshold: 30 }],
+      edges: [],
+    }))
+    const sink = network.nodes.find(n => n.isOverflowSink)
+
+    expect(network.overflowNodeId).toBe(sink?.id)
+    expect(sink?.absorbed).toBeCloseTo(70)
+  })
+
+  it('splits outflow according to allocation percentages', () => {
+    const { network } = propagateFlow(getFlowSampleNetwork('split'))
+    const source = network.nodes.find(n => n.id === 'source')!
+
+    for (const allocation of network.allocations.filter(a => a.sourceNodeId === 'source')) {
+      const target = network.nodes.find(n => n.id === allocation.targetNodeId)!
+      expect(target.inflow).toBeCloseTo(target.externalFlow + source.outflow * allocation.percentage)
+    }
+  })
+
+  it('sends outflow above an allocation cap to the overflow sink', () => {
+    const { network } = propagateFlow(toFlowNetwork({
+      nodes: [
+        { id: 'A', name: 'A', amount: 100, minThreshold: 10, maxThreshold: 30 },
+        { id: 'B', name: 'B', amount: 0, minThreshold: 10, maxThreshold: 1000 },
+      ],
+      edges: [{ id: 'A->B', source: 'A', target: 'B', weight: 1, cap: 20 }],
+    }))
+
+    expect(network.nodes.find(n => n.id === 'B')?.inflow).toBeCloseTo(20)
+    expect(network.nodes.find(n => n.isOverflowSink)?.absorbed).toBeCloseTo(50)
+  })
+
+  it('conserves flow: all external flow is absorbed somewhere, including the overflow sink', () => {
+    fc.assert(
+      fc.property(randomGraph, (graph) => {
+        const result = propagateFlow(toFlowNetwork(graph))
+        fc.pre(result.converged)
+
+        // Each node's inflow may lag by up to the convergence threshold
+        const tolerance = 0.01 * graph.nodes.length * 2
+        const absorbed = sum(result.network.nodes, n => n.absorbed)
+        expect(Math.abs(absorbed - result.network.totalInflow)).toBeLessThan(tolerance)
+      })
+    )
+  })
+
+  it('never produces negative flows', () => {
+    fc.assert(
+      fc.property(randomGraph, (graph) => {
+        for (const node of propagateFlow(toFlowNetwork(graph)).network.nodes) {
+          expect(node.inflow).toBeGreaterThanOrEqual(0)
+          expect(node.absorbed).toBeGreaterThanOrEqual(0)
+          expect(node.outflow).toBeGreaterThanOrEqual(0)
+        }
+      })
+    )
+  })
+
+  it('never absorbs more than maxAbsorption', () => {
+    fc.assert(
+      fc.property(randomGraph, (graph) => {
+        for (const node of propagateFlow(toFlowNetwork(graph)).network.nodes) {
+          expect(node.absorbed).toBeLessThanOrEqual(node.maxAbsorption)
+        }
+      })
+    )
+  })
+})
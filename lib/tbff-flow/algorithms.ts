@@ -8,12 +8,52 @@
  * 4. Repeat until steady state
  */
 
-import type { FlowNetwork, FlowNode, FlowParticle, FlowPropagationResult } from './types'
+import type { FlowAllocation, FlowNetwork, FlowNode, FlowParticle, FlowPropagationResult } from './types'
 import { updateFlowNodeProperties, calculateFlowNetworkTotals, createOverflowNode, needsOverflowNode } from './utils'
+import type { ValidationResult } from '../core/types'
+import { fromFlowNetwork } from '../core/adapters'
+import { hasLimits, splitWithLimits } from '../core/limits'
+import { validateGraph } from '../core/validation'
 
 const MAX_ITERATIONS = 100
 const CONVERGENCE_THRESHOLD = 0.01
 
+/**
+ * Validate network structure (absorption thresholds, external flows, allocations)
+ */
+export function validateNetwork(network: FlowNetwork): ValidationResult {
+  return validateGraph(fromFlowNetwork(network), 'tbff-flow')
+}
+
+/**
+ * Split a node's outflow across its allocations (allocation ID -> flow)
+ *
+ * Percentages are not normalized - whatever they leave out is lost, as
+ * before. Floors and caps apply on top; flow above the caps goes to the
+ * overflow sink (see cappedOutflow).
+ */
+export function splitOutflow(node: FlowNode, allocations: FlowAllocation[]): Map<string, number> {
+  return splitWithLimits(
+    node.outflow,
+    allocations
+      .filter(a => a.sourceNodeId === node.id)
+      .map(a => ({ key: a.id, weight: a.percentage, floor: a.floor, cap: a.cap }))
+  )
+}
+
+/**
+ * Outflow a node cannot send because its allocations are capped
+ */
+function cappedOutflow(node: FlowNode, allocations: FlowAllocation[]): number {
+  const outgoing = allocations.filter(a => a.sourceNodeId === node.id)
+  if (node.outflow <= 0 || !outgoing.some(hasLimits)) return 0
+
+  const wanted = node.outflow * outgoing.reduce((sum, a) => sum + a.percentage, 0)
+  const sent = Array.from(splitOutflow(node, allocations).values())
+    .reduce((sum, amount) => sum + amount, 0)
+  return Math.max(0, wanted - sent)
+}
+
 /**
  * Propagate flow through the network
  *
@@ -34,7 +74,7 @@ export function propagateFlow(network: FlowNetwork): FlowPropagationResult {
   console.log('\n🌊 Flow Propagation Started')
   console.log('━'.repeat(50))
 
-  let currentNetwork = { ...network }
+  const currentNetwork = { ...network }
   let iterations = 0
   let converged = false
 
@@ -81,8 +121,9 @@ export function propagateFlow(network: FlowNetwork): FlowPropagationResult {
       }
 
       // Distribute outflow via allocations
+      const flows = splitOutflow(sourceNode, allocations)
       allocations.forEach(allocation => {
-        const flowToTarget = sourceNode.outflow * allocation.percentage
+        const flowToTarget = flows.get(allocation.id) || 0
         const currentInflow = newInflows.get(allocation.targetNodeId) || 0
         newInflows.set(allocation.targetNodeId, currentInflow + flowToTarget)
       })
@@ -118,7 +159,11 @@ export function propagateFlow(network: FlowNetwork): FlowPropagationResult {
   let finalNodes = nodes
   let overflowNodeId: string | null = currentNetwork.overflowNodeId
 
-  const needsOverflow = needsOverflowNode({ ...currentNetwork, nodes })
+  const totalCapped = nodes.reduce(
+    (sum, node) => sum + cappedOutflow(node, currentNetwork.allocations),
+    0
+  )
+  const needsOverflow = needsOverflowNode({ ...currentNetwork, nodes }) || totalCapped > 0.01
 
   if (needsOverflow && !overflowNodeId) {
     // Create overflow node
@@ -128,8 +173,8 @@ export function propagateFlow(network: FlowNetwork): FlowPropagationResult {
 
     console.log('\n💧 Created overflow sink node')
 
-    // Calculate total unallocated outflow
-    let totalUnallocated = 0
+    // Calculate total unallocated outflow (including flow above allocation caps)
+    let totalUnallocated = totalCapped
     nodes.forEach(node => {
       const hasAllocations = currentNetwork.allocations.some(a => a.sourceNodeId === node.id)
       if (!hasAllocations && node.outflow > 0) {
@@ -198,12 +243,27 @@ function generateFlowParticles(network: FlowNetwork, nodes: FlowNode[]): FlowPar
   const particles: FlowParticle[] = []
   let particleId = 0
 
+  // Group allocations by source once, so each source's outflow is split once
+  const outgoing = new Map<string, FlowAllocation[]>()
+  for (const allocation of network.allocations) {
+    const group = outgoing.get(allocation.sourceNodeId)
+    if (group) group.push(allocation)
+    else outgoing.set(allocation.sourceNodeId, [allocation])
+  }
+  const flows = new Map<string, number>()
+  for (const node of nodes) {
+    const group = outgoing.get(node.id)
+    if (!group || node.outflow <= 0) continue
+    splitOutflow(node, group).forEach((amount, allocationId) => flows.set(allocationId, amount))
+  }
+  const sources = new Map(nodes.map(n => [n.id, n]))
+
   // Create particles for each allocation based on flow amount
   network.allocations.forEach(allocation => {
-    const sourceNode = nodes.find(n => n.id === allocation.sourceNodeId)
+    const sourceNode = sources.get(allocation.sourceNodeId)
     if (!sourceNode || sourceNode.outflow <= 0) return
 
-    const flowAmount = sourceNode.outflow * allocation.percentage
+    const flowAmount = flows.get(allocation.id) || 0
 
     // Create particles proportional to flow amount
     // More flow = more particles
@@ -223,7 +283,7 @@ function generateFlowParticles(network: FlowNetwork, nodes: FlowNode[]): FlowPar
   // Create particles for overflow node flows
   nodes.forEach(node => {
     if (node.outflow > 0) {
-      const hasAllocations = network.allocations.some(a => a.sourceNodeId === node.id)
+      const hasAllocations = outgoing.has(node.id)
       if (!hasAllocations && network.overflowNodeId) {
         // Create virtual allocation to overflow node
         const particleCount = Math.min(5, Math.max(1, Math.floor(node.outflow / 20)))
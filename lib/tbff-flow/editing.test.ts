@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest'
+import { propagateFlow, validateNetwork } from './algorithms'
+import { addFlowNode, MIN_NODE_SIZE, nextNodeName, removeFlowNode, updateFlowNode } from './editing'
+import { createEmptyFlowNetwork, getFlowSampleNetwork } from './sample-networks'
+
+describe('addFlowNode', () => {
+  it('adds a node to the empty network that takes part in propagation', () => {
+    const empty = createEmptyFlowNetwork()
+    const withNode = addFlowNode(empty, { id: 'n4', name: nextNodeName(empty), x: 500, y: 300 })
+    const node = withNode.nodes.find(n => n.id === 'n4')!
+
+    expect(node).toMatchObject({ name: 'Node 4', x: 440, y: 250, externalFlow: 0 })
+
+    const fed = withNode.nodes.map(n => (n.id === 'n4' ? { ...n, externalFlow: 30 } : n))
+    const { network } = propagateFlow({ ...withNode, nodes: fed })
+    expect(network.nodes.find(n => n.id === 'n4')!.absorbed).toBeCloseTo(30)
+  })
+})
+
+describe('updateFlowNode', () => {
+  it('changes one absorption threshold without rewriting the other', () => {
+    const network = createEmptyFlowNetwork()
+    const { minAbsorption, maxAbsorption } = network.nodes[0]
+
+    const raisedMin = updateFlowNode(network, 'node1', { minAbsorption: 80 })
+    expect(raisedMin.nodes[0]).toMatchObject({ minAbsorption: 80, maxAbsorption })
+    expect(validateNetwork(raisedMin).errors).toHaveLength(1)
+
+    const loweredMax = updateFlowNode(network, 'node1', { maxAbsorption: 5 })
+    expect(loweredMax.nodes[0]).toMatchObject({ minAbsorption, maxAbsorption: 5 })
+  })
+
+  it('does not shrink nodes below the minimum size', () => {
+    const network = updateFlowNode(createEmptyFlowNetwork(), 'node1', { width: 10, height: 200 })
+    expect(network.nodes[0]).toMatchObject({ width: MIN_NODE_SIZE, height: 200 })
+  })
+
+  it('changes propagation once flows are recomputed', () => {
+    const before = propagateFlow(getFlowSampleNetwork('split')).network
+    const after = propagateFlow(updateFlowNode(before, 'source', { maxAbsorption: 0 })).network
+
+    expect(after.nodes.find(n => n.id === 'source')!.outflow).toBeCloseTo(100)
+  })
+})
+
+describe('removeFlowNode', () => {
+  it('removes allocations to and from the node and renormalizes their sources', () => {
+    const network = removeFlowNode(getFlowSampleNetwork('split'), 'project_b')
+
+    expect(network.nodes.map(n => n.id)).toEqual(['source', 'project_a', 'commons'])
+    expect(network.allocations.map(a => a.id)).toEqual(['alloc_1', 'alloc_3'])
+    expect(network.allocations[0].percentage).toBe(1)
+  })
+})
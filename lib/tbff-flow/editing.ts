@@ -0,0 +1,102 @@
+/**
+ * Editing helpers for flow networks
+ *
+ * These only change the structure; flows are stale until the caller runs
+ * propagateFlow on the result.
+ */
+
+import { nextName, removeNodeAllocations, type AllocationEnds } from '../core/editing'
+import type { FlowAllocation, FlowNetwork, FlowNode } from './types'
+import { calculateFlowNetworkTotals, normalizeFlowAllocations, updateFlowNodeProperties } from './utils'
+
+export const NODE_WIDTH = 120
+export const NODE_HEIGHT = 100
+
+/** Smallest box a node can be resized to (room for its labels) */
+export const MIN_NODE_SIZE = 60
+
+const ENDS: AllocationEnds<FlowAllocation> = {
+  source: a => a.sourceNodeId,
+  target: a => a.targetNodeId,
+}
+
+/** Editable fields of a node */
+export type NodeChanges = Partial<
+  Pick<FlowNode, 'name' | 'minAbsorption' | 'maxAbsorption' | 'width' | 'height'>
+>
+
+/**
+ * Add a new node without external flow centred on (x, y)
+ */
+export function addFlowNode(
+  network: FlowNetwork,
+  data: { id: string; name: string; x: number; y: number; minAbsorption?: number; maxAbsorption?: number }
+): FlowNetwork {
+  const minAbsorption = Math.max(0, data.minAbsorption ?? 10)
+  const node = updateFlowNodeProperties({
+    id: data.id,
+    name: data.name,
+    x: data.x - NODE_WIDTH / 2,
+    y: data.y - NODE_HEIGHT / 2,
+    width: NODE_WIDTH,
+    height: NODE_HEIGHT,
+    minAbsorption,
+    maxAbsorption: Math.max(minAbsorption, data.maxAbsorption ?? 50),
+    inflow: 0,
+    absorbed: 0,
+    outflow: 0,
+    status: 'starved',
+    externalFlow: 0,
+    isOverflowSink: false,
+  })
+
+  return calculateFlowNetworkTotals({
+    ...network,
+    nodes: [...network.nodes, node],
+  })
+}
+
+/**
+ * First "Node N" name not already taken
+ */
+export function nextNodeName(network: FlowNetwork): string {
+  const count = network.nodes.filter(node => !node.isOverflowSink).length
+  return nextName('Node', network.nodes.map(n => n.name), count + 1)
+}
+
+/**
+ * Rename, resize or change the absorption thresholds of a node
+ *
+ * Thresholds are clamped at 0 but not reordered - a minimum above the
+ * maximum is left for validation to report. Sizes are kept at or above
+ * MIN_NODE_SIZE.
+ */
+export function updateFlowNode(network: FlowNetwork, nodeId: string, changes: NodeChanges): FlowNetwork {
+  return {
+    ...network,
+    nodes: network.nodes.map(node => {
+      if (node.id !== nodeId) return node
+
+      const updated = { ...node, ...changes }
+      updated.minAbsorption = Math.max(0, updated.minAbsorption)
+      updated.maxAbsorption = Math.max(0, updated.maxAbsorption)
+      updated.width = Math.max(MIN_NODE_SIZE, updated.width)
+      updated.height = Math.max(MIN_NODE_SIZE, updated.height)
+      return updated
+    }),
+  }
+}
+
+/**
+ * Remove a node and every allocation to or from it
+ *
+ * Sources that lose a target have their remaining allocations renormalized.
+ */
+export function removeFlowNode(network: FlowNetwork, nodeId: string): FlowNetwork {
+  return {
+    ...network,
+    nodes: network.nodes.filter(n => n.id !== nodeId),
+    allocations: removeNodeAllocations(network.allocations, nodeId, ENDS, normalizeFlowAllocations),
+    overflowNodeId: network.overflowNodeId === nodeId ? null : network.overflowNodeId,
+  }
+}
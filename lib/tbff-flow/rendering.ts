@@ -1,9 +1,25 @@
 /**
  * Canvas rendering for flow-based visualization
+ *
+ * Drawn through a viewport (pan/zoom) with culling and level of detail
+ * (see ../core/viewport). Particles are batched into a couple of paths so
+ * thousands of them cost about as much as one.
  */
 
 import type { FlowNetwork, FlowNode, FlowAllocation, FlowParticle } from './types'
 import { getFlowNodeCenter, getFlowStatusColor } from './utils'
+import { splitOutflow } from './algorithms'
+import { formatLimits } from '../core/limits'
+import {
+  DEFAULT_VIEWPORT,
+  boxVisible,
+  detailLevel,
+  segmentVisible,
+  visibleBounds,
+  type Bounds,
+  type DetailLevel,
+  type Viewport,
+} from '../core/viewport'
 
 /**
  * Render a flow node
@@ -12,7 +28,8 @@ import { getFlowNodeCenter, getFlowStatusColor } from './utils'
 export function renderFlowNode(
   ctx: CanvasRenderingContext2D,
   node: FlowNode,
-  isSelected: boolean = false
+  isSelected: boolean = false,
+  detail: DetailLevel = 'full'
 ): void {
   const { x, y, width, height } = node
 
@@ -25,6 +42,13 @@ export function renderFlowNode(
   ctx.lineWidth = isSelected ? 3 : 1
   ctx.strokeRect(x, y, width, height)
 
+  // Zoomed far out: the status color is all that can be seen
+  if (detail === 'minimal') {
+    ctx.fillStyle = getFlowStatusColor(node.status, 0.7)
+    ctx.fillRect(x + 10, y + 10, width - 20, height - 20)
+    return
+  }
+
   // Flow visualization bars
   const barWidth = width - 20
   const barHeight = 8
@@ -68,6 +92,8 @@ export function renderFlowNode(
   ctx.textAlign = 'center'
   ctx.fillText(node.name, x + width / 2, y + 16)
 
+  if (detail === 'reduced') return
+
   // Flow rates
   ctx.font = '10px monospace'
   ctx.fillStyle = '#94a3b8'
@@ -113,14 +139,16 @@ export function renderFlowNode(
 
 /**
  * Render a flow allocation arrow
- * Thickness represents flow amount
+ * Thickness represents flow amount (after allocation floors/caps)
  */
 export function renderFlowAllocation(
   ctx: CanvasRenderingContext2D,
   allocation: FlowAllocation,
   sourceNode: FlowNode,
   targetNode: FlowNode,
-  isSelected: boolean = false
+  isSelected: boolean = false,
+  flowAmount: number = sourceNode.outflow * allocation.percentage,
+  detail: DetailLevel = 'full'
 ): void {
   const source = getFlowNodeCenter(sourceNode)
   const target = getFlowNodeCenter(targetNode)
@@ -140,7 +168,6 @@ export function renderFlowAllocation(
   const endY = target.y - (shortenEnd / length) * dy
 
   // Arrow thickness based on flow amount
-  const flowAmount = sourceNode.outflow * allocation.percentage
   const thickness = Math.max(2, Math.min(12, 2 + flowAmount / 10))
 
   // Color based on selection and flow amount
@@ -159,6 +186,11 @@ export function renderFlowAllocation(
   ctx.lineTo(endX, endY)
   ctx.stroke()
 
+  if (detail === 'minimal') {
+    ctx.globalAlpha = 1.0
+    return
+  }
+
   // Draw arrowhead
   const headSize = 10 + thickness
   ctx.fillStyle = baseColor
@@ -178,91 +210,135 @@ export function renderFlowAllocation(
   ctx.globalAlpha = 1.0
 
   // Label with flow amount
-  if (hasFlow || isSelected) {
+  if (detail === 'full' && (hasFlow || isSelected)) {
     const midX = (startX + endX) / 2
     const midY = (startY + endY) / 2
 
+    const labelText = [flowAmount.toFixed(1), formatLimits(allocation)]
+      .filter(Boolean)
+      .join(' ')
+
     // Background for text
+    ctx.font = '11px monospace'
+    const labelWidth = Math.max(40, ctx.measureText(labelText).width + 8)
     ctx.fillStyle = '#0f172a'
-    ctx.fillRect(midX - 20, midY - 8, 40, 16)
+    ctx.fillRect(midX - labelWidth / 2, midY - 8, labelWidth, 16)
 
     // Text
     ctx.fillStyle = baseColor
-    ctx.font = '11px monospace'
     ctx.textAlign = 'center'
     ctx.textBaseline = 'middle'
-    ctx.fillText(flowAmount.toFixed(1), midX, midY)
+    ctx.fillText(labelText, midX, midY)
   }
 }
 
 /**
  * Render flow particles moving along allocations
+ *
+ * All particles go into one path for the glow and one for the dots, instead
+ * of a fill (and gradient) per particle. Particles outside `bounds` are skipped.
  */
 export function renderFlowParticles(
   ctx: CanvasRenderingContext2D,
   particles: FlowParticle[],
-  network: FlowNetwork
+  network: FlowNetwork,
+  bounds?: Bounds
 ): void {
+  const nodesById = new Map(network.nodes.map(n => [n.id, n]))
+  const allocationsById = new Map(network.allocations.map(a => [a.id, a]))
+  const overflowNode = network.nodes.find(n => n.isOverflowSink)
+
+  const dots: Array<{ x: number; y: number; size: number }> = []
   particles.forEach(particle => {
-    // Find the allocation
-    const allocation = network.allocations.find(a => a.id === particle.allocationId)
-    if (!allocation) {
-      // Handle virtual overflow allocations
-      if (particle.allocationId.startsWith('virtual_')) {
-        const sourceNodeId = particle.allocationId.split('_')[1]
-        const sourceNode = network.nodes.find(n => n.id === sourceNodeId)
-        const overflowNode = network.nodes.find(n => n.isOverflowSink)
-        if (sourceNode && overflowNode) {
-          renderParticle(ctx, particle, sourceNode, overflowNode)
-        }
-      }
-      return
+    const allocation = allocationsById.get(particle.allocationId)
+    let sourceNode: FlowNode | undefined
+    let targetNode: FlowNode | undefined
+    if (allocation) {
+      sourceNode = nodesById.get(allocation.sourceNodeId)
+      targetNode = nodesById.get(allocation.targetNodeId)
+    } else if (particle.allocationId.startsWith('virtual_')) {
+      // Virtual overflow allocations go to the sink
+      sourceNode = nodesById.get(particle.allocationId.split('_')[1])
+      targetNode = overflowNode
     }
+    if (!sourceNode || !targetNode) return
 
-    const sourceNode = network.nodes.find(n => n.id === allocation.sourceNodeId)
-    const targetNode = network.nodes.find(n => n.id === allocation.targetNodeId)
+    const source = getFlowNodeCenter(sourceNode)
+    const target = getFlowNodeCenter(targetNode)
 
-    if (!sourceNode || !targetNode) return
+    // Interpolate position
+    const x = source.x + (target.x - source.x) * particle.progress
+    const y = source.y + (target.y - source.y) * particle.progress
+
+    // Particle size based on amount
+    const size = Math.max(3, Math.min(8, particle.amount / 10))
+    if (bounds && !boxVisible(bounds, { x: x - size, y: y - size, width: 2 * size, height: 2 * size })) return
 
-    renderParticle(ctx, particle, sourceNode, targetNode)
+    dots.push({ x, y, size })
   })
+  if (dots.length === 0) return
+
+  const fillDots = (radius: (size: number) => number, color: string) => {
+    ctx.fillStyle = color
+    ctx.beginPath()
+    dots.forEach(({ x, y, size }) => {
+      ctx.moveTo(x + radius(size), y)
+      ctx.arc(x, y, radius(size), 0, 2 * Math.PI)
+    })
+    ctx.fill()
+  }
+
+  // Glow, then the particle itself
+  fillDots(size => size * 2, 'rgba(16, 185, 129, 0.15)')
+  fillDots(size => size, 'rgba(16, 185, 129, 0.8)')
 }
 
 /**
- * Render a single particle
+ * Glow behind allocations between highlighted nodes
  */
-function renderParticle(
+function renderHighlightedAllocations(
   ctx: CanvasRenderingContext2D,
-  particle: FlowParticle,
-  sourceNode: FlowNode,
-  targetNode: FlowNode
+  network: FlowNetwork,
+  nodesById: ReadonlyMap<string, FlowNode>,
+  highlightedIds: ReadonlySet<string>
 ): void {
-  const source = getFlowNodeCenter(sourceNode)
-  const target = getFlowNodeCenter(targetNode)
-
-  // Interpolate position
-  const x = source.x + (target.x - source.x) * particle.progress
-  const y = source.y + (target.y - source.y) * particle.progress
-
-  // Particle size based on amount
-  const size = Math.max(3, Math.min(8, particle.amount / 10))
+  if (highlightedIds.size === 0) return
+  ctx.strokeStyle = '#fb923c'
+  ctx.globalAlpha = 0.35
+  ctx.lineWidth = 16
+  network.allocations.forEach(allocation => {
+    if (!highlightedIds.has(allocation.sourceNodeId) || !highlightedIds.has(allocation.targetNodeId)) return
+    const sourceNode = nodesById.get(allocation.sourceNodeId)
+    const targetNode = nodesById.get(allocation.targetNodeId)
+    if (!sourceNode || !targetNode) return
 
-  // Draw particle
-  ctx.fillStyle = '#10b981'
-  ctx.globalAlpha = 0.8
-  ctx.beginPath()
-  ctx.arc(x, y, size, 0, 2 * Math.PI)
-  ctx.fill()
+    const source = getFlowNodeCenter(sourceNode)
+    const target = getFlowNodeCenter(targetNode)
+    ctx.beginPath()
+    ctx.moveTo(source.x, source.y)
+    ctx.lineTo(target.x, target.y)
+    ctx.stroke()
+  })
   ctx.globalAlpha = 1.0
+}
 
-  // Glow effect
-  const gradient = ctx.createRadialGradient(x, y, 0, x, y, size * 2)
-  gradient.addColorStop(0, 'rgba(16, 185, 129, 0.3)')
-  gradient.addColorStop(1, 'rgba(16, 185, 129, 0)')
-  ctx.fillStyle = gradient
-  ctx.beginPath()
-  ctx.arc(x, y, size * 2, 0, 2 * Math.PI)
-  ctx.fill()
+/**
+ * Dashed outline around highlighted nodes
+ */
+function renderHighlightedNodes(
+  ctx: CanvasRenderingContext2D,
+  network: FlowNetwork,
+  highlightedIds: ReadonlySet<string>
+): void {
+  ctx.strokeStyle = '#fb923c'
+  ctx.lineWidth = 3
+  ctx.setLineDash([8, 4])
+  network.nodes.forEach(node => {
+    if (highlightedIds.has(node.id)) {
+      ctx.strokeRect(node.x - 8, node.y - 8, node.width + 16, node.height + 16)
+    }
+  })
+  ctx.setLineDash([])
 }
 
 /**
@@ -275,36 +351,61 @@ export function renderFlowNetwork(
   canvasHeight: number,
   particles: FlowParticle[],
   selectedNodeId: string | null = null,
-  selectedAllocationId: string | null = null
+  selectedAllocationId: string | null = null,
+  highlightedIds: ReadonlySet<string> = new Set(),
+  viewport: Viewport = DEFAULT_VIEWPORT
 ): void {
   // Clear canvas
+  ctx.setTransform(1, 0, 0, 1, 0, 0)
   ctx.fillStyle = '#0f172a'
   ctx.fillRect(0, 0, canvasWidth, canvasHeight)
 
-  // Draw allocations (arrows) first
+  ctx.setTransform(viewport.scale, 0, 0, viewport.scale, viewport.x, viewport.y)
+  // Margin covers selection outlines drawn just outside the boxes
+  const bounds = visibleBounds(viewport, canvasWidth, canvasHeight, 20)
+  const detail = detailLevel(viewport.scale)
+  const nodesById = new Map(network.nodes.map(n => [n.id, n]))
+
+  // Highlighted cycle behind everything else
+  renderHighlightedAllocations(ctx, network, nodesById, highlightedIds)
+
+  // Draw allocations (arrows) first, splitting each source's outflow once
+  const splits = new Map<string, Map<string, number>>()
   network.allocations.forEach(allocation => {
-    const sourceNode = network.nodes.find(n => n.id === allocation.sourceNodeId)
-    const targetNode = network.nodes.find(n => n.id === allocation.targetNodeId)
-    if (sourceNode && targetNode) {
-      renderFlowAllocation(
-        ctx,
-        allocation,
-        sourceNode,
-        targetNode,
-        allocation.id === selectedAllocationId
-      )
+    const sourceNode = nodesById.get(allocation.sourceNodeId)
+    const targetNode = nodesById.get(allocation.targetNodeId)
+    if (!sourceNode || !targetNode) return
+
+    const source = getFlowNodeCenter(sourceNode)
+    const target = getFlowNodeCenter(targetNode)
+    if (!segmentVisible(bounds, source.x, source.y, target.x, target.y)) return
+
+    if (!splits.has(sourceNode.id)) {
+      splits.set(sourceNode.id, splitOutflow(sourceNode, network.allocations))
     }
+    renderFlowAllocation(
+      ctx,
+      allocation,
+      sourceNode,
+      targetNode,
+      allocation.id === selectedAllocationId,
+      splits.get(sourceNode.id)!.get(allocation.id) || 0,
+      detail
+    )
   })
 
   // Draw particles
-  renderFlowParticles(ctx, particles, network)
+  renderFlowParticles(ctx, particles, network, bounds)
 
   // Draw nodes on top
   network.nodes.forEach(node => {
-    renderFlowNode(ctx, node, node.id === selectedNodeId)
+    if (!boxVisible(bounds, node)) return
+    renderFlowNode(ctx, node, node.id === selectedNodeId, detail)
   })
+  renderHighlightedNodes(ctx, network, highlightedIds)
 
-  // Draw network stats in corner
+  // Draw network stats in corner (screen space)
+  ctx.setTransform(1, 0, 0, 1, 0, 0)
   ctx.fillStyle = '#f1f5f9'
   ctx.font = '12px monospace'
   ctx.textAlign = 'left'
@@ -47,6 +47,8 @@ export interface FlowAllocation {
   sourceNodeId: string
   targetNodeId: string
   percentage: number      // 0.0 to 1.0
+  floor?: number          // Paid before other allocations from the source
+  cap?: number            // Most this allocation carries per time unit
 }
 
 /**
@@ -0,0 +1,257 @@
+import fc from 'fast-check'
+import { describe, expect, it } from 'vitest'
+import { randomFunding, randomGraph, toTbffNetwork } from '../testing/arbitraries'
+import {
+  applyConsumption,
+  createFlowParticles,
+  getDistributionSummary,
+  initialDistribution,
+  redistributeOverflow,
+  roundTransfers,
+  runFundingRound,
+  updateFlowParticles,
+} from './algorithms'
+import { getSampleNetwork } from './sample-networks'
+import type { FlowFundingNetwork } from './types'
+import { calculateNetworkTotals, updateAccountComputedProperties } from './utils'
+
+const TOLERANCE = 1e-6
+
+/** Network with some balances replaced */
+const withBalances = (network: FlowFundingNetwork, balances: Record<string, number>) =>
+  calculateNetworkTotals({
+    ...network,
+    accounts: network.accounts.map(a =>
+      a.id in balances ? updateAccountComputedProperties({ ...a, balance: balances[a.id] }) : a
+    ),
+  })
+
+const balanceOf = (network: FlowFundingNetwork, id: string) =>
+  network.accounts.find(a => a.id === id)!.balance
+
+describe('initialDistribution', () => {
+  it('fills minimums before distributing by capacity', () => {
+    const before = getSampleNetwork('statesDemo')
+    const shortfall = before.totalShortfall
+    const after = initialDistribution(before, shortfall)
+
+    for (const account of after.accounts) {
+      expect(account.balance).toBeGreaterThanOrEqual(account.minThreshold - TOLERANCE)
+    }
+    expect(after.totalShortfall).toBeCloseTo(0)
+  })
+
+  it('leaves the network untouched without funding', () => {
+    const network = getSampleNetwork('statesDemo')
+    expect(initialDistribution(network, 0)).toBe(network)
+  })
+
+  it('conserves funds', () => {
+    fc.assert(
+      fc.property(randomGraph, randomFunding, (graph, funding) => {
+        const before = toTbffNetwork(graph)
+        const after = initialDistribution(before, funding)
+
+        expect(after.totalFunds).toBeCloseTo(before.totalFunds + funding, 6)
+        expect(getDistributionSummary(before, after).totalDistributed).toBeCloseTo(funding, 6)
+      })
+    )
+  })
+
+  it('never produces negative balances', () => {
+    fc.assert(
+      fc.property(randomGraph, randomFunding, (graph, funding) => {
+        for (const account of initialDistribution(toTbffNetwork(graph), funding).accounts) {
+          expect(account.balance).toBeGreaterThanOrEqual(0)
+        }
+      })
+    )
+  })
+
+  it('stays within maxThreshold while funding fits the network capacity', () => {
+    fc.assert(
+      fc.property(randomGraph, randomFunding, (graph, funding) => {
+        const before = toTbffNetwork(graph)
+        fc.pre(funding <= before.totalCapacity)
+
+        for (const account of initialDistribution(before, funding).accounts) {
+          expect(account.balance).toBeLessThanOrEqual(account.maxThreshold + TOLERANCE)
+        }
+      })
+    )
+  })
+})
+
+describe('applyConsumption', () => {
+  it('drains balances and recomputes status', () => {
+    const network = getSampleNetwork('statesDemo')
+    const burning = {
+      ...network,
+      accounts: network.accounts.map(a => ({ ...a, consumptionRate: a.minThreshold })),
+    }
+    const after = applyConsumption(burning, 2)
+
+    for (const account of after.accounts) {
+      expect(account.balance).toBeGreaterThanOrEqual(0)
+      if (account.minThreshold > 0) expect(account.status).toBe('deficit')
+    }
+    expect(after.totalFunds).toBeLessThan(network.totalFunds)
+  })
+
+  it('leaves accounts without a consumption rate untouched', () => {
+    const network = getSampleNetwork('statesDemo')
+    expect(applyConsumption(network, 5).accounts).toEqual(network.accounts)
+  })
+})
+
+describe('runFundingRound', () => {
+  it('replays overflow redistribution after the initial distribution', () => {
+    const network = getSampleNetwork('simpleLinear')
+    const round = runFundingRound(network, network.totalCapacity + 300)
+
+    expect(round.steps.map(s => s.step.type)).toEqual([
+      'initial-distribution',
+      'overflow-redistribution',
+      ...round.redistribution.map(() => 'redistribution-step'),
+      'complete',
+    ])
+    expect(round.redistribution.length).toBeGreaterThan(0)
+    expect(round.converged).toBe(true)
+    expect(round.network.totalFunds).toBeCloseTo(network.totalFunds + network.totalCapacity + 300)
+  })
+
+  it('only redistributes without funding', () => {
+    const network = withBalances(getSampleNetwork('simpleLinear'), { alice: 500 })
+    const round = runFundingRound(network, 0)
+
+    expect(round.steps[0].step.type).toBe('overflow-redistribution')
+    expect(balanceOf(round.network, 'alice')).toBeCloseTo(300)
+  })
+
+  it('totals what each allocation carried over the round', () => {
+    const network = withBalances(getSampleNetwork('simpleLinear'), { alice: 500 })
+    const round = runFundingRound(network, 0)
+    const transfers = roundTransfers(round)
+    const fromAlice = network.allocations
+      .filter(a => a.sourceAccountId === 'alice')
+      .reduce((sum, a) => sum + (transfers.get(a.id) || 0), 0)
+
+    // Alice ends at her max of 300 and sent the rest
+    expect(fromAlice).toBeCloseTo(200)
+  })
+
+  it('records each step with the network after it', () => {
+    const network = getSampleNetwork('statesDemo')
+    const seen: string[] = []
+    const round = runFundingRound(network, 500, undefined, step => seen.push(step.type))
+
+    expect(round.steps.map(s => s.step.type)).toEqual(seen)
+    expect(seen[0]).toBe('initial-distribution')
+    expect(seen[seen.length - 1]).toBe('complete')
+    expect(round.steps[round.steps.length - 1].network).toBe(round.network)
+    expect(round.steps[0].network.totalFunds).toBeCloseTo(network.totalFunds + 500)
+  })
+})
+
+describe('redistributeOverflow', () => {
+  it('sends overflow along allocations, cascading through receivers', () => {
+    // Alice (max 300) → Bob (max 200) → Carol
+    const before = withBalances(getSampleNetwork('simpleLinear'), { alice: 700 })
+    const { network, steps, converged } = redistributeOverflow(before)
+
+    expect(converged).toBe(true)
+    expect(balanceOf(network, 'alice')).toBeCloseTo(300)
+    expect(balanceOf(network, 'bob')).toBeCloseTo(200)
+    expect(balanceOf(network, 'carol')).toBeCloseTo(200)
+    expect(steps.map(s => s.deltas)).toEqual([
+      { alice: -400, bob: 400 },
+      { bob: -200, carol: 200 },
+    ])
+    expect(steps[0].flowParticles.every(p => p.allocationId === 'a1')).toBe(true)
+  })
+
+  it('keeps overflow that no allocation can take', () => {
+    const linear = withBalances(getSampleNetwork('simpleLinear'), { alice: 700 })
+    const capped = {
+      ...linear,
+      allocations: linear.allocations.map(a => (a.id === 'a1' ? { ...a, cap: 150 } : a)),
+    }
+    const { network } = redistributeOverflow(capped)
+
+    expect(balanceOf(network, 'alice')).toBeCloseTo(550)
+    expect(balanceOf(network, 'bob')).toBeCloseTo(150)
+
+    // Carol has no allocations
+    const { steps } = redistributeOverflow(withBalances(linear, { alice: 0, carol: 900 }))
+    expect(steps).toEqual([])
+  })
+
+  it('pays allocation floors before splitting by percentage', () => {
+    const pool = withBalances(getSampleNetwork('commonsPool'), {
+      pool: 1300,
+      alice: 0,
+      bob: 0,
+      carol: 0,
+    })
+    const poolMax = pool.accounts.find(a => a.id === 'pool')!.maxThreshold
+    const overflow = 1300 - poolMax
+    const floored = {
+      ...pool,
+      allocations: pool.allocations.map(a => (a.id === 'a6' ? { ...a, floor: overflow } : a)),
+    }
+    const { network } = redistributeOverflow(floored, 1)
+
+    expect(balanceOf(network, 'carol')).toBeCloseTo(overflow)
+    expect(balanceOf(network, 'alice')).toBe(0)
+  })
+
+  it('stops when overflow circulates in a saturated cycle', () => {
+    const circle = getSampleNetwork('mutualAid')
+    const full = withBalances(
+      circle,
+      Object.fromEntries(circle.accounts.map(a => [a.id, a.maxThreshold + 100]))
+    )
+    const { steps, converged, network } = redistributeOverflow(full, 10)
+
+    expect(converged).toBe(false)
+    expect(steps).toHaveLength(10)
+    expect(network.totalFunds).toBeCloseTo(full.totalFunds)
+  })
+
+  it('conserves funds and only takes from accounts above their max', () => {
+    fc.assert(
+      fc.property(randomGraph, graph => {
+        const before = toTbffNetwork(graph)
+        const { network } = redistributeOverflow(before)
+
+        expect(network.totalFunds).toBeCloseTo(before.totalFunds, 6)
+        for (const account of network.accounts) {
+          const start = before.accounts.find(a => a.id === account.id)!
+          expect(account.balance).toBeGreaterThanOrEqual(
+            Math.min(start.balance, start.maxThreshold) - TOLERANCE
+          )
+        }
+      })
+    )
+  })
+})
+
+describe('flow particles', () => {
+  it('sends more particles along larger transfers, sharing the amount', () => {
+    const particles = createFlowParticles(new Map([['small', 50], ['large', 900], ['none', 0]]))
+
+    expect(particles.filter(p => p.allocationId === 'small')).toHaveLength(1)
+    const large = particles.filter(p => p.allocationId === 'large')
+    expect(large).toHaveLength(3)
+    expect(large.reduce((sum, p) => sum + p.amount, 0)).toBeCloseTo(900)
+  })
+
+  it('moves particles along their arrow once they set off', () => {
+    const [first, second] = createFlowParticles(new Map([['a', 300]]), 600)
+    const moved = updateFlowParticles([first, second], 300)
+
+    expect(moved[0].progress).toBeCloseTo(0.5)
+    expect(moved[1].progress).toBeCloseTo(1 / 6)
+    expect(updateFlowParticles([second], 5000)[0].progress).toBe(1)
+  })
+})
@@ -3,76 +3,69 @@
  * Implements the mathematical model from threshold-based-flow-funding.md
  */
 
-import type { FlowFundingNetwork, FlowFundingAccount } from './types'
+import type {
+  FlowFundingNetwork,
+  FlowFundingAccount,
+  FlowParticle,
+  FundingRound,
+  FundingStep,
+  RedistributionStep,
+  ValidationResult,
+} from './types'
 import { updateAccountComputedProperties, calculateNetworkTotals } from './utils'
+import { fromTbffNetwork } from '../core/adapters'
+import { DEFAULT_STRATEGY, getStrategy, type StrategyId } from '../core/strategies'
+import { validateGraph } from '../core/validation'
+import { splitWithLimits } from '../core/limits'
+
+/** Redistribution rounds before giving up (overflow can circulate forever in saturated cycles) */
+export const MAX_REDISTRIBUTION_ITERATIONS = 100
+
+/** Overflow below this is considered settled */
+const EPSILON = 0.01
+
+/**
+ * Validate network structure (thresholds, balances, allocations)
+ */
+export function validateNetwork(network: FlowFundingNetwork): ValidationResult {
+  return validateGraph(fromTbffNetwork(network), 'tbff')
+}
 
 /**
  * Initial distribution of external funding to accounts
  *
- * Algorithm:
- * 1. Calculate total shortfall (funds needed to reach minimums)
- * 2. If funding < shortfall: distribute proportionally to shortfalls
- * 3. If funding >= shortfall: fill all minimums first, then distribute remaining by capacity
+ * The strategy decides how funding is split (see lib/core/strategies). The
+ * default fills minimums proportionally to shortfall, then distributes the
+ * rest by capacity. If every account is already at max, funding is split
+ * evenly (creating overflow).
  *
  * @param network - Current network state
  * @param externalFunding - Amount of new funding to distribute
+ * @param strategyId - Distribution strategy
  * @returns Updated network with new balances
  */
 export function initialDistribution(
   network: FlowFundingNetwork,
-  externalFunding: number
+  externalFunding: number,
+  strategyId: StrategyId = DEFAULT_STRATEGY
 ): FlowFundingNetwork {
   if (externalFunding <= 0) {
     console.warn('⚠️ No funding to distribute')
     return network
   }
 
+  const strategy = getStrategy(strategyId)
+
   console.log(`\n💰 Initial Distribution: ${externalFunding} funding`)
+  console.log(`Strategy: ${strategy.name}`)
   console.log('━'.repeat(50))
 
-  // Calculate total shortfall (funds needed to reach minimums)
-  const totalShortfall = network.accounts.reduce(
-    (sum, acc) => sum + Math.max(0, acc.minThreshold - acc.balance),
-    0
-  )
-
-  console.log(`Total shortfall: ${totalShortfall.toFixed(2)}`)
-
-  if (externalFunding < totalShortfall) {
-    // Not enough to cover all minimums - distribute proportionally
-    console.log('⚠️ Insufficient funding to cover all minimums')
-    console.log('Distributing proportionally by shortfall...\n')
-
-    return distributeProportionallyByShortfall(network, externalFunding, totalShortfall)
-  } else {
-    // Enough funding - fill minimums first, then distribute by capacity
-    console.log('✓ Sufficient funding to cover all minimums')
-    console.log('Step 1: Filling all minimums...')
-
-    const afterMinimums = fillAllMinimums(network)
-    const remainingFunds = externalFunding - totalShortfall
-
-    console.log(`Remaining funds: ${remainingFunds.toFixed(2)}`)
-    console.log('Step 2: Distributing by capacity...\n')
-
-    return distributeByCapacity(afterMinimums, remainingFunds)
-  }
-}
+  const amounts = strategy.allocate(fromTbffNetwork(network), externalFunding)
 
-/**
- * Distribute funding proportionally to shortfalls
- * Used when funding is insufficient to cover all minimums
- */
-function distributeProportionallyByShortfall(
-  network: FlowFundingNetwork,
-  funding: number,
-  totalShortfall: number
-): FlowFundingNetwork {
   const updatedAccounts = network.accounts.map((acc) => {
-    const shortfall = Math.max(0, acc.minThreshold - acc.balance)
-    if (shortfall === 0) return acc
+    const share = amounts.get(acc.id) || 0
+    if (share === 0) return acc
 
-    const share = (shortfall / totalShortfall) * funding
     const newBalance = acc.balance + share
 
     console.log(
@@ -85,91 +78,237 @@ function distributeProportionallyByShortfall(
     })
   })
 
-  return calculateNetworkTotals({
+  const distributed = calculateNetworkTotals({
     ...network,
     accounts: updatedAccounts,
   })
+
+  const placed = Array.from(amounts.values()).reduce((sum, amount) => sum + amount, 0)
+  const unplaced = externalFunding - placed
+  if (unplaced > 1e-9) {
+    // All accounts at max - distribute evenly (will create overflow)
+    console.log('  All accounts at max capacity - distributing evenly (will overflow)')
+    return distributeEvenly(distributed, unplaced)
+  }
+
+  return distributed
 }
 
 /**
- * Fill all accounts to their minimum thresholds
+ * Run a funding round, recording every step for replay
+ *
+ * Steps are reported to `onStep` as they happen and returned together with
+ * the network right after each one, so a UI can step back and forth.
+ *
+ * @param network - Current network state
+ * @param externalFunding - Amount of new funding to distribute
+ * @param strategyId - Distribution strategy for the initial distribution
+ * @param onStep - Called after each step with the network at that point
+ * @returns Every step and the final network
  */
-function fillAllMinimums(network: FlowFundingNetwork): FlowFundingNetwork {
-  const updatedAccounts = network.accounts.map((acc) => {
-    const shortfall = Math.max(0, acc.minThreshold - acc.balance)
-    if (shortfall === 0) {
-      console.log(`  ${acc.name.padEnd(15)} ${acc.balance.toFixed(0)} (already at minimum)`)
-      return acc
-    }
-
-    const newBalance = acc.minThreshold
+export function runFundingRound(
+  network: FlowFundingNetwork,
+  externalFunding: number,
+  strategyId: StrategyId = DEFAULT_STRATEGY,
+  onStep?: (step: FundingStep, network: FlowFundingNetwork) => void
+): FundingRound {
+  const steps: FundingRound['steps'] = []
+  const emit = (step: FundingStep, state: FlowFundingNetwork) => {
+    steps.push({ step, network: state })
+    onStep?.(step, state)
+  }
 
-    console.log(
-      `  ${acc.name.padEnd(15)} ${acc.balance.toFixed(0)} → ${newBalance.toFixed(0)} (+${shortfall.toFixed(0)})`
-    )
+  // Without funding the round only redistributes existing overflow
+  let current = network
+  if (externalFunding > 0) {
+    current = initialDistribution(network, externalFunding, strategyId)
+    emit({ type: 'initial-distribution', amount: externalFunding }, current)
+  }
 
-    return updateAccountComputedProperties({
-      ...acc,
-      balance: newBalance,
-    })
+  const redistribution: RedistributionStep[] = []
+  const result = redistributeOverflow(current, MAX_REDISTRIBUTION_ITERATIONS, (step, state) => {
+    if (redistribution.length === 0) emit({ type: 'overflow-redistribution' }, current)
+    redistribution.push(step)
+    emit({ type: 'redistribution-step', iteration: step.iteration, flowParticles: step.flowParticles }, state)
   })
+  current = result.network
 
-  return calculateNetworkTotals({
-    ...network,
-    accounts: updatedAccounts,
-  })
+  emit({ type: 'complete' }, current)
+
+  return { steps, redistribution, network: current, converged: result.converged }
 }
 
 /**
- * Distribute funding proportionally to account capacities
- * Capacity = max(0, maxThreshold - balance)
+ * Overflow redistribution
+ *
+ * Each round, every account above its max threshold sends the excess along
+ * its allocations (percentages normalized per source, floors paid first,
+ * caps respected - see splitWithLimits). Floors and caps apply to the whole
+ * redistribution, so they count what an allocation carried in earlier
+ * rounds. Receivers pushed over their max overflow in the next round, until
+ * nothing moves.
+ *
+ * Funds are conserved: overflow that no allocation can take (no
+ * allocations, or every cap reached) stays with its account.
+ *
+ * @param network - Network after initial distribution
+ * @param maxIterations - Rounds before stopping
+ * @param onStep - Called after each round with the network at that point
+ * @returns Final network, one step per round that moved funds, and whether
+ *          the overflow settled within maxIterations
  */
-function distributeByCapacity(
+export function redistributeOverflow(
   network: FlowFundingNetwork,
-  funding: number
-): FlowFundingNetwork {
-  if (funding <= 0) {
-    console.log('  No remaining funds to distribute')
-    return network
-  }
+  maxIterations: number = MAX_REDISTRIBUTION_ITERATIONS,
+  onStep?: (step: RedistributionStep, network: FlowFundingNetwork) => void
+): { network: FlowFundingNetwork; steps: RedistributionStep[]; converged: boolean } {
+  const steps: RedistributionStep[] = []
+  const sent = new Map<string, number>()
+  let current = network
+
+  const outgoing = new Map<string, FlowFundingNetwork['allocations']>()
+  network.allocations.forEach((allocation) => {
+    const list = outgoing.get(allocation.sourceAccountId) || []
+    list.push(allocation)
+    outgoing.set(allocation.sourceAccountId, list)
+  })
 
-  // Calculate total capacity
-  const totalCapacity = network.accounts.reduce(
-    (sum, acc) => sum + Math.max(0, acc.maxThreshold - acc.balance),
-    0
-  )
+  for (let iteration = 1; iteration <= maxIterations; iteration++) {
+    const overflows: RedistributionStep['overflows'] = []
+    const deltas: Record<string, number> = {}
+    const transfers = new Map<string, number>()
+    const addDelta = (accountId: string, amount: number) => {
+      deltas[accountId] = (deltas[accountId] || 0) + amount
+    }
 
-  if (totalCapacity === 0) {
-    // All accounts at max - distribute evenly (will create overflow)
-    console.log('  All accounts at max capacity - distributing evenly (will overflow)')
-    return distributeEvenly(network, funding)
-  }
+    current.accounts.forEach((account) => {
+      const overflow = account.balance - account.maxThreshold
+      const allocations = outgoing.get(account.id)
+      if (overflow <= EPSILON || !allocations) return
+
+      const totalPercentage = allocations.reduce((sum, a) => sum + a.percentage, 0)
+      if (totalPercentage <= 0) return
+
+      // Floors and caps still available this redistribution
+      const amounts = splitWithLimits(
+        overflow,
+        allocations.map((a) => {
+          const alreadySent = sent.get(a.id) || 0
+          return {
+            key: a.id,
+            weight: a.percentage / totalPercentage,
+            floor: a.floor === undefined ? undefined : Math.max(0, a.floor - alreadySent),
+            cap: a.cap === undefined ? undefined : Math.max(0, a.cap - alreadySent),
+          }
+        })
+      )
+
+      let moved = 0
+      allocations.forEach((allocation) => {
+        const amount = amounts.get(allocation.id) || 0
+        if (amount <= 0) return
+
+        transfers.set(allocation.id, amount)
+        sent.set(allocation.id, (sent.get(allocation.id) || 0) + amount)
+        addDelta(allocation.targetAccountId, amount)
+        moved += amount
+      })
+
+      if (moved > 0) {
+        overflows.push({ accountId: account.id, amount: overflow })
+        addDelta(account.id, -moved)
+      }
+    })
 
-  // Distribute proportionally to capacity
-  const updatedAccounts = network.accounts.map((acc) => {
-    const capacity = Math.max(0, acc.maxThreshold - acc.balance)
-    if (capacity === 0) {
-      console.log(`  ${acc.name.padEnd(15)} ${acc.balance.toFixed(0)} (at max capacity)`)
-      return acc
+    const totalMoved = Array.from(transfers.values()).reduce((sum, amount) => sum + amount, 0)
+    if (totalMoved <= EPSILON) {
+      console.log(`\n✓ Overflow settled after ${iteration - 1} redistribution rounds`)
+      return { network: current, steps, converged: true }
     }
 
-    const share = (capacity / totalCapacity) * funding
-    const newBalance = acc.balance + share
+    current = calculateNetworkTotals({
+      ...current,
+      accounts: current.accounts.map((account) =>
+        deltas[account.id]
+          ? updateAccountComputedProperties({ ...account, balance: account.balance + deltas[account.id] })
+          : account
+      ),
+    })
 
-    console.log(
-      `  ${acc.name.padEnd(15)} ${acc.balance.toFixed(0)} → ${newBalance.toFixed(0)} (+${share.toFixed(0)})`
-    )
+    const step: RedistributionStep = {
+      iteration,
+      overflows,
+      deltas,
+      transfers: Object.fromEntries(transfers),
+      flowParticles: createFlowParticles(transfers),
+    }
+    steps.push(step)
+    onStep?.(step, current)
 
-    return updateAccountComputedProperties({
-      ...acc,
-      balance: newBalance,
+    console.log(`  Round ${iteration}: moved ${totalMoved.toFixed(0)} along ${transfers.size} allocations`)
+  }
+
+  console.log(`\n⚠️ Overflow still moving after ${maxIterations} redistribution rounds`)
+  return { network: current, steps, converged: false }
+}
+
+/**
+ * Total amount each allocation carried over a funding round (allocationId -> amount)
+ */
+export function roundTransfers(round: FundingRound): Map<string, number> {
+  const totals = new Map<string, number>()
+  round.redistribution.forEach((step) => {
+    Object.entries(step.transfers).forEach(([allocationId, amount]) => {
+      totals.set(allocationId, (totals.get(allocationId) || 0) + amount)
     })
   })
+  return totals
+}
 
-  return calculateNetworkTotals({
-    ...network,
-    accounts: updatedAccounts,
+/** Particles sent along one allocation in a step, at most */
+const MAX_PARTICLES_PER_ALLOCATION = 3
+
+/**
+ * Particles carrying funds along allocation arrows during one step
+ *
+ * Larger transfers get more particles (one per 100, up to three), set off a
+ * little apart so they read as a stream.
+ *
+ * @param transfers - Amount moved per allocation ID
+ * @param duration - Milliseconds each particle takes to cross its arrow
+ */
+export function createFlowParticles(
+  transfers: ReadonlyMap<string, number>,
+  duration: number = 600
+): FlowParticle[] {
+  const particles: FlowParticle[] = []
+
+  transfers.forEach((amount, allocationId) => {
+    if (amount <= 0) return
+
+    const count = Math.min(MAX_PARTICLES_PER_ALLOCATION, Math.max(1, Math.floor(amount / 100)))
+    for (let i = 0; i < count; i++) {
+      particles.push({
+        allocationId,
+        progress: 0,
+        amount: amount / count,
+        startTime: (i * duration) / 3,
+        duration,
+      })
+    }
   })
+
+  return particles
+}
+
+/**
+ * Move particles to where they are `elapsed` milliseconds into their step
+ */
+export function updateFlowParticles(particles: FlowParticle[], elapsed: number): FlowParticle[] {
+  return particles.map((particle) => ({
+    ...particle,
+    progress: Math.min(1, Math.max(0, (elapsed - particle.startTime) / particle.duration)),
+  }))
 }
 
 /**
@@ -201,6 +340,36 @@ function distributeEvenly(
   })
 }
 
+/**
+ * Apply each account's consumption rate over a number of periods
+ *
+ * Balances never go below zero, so an account that stops receiving funds
+ * drains back into deficit.
+ *
+ * @param network - Current network state
+ * @param periods - Number of periods that have elapsed
+ * @returns Updated network with new balances
+ */
+export function applyConsumption(
+  network: FlowFundingNetwork,
+  periods: number = 1
+): FlowFundingNetwork {
+  const updatedAccounts = network.accounts.map((acc) => {
+    const spent = Math.min(acc.balance, (acc.consumptionRate || 0) * periods)
+    if (spent <= 0) return acc
+
+    return updateAccountComputedProperties({
+      ...acc,
+      balance: acc.balance - spent,
+    })
+  })
+
+  return calculateNetworkTotals({
+    ...network,
+    accounts: updatedAccounts,
+  })
+}
+
 /**
  * Calculate distribution summary (for UI display)
  */
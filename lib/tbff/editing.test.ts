@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest'
+import { validateNetwork } from './algorithms'
+import { addAccount, nextAccountName, removeAccount, updateAccount } from './editing'
+import { getSampleNetwork } from './sample-networks'
+
+describe('addAccount', () => {
+  it('adds an empty account centred on the point', () => {
+    const network = addAccount(getSampleNetwork('simpleLinear'), {
+      id: 'dave',
+      name: nextAccountName(getSampleNetwork('simpleLinear')),
+      x: 300,
+      y: 200,
+    })
+    const dave = network.accounts.find(a => a.id === 'dave')!
+
+    expect(dave).toMatchObject({ name: 'Account 4', balance: 0, x: 220, y: 130, status: 'deficit' })
+    expect(network.totalShortfall).toBe(getSampleNetwork('simpleLinear').totalShortfall + dave.minThreshold)
+  })
+})
+
+describe('updateAccount', () => {
+  it('recomputes status and network totals', () => {
+    const before = getSampleNetwork('statesDemo')
+    const after = updateAccount(before, 'deficit', { balance: 10000 })
+
+    expect(after.accounts.find(a => a.id === 'deficit')!.status).toBe('overflow')
+    expect(after.totalFunds).toBeGreaterThan(before.totalFunds)
+  })
+
+  it('changes one threshold without rewriting the other', () => {
+    const network = getSampleNetwork('statesDemo')
+    const account = network.accounts[0]
+
+    // e.g. the first keystroke of a larger maximum
+    const loweredMax = updateAccount(network, account.id, { maxThreshold: 5 })
+    expect(loweredMax.accounts[0]).toMatchObject({ minThreshold: account.minThreshold, maxThreshold: 5 })
+    expect(validateNetwork(loweredMax).errors).toHaveLength(1)
+
+    const negative = updateAccount(network, account.id, { minThreshold: -10 })
+    expect(negative.accounts[0].minThreshold).toBe(0)
+  })
+})
+
+describe('removeAccount', () => {
+  it('removes allocations to and from the account and renormalizes their sources', () => {
+    const network = removeAccount(getSampleNetwork('commonsPool'), 'carol')
+
+    expect(network.accounts.map(a => a.id)).toEqual(['pool', 'alice', 'bob'])
+    expect(network.allocations.map(a => a.id)).toEqual(['a1', 'a2', 'a4', 'a5'])
+
+    const poolTotal = network.allocations
+      .filter(a => a.sourceAccountId === 'pool')
+      .reduce((sum, a) => sum + a.percentage, 0)
+    expect(poolTotal).toBeCloseTo(1)
+  })
+})
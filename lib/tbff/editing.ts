@@ -0,0 +1,100 @@
+/**
+ * Editing helpers for Flow Funding networks
+ *
+ * Each returns a new network with account computed properties and network
+ * totals brought up to date, so the canvas editor never has to remember to
+ * re-run them.
+ */
+
+import { nextName, removeNodeAllocations, type AllocationEnds } from '../core/editing'
+import type { Allocation, FlowFundingAccount, FlowFundingNetwork } from './types'
+import { calculateNetworkTotals, normalizeAllocations, updateAccountComputedProperties } from './utils'
+
+export const ACCOUNT_WIDTH = 160
+export const ACCOUNT_HEIGHT = 140
+
+const ENDS: AllocationEnds<Allocation> = {
+  source: a => a.sourceAccountId,
+  target: a => a.targetAccountId,
+}
+
+/** Editable fields of an account */
+export type AccountChanges = Partial<
+  Pick<FlowFundingAccount, 'name' | 'balance' | 'minThreshold' | 'maxThreshold'>
+>
+
+/**
+ * Add a new, empty account centred on (x, y)
+ */
+export function addAccount(
+  network: FlowFundingNetwork,
+  data: { id: string; name: string; x: number; y: number; minThreshold?: number; maxThreshold?: number }
+): FlowFundingNetwork {
+  const minThreshold = Math.max(0, data.minThreshold ?? 100)
+  const account = updateAccountComputedProperties({
+    id: data.id,
+    name: data.name,
+    balance: 0,
+    minThreshold,
+    maxThreshold: Math.max(minThreshold, data.maxThreshold ?? 300),
+    x: data.x - ACCOUNT_WIDTH / 2,
+    y: data.y - ACCOUNT_HEIGHT / 2,
+    width: ACCOUNT_WIDTH,
+    height: ACCOUNT_HEIGHT,
+    status: 'deficit', // Will be computed
+    shortfall: 0, // Will be computed
+    capacity: 0, // Will be computed
+    overflow: 0, // Will be computed
+  })
+
+  return calculateNetworkTotals({
+    ...network,
+    accounts: [...network.accounts, account],
+  })
+}
+
+/**
+ * First "Account N" name not already taken
+ */
+export function nextAccountName(network: FlowFundingNetwork): string {
+  return nextName('Account', network.accounts.map(a => a.name), network.accounts.length + 1)
+}
+
+/**
+ * Change an account's name, balance or thresholds
+ *
+ * Amounts are clamped at 0. Thresholds are not reordered: changing one never
+ * rewrites the other, and a minimum above the maximum is left for validation
+ * to report.
+ */
+export function updateAccount(
+  network: FlowFundingNetwork,
+  accountId: string,
+  changes: AccountChanges
+): FlowFundingNetwork {
+  return calculateNetworkTotals({
+    ...network,
+    accounts: network.accounts.map(account => {
+      if (account.id !== accountId) return account
+
+      const updated = { ...account, ...changes }
+      updated.balance = Math.max(0, updated.balance)
+      updated.minThreshold = Math.max(0, updated.minThreshold)
+      updated.maxThreshold = Math.max(0, updated.maxThreshold)
+      return updateAccountComputedProperties(updated)
+    }),
+  })
+}
+
+/**
+ * Remove an account and every allocation to or from it
+ *
+ * Sources that lose a target have their remaining allocations renormalized.
+ */
+export function removeAccount(network: FlowFundingNetwork, accountId: string): FlowFundingNetwork {
+  return calculateNetworkTotals({
+    ...network,
+    accounts: network.accounts.filter(a => a.id !== accountId),
+    allocations: removeNodeAllocations(network.allocations, accountId, ENDS, normalizeAllocations),
+  })
+}
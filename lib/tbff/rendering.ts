@@ -1,9 +1,24 @@
 /**
  * Canvas rendering functions for Flow Funding visualization
+ *
+ * The network is drawn through a viewport (pan/zoom); accounts and
+ * allocations outside it are skipped and labels are dropped when zoomed out
+ * (see ../core/viewport).
  */
 
-import type { FlowFundingAccount, FlowFundingNetwork, Allocation } from './types'
+import type { FlowFundingAccount, FlowFundingNetwork, Allocation, FlowParticle } from './types'
 import { getStatusColor, getAccountCenter, formatCurrency, formatPercentage } from './utils'
+import { formatLimits } from '../core/limits'
+import {
+  DEFAULT_VIEWPORT,
+  boxVisible,
+  detailLevel,
+  segmentVisible,
+  visibleBounds,
+  type Bounds,
+  type DetailLevel,
+  type Viewport,
+} from '../core/viewport'
 
 /**
  * Draw threshold line inside account rectangle
@@ -42,7 +57,8 @@ function drawThresholdLine(
 export function renderAccount(
   ctx: CanvasRenderingContext2D,
   account: FlowFundingAccount,
-  isSelected: boolean = false
+  isSelected: boolean = false,
+  detail: DetailLevel = 'full'
 ) {
   // Draw border (thicker if selected)
   ctx.strokeStyle = isSelected ? '#22d3ee' : getStatusColor(account.status)
@@ -67,6 +83,15 @@ export function renderAccount(
   ctx.fillStyle = gradient
   ctx.fillRect(account.x, fillY, account.width, fillHeight)
 
+  if (detail === 'minimal') return
+
+  if (detail === 'reduced') {
+    ctx.fillStyle = '#ffffff'
+    ctx.font = 'bold 16px sans-serif'
+    ctx.fillText(account.name, account.x + 10, account.y + 25)
+    return
+  }
+
   // Draw threshold lines
   if (account.minThreshold > 0) {
     drawThresholdLine(ctx, account, account.minThreshold, '#ef4444', 'Min')
@@ -173,7 +198,8 @@ export function renderAllocation(
   allocation: Allocation,
   sourceAccount: FlowFundingAccount,
   targetAccount: FlowFundingAccount,
-  isSelected: boolean = false
+  isSelected: boolean = false,
+  detail: DetailLevel = 'full'
 ) {
   const start = getAccountCenter(sourceAccount)
   const end = getAccountCenter(targetAccount)
@@ -197,9 +223,19 @@ export function renderAllocation(
   ctx.lineTo(end.x, end.y)
   ctx.stroke()
 
+  if (detail === 'minimal') {
+    ctx.globalAlpha = 1.0
+    return
+  }
+
   // Draw arrowhead
   drawArrowhead(ctx, start.x, start.y, end.x, end.y, color, width * 1.8)
 
+  if (detail === 'reduced') {
+    ctx.globalAlpha = 1.0
+    return
+  }
+
   // Draw percentage label at midpoint
   const midX = (start.x + end.x) / 2
   const midY = (start.y + end.y) / 2
@@ -207,7 +243,9 @@ export function renderAllocation(
   // Background for label
   ctx.globalAlpha = 0.8
   ctx.fillStyle = '#1e293b'
-  const labelText = formatPercentage(allocation.percentage)
+  const labelText = [formatPercentage(allocation.percentage), formatLimits(allocation)]
+    .filter(Boolean)
+    .join(' ')
   const textMetrics = ctx.measureText(labelText)
   ctx.fillRect(midX - 2, midY - 18, textMetrics.width + 8, 20)
 
@@ -220,6 +258,91 @@ export function renderAllocation(
   ctx.globalAlpha = 1.0
 }
 
+/**
+ * Render funds moving along allocation arrows (replay of a funding round)
+ *
+ * Particles that haven't set off or have arrived sit inside an account box,
+ * so only those in flight are drawn.
+ */
+export function renderFlowParticles(
+  ctx: CanvasRenderingContext2D,
+  particles: FlowParticle[],
+  network: FlowFundingNetwork,
+  bounds?: Bounds
+) {
+  const accountsById = new Map(network.accounts.map((a) => [a.id, a]))
+  const allocationsById = new Map(network.allocations.map((a) => [a.id, a]))
+
+  ctx.fillStyle = '#34d399'
+  ctx.beginPath()
+  particles.forEach((particle) => {
+    if (particle.progress <= 0 || particle.progress >= 1) return
+
+    const allocation = allocationsById.get(particle.allocationId)
+    const source = allocation && accountsById.get(allocation.sourceAccountId)
+    const target = allocation && accountsById.get(allocation.targetAccountId)
+    if (!source || !target) return
+
+    const start = getAccountCenter(source)
+    const end = getAccountCenter(target)
+    const x = start.x + (end.x - start.x) * particle.progress
+    const y = start.y + (end.y - start.y) * particle.progress
+
+    // Particle size based on amount
+    const size = Math.max(3, Math.min(8, particle.amount / 50))
+    if (bounds && !boxVisible(bounds, { x: x - size, y: y - size, width: 2 * size, height: 2 * size })) return
+
+    ctx.moveTo(x + size, y)
+    ctx.arc(x, y, size, 0, 2 * Math.PI)
+  })
+  ctx.fill()
+}
+
+/**
+ * Outline highlighted accounts (e.g. a cycle picked in the analysis panel)
+ * and the allocations between them
+ */
+function renderHighlight(
+  ctx: CanvasRenderingContext2D,
+  network: FlowFundingNetwork,
+  accountsById: ReadonlyMap<string, FlowFundingAccount>,
+  highlightedIds: ReadonlySet<string>,
+  layer: 'allocations' | 'accounts'
+) {
+  if (highlightedIds.size === 0) return
+
+  ctx.strokeStyle = '#fb923c'
+
+  if (layer === 'allocations') {
+    ctx.globalAlpha = 0.35
+    ctx.lineWidth = 18
+    network.allocations.forEach((allocation) => {
+      if (!highlightedIds.has(allocation.sourceAccountId) || !highlightedIds.has(allocation.targetAccountId)) return
+      const source = accountsById.get(allocation.sourceAccountId)
+      const target = accountsById.get(allocation.targetAccountId)
+      if (!source || !target) return
+
+      const start = getAccountCenter(source)
+      const end = getAccountCenter(target)
+      ctx.beginPath()
+      ctx.moveTo(start.x, start.y)
+      ctx.lineTo(end.x, end.y)
+      ctx.stroke()
+    })
+    ctx.globalAlpha = 1.0
+    return
+  }
+
+  ctx.lineWidth = 3
+  ctx.setLineDash([8, 4])
+  network.accounts.forEach((account) => {
+    if (highlightedIds.has(account.id)) {
+      ctx.strokeRect(account.x - 8, account.y - 8, account.width + 16, account.height + 16)
+    }
+  })
+  ctx.setLineDash([])
+}
+
 /**
  * Clear and render entire network
  */
@@ -229,34 +352,55 @@ export function renderNetwork(
   canvasWidth: number,
   canvasHeight: number,
   selectedAccountId: string | null = null,
-  selectedAllocationId: string | null = null
+  selectedAllocationId: string | null = null,
+  highlightedIds: ReadonlySet<string> = new Set(),
+  viewport: Viewport = DEFAULT_VIEWPORT,
+  particles: FlowParticle[] = []
 ) {
   // Clear canvas
+  ctx.setTransform(1, 0, 0, 1, 0, 0)
   ctx.fillStyle = '#0f172a'
   ctx.fillRect(0, 0, canvasWidth, canvasHeight)
 
+  ctx.setTransform(viewport.scale, 0, 0, viewport.scale, viewport.x, viewport.y)
+  // Margin covers selection outlines and labels drawn just outside the boxes
+  const bounds = visibleBounds(viewport, canvasWidth, canvasHeight, 20)
+  const detail = detailLevel(viewport.scale)
+  const accountsById = new Map(network.accounts.map((a) => [a.id, a]))
+
+  renderHighlight(ctx, network, accountsById, highlightedIds, 'allocations')
+
   // Draw allocations first (so they appear behind accounts)
   network.allocations.forEach((allocation) => {
-    const sourceAccount = network.accounts.find((a) => a.id === allocation.sourceAccountId)
-    const targetAccount = network.accounts.find((a) => a.id === allocation.targetAccountId)
-
-    if (sourceAccount && targetAccount) {
-      renderAllocation(
-        ctx,
-        allocation,
-        sourceAccount,
-        targetAccount,
-        allocation.id === selectedAllocationId
-      )
-    }
+    const sourceAccount = accountsById.get(allocation.sourceAccountId)
+    const targetAccount = accountsById.get(allocation.targetAccountId)
+    if (!sourceAccount || !targetAccount) return
+
+    const start = getAccountCenter(sourceAccount)
+    const end = getAccountCenter(targetAccount)
+    if (!segmentVisible(bounds, start.x, start.y, end.x, end.y)) return
+
+    renderAllocation(
+      ctx,
+      allocation,
+      sourceAccount,
+      targetAccount,
+      allocation.id === selectedAllocationId,
+      detail
+    )
   })
 
+  renderFlowParticles(ctx, particles, network, bounds)
+
   // Draw accounts
   network.accounts.forEach((account) => {
-    renderAccount(ctx, account, account.id === selectedAccountId)
+    if (!boxVisible(bounds, account)) return
+    renderAccount(ctx, account, account.id === selectedAccountId, detail)
   })
+  renderHighlight(ctx, network, accountsById, highlightedIds, 'accounts')
 
-  // Draw network stats in corner
+  // Draw network stats in corner (screen space)
+  ctx.setTransform(1, 0, 0, 1, 0, 0)
   drawNetworkStats(ctx, network, canvasWidth)
 }
 
@@ -21,6 +21,8 @@ export interface FlowFundingAccount {
   balance: number
   minThreshold: number
   maxThreshold: number
+  consumptionRate?: number  // Spent per period (burn rate)
+  priority?: number         // Weight under the priority-weighted strategy (default 1)
 
   // Visual Position (for canvas rendering)
   x: number
@@ -45,6 +47,8 @@ export interface Allocation {
   sourceAccountId: string
   targetAccountId: string
   percentage: number  // 0.0 to 1.0 (e.g., 0.5 = 50%)
+  floor?: number      // Paid before other allocations from the source
+  cap?: number        // Most this allocation carries per round
 
   // Visual (calculated dynamically from account positions)
   x1?: number
@@ -76,7 +80,7 @@ export interface FlowParticle {
   allocationId: string
   progress: number      // 0.0 to 1.0 along the path
   amount: number        // Funds being transferred
-  startTime: number     // timestamp when particle was created
+  startTime: number     // milliseconds after its step starts that the particle sets off
   duration: number      // milliseconds for animation
 }
 
@@ -87,6 +91,7 @@ export interface RedistributionStep {
   iteration: number
   overflows: Array<{ accountId: string; amount: number }>
   deltas: Record<string, number>  // accountId -> balance change
+  transfers: Record<string, number>  // allocationId -> amount moved along it
   flowParticles: FlowParticle[]
 }
 
@@ -101,10 +106,17 @@ export type FundingStep =
   | { type: 'complete' }
 
 /**
- * ValidationResult for network validation
+ * FundingRound records a whole funding round for replay: every step with
+ * the network as it stands right after that step
  */
-export interface ValidationResult {
-  valid: boolean
-  errors: string[]
-  warnings: string[]
+export interface FundingRound {
+  steps: Array<{ step: FundingStep; network: FlowFundingNetwork }>
+  redistribution: RedistributionStep[]
+  network: FlowFundingNetwork  // Final state (same as the last step's)
+  converged: boolean           // False if overflow was still moving when redistribution stopped
 }
+
+/**
+ * Validation result (shared by all engines)
+ */
+export type { ValidationResult } from '../core/types'
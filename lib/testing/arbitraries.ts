@@ -0,0 +1,94 @@
+/**
+ * Random Network Generators for Property Tests
+ *
+ * Builds a random core graph (thresholds + weighted edges) and converts it
+ * into each model's network type with the core adapters.
+ */
+
+import fc from 'fast-check'
+import * as adapters from '../core/adapters'
+import type { FundingGraph } from '../core/types'
+import type { Account } from '../flow-funding/types'
+import type { FlowNode as FlowNodeV2 } from '../flow-v2/types'
+import type { FlowFundingNetwork } from '../tbff/types'
+import type { FlowNetwork } from '../tbff-flow/types'
+
+/**
+ * Random graph with 1-8 nodes, min < max, and self-free allocations that
+ * sum to 100% (nodes without allocations lose their overflow)
+ */
+export const randomGraph: fc.Arbitrary<FundingGraph> = fc
+  .integer({ min: 1, max: 8 })
+  .chain(size =>
+    fc.array(
+      fc.record({
+        amount: fc.integer({ min: 0, max: 1000 }),
+        minThreshold: fc.integer({ min: 0, max: 500 }),
+        range: fc.integer({ min: 1, max: 500 }),
+        weights: fc.array(fc.integer({ min: 0, max: 10 }), {
+          minLength: size,
+          maxLength: size,
+        }),
+      }),
+      { minLength: size, maxLength: size }
+    )
+  )
+  .map(raw => ({
+    nodes: raw.map((node, index) => ({
+      id: `n${index}`,
+      name: `n${index}`,
+      amount: node.amount,
+      minThreshold: node.minThreshold,
+      maxThreshold: node.minThreshold + node.range,
+    })),
+    edges: raw.flatMap((node, index) => {
+      const weights = node.weights.map((w, target) => (target === index ? 0 : w))
+      const total = weights.reduce((sum, w) => sum + w, 0)
+      return weights.flatMap((w, target) =>
+        w > 0
+          ? [{ id: `n${index}->n${target}`, source: `n${index}`, target: `n${target}`, weight: w / total }]
+          : []
+      )
+    }),
+  }))
+
+/**
+ * Funding amounts from nothing up to well beyond typical network capacity
+ */
+export const randomFunding = fc.integer({ min: 0, max: 10000 })
+
+// ============================================================================
+// Model conversions
+// ============================================================================
+
+export function toAccounts(graph: FundingGraph): Account[] {
+  // Start strictly below max so every account has some capacity
+  return adapters.toAccounts({
+    ...graph,
+    nodes: graph.nodes.map(n => ({ ...n, amount: Math.min(n.amount, n.maxThreshold - 1) })),
+  })
+}
+
+export function toFlowNodesV2(graph: FundingGraph): FlowNodeV2[] {
+  return adapters.toFlowNodesV2(graph)
+}
+
+export function toTbffNetwork(graph: FundingGraph): FlowFundingNetwork {
+  return adapters.toTbffNetwork(
+    { ...graph, nodes: graph.nodes.map(n => ({ ...n, amount: Math.min(n.amount, n.maxThreshold) })) },
+    'Random'
+  )
+}
+
+export function toFlowNetwork(graph: FundingGraph): FlowNetwork {
+  return adapters.toFlowNetwork(graph, 'Random')
+}
+
+/**
+ * Sum of a numeric field
+ */
+export function sum<T>(items: Iterable<T>, value: (item: T) => number): number {
+  let total = 0
+  for (const item of items) total += value(item)
+  return total
+}
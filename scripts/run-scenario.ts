@@ -0,0 +1,528 @@
+#!/usr/bin/env node
+
+/**
+ * Headless Scenario Runner
+ *
+ * Runs any of the four flow funding engines outside the browser and prints
+ * final balances, flows and convergence info as a table or JSON.
+ *
+ * Usage:
+ *   pnpm simulate <engine> (--scenario <id> | --file <path>) [options]
+ *
+ * Engines:
+ *   flow-funding   runDistribution (global funding)
+ *   targeted       runTargetedDistribution (funding added to --target)
+ *   flow-v2        calculateSteadyState
+ *   tbff-flow      propagateFlow
+ *   tbff           runFundingRound (initial distribution + overflow redistribution)
+ */
+
+import { readFileSync } from 'fs'
+import { parseArgs } from 'util'
+
+import { DISTRIBUTION_STRATEGIES, type StrategyId } from '../lib/core/strategies'
+import { cloneAccounts, runDistribution, type SolverMode } from '../lib/flow-funding/engine'
+import { runTargetedDistribution } from '../lib/flow-funding/targeted'
+import { ALL_SCENARIOS, getScenario } from '../lib/flow-funding/scenarios'
+import { getAccountState, type Account, type DistributionResult } from '../lib/flow-funding/types'
+import { calculateSteadyState, cloneNodes, getFlowZone } from '../lib/flow-v2/engine-v2'
+import { ALL_SCENARIOS_V2, getScenarioV2 } from '../lib/flow-v2/scenarios-v2'
+import type { FlowNode as FlowNodeV2 } from '../lib/flow-v2/types'
+import { propagateFlow, splitOutflow } from '../lib/tbff-flow/algorithms'
+import { flowSampleNetworks, getFlowSampleNetwork } from '../lib/tbff-flow/sample-networks'
+import type { FlowNetwork } from '../lib/tbff-flow/types'
+import { calculateFlowNetworkTotals, updateFlowNodeProperties } from '../lib/tbff-flow/utils'
+import { roundTransfers, runFundingRound } from '../lib/tbff/algorithms'
+import { getSampleNetwork, sampleNetworks } from '../lib/tbff/sample-networks'
+import type { FlowFundingNetwork } from '../lib/tbff/types'
+import type { NetworkDocumentOf, NetworkModel } from '../lib/network-io/schema'
+import {
+  deserializeFlowNetwork,
+  deserializeScenario,
+  deserializeScenarioV2,
+  deserializeTbffNetwork,
+  parseNetworkDocumentOf,
+} from '../lib/network-io/serialization'
+
+type Engine = 'flow-funding' | 'targeted' | 'flow-v2' | 'tbff-flow' | 'tbff'
+
+const ENGINES: Engine[] = ['flow-funding', 'targeted', 'flow-v2', 'tbff-flow', 'tbff']
+
+/**
+ * Engine-independent summary of a run
+ */
+interface RunReport {
+  engine: Engine
+  source: string
+  funding: number
+  accounts: Array<{
+    id: string
+    name: string
+    min: number
+    max: number
+    initial: number
+    final: number
+    state: string
+  }>
+  flows: Array<{ source: string; target: string; amount: number }>
+  /** Overflow no allocation could place: lost, circulating or held above maximum */
+  unplacedOverflow?: number
+  converged: boolean
+  iterations: number
+}
+
+interface RunOptions {
+  scenario?: string
+  file?: string
+  funding?: number
+  target?: string
+  solver: SolverMode
+  strategy: StrategyId
+  verbose: boolean
+}
+
+const USAGE = `Usage: pnpm simulate <engine> (--scenario <id> | --file <path>) [options]
+
+Engines: ${ENGINES.join(', ')}
+
+Options:
+  --scenario <id>    Preset scenario / sample network id
+  --file <path>      Load a network exported with "Export JSON" instead
+  --funding <n>      Funding amount (flow-v2 / tbff-flow: total inflow per month)
+  --target <id>      Account that receives the funding (targeted, flow-v2, tbff-flow)
+  --solver <mode>    iterative | exact (flow-funding, targeted)
+  --strategy <id>    Initial distribution strategy (flow-funding, tbff):
+                     ${Object.keys(DISTRIBUTION_STRATEGIES).join(', ')}
+  --format <fmt>     table | json (default: table)
+  --verbose          Forward engine logs to stderr
+  --list             List available scenario ids per engine
+  --help             Show this message`
+
+/**
+ * Read a network document exported from one of the demo pages
+ */
+function readNetworkFile<M extends NetworkModel>(path: string, model: M): NetworkDocumentOf<M> {
+  return parseNetworkDocumentOf(readFileSync(path, 'utf8'), model)
+}
+
+function requireSource(options: RunOptions): void {
+  if (!options.scenario && !options.file) {
+    throw new Error('Specify --scenario <id> or --file <path> (see --list)')
+  }
+}
+
+/**
+ * Settled transfer per edge
+ */
+function totalFlows(result: DistributionResult): RunReport['flows'] {
+  return Array.from(result.flows.entries()).map(([key, amount]) => {
+    const [source, target] = key.split('->')
+    return { source, target, amount }
+  })
+}
+
+function loadAccounts(options: RunOptions): { accounts: Account[]; source: string; suggested: number } {
+  requireSource(options)
+  if (options.file) {
+    const scenario = deserializeScenario(readNetworkFile(options.file, 'flow-funding'))
+    return { accounts: scenario.accounts, source: options.file, suggested: scenario.suggestedFunding }
+  }
+
+  const scenario = getScenario(options.scenario!)
+  if (!scenario) throw new Error(`Unknown flow-funding scenario: ${options.scenario}`)
+  return {
+    accounts: cloneAccounts(scenario.accounts),
+    source: scenario.id,
+    suggested: scenario.suggestedFunding,
+  }
+}
+
+function reportDistribution(
+  engine: Engine,
+  source: string,
+  funding: number,
+  accounts: Account[],
+  result: DistributionResult
+): RunReport {
+  const lastIteration = result.iterations[result.iterations.length - 1]
+
+  return {
+    engine,
+    source,
+    funding,
+    accounts: accounts.map(a => {
+      const final = result.finalBalances.get(a.id) || 0
+      return {
+        id: a.id,
+        name: a.name,
+        min: a.minThreshold,
+        max: a.maxThreshold,
+        initial: result.initialBalances.get(a.id) || 0,
+        final,
+        state: getAccountState(
+          final,
+          a.minThreshold,
+          a.maxThreshold,
+          !result.converged && (lastIteration?.overflows.get(a.id) || 0) > 0
+        ),
+      }
+    }),
+    flows: totalFlows(result),
+    unplacedOverflow: result.overflowLost + result.overflowCirculating,
+    converged: result.converged,
+    iterations: result.iterationCount,
+  }
+}
+
+function runFlowFunding(options: RunOptions): RunReport {
+  const { accounts, source, suggested } = loadAccounts(options)
+  const funding = options.funding ?? suggested
+  const result = runDistribution(accounts, funding, {
+    solver: options.solver,
+    strategy: options.strategy,
+    verbose: options.verbose,
+  })
+  return reportDistribution('flow-funding', source, funding, accounts, result)
+}
+
+function runTargeted(options: RunOptions): RunReport {
+  const { accounts, source, suggested } = loadAccounts(options)
+  const target = accounts.find(a => a.id === options.target)
+  if (!target) throw new Error('targeted engine requires --target <account id>')
+
+  const funding = options.funding ?? suggested
+  target.balance += funding
+  const result = runTargetedDistribution(accounts, {
+    solver: options.solver,
+    verbose: options.verbose,
+  })
+
+  // Report balances relative to before the injection
+  result.initialBalances.set(target.id, (result.initialBalances.get(target.id) || 0) - funding)
+  return reportDistribution('targeted', source, funding, accounts, result)
+}
+
+/**
+ * Apply a funding amount to external inflows: all of it to `target`, or
+ * scaled across the existing inflows (split evenly if they are all zero)
+ */
+function applyInflow<T>(
+  items: T[],
+  funding: number | undefined,
+  target: string | undefined,
+  getId: (item: T) => string,
+  getInflow: (item: T) => number,
+  setInflow: (item: T, value: number) => T
+): T[] {
+  if (funding === undefined) return items
+
+  if (target) {
+    if (!items.some(item => getId(item) === target)) {
+      throw new Error(`Unknown target: ${target}`)
+    }
+    return items.map(item => (getId(item) === target ? setInflow(item, funding) : item))
+  }
+
+  const total = items.reduce((sum, item) => sum + getInflow(item), 0)
+  return items.map(item =>
+    setInflow(item, total > 0 ? (getInflow(item) / total) * funding : funding / items.length)
+  )
+}
+
+function runFlowV2(options: RunOptions): RunReport {
+  requireSource(options)
+  let nodes: FlowNodeV2[]
+  let source: string
+
+  if (options.file) {
+    nodes = deserializeScenarioV2(readNetworkFile(options.file, 'flow-v2')).nodes
+    source = options.file
+  } else {
+    const scenario = getScenarioV2(options.scenario!)
+    if (!scenario) throw new Error(`Unknown flow-v2 scenario: ${options.scenario}`)
+    nodes = cloneNodes(scenario.nodes)
+    source = scenario.id
+  }
+
+  nodes = applyInflow(
+    nodes,
+    options.funding,
+    options.target,
+    n => n.id,
+    n => n.externalInflow,
+    (n, value) => ({ ...n, externalInflow: value })
+  )
+
+  const network = calculateSteadyState(nodes)
+
+  return {
+    engine: 'flow-v2',
+    source,
+    funding: network.totalExternalInflow,
+    accounts: Array.from(network.nodes.values()).map(n => ({
+      id: n.id,
+      name: n.name,
+      min: n.minThreshold,
+      max: n.maxThreshold,
+      initial: n.externalInflow,
+      final: (n.totalInflow || 0) - (n.totalOutflow || 0),
+      state: getFlowZone(n),
+    })),
+    flows: network.edges.map(e => ({ source: e.source, target: e.target, amount: e.flowRate })),
+    converged: network.converged,
+    iterations: network.iterations,
+  }
+}
+
+function runTbffFlow(options: RunOptions): RunReport {
+  requireSource(options)
+  let network: FlowNetwork
+  let source: string
+
+  if (options.file) {
+    network = deserializeFlowNetwork(readNetworkFile(options.file, 'tbff-flow'))
+    source = options.file
+  } else {
+    if (!(options.scenario! in flowSampleNetworks)) {
+      throw new Error(`Unknown tbff-flow network: ${options.scenario}`)
+    }
+    network = getFlowSampleNetwork(options.scenario as keyof typeof flowSampleNetworks)
+    source = options.scenario!
+  }
+
+  const nodes = applyInflow(
+    network.nodes.filter(n => !n.isOverflowSink),
+    options.funding,
+    options.target,
+    n => n.id,
+    n => n.externalFlow,
+    (n, value) => ({ ...n, externalFlow: value })
+  )
+  network = calculateFlowNetworkTotals({
+    ...network,
+    nodes: [...nodes, ...network.nodes.filter(n => n.isOverflowSink)].map(updateFlowNodeProperties),
+  })
+
+  const result = propagateFlow(network)
+  const finalNodes = result.network.nodes
+
+  // Flow along each allocation, plus what each node sends to the overflow
+  // sink (unallocated or above allocation caps), so the flows balance
+  const sinkId = result.network.overflowNodeId ?? '(lost)'
+  const flows = finalNodes
+    .filter(n => !n.isOverflowSink && n.outflow > 0)
+    .flatMap(node => {
+      const split = splitOutflow(node, result.network.allocations)
+      const allocated = result.network.allocations
+        .filter(a => a.sourceNodeId === node.id)
+        .map(a => ({ source: node.id, target: a.targetNodeId, amount: split.get(a.id) || 0 }))
+      const toSink = node.outflow - allocated.reduce((sum, f) => sum + f.amount, 0)
+      return [...allocated, { source: node.id, target: sinkId, amount: toSink }]
+    })
+
+  return {
+    engine: 'tbff-flow',
+    source,
+    funding: result.network.totalInflow,
+    accounts: finalNodes.map(n => ({
+      id: n.id,
+      name: n.name,
+      min: n.minAbsorption,
+      max: n.maxAbsorption,
+      initial: n.externalFlow,
+      final: n.absorbed,
+      state: n.status,
+    })),
+    flows: flows.filter(f => f.amount > 1e-9),
+    converged: result.converged,
+    iterations: result.iterations,
+  }
+}
+
+function runTbff(options: RunOptions): RunReport {
+  requireSource(options)
+  let network: FlowFundingNetwork
+  let source: string
+
+  if (options.file) {
+    network = deserializeTbffNetwork(readNetworkFile(options.file, 'tbff'))
+    source = options.file
+  } else {
+    if (!(options.scenario! in sampleNetworks)) {
+      throw new Error(`Unknown tbff network: ${options.scenario}`)
+    }
+    network = getSampleNetwork(options.scenario as keyof typeof sampleNetworks)
+    source = options.scenario!
+  }
+
+  const funding = options.funding ?? 0
+  const round = runFundingRound(network, funding, options.strategy)
+  const after = round.network
+
+  return {
+    engine: 'tbff',
+    source,
+    funding,
+    accounts: after.accounts.map(a => ({
+      id: a.id,
+      name: a.name,
+      min: a.minThreshold,
+      max: a.maxThreshold,
+      initial: network.accounts.find(b => b.id === a.id)?.balance || 0,
+      final: a.balance,
+      state: a.status,
+    })),
+    flows: Array.from(roundTransfers(round), ([allocationId, amount]) => {
+      const allocation = network.allocations.find(a => a.id === allocationId)!
+      return { source: allocation.sourceAccountId, target: allocation.targetAccountId, amount }
+    }),
+    // Overflow no allocation can take stays with its account
+    unplacedOverflow: after.totalOverflow,
+    converged: round.converged,
+    iterations: round.redistribution.length,
+  }
+}
+
+const RUNNERS: Record<Engine, (options: RunOptions) => RunReport> = {
+  'flow-funding': runFlowFunding,
+  targeted: runTargeted,
+  'flow-v2': runFlowV2,
+  'tbff-flow': runTbffFlow,
+  tbff: runTbff,
+}
+
+/**
+ * Render rows as a padded text table
+ */
+function formatTable(headers: string[], rows: string[][]): string {
+  const widths = headers.map((h, i) =>
+    Math.max(h.length, ...rows.map(row => row[i].length))
+  )
+  const line = (cells: string[]) =>
+    cells.map((cell, i) => (i === 0 ? cell.padEnd(widths[i]) : cell.padStart(widths[i]))).join('  ')
+
+  return [line(headers), widths.map(w => '-'.repeat(w)).join('  '), ...rows.map(line)].join('\n')
+}
+
+function printReport(report: RunReport): void {
+  console.log(`${report.engine} · ${report.source} · funding ${report.funding.toFixed(2)}\n`)
+
+  console.log(
+    formatTable(
+      ['Account', 'Min', 'Max', 'Initial', 'Final', 'Change', 'State'],
+      report.accounts.map(a => [
+        `${a.name} (${a.id})`,
+        a.min.toFixed(2),
+        a.max.toFixed(2),
+        a.initial.toFixed(2),
+        a.final.toFixed(2),
+        `${a.final - a.initial >= 0 ? '+' : ''}${(a.final - a.initial).toFixed(2)}`,
+        a.state,
+      ])
+    )
+  )
+
+  if (report.flows.length > 0) {
+    console.log('\n' + formatTable(
+      ['Flow', 'Amount'],
+      report.flows.map(f => [`${f.source} → ${f.target}`, f.amount.toFixed(2)])
+    ))
+  }
+
+  if (report.unplacedOverflow !== undefined && report.unplacedOverflow > 0.01) {
+    console.log(`\nOverflow not placed: ${report.unplacedOverflow.toFixed(2)}`)
+  }
+
+  console.log(
+    `\n${report.converged ? '✓ Converged' : '⚠ Did not converge'} ` +
+    `(${report.iterations} iterations)`
+  )
+}
+
+function printScenarioList(): void {
+  console.log(`flow-funding, targeted: ${ALL_SCENARIOS.map(s => s.id).join(', ')}`)
+  console.log(`flow-v2: ${ALL_SCENARIOS_V2.map(s => s.id).join(', ')}`)
+  console.log(`tbff-flow: ${Object.keys(flowSampleNetworks).join(', ')}`)
+  console.log(`tbff: ${Object.keys(sampleNetworks).join(', ')}`)
+}
+
+function main(): void {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      scenario: { type: 'string', short: 's' },
+      file: { type: 'string', short: 'f' },
+      funding: { type: 'string' },
+      target: { type: 'string', short: 't' },
+      solver: { type: 'string', default: 'iterative' },
+      strategy: { type: 'string', default: 'proportional-shortfall' },
+      format: { type: 'string', default: 'table' },
+      verbose: { type: 'boolean', default: false },
+      list: { type: 'boolean', default: false },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  })
+
+  if (values.help) {
+    console.log(USAGE)
+    return
+  }
+  if (values.list) {
+    printScenarioList()
+    return
+  }
+
+  const engine = positionals[0] as Engine
+  if (!ENGINES.includes(engine)) {
+    throw new Error(`Unknown engine "${positionals[0] ?? ''}"\n\n${USAGE}`)
+  }
+  if (values.solver !== 'iterative' && values.solver !== 'exact') {
+    throw new Error(`Unknown solver: ${values.solver}`)
+  }
+  if (!(values.strategy! in DISTRIBUTION_STRATEGIES)) {
+    throw new Error(`Unknown strategy: ${values.strategy}`)
+  }
+  if (values.format !== 'table' && values.format !== 'json') {
+    throw new Error(`Unknown format: ${values.format}`)
+  }
+
+  const funding = values.funding === undefined ? undefined : Number(values.funding)
+  if (funding !== undefined && !(funding >= 0)) {
+    throw new Error(`Invalid funding amount: ${values.funding}`)
+  }
+
+  // Engines log progress to the console - keep stdout clean for the report
+  const log = console.log
+  const warn = console.warn
+  console.log = values.verbose ? console.error : () => {}
+  console.warn = values.verbose ? console.error : () => {}
+
+  let report: RunReport
+  try {
+    report = RUNNERS[engine]({
+      scenario: values.scenario,
+      file: values.file,
+      funding,
+      target: values.target,
+      solver: values.solver,
+      strategy: values.strategy as StrategyId,
+      verbose: values.verbose!,
+    })
+  } finally {
+    console.log = log
+    console.warn = warn
+  }
+
+  if (values.format === 'json') {
+    console.log(JSON.stringify(report, null, 2))
+  } else {
+    printReport(report)
+  }
+}
+
+try {
+  main()
+} catch (error) {
+  console.error(`❌ ${error instanceof Error ? error.message : error}`)
+  process.exit(1)
+}